@@ -5,10 +5,16 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { SupabaseProvider } from "@/contexts/SupabaseContext";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { AgencyRegistryProvider } from "@/contexts/AgencyRegistryContext";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
 import Index from "./pages/Index";
 import RenewalsStatusPage from "./pages/RenewalsStatusPage";
 import LaunchStatusPage from "./pages/LaunchStatusPage";
+import UploadHistoryPage from "./pages/UploadHistoryPage";
+import ScheduledReportsPage from "./pages/ScheduledReportsPage";
+import MyTasksPage from "./pages/MyTasksPage";
+import AgenciesPage from "./pages/AgenciesPage";
+import CampaignDetailPage from "./pages/CampaignDetailPage";
 
 const queryClient = new QueryClient();
 
@@ -16,39 +22,81 @@ const App = () => (
   <QueryClientProvider client={queryClient}>
     <AuthProvider>
       <SupabaseProvider>
-        <TooltipProvider>
-          <Toaster />
-          <Sonner />
-          <BrowserRouter>
-            <Routes>
-              <Route
-                path="/"
-                element={
-                  <ProtectedRoute>
-                    <Index />
-                  </ProtectedRoute>
-                }
-              />
-              <Route
-                path="/renewals-status"
-                element={
-                  <ProtectedRoute>
-                    <RenewalsStatusPage />
-                  </ProtectedRoute>
-                }
-              />
-              <Route
-                path="/launch-status"
-                element={
-                  <ProtectedRoute>
-                    <LaunchStatusPage />
-                  </ProtectedRoute>
-                }
-              />
-              <Route path="*" element={<Index />} />
-            </Routes>
-          </BrowserRouter>
-        </TooltipProvider>
+        <AgencyRegistryProvider>
+          <TooltipProvider>
+            <Toaster />
+            <Sonner />
+            <BrowserRouter>
+              <Routes>
+                <Route
+                  path="/"
+                  element={
+                    <ProtectedRoute>
+                      <Index />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/renewals-status"
+                  element={
+                    <ProtectedRoute>
+                      <RenewalsStatusPage />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/launch-status"
+                  element={
+                    <ProtectedRoute>
+                      <LaunchStatusPage />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/upload-history"
+                  element={
+                    <ProtectedRoute>
+                      <UploadHistoryPage />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/scheduled-reports"
+                  element={
+                    <ProtectedRoute>
+                      <ScheduledReportsPage />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/my-tasks"
+                  element={
+                    <ProtectedRoute>
+                      <MyTasksPage />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/agencies"
+                  element={
+                    <ProtectedRoute>
+                      <AgenciesPage />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/campaigns/:campaignName"
+                  element={
+                    <ProtectedRoute>
+                      <CampaignDetailPage />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route path="*" element={<Index />} />
+              </Routes>
+            </BrowserRouter>
+          </TooltipProvider>
+        </AgencyRegistryProvider>
       </SupabaseProvider>
     </AuthProvider>
   </QueryClientProvider>
@@ -1,140 +0,0 @@
-import { useState } from "react";
-import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
-import { AlertTriangle, Eye, EyeOff } from "lucide-react";
-import { toast } from "sonner";
-
-interface AdminPasswordDialogProps {
-  isOpen: boolean;
-  onClose: () => void;
-  onSuccess: () => void;
-  title?: string;
-  description?: string;
-}
-
-export const AdminPasswordDialog = ({
-  isOpen,
-  onClose,
-  onSuccess,
-  title = "Admin Authentication Required",
-  description = "This action requires admin privileges. Please enter the admin password to continue."
-}: AdminPasswordDialogProps) => {
-  const [password, setPassword] = useState("");
-  const [showPassword, setShowPassword] = useState(false);
-  const [isVerifying, setIsVerifying] = useState(false);
-
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-
-    if (!password.trim()) {
-      toast.error("Please enter the admin password");
-      return;
-    }
-
-    setIsVerifying(true);
-
-    try {
-      // Get admin password from environment variables
-      const adminPassword = import.meta.env.VITE_ADMIN_PASSWORD || 'admin123';
-      console.log('Admin password from env:', adminPassword);
-      console.log('Entered password:', password);
-
-      if (password === adminPassword) {
-        toast.success("Admin authentication successful");
-        onSuccess();
-        handleClose();
-      } else {
-        toast.error("Invalid admin password");
-        setPassword("");
-      }
-    } catch (error) {
-      console.error("Admin authentication error:", error);
-      toast.error("Authentication failed");
-    } finally {
-      setIsVerifying(false);
-    }
-  };
-
-  const handleClose = () => {
-    setPassword("");
-    setShowPassword(false);
-    setIsVerifying(false);
-    onClose();
-  };
-
-  return (
-    <Dialog open={isOpen} onOpenChange={handleClose}>
-      <DialogContent className="sm:max-w-md">
-        <DialogHeader>
-          <div className="flex items-center gap-3">
-            <div className="flex h-10 w-10 items-center justify-center rounded-full bg-red-100">
-              <AlertTriangle className="h-5 w-5 text-red-600" />
-            </div>
-            <div>
-              <DialogTitle className="text-lg font-semibold text-gray-900">
-                {title}
-              </DialogTitle>
-            </div>
-          </div>
-          <DialogDescription className="text-sm text-gray-600 mt-3">
-            {description}
-          </DialogDescription>
-        </DialogHeader>
-
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="admin-password" className="text-sm font-medium">
-              Admin Password
-            </Label>
-            <div className="relative">
-              <Input
-                id="admin-password"
-                type={showPassword ? "text" : "password"}
-                placeholder="Enter admin password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                className="pr-10"
-                disabled={isVerifying}
-                autoFocus
-              />
-              <Button
-                type="button"
-                variant="ghost"
-                size="sm"
-                className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent"
-                onClick={() => setShowPassword(!showPassword)}
-                disabled={isVerifying}
-              >
-                {showPassword ? (
-                  <EyeOff className="h-4 w-4 text-gray-400" />
-                ) : (
-                  <Eye className="h-4 w-4 text-gray-400" />
-                )}
-              </Button>
-            </div>
-          </div>
-
-          <DialogFooter className="gap-2 sm:gap-0">
-            <Button
-              type="button"
-              variant="outline"
-              onClick={handleClose}
-              disabled={isVerifying}
-            >
-              Cancel
-            </Button>
-            <Button
-              type="submit"
-              variant="destructive"
-              disabled={isVerifying || !password.trim()}
-            >
-              {isVerifying ? "Verifying..." : "Authenticate"}
-            </Button>
-          </DialogFooter>
-        </form>
-      </DialogContent>
-    </Dialog>
-  );
-};
\ No newline at end of file
@@ -6,6 +6,16 @@ import { getColorClasses } from "@/utils/anomalyColors";
 import { useState, useEffect } from "react";
 import { AnomalyData, WeeklyAnomaly } from "@/types/anomaly";
 
+// Width of the expected band either side of the mean, matching detectAnomalies' default threshold
+const EXPECTED_BAND_STD_DEVS = 2;
+
+const formatExpectedBand = (anomaly: AnomalyData): string => {
+  if (!anomaly.stdDev) return "-";
+  const lower = Math.max(0, anomaly.mean - EXPECTED_BAND_STD_DEVS * anomaly.stdDev);
+  const upper = anomaly.mean + EXPECTED_BAND_STD_DEVS * anomaly.stdDev;
+  return `${Math.round(lower).toLocaleString()} – ${Math.round(upper).toLocaleString()}`;
+};
+
 interface AnomalyDetailsProps {
   anomalies: AnomalyData[];
   metric: string;
@@ -102,7 +112,7 @@ const AnomalyDetails = ({ anomalies, metric, anomalyPeriod, initialIndex, onClos
           </div>
         </div>
         
-        <div className="mt-3 grid grid-cols-2 gap-3">
+        <div className="mt-3 grid grid-cols-3 gap-3">
           <div>
             <p className="text-xs text-muted-foreground">Actual Value</p>
             <p className="text-sm font-bold">{Math.round(anomaly.actualValue).toLocaleString()}</p>
@@ -111,6 +121,10 @@ const AnomalyDetails = ({ anomalies, metric, anomalyPeriod, initialIndex, onClos
             <p className="text-xs text-muted-foreground">Expected (Mean)</p>
             <p className="text-sm font-bold">{Math.round(anomaly.mean).toLocaleString()}</p>
           </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Expected Band (±{EXPECTED_BAND_STD_DEVS}σ)</p>
+            <p className="text-sm font-bold">{formatExpectedBand(anomaly)}</p>
+          </div>
         </div>
         
         {hasDetails && weeklyAnomaly.rows && (
@@ -215,7 +229,10 @@ const AnomalyDetails = ({ anomalies, metric, anomalyPeriod, initialIndex, onClos
                       </TableCell>
                       <TableCell className="whitespace-nowrap text-xs">{anomaly.DATE}</TableCell>
                       <TableCell className="text-xs">{Math.round(anomaly.actualValue).toLocaleString()}</TableCell>
-                      <TableCell className="text-xs">{Math.round(anomaly.mean).toLocaleString()}</TableCell>
+                      <TableCell className="text-xs">
+                        {Math.round(anomaly.mean).toLocaleString()}
+                        <span className="ml-1 text-muted-foreground">({formatExpectedBand(anomaly)})</span>
+                      </TableCell>
                       <TableCell className={`text-xs ${colorClass}`}>
                         {anomaly.deviation > 0 ? "+" : ""}{anomaly.deviation.toFixed(1)}%
                       </TableCell>
@@ -283,7 +300,10 @@ const AnomalyDetails = ({ anomalies, metric, anomalyPeriod, initialIndex, onClos
                       </TableCell>
                       <TableCell className="whitespace-nowrap text-xs">{anomaly.DATE}</TableCell>
                       <TableCell className="text-xs">{Math.round(anomaly.actualValue).toLocaleString()}</TableCell>
-                      <TableCell className="text-xs">{Math.round(anomaly.mean).toLocaleString()}</TableCell>
+                      <TableCell className="text-xs">
+                        {Math.round(anomaly.mean).toLocaleString()}
+                        <span className="ml-1 text-muted-foreground">({formatExpectedBand(anomaly)})</span>
+                      </TableCell>
                       <TableCell className={`text-xs ${colorClass}`}>
                         {anomaly.deviation > 0 ? "+" : ""}{anomaly.deviation.toFixed(1)}%
                       </TableCell>
@@ -128,6 +128,8 @@ export function AnomalyFiltersComponent({ anomalies, filters, onFiltersChange }:
             <SelectItem value="transaction_drop">Transaction Drop</SelectItem>
             <SelectItem value="transaction_zero">Zero Transactions</SelectItem>
             <SelectItem value="suspected_bot_activity">Suspected Bot Activity</SelectItem>
+            <SelectItem value="baseline_deviation">Baseline Deviation</SelectItem>
+            <SelectItem value="level_shift">Level Shift</SelectItem>
           </SelectContent>
         </Select>
       </div>
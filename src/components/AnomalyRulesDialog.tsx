@@ -0,0 +1,335 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAgencies } from "@/hooks/useAgencies";
+import {
+  AnomalyDetectionRules,
+  AnomalyDetectorType,
+  AnomalyRule,
+  AnomalyRuleScope,
+  AnomalyRuleUpsert,
+  SeverityBands
+} from "@/types/anomaly";
+import {
+  ANOMALY_DETECTOR_LABELS,
+  DEFAULT_ANOMALY_RULES,
+  applyRuleOverrides,
+  diffRuleOverrides
+} from "@/utils/anomalyRules";
+
+interface AnomalyRulesDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  rules: AnomalyRule[];
+  campaignNames: string[];
+  getAgencyAbbreviation: (campaignName: string) => string;
+  onSave: (rule: AnomalyRuleUpsert) => void;
+  onReset: (scope: AnomalyRuleScope, scopeValue: string) => void;
+  isSaving?: boolean;
+}
+
+const SCOPE_LABELS: Record<AnomalyRuleScope, string> = {
+  global: 'All campaigns',
+  agency: 'Agency',
+  campaign: 'Campaign'
+};
+
+export function AnomalyRulesDialog({
+  isOpen,
+  onClose,
+  rules,
+  campaignNames,
+  getAgencyAbbreviation,
+  onSave,
+  onReset,
+  isSaving = false
+}: AnomalyRulesDialogProps) {
+  const [scope, setScope] = useState<AnomalyRuleScope>('global');
+  const [scopeValue, setScopeValue] = useState('');
+  const [values, setValues] = useState<AnomalyDetectionRules>(DEFAULT_ANOMALY_RULES);
+
+  const { activeAgencies: agencyOptions } = useAgencies();
+
+  const findRule = useCallback(
+    (ruleScope: AnomalyRuleScope, value: string) =>
+      rules.find(r => r.scope === ruleScope && r.scope_value === value),
+    [rules]
+  );
+
+  // Rules this scope inherits from (everything above it in the precedence chain)
+  const parentRules = useMemo(() => {
+    if (scope === 'global') return DEFAULT_ANOMALY_RULES;
+
+    const globalRules = applyRuleOverrides(DEFAULT_ANOMALY_RULES, findRule('global', '')?.settings);
+    if (scope === 'agency') return globalRules;
+
+    const abbreviation = scopeValue ? getAgencyAbbreviation(scopeValue) : '';
+    return applyRuleOverrides(globalRules, findRule('agency', abbreviation)?.settings);
+  }, [scope, scopeValue, findRule, getAgencyAbbreviation]);
+
+  const existingRule = findRule(scope, scopeValue);
+
+  // Load the effective values whenever the selected scope changes
+  useEffect(() => {
+    setValues(applyRuleOverrides(parentRules, existingRule?.settings));
+  }, [parentRules, existingRule]);
+
+  const hasScopeTarget = scope === 'global' || scopeValue !== '';
+
+  const handleScopeChange = (value: AnomalyRuleScope) => {
+    setScope(value);
+    setScopeValue('');
+  };
+
+  const handleNumberChange = (
+    key: 'impressionThreshold' | 'transactionDropThreshold' | 'zeroTransactionDays' | 'ctrThreshold' | 'zScoreThreshold' | 'baselineDays' | 'levelShiftMinDays',
+    value: string
+  ) => {
+    const parsed = parseFloat(value);
+    setValues(prev => ({ ...prev, [key]: isNaN(parsed) ? 0 : parsed }));
+  };
+
+  const handleBandChange = (key: 'impressionSeverity' | 'zeroTransactionSeverity' | 'ctrSeverity' | 'zScoreSeverity', band: keyof SeverityBands, value: string) => {
+    const parsed = parseFloat(value);
+    setValues(prev => ({ ...prev, [key]: { ...prev[key], [band]: isNaN(parsed) ? 0 : parsed } }));
+  };
+
+  const handleDetectorToggle = (type: AnomalyDetectorType, enabled: boolean) => {
+    setValues(prev => ({ ...prev, enabledDetectors: { ...prev.enabledDetectors, [type]: enabled } }));
+  };
+
+  const handleSave = () => {
+    onSave({
+      scope,
+      scope_value: scope === 'global' ? '' : scopeValue,
+      settings: diffRuleOverrides(parentRules, values)
+    });
+  };
+
+  const renderBands = (key: 'impressionSeverity' | 'zeroTransactionSeverity' | 'ctrSeverity' | 'zScoreSeverity', unit: string) => (
+    <div className="grid grid-cols-2 gap-2">
+      <div className="grid gap-1">
+        <Label className="text-xs text-muted-foreground">Medium at ({unit})</Label>
+        <Input
+          type="number"
+          step="any"
+          value={values[key].medium}
+          onChange={(e) => handleBandChange(key, 'medium', e.target.value)}
+        />
+      </div>
+      <div className="grid gap-1">
+        <Label className="text-xs text-muted-foreground">High at ({unit})</Label>
+        <Input
+          type="number"
+          step="any"
+          value={values[key].high}
+          onChange={(e) => handleBandChange(key, 'high', e.target.value)}
+        />
+      </div>
+    </div>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Detection Rules</DialogTitle>
+          <DialogDescription>
+            Campaign rules override agency rules, which override the rules for all campaigns.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label>Applies to</Label>
+              <Select value={scope} onValueChange={(value) => handleScopeChange(value as AnomalyRuleScope)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(SCOPE_LABELS) as AnomalyRuleScope[]).map(s => (
+                    <SelectItem key={s} value={s}>{SCOPE_LABELS[s]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {scope === 'agency' && (
+              <div className="grid gap-2">
+                <Label>Agency</Label>
+                <Select value={scopeValue} onValueChange={setScopeValue}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select agency..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {agencyOptions.map(({ abbreviation, display_name }) => (
+                      <SelectItem key={abbreviation} value={abbreviation}>
+                        {abbreviation} - {display_name}
+                        {findRule('agency', abbreviation) ? ' •' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {scope === 'campaign' && (
+              <div className="grid gap-2">
+                <Label>Campaign</Label>
+                <Select value={scopeValue} onValueChange={setScopeValue}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select campaign..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {campaignNames.map(name => (
+                      <SelectItem key={name} value={name}>
+                        {name}
+                        {findRule('campaign', name) ? ' •' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          {hasScopeTarget && (
+            <>
+              {existingRule && scope !== 'global' && (
+                <Badge variant="secondary" className="w-fit">Custom rules set for this {scope}</Badge>
+              )}
+
+              <div className="grid gap-2">
+                <Label>Enabled detectors</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  {(Object.keys(ANOMALY_DETECTOR_LABELS) as AnomalyDetectorType[]).map(type => (
+                    <div key={type} className="flex items-center justify-between rounded-md border px-3 py-2">
+                      <span className="text-sm">{ANOMALY_DETECTOR_LABELS[type]}</span>
+                      <Switch
+                        checked={values.enabledDetectors[type]}
+                        onCheckedChange={(checked) => handleDetectorToggle(type, checked)}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid gap-2">
+                <Label>Impression change threshold (%)</Label>
+                <Input
+                  type="number"
+                  step="any"
+                  value={values.impressionThreshold}
+                  onChange={(e) => handleNumberChange('impressionThreshold', e.target.value)}
+                />
+                {renderBands('impressionSeverity', '%')}
+              </div>
+
+              <div className="grid gap-2">
+                <Label>Transaction drop threshold (%)</Label>
+                <Input
+                  type="number"
+                  step="any"
+                  value={values.transactionDropThreshold}
+                  onChange={(e) => handleNumberChange('transactionDropThreshold', e.target.value)}
+                />
+              </div>
+
+              <div className="grid gap-2">
+                <Label>Zero transaction days</Label>
+                <Input
+                  type="number"
+                  min="1"
+                  value={values.zeroTransactionDays}
+                  onChange={(e) => handleNumberChange('zeroTransactionDays', e.target.value)}
+                />
+                {renderBands('zeroTransactionSeverity', 'days')}
+              </div>
+
+              <div className="grid gap-2">
+                <Label>Suspected bot CTR threshold (%)</Label>
+                <Input
+                  type="number"
+                  step="any"
+                  value={values.ctrThreshold}
+                  onChange={(e) => handleNumberChange('ctrThreshold', e.target.value)}
+                />
+                {renderBands('ctrSeverity', '%')}
+              </div>
+
+              <div className="grid gap-2">
+                <Label>Baseline deviation / level shift threshold (std. deviations)</Label>
+                <Input
+                  type="number"
+                  step="any"
+                  value={values.zScoreThreshold}
+                  onChange={(e) => handleNumberChange('zScoreThreshold', e.target.value)}
+                />
+                {renderBands('zScoreSeverity', 'σ')}
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <div className="grid gap-2">
+                  <Label>Baseline window (days)</Label>
+                  <Input
+                    type="number"
+                    min="7"
+                    value={values.baselineDays}
+                    onChange={(e) => handleNumberChange('baselineDays', e.target.value)}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label>Level shift minimum (days)</Label>
+                  <Input
+                    type="number"
+                    min="1"
+                    value={values.levelShiftMinDays}
+                    onChange={(e) => handleNumberChange('levelShiftMinDays', e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between rounded-md border px-3 py-2">
+                <span className="text-sm">Adjust baseline for day of week</span>
+                <Switch
+                  checked={values.weekdayAdjustment}
+                  onCheckedChange={(checked) => setValues(prev => ({ ...prev, weekdayAdjustment: checked }))}
+                />
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          {existingRule && (
+            <Button
+              variant="outline"
+              className="mr-auto"
+              onClick={() => onReset(scope, existingRule.scope_value)}
+            >
+              {scope === 'global' ? 'Reset to defaults' : `Remove ${scope} rules`}
+            </Button>
+          )}
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          <Button onClick={handleSave} disabled={!hasScopeTarget || isSaving}>
+            {isSaving ? 'Saving...' : 'Save Rules'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -28,13 +28,17 @@ import {
   MoreHorizontal,
   ShoppingCart,
   Bot,
+  Activity,
   ChevronUp,
   ChevronDown
 } from "lucide-react";
 import {
   CampaignAnomaly,
   formatAnomalyMessage,
+  formatExpectedBand,
+  formatMetricValue,
   getAnomalyTypeDisplayName,
+  getMetricDisplayName,
   getSeverityColor
 } from "@/utils/anomalyDetection";
 
@@ -70,6 +74,12 @@ function AnomalyRow({ anomaly, onIgnore, onUpdateDuration }: AnomalyRowProps) {
         return <ShoppingCart className="h-3 w-3 stroke-red-600" strokeWidth={1.5} fill="none" />;
       case 'suspected_bot_activity':
         return <Bot className="h-3 w-3 stroke-orange-600" strokeWidth={1.5} fill="none" />;
+      case 'baseline_deviation':
+        return <Activity className="h-3 w-3" />;
+      case 'level_shift':
+        return (anomaly.details.z_score || 0) > 0 ?
+          <TrendingUp className="h-3 w-3" /> :
+          <TrendingDown className="h-3 w-3" />;
       default:
         return <AlertTriangle className="h-3 w-3" />;
     }
@@ -222,6 +232,42 @@ function AnomalyRow({ anomaly, onIgnore, onUpdateDuration }: AnomalyRowProps) {
                       </div>
                     </>
                   )}
+                  {(anomaly.anomaly_type === 'baseline_deviation' || anomaly.anomaly_type === 'level_shift') && (
+                    <>
+                      <div className="flex justify-between">
+                        <span>Metric:</span>
+                        <span>{getMetricDisplayName(anomaly.details.metric || 'impressions')}</span>
+                      </div>
+                      <div className="flex justify-between font-semibold">
+                        <span>{anomaly.anomaly_type === 'level_shift' ? 'New level:' : 'Actual:'}</span>
+                        <span className={`font-mono ${(anomaly.details.z_score || 0) > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          {formatMetricValue(anomaly.details.metric || 'impressions', anomaly.details.current_value)}
+                        </span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Expected band:</span>
+                        <span className="font-mono">{formatExpectedBand(anomaly)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Expected:</span>
+                        <span className="font-mono">{formatMetricValue(anomaly.details.metric || 'impressions', anomaly.details.expected_value)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Z-score:</span>
+                        <span className="font-mono">{anomaly.details.z_score}</span>
+                      </div>
+                      {anomaly.anomaly_type === 'level_shift' && (
+                        <div className="flex justify-between">
+                          <span>Days at new level:</span>
+                          <span className="font-mono">{anomaly.details.consecutive_days}</span>
+                        </div>
+                      )}
+                      <div className="text-xs text-gray-500 pt-1">
+                        Baseline: previous {anomaly.details.baseline_days} days
+                        {anomaly.details.weekday_adjusted ? ', adjusted for day of week' : ''}
+                      </div>
+                    </>
+                  )}
                 </div>
               </div>
 
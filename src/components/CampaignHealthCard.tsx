@@ -1,14 +1,19 @@
 
-import React, { useMemo, useState } from 'react';
+import React, { useCallback, useMemo, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
 import { Badge } from "./ui/badge";
 import { Activity, TrendingUp, Target, DollarSign, MousePointer, AlertTriangle, HelpCircle } from 'lucide-react';
+import { ResponsiveContainer, Area, AreaChart, YAxis } from 'recharts';
 import { calculateCampaignHealth, CampaignHealthData } from "@/utils/campaignHealthScoring";
 import { processCampaigns } from '@/lib/pacingCalculations';
 import type { ContractTerms, PacingDeliveryData } from '@/types/pacing';
 import type { DeliveryDataRow, ContractTermsRow, CSVRow } from '@/types/dashboard';
 import { parseDateString } from '@/lib/utils';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "./ui/dialog";
+import { useCampaignFilter } from '@/contexts/use-campaign-filter';
+import { useHealthProfiles } from '@/hooks/useHealthProfiles';
+import type { HealthScoreSnapshot } from '@/types/health-scoring';
+import { getScoreChange } from '@/utils/healthScoreHistory';
 
 interface CampaignHealthCardProps {
   campaignName: string;
@@ -17,6 +22,8 @@ interface CampaignHealthCardProps {
   contractTermsData: ContractTermsRow[];
   unfilteredData?: DeliveryDataRow[];
   dbContractTerms?: ContractTermsRow[];
+  /** This campaign's stored snapshots, oldest first (fetched once by the parent for all campaigns) */
+  history?: HealthScoreSnapshot[];
 }
 
 interface HealthStatus {
@@ -113,11 +120,20 @@ const CampaignHealthCard = ({
   pacingData,
   contractTermsData,
   unfilteredData = [],
-  dbContractTerms = []
+  dbContractTerms = [],
+  history = []
 }: CampaignHealthCardProps) => {
   // Modal state for campaign details
   const [modalOpen, setModalOpen] = useState(false);
 
+  const { extractAgencyInfo } = useCampaignFilter();
+  const getAgencyAbbreviation = useCallback(
+    (name: string) => extractAgencyInfo(name).abbreviation,
+    [extractAgencyInfo]
+  );
+  const { resolveProfile } = useHealthProfiles(getAgencyAbbreviation);
+  const profile = useMemo(() => resolveProfile(campaignName), [resolveProfile, campaignName]);
+
   const handleHealthHeaderClick = () => {
     setModalOpen(true);
   };
@@ -218,7 +234,7 @@ const CampaignHealthCard = ({
         console.log('CampaignHealthCard: Real pacing metrics:', realPacingMetrics);
       }
 
-      const result = calculateCampaignHealth(deliveryData, campaignName, pacingData, contractTermsData, realPacingMetrics);
+      const result = calculateCampaignHealth(deliveryData, campaignName, pacingData, contractTermsData, realPacingMetrics, profile);
       console.log('CampaignHealthCard: Health calculation result:', result);
 
       if (!result) {
@@ -236,7 +252,12 @@ const CampaignHealthCard = ({
       console.error('CampaignHealthCard: Error stack:', error.stack);
       return null;
     }
-  }, [campaignName, deliveryData, pacingData, contractTermsData, realPacingMetrics]);
+  }, [campaignName, deliveryData, pacingData, contractTermsData, realPacingMetrics, profile]);
+
+  const scoreChange = useMemo(
+    () => getScoreChange(campaignName, history),
+    [campaignName, history]
+  );
 
   if (!healthData || healthData.healthScore === 0) {
     return (
@@ -271,6 +292,7 @@ const CampaignHealthCard = ({
             <HelpCircle className="h-4 w-4 text-muted-foreground group-hover:text-blue-500 transition-colors" />
           </CardTitle>
           <div className="flex items-center gap-2">
+            <Badge variant="outline" title="Scoring profile">{healthData.profileName}</Badge>
             <div className="text-2xl font-bold">{formatScore(healthData.healthScore)}</div>
             <Badge variant="secondary" className={`${status.color} ${status.bgColor} border-0`}>
               {status.label}
@@ -279,6 +301,38 @@ const CampaignHealthCard = ({
         </div>
       </CardHeader>
       <CardContent className="space-y-4">
+        {/* Score Trend */}
+        <div className="flex items-center gap-4">
+          <div className="h-12 flex-1">
+            {history.length > 1 && (
+              <ResponsiveContainer width="100%" height="100%">
+                <AreaChart data={history}>
+                  <YAxis hide domain={[0, 10]} />
+                  <Area
+                    type="monotone"
+                    dataKey="health_score"
+                    stroke="#22c55e"
+                    strokeWidth={2}
+                    fill="#22c55e"
+                    fillOpacity={0.15}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                </AreaChart>
+              </ResponsiveContainer>
+            )}
+          </div>
+          <div className="text-xs text-right whitespace-nowrap">
+            {scoreChange ? (
+              <span className={scoreChange.change >= 0 ? 'text-green-600' : 'text-red-600'}>
+                {scoreChange.change >= 0 ? '+' : ''}{scoreChange.change.toFixed(1)} since last week
+              </span>
+            ) : (
+              <span className="text-muted-foreground">No history yet</span>
+            )}
+          </div>
+        </div>
+
         <div className="grid grid-cols-2 gap-4">
           {/* ROAS Score */}
           <div className="flex items-center gap-3">
@@ -361,6 +415,10 @@ const CampaignHealthCard = ({
                   <span>Overall Health:</span>
                   <span className="font-medium">{healthData.healthScore.toFixed(1)}</span>
                 </div>
+                <div className="flex justify-between">
+                  <span>Scoring Profile:</span>
+                  <span className="font-medium">{healthData.profileName}</span>
+                </div>
                 <div className="flex justify-between">
                   <span>ROAS:</span>
                   <span className="font-medium">{healthData.roas.toFixed(1)}x (Score: {healthData.roasScore.toFixed(0)})</span>
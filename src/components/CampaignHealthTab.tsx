@@ -1,18 +1,25 @@
 
-import { useMemo, useState } from "react";
+import { useCallback, useMemo, useState } from "react";
 import { calculateCampaignHealth, CampaignHealthData } from "@/utils/campaignHealthScoring";
 import CampaignHealthScatterPlot from "./CampaignHealthScatterPlot";
 import { Card } from "./ui/card";
 import { Badge } from "./ui/badge";
 import { useCampaignFilter } from "@/contexts/use-campaign-filter";
 import { Alert, AlertDescription } from "./ui/alert";
-import { AlertTriangle, HelpCircle } from "lucide-react";
+import { Button } from "./ui/button";
+import { AlertTriangle, HelpCircle, SlidersHorizontal, TrendingDown } from "lucide-react";
 import ContractTermsAlert from "./ContractTermsAlert";
 import { validateContractTerms } from "@/utils/contractTermsValidation";
 import MetricExplanationModal, { MetricType } from "./MetricExplanationModal";
 import { processCampaigns } from '@/lib/pacingCalculations';
 import type { ContractTerms, PacingDeliveryData } from '@/types/pacing';
 import type { DeliveryDataRow, ContractTermsRow, CSVRow } from '@/types/dashboard';
+import type { HealthComponent } from '@/types/health-scoring';
+import { useHealthProfiles } from "@/hooks/useHealthProfiles";
+import { HealthProfilesDialog } from "./HealthProfilesDialog";
+import { useHealthScoreHistory } from "@/hooks/useHealthScoreHistory";
+import { findBiggestDecliners, WEEK_OVER_WEEK_DAYS } from "@/utils/healthScoreHistory";
+import { DEFAULT_HEALTH_PROFILE, HEALTH_SCORING_PROFILES, getNormalizedWeight } from "@/utils/healthScoringProfiles";
 
 interface CampaignHealthTabProps {
   data: DeliveryDataRow[];
@@ -23,7 +30,15 @@ interface CampaignHealthTabProps {
 }
 
 const CampaignHealthTab = ({ data, pacingData = [], contractTermsData = [], unfilteredData = [], dbContractTerms = [] }: CampaignHealthTabProps) => {
-  const { isTestCampaign } = useCampaignFilter();
+  const { isTestCampaign, extractAgencyInfo } = useCampaignFilter();
+
+  // Scoring profile per campaign (campaign > agency > default)
+  const [profilesDialogOpen, setProfilesDialogOpen] = useState(false);
+  const getAgencyAbbreviation = useCallback(
+    (campaignName: string) => extractAgencyInfo(campaignName).abbreviation,
+    [extractAgencyInfo]
+  );
+  const { assignments, resolveProfile, assignProfile, removeAssignment, isSaving } = useHealthProfiles(getAgencyAbbreviation);
   
   // Modal state for metric explanations
   const [modalOpen, setModalOpen] = useState(false);
@@ -48,7 +63,7 @@ const CampaignHealthTab = ({ data, pacingData = [], contractTermsData = [], unfi
     console.log("CampaignHealthTab: Contract terms fields:", Object.keys(contractTermsData[0] || {}));
   }
 
-  const { healthData, missingPacingCampaigns, contractTermsValidation } = useMemo(() => {
+  const { healthData, missingPacingCampaigns, contractTermsValidation, campaignNames } = useMemo(() => {
     // For single-campaign view with existing contract data, assume contract terms are available
     const isSingleCampaignWithContract = contractTermsData.length > 0 &&
       new Set(data.map(row => row["CAMPAIGN ORDER NAME"])).size <= 1;
@@ -154,16 +169,36 @@ const CampaignHealthTab = ({ data, pacingData = [], contractTermsData = [], unfi
     const healthScores = campaigns
       .map(campaignName => {
         const realPacingMetrics = realPacingMetricsMap.get(campaignName) || null;
-        return calculateCampaignHealth(data, campaignName, pacingData, contractTermsData, realPacingMetrics);
+        return calculateCampaignHealth(data, campaignName, pacingData, contractTermsData, realPacingMetrics, resolveProfile(campaignName));
       })
       .filter(campaign => campaign.healthScore > 0); // Only show campaigns with valid data
 
     return {
       healthData: healthScores,
       missingPacingCampaigns: missingFromPacing,
-      contractTermsValidation: contractValidation
+      contractTermsValidation: contractValidation,
+      campaignNames: campaigns.sort()
     };
-  }, [data, pacingData, contractTermsData, unfilteredData, dbContractTerms, isTestCampaign]);
+  }, [data, pacingData, contractTermsData, unfilteredData, dbContractTerms, isTestCampaign, resolveProfile]);
+
+  // How many scored campaigns each profile produced
+  const profileCounts = useMemo(() => {
+    return healthData.reduce((acc, campaign) => {
+      acc[campaign.profileId] = (acc[campaign.profileId] || 0) + 1;
+      return acc;
+    }, {} as Record<string, number>);
+  }, [healthData]);
+
+  // Compare against the stored daily snapshots (recorded by the record-health-snapshots job)
+  const { snapshots } = useHealthScoreHistory();
+
+  const biggestDecliners = useMemo(
+    () => findBiggestDecliners(healthData.map(campaign => campaign.campaignName), snapshots),
+    [healthData, snapshots]
+  );
+
+  const formatWeight = (component: HealthComponent) =>
+    `${Math.round(getNormalizedWeight(DEFAULT_HEALTH_PROFILE, component) * 100)}%`;
 
   const summaryStats = useMemo(() => {
     if (healthData.length === 0) return { total: 0, healthy: 0, warning: 0, critical: 0, avgScore: 0 };
@@ -250,9 +285,20 @@ const CampaignHealthTab = ({ data, pacingData = [], contractTermsData = [], unfi
 
       {/* Health Scoring Legend */}
       <Card className="p-4">
-        <h3 className="text-lg font-semibold mb-3">Health Score Methodology</h3>
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-lg font-semibold">Health Score Methodology</h3>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setProfilesDialogOpen(true)}
+            className="flex items-center gap-2"
+          >
+            <SlidersHorizontal className="h-4 w-4" />
+            Scoring Profiles
+          </Button>
+        </div>
         <p className="text-sm text-muted-foreground mb-4">
-          Click on any metric below to see detailed scoring explanations and calculation methods.
+          Weights shown are for the {DEFAULT_HEALTH_PROFILE.name} profile. Click on any metric below to see detailed scoring explanations and calculation methods.
         </p>
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4 text-sm">
           <div 
@@ -260,7 +306,7 @@ const CampaignHealthTab = ({ data, pacingData = [], contractTermsData = [], unfi
             onClick={() => handleMetricClick('roas')}
           >
             <div className="font-medium flex items-center gap-2">
-              ROAS (40%)
+              ROAS ({formatWeight('roas')})
               <HelpCircle className="h-3 w-3 text-muted-foreground group-hover:text-blue-500" />
             </div>
             <div className="text-muted-foreground">Return on Ad Spend</div>
@@ -270,7 +316,7 @@ const CampaignHealthTab = ({ data, pacingData = [], contractTermsData = [], unfi
             onClick={() => handleMetricClick('pacing')}
           >
             <div className="font-medium flex items-center gap-2">
-              Delivery Pacing (30%)
+              Delivery Pacing ({formatWeight('deliveryPacing')})
               <HelpCircle className="h-3 w-3 text-muted-foreground group-hover:text-blue-500" />
             </div>
             <div className="text-muted-foreground">Actual vs Expected</div>
@@ -280,7 +326,7 @@ const CampaignHealthTab = ({ data, pacingData = [], contractTermsData = [], unfi
             onClick={() => handleMetricClick('burnrate')}
           >
             <div className="font-medium flex items-center gap-2">
-              Burn Rate (15%)
+              Burn Rate ({formatWeight('burnRate')})
               <HelpCircle className="h-3 w-3 text-muted-foreground group-hover:text-blue-500" />
             </div>
             <div className="text-muted-foreground">Recent delivery pace</div>
@@ -290,12 +336,50 @@ const CampaignHealthTab = ({ data, pacingData = [], contractTermsData = [], unfi
             onClick={() => handleMetricClick('overspend')}
           >
             <div className="font-medium flex items-center gap-2">
-              Overspend Risk (15%)
+              Overspend Risk ({formatWeight('overspend')})
               <HelpCircle className="h-3 w-3 text-muted-foreground group-hover:text-blue-500" />
             </div>
             <div className="text-muted-foreground">Budget tracking</div>
           </div>
         </div>
+        <div className="flex flex-wrap items-center gap-2 mt-4 text-sm">
+          <span className="text-muted-foreground">Scored with:</span>
+          {HEALTH_SCORING_PROFILES.map(profile => (
+            <Badge key={profile.id} variant="outline">
+              {profile.name}: {profileCounts[profile.id] || 0}
+            </Badge>
+          ))}
+        </div>
+      </Card>
+
+      {/* Biggest Decliners */}
+      <Card className="p-6">
+        <h3 className="text-lg font-semibold mb-1 flex items-center gap-2">
+          <TrendingDown className="h-5 w-5 text-red-500" />
+          Biggest Decliners
+        </h3>
+        <div className="mb-4 text-sm text-muted-foreground">
+          Campaigns whose health score dropped the most over the last {WEEK_OVER_WEEK_DAYS} days.
+        </div>
+        {biggestDecliners.length === 0 ? (
+          <div className="text-sm text-muted-foreground">
+            No declines yet - scores need at least {WEEK_OVER_WEEK_DAYS} days of history to compare.
+          </div>
+        ) : (
+          <div className="divide-y">
+            {biggestDecliners.map(decliner => (
+              <div key={decliner.campaignName} className="flex items-center justify-between gap-4 py-2 text-sm">
+                <span className="truncate" title={decliner.campaignName}>{decliner.campaignName}</span>
+                <div className="flex items-center gap-3 flex-shrink-0">
+                  <span className="text-muted-foreground">
+                    {decliner.previousScore.toFixed(1)} → {decliner.currentScore.toFixed(1)}
+                  </span>
+                  <Badge className="bg-red-100 text-red-800">{decliner.change.toFixed(1)}</Badge>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
       </Card>
 
       {/* Campaign Health Scatter Plot */}
@@ -308,6 +392,16 @@ const CampaignHealthTab = ({ data, pacingData = [], contractTermsData = [], unfi
         <CampaignHealthScatterPlot healthData={healthData} />
       </Card>
       
+      <HealthProfilesDialog
+        isOpen={profilesDialogOpen}
+        onClose={() => setProfilesDialogOpen(false)}
+        assignments={assignments}
+        campaignNames={campaignNames}
+        onAssign={assignProfile}
+        onRemove={removeAssignment}
+        isSaving={isSaving}
+      />
+
       {/* Metric Explanation Modal */}
       <MetricExplanationModal 
         open={modalOpen}
@@ -5,6 +5,9 @@ import CampaignHealthCard from "./CampaignHealthCard";
 import { Input } from "./ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
 import { Search } from "lucide-react";
+import { HEALTH_SCORING_PROFILES } from "@/utils/healthScoringProfiles";
+import { useHealthScoreHistory } from "@/hooks/useHealthScoreHistory";
+import { groupSnapshotsByCampaign } from "@/utils/healthScoreHistory";
 
 interface CampaignHealthTableProps {
   healthData: CampaignHealthData[];
@@ -14,12 +17,18 @@ const CampaignHealthTable = ({ healthData }: CampaignHealthTableProps) => {
   const [searchTerm, setSearchTerm] = useState("");
   const [sortBy, setSortBy] = useState<"name" | "health" | "spend" | "revenue">("health");
   const [filterBy, setFilterBy] = useState<"all" | "healthy" | "warning" | "critical">("all");
+  const [profileFilter, setProfileFilter] = useState<string>("all");
+
+  // One history query for every card
+  const { snapshots } = useHealthScoreHistory();
+  const historyByCampaign = useMemo(() => groupSnapshotsByCampaign(snapshots), [snapshots]);
 
   const filteredAndSortedData = useMemo(() => {
     const filtered = healthData.filter(campaign => {
       const matchesSearch = campaign.campaignName.toLowerCase().includes(searchTerm.toLowerCase());
 
       if (!matchesSearch) return false;
+      if (profileFilter !== "all" && campaign.profileId !== profileFilter) return false;
 
       if (filterBy === "all") return true;
       if (filterBy === "healthy") return campaign.healthScore >= 7;
@@ -46,7 +55,7 @@ const CampaignHealthTable = ({ healthData }: CampaignHealthTableProps) => {
     });
 
     return filtered;
-  }, [healthData, searchTerm, sortBy, filterBy]);
+  }, [healthData, searchTerm, sortBy, filterBy, profileFilter]);
 
   if (healthData.length === 0) {
     return (
@@ -93,6 +102,18 @@ const CampaignHealthTable = ({ healthData }: CampaignHealthTableProps) => {
             <SelectItem value="critical">Critical (&lt;4)</SelectItem>
           </SelectContent>
         </Select>
+
+        <Select value={profileFilter} onValueChange={setProfileFilter}>
+          <SelectTrigger className="w-full sm:w-48">
+            <SelectValue placeholder="Scoring profile..." />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Profiles</SelectItem>
+            {HEALTH_SCORING_PROFILES.map(profile => (
+              <SelectItem key={profile.id} value={profile.id}>{profile.name} Profile</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
       </div>
 
       {/* Results Count */}
@@ -106,6 +127,7 @@ const CampaignHealthTable = ({ healthData }: CampaignHealthTableProps) => {
           <CampaignHealthCard 
             key={campaign.campaignName} 
             campaign={campaign} 
+            history={historyByCampaign.get(campaign.campaignName)}
           />
         ))}
       </div>
@@ -1,4 +1,4 @@
-import { useEffect } from "react";
+import { useEffect, useMemo, useRef } from "react";
 import { useSearchParams } from "react-router-dom";
 import { DateRange } from "react-day-picker";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -17,6 +17,8 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 
 // Import our custom hook
 import { useCampaignManager } from "@/hooks/useCampaignManager";
+import { useHealthScoreHistory } from "@/hooks/useHealthScoreHistory";
+import { groupSnapshotsByCampaign } from "@/utils/healthScoreHistory";
 import type { DeliveryDataRow, ContractTermsRow, CSVRow } from '@/types/dashboard';
 
 interface CampaignManagerProps {
@@ -50,27 +52,44 @@ const CampaignManager = ({
     globalDateRange
   });
 
-  // Sync URL with selected campaign
-  useEffect(() => {
-    if (state.selectedCampaign) {
-      setSearchParams({ tab: 'campaigns', campaign: state.selectedCampaign });
-    } else {
-      const current = Object.fromEntries(searchParams);
-      if (current.campaign) {
-        delete current.campaign;
-        setSearchParams(current);
-      }
-    }
-  }, [state.selectedCampaign, setSearchParams, searchParams]);
+  const { snapshots } = useHealthScoreHistory();
+  const healthHistory = useMemo(() => groupSnapshotsByCampaign(snapshots), [snapshots]);
+
+  // Two-way sync between the selected campaign and ?campaign=, keeping the filter
+  // and date parameters alongside it. What each side last looked like tells which
+  // one changed; the URL starts unseen so it wins on load.
+  const campaignFromUrl = searchParams.get('campaign');
+  const { setSelectedCampaign, handleBackToCampaigns } = actions;
+  const lastUrlCampaign = useRef<string | null | undefined>(undefined);
+  const lastSelectedCampaign = useRef(state.selectedCampaign);
 
-  // Load campaign from URL on mount
   useEffect(() => {
-    const campaignFromUrl = searchParams.get('campaign');
-    if (campaignFromUrl && !state.selectedCampaign) {
-      actions.setSelectedCampaign(campaignFromUrl);
+    const urlChanged = campaignFromUrl !== lastUrlCampaign.current;
+    const stateChanged = state.selectedCampaign !== lastSelectedCampaign.current;
+    lastUrlCampaign.current = campaignFromUrl;
+    lastSelectedCampaign.current = state.selectedCampaign;
+
+    if (campaignFromUrl === state.selectedCampaign) return;
+
+    if (urlChanged) {
+      // URL -> state, on load and on back/forward
+      if (campaignFromUrl) {
+        setSelectedCampaign(campaignFromUrl);
+      } else {
+        handleBackToCampaigns();
+      }
+    } else if (stateChanged) {
+      // State -> URL, without a history entry of its own
+      const next = new URLSearchParams(searchParams);
+      if (state.selectedCampaign) {
+        next.set('tab', 'campaigns');
+        next.set('campaign', state.selectedCampaign);
+      } else {
+        next.delete('campaign');
+      }
+      setSearchParams(next, { replace: true });
     }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []); // Only run on mount
+  }, [campaignFromUrl, state.selectedCampaign, searchParams, setSearchParams, setSelectedCampaign, handleBackToCampaigns]);
 
   // Notify parent component when detail view changes
   useEffect(() => {
@@ -284,6 +303,7 @@ const CampaignManager = ({
               pacingData={state.campaignPacingData}
               deliveryData={campaignData.filteredCampaignData}
               campaignName={state.selectedCampaign}
+              history={healthHistory.get(state.selectedCampaign)}
             />
           )}
         </DialogContent>
@@ -28,6 +28,7 @@ import {
 } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
 import { useCampaignFilter } from "@/contexts/use-campaign-filter";
+import { CAMPAIGN_CHANNELS } from "@/utils/campaignNameParsing";
 import { formatNumber, formatCurrency } from "@/lib/formatters";
 import { CampaignDataRow } from "@/types/campaign";
 
@@ -50,14 +51,18 @@ interface CampaignSummary {
   rowCount: number;
 }
 
+const ALL = "all";
+
 const CampaignSummaryTable = ({ data, useGlobalFilters = false, onCampaignSelect }: CampaignSummaryTableProps) => {
-  const { isTestCampaign, extractAdvertiserName, extractAgencyInfo } = useCampaignFilter();
+  const { isTestCampaign, extractAdvertiserName, extractAgencyInfo, getCampaignMetadata } = useCampaignFilter();
   const navigate = useNavigate();
   const [page, setPage] = useState(1);
   const [rowsPerPage, setRowsPerPage] = useState(10);
   const [sortColumn, setSortColumn] = useState<string>("campaignName");
   const [sortDirection, setSortDirection] = useState<"asc" | "desc">("asc");
   const [searchTerm, setSearchTerm] = useState("");
+  const [channelFilter, setChannelFilter] = useState(ALL);
+  const [marketFilter, setMarketFilter] = useState(ALL);
 
   // Aggregate data by campaign
   const campaignSummaries = useMemo(() => {
@@ -123,14 +128,29 @@ const CampaignSummaryTable = ({ data, useGlobalFilters = false, onCampaignSelect
     return summaries;
   }, [data]);
 
-  // Filter summaries based on search term
+  // Channels and markets parsed from the listed campaign names
+  const { channelOptions, marketOptions } = useMemo(() => {
+    const channels = new Set<string>();
+    const markets = new Set<string>();
+    campaignSummaries.forEach(summary => {
+      const { channel, market } = getCampaignMetadata(summary.campaignName);
+      if (channel) channels.add(channel);
+      if (market) markets.add(market);
+    });
+    return { channelOptions: [...channels].sort(), marketOptions: [...markets].sort() };
+  }, [campaignSummaries, getCampaignMetadata]);
+
+  // Filter summaries based on search term, channel and market
   const filteredSummaries = useMemo(() => {
-    if (!searchTerm) return campaignSummaries;
+    if (!searchTerm && channelFilter === ALL && marketFilter === ALL) return campaignSummaries;
 
-    return campaignSummaries.filter(summary =>
-      summary.campaignName.toLowerCase().includes(searchTerm.toLowerCase())
-    );
-  }, [campaignSummaries, searchTerm]);
+    return campaignSummaries.filter(summary => {
+      const { channel, market } = getCampaignMetadata(summary.campaignName);
+      return summary.campaignName.toLowerCase().includes(searchTerm.toLowerCase())
+        && (channelFilter === ALL || channel === channelFilter)
+        && (marketFilter === ALL || market === marketFilter);
+    });
+  }, [campaignSummaries, searchTerm, channelFilter, marketFilter, getCampaignMetadata]);
 
   // Sort data
   const sortedData = useMemo(() => {
@@ -192,6 +212,36 @@ const CampaignSummaryTable = ({ data, useGlobalFilters = false, onCampaignSelect
             className="w-64"
           />
 
+          <Select value={channelFilter} onValueChange={(value) => {
+            setChannelFilter(value);
+            setPage(1);
+          }}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All channels</SelectItem>
+              {channelOptions.map(channel => (
+                <SelectItem key={channel} value={channel}>{CAMPAIGN_CHANNELS[channel] || channel}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={marketFilter} onValueChange={(value) => {
+            setMarketFilter(value);
+            setPage(1);
+          }}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All markets</SelectItem>
+              {marketOptions.map(market => (
+                <SelectItem key={market} value={market}>{market}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
           <Select value={rowsPerPage.toString()} onValueChange={(value) => {
             setRowsPerPage(parseInt(value));
             setPage(1);
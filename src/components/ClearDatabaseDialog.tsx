@@ -4,6 +4,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
 import { Button } from './ui/button';
 import { Alert, AlertDescription } from './ui/alert';
 import { useSupabase } from '@/contexts/use-supabase';
+import { useAuth } from '@/contexts/use-auth';
 import { toast } from 'sonner';
 
 interface ClearDatabaseDialogProps {
@@ -19,6 +20,8 @@ export const ClearDatabaseDialog: React.FC<ClearDatabaseDialogProps> = ({
 }) => {
   const [isClearing, setIsClearing] = useState(false);
   const { clearCampaignData, clearContractTerms } = useSupabase();
+  const { hasRole } = useAuth();
+  const isAdmin = hasRole('admin');
 
   const handleClearCampaignData = async () => {
     try {
@@ -84,6 +87,14 @@ export const ClearDatabaseDialog: React.FC<ClearDatabaseDialogProps> = ({
             </AlertDescription>
           </Alert>
 
+          {!isAdmin && (
+            <Alert>
+              <AlertDescription>
+                Only admins can clear the database. Ask an admin if this data needs to be removed.
+              </AlertDescription>
+            </Alert>
+          )}
+
           <div className="space-y-3">
             <div className="flex flex-col gap-2">
               <h4 className="font-medium text-gray-900">Clear Campaign Delivery Data</h4>
@@ -93,7 +104,7 @@ export const ClearDatabaseDialog: React.FC<ClearDatabaseDialogProps> = ({
               <Button
                 variant="destructive"
                 onClick={handleClearCampaignData}
-                disabled={isClearing}
+                disabled={isClearing || !isAdmin}
                 className="w-full"
               >
                 {isClearing ? 'Clearing...' : 'Clear Campaign Data'}
@@ -108,7 +119,7 @@ export const ClearDatabaseDialog: React.FC<ClearDatabaseDialogProps> = ({
               <Button
                 variant="destructive"
                 onClick={handleClearContractTerms}
-                disabled={isClearing}
+                disabled={isClearing || !isAdmin}
                 className="w-full"
               >
                 {isClearing ? 'Clearing...' : 'Clear Contract Terms'}
@@ -124,7 +135,7 @@ export const ClearDatabaseDialog: React.FC<ClearDatabaseDialogProps> = ({
                 <Button
                   variant="destructive"
                   onClick={handleClearAll}
-                  disabled={isClearing}
+                  disabled={isClearing || !isAdmin}
                   className="w-full bg-red-600 hover:bg-red-700"
                 >
                   {isClearing ? 'Clearing...' : 'Clear All Data'}
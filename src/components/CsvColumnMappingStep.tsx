@@ -0,0 +1,203 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useCsvImportProfiles } from '@/hooks/useCsvImportProfiles';
+import { CsvColumnMapping, CsvDateFormat, CsvImportKind, GenericCSVRow } from '@/types/csv';
+import {
+  CSV_DATE_FORMATS,
+  CSV_IMPORT_FIELDS,
+  applyColumnMapping,
+  detectDateFormat,
+  getHeaderSignature,
+  getUnmappedRequiredFields,
+  reconcileColumnMapping,
+  suggestColumnMapping
+} from '@/utils/csvColumnMapping';
+
+const NOT_MAPPED = '__not_mapped__';
+const PREVIEW_ROWS = 5;
+
+interface CsvColumnMappingStepProps {
+  kind: CsvImportKind;
+  fileName: string;
+  headers: string[];
+  rows: GenericCSVRow[];
+  onBack: () => void;
+  onConfirm: (rows: GenericCSVRow[]) => void;
+}
+
+const CsvColumnMappingStep = ({
+  kind,
+  fileName,
+  headers,
+  rows,
+  onBack,
+  onConfirm
+}: CsvColumnMappingStepProps) => {
+  const fields = CSV_IMPORT_FIELDS[kind];
+  const headerSignature = useMemo(() => getHeaderSignature(headers), [headers]);
+  const { findProfile, saveProfile, isLoading: isLoadingProfiles } = useCsvImportProfiles();
+  const matchedProfile = findProfile(kind, headerSignature);
+
+  const [mapping, setMapping] = useState<CsvColumnMapping>(() => suggestColumnMapping(kind, headers));
+  const [dateFormat, setDateFormat] = useState<CsvDateFormat>(() => {
+    const dateField = fields.find(field => field.type === 'date');
+    const dateHeader = dateField ? suggestColumnMapping(kind, headers)[dateField.key] : null;
+    return dateHeader ? detectDateFormat(rows.slice(0, 50).map(row => String(row[dateHeader] ?? ''))) : 'MM/DD/YYYY';
+  });
+  const [saveAsProfile, setSaveAsProfile] = useState(true);
+  const [profileName, setProfileName] = useState(fileName.replace(/\.csv$/i, ''));
+
+  // A saved profile for this exact layout replaces the suggestions once profiles have loaded
+  useEffect(() => {
+    if (!matchedProfile) return;
+    setMapping(reconcileColumnMapping(kind, matchedProfile.column_mapping, headers));
+    setDateFormat(matchedProfile.date_format);
+    setProfileName(matchedProfile.name);
+  }, [matchedProfile, kind, headers]);
+
+  const unmappedRequired = getUnmappedRequiredFields(kind, mapping);
+  const previewRows = useMemo(
+    () => applyColumnMapping(kind, rows.slice(0, PREVIEW_ROWS), mapping, dateFormat),
+    [kind, rows, mapping, dateFormat]
+  );
+  const hasDateField = fields.some(field => field.type === 'date' && mapping[field.key]);
+
+  const handleConfirm = () => {
+    if (saveAsProfile && profileName.trim()) {
+      saveProfile({
+        name: profileName.trim(),
+        import_kind: kind,
+        header_signature: headerSignature,
+        column_mapping: mapping,
+        date_format: dateFormat
+      });
+    }
+
+    onConfirm(applyColumnMapping(kind, rows, mapping, dateFormat));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-sm text-muted-foreground truncate" title={fileName}>
+          {fileName} - {rows.length.toLocaleString()} rows, {headers.length} columns
+        </div>
+        {matchedProfile ? (
+          <Badge variant="secondary">Using profile: {matchedProfile.name}</Badge>
+        ) : !isLoadingProfiles && (
+          <Badge variant="outline">New file layout</Badge>
+        )}
+      </div>
+
+      {/* Column mapping */}
+      <div className="grid gap-2">
+        {fields.map(field => (
+          <div key={field.key} className="grid grid-cols-[160px_1fr_140px] gap-2 items-center">
+            <Label className="text-sm">
+              {field.label}
+              {field.required && <span className="text-red-500 ml-0.5">*</span>}
+            </Label>
+            <Select
+              value={mapping[field.key] || NOT_MAPPED}
+              onValueChange={(value) => setMapping(prev => ({ ...prev, [field.key]: value === NOT_MAPPED ? null : value }))}
+            >
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NOT_MAPPED}>- Not mapped -</SelectItem>
+                {headers.map(header => (
+                  <SelectItem key={header} value={header}>{header}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="text-xs text-muted-foreground truncate" title="First value in this column">
+              {mapping[field.key] ? String(rows[0]?.[mapping[field.key] as string] ?? '') : ''}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {hasDateField && (
+        <div className="grid grid-cols-[160px_1fr_140px] gap-2 items-center">
+          <Label className="text-sm">Date format</Label>
+          <Select value={dateFormat} onValueChange={(value) => setDateFormat(value as CsvDateFormat)}>
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CSV_DATE_FORMATS.map(format => (
+                <SelectItem key={format} value={format}>{format}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {/* Preview of the rows as they will be imported */}
+      <div className="space-y-1">
+        <Label className="text-sm">Preview</Label>
+        <div className="rounded-md border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {fields.filter(field => mapping[field.key]).map(field => (
+                  <TableHead key={field.key} className="text-xs whitespace-nowrap">{field.key}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {previewRows.map((row, index) => (
+                <TableRow key={index}>
+                  {fields.filter(field => mapping[field.key]).map(field => (
+                    <TableCell key={field.key} className="text-xs whitespace-nowrap max-w-[200px] truncate">
+                      {String(row[field.key] ?? '')}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+
+      {/* Save mapping for next time */}
+      <div className="flex items-center gap-3">
+        <Switch id="save-import-profile" checked={saveAsProfile} onCheckedChange={setSaveAsProfile} />
+        <Label htmlFor="save-import-profile" className="text-sm whitespace-nowrap">
+          {matchedProfile ? 'Update import profile' : 'Save as import profile'}
+        </Label>
+        <Input
+          value={profileName}
+          onChange={(e) => setProfileName(e.target.value)}
+          placeholder="Profile name"
+          className="h-8"
+          disabled={!saveAsProfile}
+        />
+      </div>
+
+      {unmappedRequired.length > 0 && (
+        <p className="text-sm text-red-600">
+          Map the required columns to continue: {unmappedRequired.map(field => field.label).join(', ')}
+        </p>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onBack}>
+          Back
+        </Button>
+        <Button onClick={handleConfirm} disabled={unmappedRequired.length > 0 || rows.length === 0}>
+          Import {rows.length.toLocaleString()} Rows
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default CsvColumnMappingStep;
@@ -0,0 +1,139 @@
+import { useCallback, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CheckCircle2, AlertTriangle } from 'lucide-react';
+import { useCampaignFilter } from '@/contexts/use-campaign-filter';
+import { useQuarantinedRows } from '@/hooks/useQuarantinedRows';
+import { GenericCSVRow, RowIssueCode } from '@/types/csv';
+import { ROW_ISSUE_LABELS, validateImportRows } from '@/utils/csvProcessing';
+
+// Enough to see what's wrong - the rest can be fixed from the quarantine list
+const MAX_REPORT_ROWS = 100;
+
+interface CsvValidationReportStepProps {
+  fileName: string;
+  rows: GenericCSVRow[];
+  onBack: () => void;
+  onConfirm: (validRows: GenericCSVRow[]) => void;
+}
+
+const CsvValidationReportStep = ({
+  fileName,
+  rows,
+  onBack,
+  onConfirm
+}: CsvValidationReportStepProps) => {
+  const { extractAgencyInfo } = useCampaignFilter();
+  const getAgencyAbbreviation = useCallback(
+    (campaignName: string) => extractAgencyInfo(campaignName).abbreviation,
+    [extractAgencyInfo]
+  );
+  const { quarantineRows } = useQuarantinedRows();
+  const [isImporting, setIsImporting] = useState(false);
+
+  const report = useMemo(
+    () => validateImportRows(rows, getAgencyAbbreviation),
+    [rows, getAgencyAbbreviation]
+  );
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      // Bad rows go to quarantine first so none are lost if the import is abandoned
+      await quarantineRows({ rows: report.invalidRows, fileName });
+      onConfirm(report.validRows);
+    } catch {
+      // Error already reported by the hook - keep the report open
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge className="bg-green-100 text-green-800 gap-1">
+          <CheckCircle2 className="h-3 w-3" />
+          {report.validRows.length.toLocaleString()} valid
+        </Badge>
+        <Badge className={report.invalidRows.length > 0 ? "bg-red-100 text-red-800 gap-1" : "gap-1"} variant={report.invalidRows.length > 0 ? undefined : "outline"}>
+          <AlertTriangle className="h-3 w-3" />
+          {report.invalidRows.length.toLocaleString()} with issues
+        </Badge>
+        {report.skippedRows > 0 && (
+          <Badge variant="outline">{report.skippedRows} totals rows skipped</Badge>
+        )}
+      </div>
+
+      {report.invalidRows.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Every row passed validation.</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {(Object.entries(report.issueCounts) as [RowIssueCode, number][]).map(([code, count]) => (
+              <Badge key={code} variant="secondary">
+                {ROW_ISSUE_LABELS[code]}: {count.toLocaleString()}
+              </Badge>
+            ))}
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-sm">Rows that will be quarantined</Label>
+            <div className="rounded-md border max-h-[320px] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[60px]">Row</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Campaign</TableHead>
+                    <TableHead>Issues</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.invalidRows.slice(0, MAX_REPORT_ROWS).map(result => (
+                    <TableRow key={result.rowNumber}>
+                      <TableCell className="text-xs">{result.rowNumber}</TableCell>
+                      <TableCell className="text-xs whitespace-nowrap">{String(result.row.DATE ?? '')}</TableCell>
+                      <TableCell className="text-xs max-w-[220px] truncate" title={String(result.row['CAMPAIGN ORDER NAME'] ?? '')}>
+                        {String(result.row['CAMPAIGN ORDER NAME'] ?? '')}
+                      </TableCell>
+                      <TableCell className="text-xs text-red-700">
+                        {result.issues.map(issue => issue.message).join('; ')}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {report.invalidRows.length > MAX_REPORT_ROWS && (
+              <p className="text-xs text-muted-foreground">
+                Showing the first {MAX_REPORT_ROWS} of {report.invalidRows.length.toLocaleString()} rows with issues.
+              </p>
+            )}
+          </div>
+
+          <p className="text-sm text-muted-foreground">
+            Quarantined rows can be fixed and re-imported from Upload History.
+          </p>
+        </>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onBack} disabled={isImporting}>
+          Back
+        </Button>
+        <Button onClick={handleImport} disabled={isImporting || report.validRows.length + report.invalidRows.length === 0}>
+          {isImporting
+            ? 'Importing...'
+            : report.invalidRows.length > 0
+              ? `Import ${report.validRows.length.toLocaleString()} Rows & Quarantine ${report.invalidRows.length.toLocaleString()}`
+              : `Import ${report.validRows.length.toLocaleString()} Rows`}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default CsvValidationReportStep;
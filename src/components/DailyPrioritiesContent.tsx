@@ -2,10 +2,10 @@
  * DailyPrioritiesContent - Content for daily priorities tab
  */
 
-import { useState, useEffect } from 'react';
-import { format } from 'date-fns';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { format, isValid, parseISO } from 'date-fns';
 import { DateRange } from 'react-day-picker';
-import { Calendar, ChevronLeft, ChevronRight, History, Camera } from 'lucide-react';
+import { Calendar, ChevronLeft, ChevronRight, History, Camera, Upload, FileText, SlidersHorizontal, UserCheck, Share2, Building2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useNavigate } from 'react-router-dom';
 import { Calendar as CalendarPicker } from '@/components/ui/calendar';
@@ -15,15 +15,29 @@ import { useDailyPriorities, usePriorityDates } from '@/hooks/useDailyPriorities
 import { useAutoGeneratedPriorities } from '@/hooks/useAutoGeneratedPriorities';
 import { useCampaignRenewals } from '@/hooks/useCampaignRenewals';
 import { useRoasIgnores } from '@/hooks/useRoasIgnores';
-import { SECTION_ORDER, RenewalStatus, IgnoreReason } from '@/types/daily-priorities';
+import { useAlertTasks } from '@/hooks/useAlertTasks';
+import { useAlertThresholds } from '@/hooks/useAlertThresholds';
+import { useAtRiskWorkflows } from '@/hooks/useAtRiskWorkflows';
+import { useMyOpenTaskCounts } from '@/hooks/useMyTasks';
+import { useCampaignFilter } from '@/contexts/use-campaign-filter';
+import { SECTION_ORDER, RenewalStatus, IgnoreReason, AlertType, AutoGeneratedPriority } from '@/types/daily-priorities';
 import PrioritySection from '@/components/daily-priorities/PrioritySection';
 import AutoGeneratedSection from '@/components/daily-priorities/AutoGeneratedSection';
 import ChangelogModal from '@/components/daily-priorities/ChangelogModal';
+import DigestExportDialog from '@/components/daily-priorities/DigestExportDialog';
 import AnnouncementBanner from '@/components/daily-priorities/AnnouncementBanner';
 import ResourcesSection from '@/components/daily-priorities/ResourcesSection';
 import { IgnoreReasonModal } from '@/components/daily-priorities/IgnoreReasonModal';
+import ClaimAlertModal from '@/components/daily-priorities/ClaimAlertModal';
+import { AlertThresholdsDialog } from '@/components/daily-priorities/AlertThresholdsDialog';
+import { SpendModeToggle } from '@/components/SpendModeToggle';
+import { SavedViewsMenu } from '@/components/SavedViewsMenu';
+import { useSearchParamState } from '@/hooks/useUrlState';
+import { useNormalizedCampaignData, useSpendNormalizationRules } from '@/hooks/useSpendNormalization';
 import type { CampaignDataRow } from '@/types/campaign';
 
+const NO_CAMPAIGN_DATA: CampaignDataRow[] = [];
+
 interface DailyPrioritiesContentProps {
   dateRange?: DateRange;
   campaignData: CampaignDataRow[];
@@ -44,11 +58,30 @@ export default function DailyPrioritiesContent({
   isLoadingCampaignData = false
 }: DailyPrioritiesContentProps) {
   const navigate = useNavigate();
-  const [selectedDate, setSelectedDate] = useState<Date>(new Date());
-  const [isChangelogOpen, setIsChangelogOpen] = useState(false);
+  // The selected day and open dialog live in the query string (?date=2025-06-02&modal=digest)
+  // so both can be linked; the tab, filters and spend mode are synced by the page (useViewStateUrlSync)
+  const [dateParam, setDateParam] = useSearchParamState('date');
+  const [modal, setModal] = useSearchParamState('modal');
+
+  const selectedDate = useMemo(() => {
+    const parsed = dateParam ? parseISO(dateParam) : null;
+    return parsed && isValid(parsed) ? parsed : new Date();
+  }, [dateParam]);
+  const setSelectedDate = (date: Date) => {
+    const dateKey = format(date, 'yyyy-MM-dd');
+    setDateParam(dateKey === format(new Date(), 'yyyy-MM-dd') ? null : dateKey);
+  };
+
+  const isChangelogOpen = modal === 'changelog';
+  const isDigestOpen = modal === 'digest';
+  const isThresholdsDialogOpen = modal === 'thresholds';
+  const setIsChangelogOpen = (open: boolean) => setModal(open ? 'changelog' : null);
+  const setIsDigestOpen = (open: boolean) => setModal(open ? 'digest' : null);
+  const setIsThresholdsDialogOpen = (open: boolean) => setModal(open ? 'thresholds' : null);
   const [showIgnoredCampaigns, setShowIgnoredCampaigns] = useState(false);
   const [ignoreModalOpen, setIgnoreModalOpen] = useState(false);
   const [campaignToIgnore, setCampaignToIgnore] = useState<string>('');
+  const [alertToClaim, setAlertToClaim] = useState<{ alertType: AlertType; alert: AutoGeneratedPriority } | null>(null);
   const dateString = format(selectedDate, 'yyyy-MM-dd');
   const displayDate = format(selectedDate, 'EEEE, MMMM d, yyyy');
 
@@ -58,14 +91,52 @@ export default function DailyPrioritiesContent({
     addPriority,
     updatePriority,
     deletePriority,
-    reorderPriorities
+    reorderPriorities,
+    getNextPriorityOrder
   } = useDailyPriorities(dateString);
 
-  const autoSections = useAutoGeneratedPriorities(selectedDate, campaignData);
+  // Alert thresholds are persisted settings resolved per campaign (agency > global)
+  const { extractAgencyInfo } = useCampaignFilter();
+  const getAgencyAbbreviation = useCallback(
+    (campaignName: string) => extractAgencyInfo(campaignName).abbreviation,
+    [extractAgencyInfo]
+  );
+  const {
+    settings: thresholdSettings,
+    isLoading: isLoadingThresholds,
+    resolveThresholds,
+    globalThresholds,
+    saveSetting: saveThresholdSetting,
+    deleteSetting: deleteThresholdSetting,
+    isSaving: isSavingThresholds,
+    canEdit: canEditThresholds
+  } = useAlertThresholds(getAgencyAbbreviation);
+
+  // Spend as the raw/normalized toggle says, so ROAS and pacing alerts match the dashboard.
+  // Until the rules load the rows are unnormalized, so alerts wait for them like the campaign data.
+  const { isLoading: isLoadingSpendRules } = useSpendNormalizationRules();
+  const normalizedCampaignData = useNormalizedCampaignData(campaignData);
+  const isLoadingAlertData = isLoadingCampaignData || isLoadingSpendRules;
+  const autoSections = useAutoGeneratedPriorities(
+    selectedDate,
+    isLoadingSpendRules ? NO_CAMPAIGN_DATA : normalizedCampaignData,
+    resolveThresholds
+  );
+  const { atRisk: atRiskWorkflows, isLoading: isLoadingAtRisk } = useAtRiskWorkflows(selectedDate);
   const { data: priorityDates = [] } = usePriorityDates();
+  const { openCount: myOpenTasks } = useMyOpenTaskCounts();
   const { updateRenewalStatus } = useCampaignRenewals();
   const { addIgnore, removeIgnore, isIgnored, getIgnoreReason, ignoredCampaigns } = useRoasIgnores();
 
+  // Claimed alerts are only resolved against today's lists, and only once thresholds,
+  // contract terms, spend rules and campaign data have all loaded - a partial list would resolve everything
+  const isToday = format(selectedDate, 'yyyy-MM-dd') === format(new Date(), 'yyyy-MM-dd');
+  const { getClaimedTask } = useAlertTasks(
+    priorities,
+    autoSections,
+    isToday && !isLoading && !isLoadingThresholds && !autoSections.isLoading && !isLoadingAlertData && campaignData.length > 0
+  );
+
   // Get the scrollable container
   const getScrollContainer = () => {
     // The scrollable container is the div with overflow-auto class in Index.tsx
@@ -167,9 +238,6 @@ export default function DailyPrioritiesContent({
     setSelectedDate(new Date());
   };
 
-  // Check if selected date is today
-  const isToday = format(selectedDate, 'yyyy-MM-dd') === format(new Date(), 'yyyy-MM-dd');
-
   // Group priorities by section
   const prioritiesBySection = SECTION_ORDER.reduce((acc, section) => {
     acc[section] = priorities.filter(p => p.section === section);
@@ -228,6 +296,55 @@ export default function DailyPrioritiesContent({
             {screenshotMode ? "Exit Screenshot Mode" : "Screenshot Mode"}
           </Button> */}
 
+          <SpendModeToggle />
+
+          <SavedViewsMenu />
+
+          <Button
+            variant="outline"
+            onClick={() => navigate('/my-tasks')}
+            className="gap-2"
+          >
+            <UserCheck className="h-4 w-4" />
+            My Tasks{myOpenTasks > 0 && ` (${myOpenTasks})`}
+          </Button>
+
+          <Button
+            variant="outline"
+            onClick={() => navigate('/upload-history')}
+            className="gap-2"
+          >
+            <Upload className="h-4 w-4" />
+            Upload History
+          </Button>
+
+          <Button
+            variant="outline"
+            onClick={() => navigate('/scheduled-reports')}
+            className="gap-2"
+          >
+            <FileText className="h-4 w-4" />
+            Scheduled Reports
+          </Button>
+
+          <Button
+            variant="outline"
+            onClick={() => navigate('/agencies')}
+            className="gap-2"
+          >
+            <Building2 className="h-4 w-4" />
+            Agencies
+          </Button>
+
+          <Button
+            variant="outline"
+            onClick={() => setIsDigestOpen(true)}
+            className="gap-2"
+          >
+            <Share2 className="h-4 w-4" />
+            Export Digest
+          </Button>
+
           <Button
             variant="outline"
             onClick={() => setIsChangelogOpen(true)}
@@ -370,14 +487,26 @@ export default function DailyPrioritiesContent({
 
         {/* Auto-Generated Sections */}
         <div>
-          <h3 className="text-xl font-semibold mb-4">Campaign Alerts</h3>
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-xl font-semibold">Campaign Alerts</h3>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsThresholdsDialogOpen(true)}
+              className="gap-2"
+            >
+              <SlidersHorizontal className="h-4 w-4" />
+              Alert Thresholds
+            </Button>
+          </div>
           <p className="text-sm text-muted-foreground mb-4">
             Auto-generated from campaign data. Updates when new data is uploaded.
+            {thresholdSettings.some(s => s.scope === 'agency') && ' Some agencies use their own thresholds.'}
           </p>
 
           <AutoGeneratedSection
             title="Upcoming Renewals"
-            description="Campaigns ending in the next 15 days"
+            description={`Campaigns ending in the next ${globalThresholds.renewalLeadDays} days`}
             priorities={autoSections.renewals}
             emptyMessage="No campaigns ending soon"
             detailsColumnLabel="End Date"
@@ -385,6 +514,8 @@ export default function DailyPrioritiesContent({
             showRenewalStatus={true}
             onStatusUpdate={handleRenewalStatusUpdate}
             hideAutoGeneratedLabel={true}
+            onClaim={(alert) => setAlertToClaim({ alertType: 'renewal', alert })}
+            getClaimedTask={(campaignName) => getClaimedTask('renewal', campaignName)}
             headerAction={
               <Button
                 variant="outline"
@@ -396,20 +527,50 @@ export default function DailyPrioritiesContent({
             }
           />
 
+          <AutoGeneratedSection
+            title="At-risk Launches & Renewals"
+            description="Open launch and renewal tracking with workflow steps past their due date"
+            priorities={atRiskWorkflows}
+            emptyMessage={isLoadingAtRisk ? 'Loading status tracking...' : 'All launches and renewals on schedule'}
+            detailsColumnLabel="Oldest Overdue Step"
+            metricColumnLabel="Overdue"
+            hideAutoGeneratedLabel={true}
+            headerAction={
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => navigate('/launch-status')}
+                >
+                  Launch Status
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => navigate('/renewals-status')}
+                >
+                  Renewal Status
+                </Button>
+              </div>
+            }
+          />
+
           <AutoGeneratedSection
             title="Pacing Alerts"
-            titleSuffix="Campaigns pacing below 95% or above 105%"
+            titleSuffix={`Campaigns pacing below ${globalThresholds.pacingUnderThreshold}% or above ${globalThresholds.pacingOverThreshold}%`}
             description="Note: Yesterday's data refers to 2 days ago."
             priorities={autoSections.pacing}
             emptyMessage="All campaigns pacing normally"
             showPacingColumns={true}
             hideAutoGeneratedLabel={true}
-            isLoadingCampaignData={isLoadingCampaignData}
+            isLoadingCampaignData={isLoadingAlertData}
+            onClaim={(alert) => setAlertToClaim({ alertType: 'pacing', alert })}
+            getClaimedTask={(campaignName) => getClaimedTask('pacing', campaignName)}
           />
 
           <AutoGeneratedSection
             title="ROAS Alerts"
-            description="Campaigns with Return on Ad Spend below 2.0"
+            description={`Campaigns with Return on Ad Spend below ${globalThresholds.roasFloor.toFixed(1)}`}
             priorities={roasPrioritiesWithIgnoreFlag}
             emptyMessage="All campaigns meeting ROAS targets"
             showDaysLeftColumn={true}
@@ -420,7 +581,9 @@ export default function DailyPrioritiesContent({
             showIgnoredToggle={true}
             showIgnored={showIgnoredCampaigns}
             onShowIgnoredChange={setShowIgnoredCampaigns}
-            isLoadingCampaignData={isLoadingCampaignData}
+            isLoadingCampaignData={isLoadingAlertData}
+            onClaim={showIgnoredCampaigns ? undefined : (alert) => setAlertToClaim({ alertType: 'roas', alert })}
+            getClaimedTask={(campaignName) => getClaimedTask('roas', campaignName)}
           />
         </div>
       </div>
@@ -433,11 +596,49 @@ export default function DailyPrioritiesContent({
         onConfirm={handleIgnoreReasonConfirm}
       />
 
+      {/* Claim Alert Modal */}
+      <ClaimAlertModal
+        isOpen={alertToClaim !== null}
+        onClose={() => setAlertToClaim(null)}
+        onClaim={addPriority}
+        alertType={alertToClaim?.alertType ?? 'pacing'}
+        alert={alertToClaim?.alert ?? null}
+        date={dateString}
+        getNextPriorityOrder={getNextPriorityOrder}
+      />
+
+      {/* Alert Thresholds */}
+      <AlertThresholdsDialog
+        isOpen={isThresholdsDialogOpen}
+        onClose={() => setIsThresholdsDialogOpen(false)}
+        settings={thresholdSettings}
+        onSave={saveThresholdSetting}
+        onReset={deleteThresholdSetting}
+        isSaving={isSavingThresholds}
+        canEdit={canEditThresholds}
+      />
+
       {/* Changelog Modal */}
       <ChangelogModal
         isOpen={isChangelogOpen}
         onClose={() => setIsChangelogOpen(false)}
       />
+
+      {/* Digest Export - only mounted while open so the digest isn't rebuilt on every render */}
+      {isDigestOpen && (
+        <DigestExportDialog
+          isOpen={isDigestOpen}
+          onClose={() => setIsDigestOpen(false)}
+          date={dateString}
+          priorities={priorities}
+          autoSections={{
+            renewals: autoSections.renewals,
+            at_risk: atRiskWorkflows,
+            pacing: autoSections.pacing,
+            roas: roasPrioritiesWithIgnoreFlag
+          }}
+        />
+      )}
     </div>
   );
 }
@@ -25,7 +25,6 @@ import { Toggle } from "./ui/toggle";
 import { normalizeDate, setToEndOfDay, setToStartOfDay } from "@/lib/utils";
 import { DateRange } from "react-day-picker";
 import { useCampaignFilter } from "@/contexts/use-campaign-filter";
-import { AGENCY_MAPPING } from "@/contexts/agency-mapping";
 import { formatNumber, formatCurrency, formatCTRPercentage, formatTransactions, formatAOVValue } from "@/lib/formatters";
 import CombinedMetricsChart from "./CombinedMetricsChart";
 import { DailyTotalsTable } from "./DailyTotalsTable";
@@ -270,8 +269,12 @@ const Dashboard = ({ data,
   // Initialize local state with props values to keep local and parent state in sync
   const [localSelectedMetricsAdvertisers, setLocalSelectedMetricsAdvertisers] = useState<string[]>(selectedMetricsAdvertisers);
   const [localSelectedMetricsAgencies, setLocalSelectedMetricsAgencies] = useState<string[]>(selectedMetricsAgencies);
-  const [anomalyPeriod, setAnomalyPeriod] = useState<AnomalyPeriod>("daily");
-  const [comparisonPeriod, setComparisonPeriod] = useState<ComparisonPeriod>("7");
+  // Anomaly and comparison periods are kept in the filter context so saved views restore them
+  const { chartSettings, setChartSetting } = useCampaignFilter();
+  const anomalyPeriod: AnomalyPeriod = chartSettings.anomalyPeriod ?? "daily";
+  const comparisonPeriod: ComparisonPeriod = chartSettings.comparisonPeriod ?? "7";
+  const setAnomalyPeriod = (period: AnomalyPeriod) => setChartSetting('anomalyPeriod', period);
+  const setComparisonPeriod = (period: ComparisonPeriod) => setChartSetting('comparisonPeriod', period);
   const [weeklyDataState, setWeeklyDataState] = useState<WeeklyData[]>([]);
   const [showAnomalySection, setShowAnomalySection] = useState<boolean>(false);
   
@@ -10,6 +10,8 @@ import { CalendarDays, Calendar } from "lucide-react";
 
 import { ContractTermsRow } from '@/types/dashboard';
 import { DateRange } from 'react-day-picker';
+import { useCampaignFilter } from '@/contexts/use-campaign-filter';
+import type { ChartMode } from '@/hooks/useDashboardState';
 
 // Define props interface to match Dashboard component
 interface DashboardProxyProps {
@@ -51,25 +53,31 @@ interface DashboardProxyProps {
 
 // Wrapper component for passing props to Dashboard
 const DashboardProxy = (props: DashboardProxyProps) => {
-  const [chartMode, setChartMode] = useState<"display" | "attribution" | "custom" | "spend">("display");
-  const [activeTab, setActiveTab] = useState("display");
-  const [viewByDate, setViewByDate] = useState(true);
+  // Chart mode and date/day view are kept in the filter context so saved views restore them
+  const { chartSettings, setChartSetting } = useCampaignFilter();
+  const chartMode = chartSettings.chartMode ?? "display";
+  const viewByDate = (chartSettings.viewMode ?? "date") === "date";
+  const [activeTab, setActiveTab] = useState<string>(chartMode);
   const [customBarMetric, setCustomBarMetric] = useState("IMPRESSIONS");
   const [customLineMetric, setCustomLineMetric] = useState("CLICKS");
 
   // Enhanced mode handler that properly updates both the mode and active tab
-  const handleModeChange = (mode: "display" | "attribution" | "custom" | "spend") => {
+  const handleModeChange = (mode: ChartMode) => {
     console.log(`DashboardProxy: Chart mode changed to ${mode}, setting activeTab to ${mode}`);
-    setChartMode(mode);
-    setActiveTab(mode);
+    setChartSetting('chartMode', mode);
   };
+
+  // Follow the chart mode, including when a saved view changes it
+  useEffect(() => {
+    setActiveTab(chartMode);
+  }, [chartMode]);
   
   // Create a DateView component for the date/day toggle
   const DateViewToggle = () => (
     <div className="mr-4">
       <Tabs value={viewByDate ? "date" : "day"} onValueChange={(val) => {
         console.log(`DashboardProxy: Date view changed to ${val}, setting viewByDate to ${val === "date"}`);
-        setViewByDate(val === "date");
+        setChartSetting('viewMode', val === "date" ? "date" : "dayOfWeek");
       }}>
         <TabsList className="h-8">
           <TabsTrigger value="date" className="text-xs px-2">
@@ -10,7 +10,7 @@ import { ContractTermsRow } from "@/types/dashboard";
 import { GenericCSVRow } from "@/types/csv";
 
 interface FileUploadProps {
-  onDataLoaded: (data: CampaignDataRow[]) => void;
+  onDataLoaded: (data: CampaignDataRow[], fileName: string) => void;
   onPacingDataLoaded?: (data: GenericCSVRow[]) => void;
   onContractTermsLoaded?: (data: ContractTermsRow[]) => void;
   onProcessFiles: () => void;
@@ -195,7 +195,7 @@ const FileUpload = ({ onDataLoaded, onPacingDataLoaded, onContractTermsLoaded, o
               }
             });
             
-            onDataLoaded(processedData);
+            onDataLoaded(processedData, file.name);
             toast.success(`Successfully loaded campaign data from ${file.name}`);
             resolve();
           } catch (err) {
@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { X } from "lucide-react";
+import { useAgencies } from "@/hooks/useAgencies";
+import {
+  HealthProfileAssignment,
+  HealthProfileAssignmentUpsert,
+  HealthProfileScope
+} from "@/types/health-scoring";
+import {
+  DEFAULT_HEALTH_PROFILE,
+  HEALTH_COMPONENT_LABELS,
+  HEALTH_SCORING_PROFILES,
+  getHealthProfile,
+  getNormalizedWeight
+} from "@/utils/healthScoringProfiles";
+
+interface HealthProfilesDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  assignments: HealthProfileAssignment[];
+  campaignNames: string[];
+  onAssign: (assignment: HealthProfileAssignmentUpsert) => void;
+  onRemove: (scope: HealthProfileScope, scopeValue: string) => void;
+  isSaving?: boolean;
+}
+
+export function HealthProfilesDialog({
+  isOpen,
+  onClose,
+  assignments,
+  campaignNames,
+  onAssign,
+  onRemove,
+  isSaving = false
+}: HealthProfilesDialogProps) {
+  const [scope, setScope] = useState<HealthProfileScope>('agency');
+  const [scopeValue, setScopeValue] = useState('');
+  const [profileId, setProfileId] = useState(DEFAULT_HEALTH_PROFILE.id);
+
+  const { activeAgencies: agencyOptions } = useAgencies();
+
+  const handleAssign = () => {
+    if (!scopeValue) return;
+    onAssign({ scope, scope_value: scopeValue, profile_id: profileId });
+    setScopeValue('');
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[680px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Health Scoring Profiles</DialogTitle>
+          <DialogDescription>
+            Campaign assignments override agency assignments. Everything else uses the {DEFAULT_HEALTH_PROFILE.name} profile.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          {/* Available profiles */}
+          <div className="grid gap-2">
+            {HEALTH_SCORING_PROFILES.map(profile => (
+              <div key={profile.id} className="rounded-md border p-3">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-sm">{profile.name}</span>
+                  {profile.id === DEFAULT_HEALTH_PROFILE.id && <Badge variant="secondary">Default</Badge>}
+                </div>
+                <p className="text-xs text-muted-foreground">{profile.description}</p>
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {profile.components.map(component => (
+                    <Badge key={component} variant="outline" className="text-xs">
+                      {HEALTH_COMPONENT_LABELS[component]} {Math.round(getNormalizedWeight(profile, component) * 100)}%
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* New assignment */}
+          <div className="grid grid-cols-[120px_1fr_140px_auto] gap-2 items-end">
+            <div className="grid gap-2">
+              <Label>Applies to</Label>
+              <Select
+                value={scope}
+                onValueChange={(value) => {
+                  setScope(value as HealthProfileScope);
+                  setScopeValue('');
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="agency">Agency</SelectItem>
+                  <SelectItem value="campaign">Campaign</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2 min-w-0">
+              <Label>{scope === 'agency' ? 'Agency' : 'Campaign'}</Label>
+              <Select value={scopeValue} onValueChange={setScopeValue}>
+                <SelectTrigger>
+                  <SelectValue placeholder={scope === 'agency' ? 'Select agency...' : 'Select campaign...'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {scope === 'agency'
+                    ? agencyOptions.map(({ abbreviation, display_name }) => (
+                        <SelectItem key={abbreviation} value={abbreviation}>
+                          {abbreviation} - {display_name}
+                        </SelectItem>
+                      ))
+                    : campaignNames.map(name => (
+                        <SelectItem key={name} value={name}>{name}</SelectItem>
+                      ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label>Profile</Label>
+              <Select value={profileId} onValueChange={setProfileId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {HEALTH_SCORING_PROFILES.map(profile => (
+                    <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={handleAssign} disabled={!scopeValue || isSaving}>
+              {isSaving ? 'Saving...' : 'Assign'}
+            </Button>
+          </div>
+
+          {/* Current assignments */}
+          <div className="grid gap-2">
+            <Label>Assignments</Label>
+            {assignments.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No assignments yet - every campaign uses the default profile.</p>
+            ) : (
+              <div className="rounded-md border divide-y">
+                {assignments.map(assignment => (
+                  <div key={assignment.id} className="flex items-center gap-2 px-3 py-2 text-sm">
+                    <Badge variant="outline" className="capitalize">{assignment.scope}</Badge>
+                    <span className="flex-1 truncate" title={assignment.scope_value}>{assignment.scope_value}</span>
+                    <Badge variant="secondary">{getHealthProfile(assignment.profile_id).name}</Badge>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      onClick={() => onRemove(assignment.scope, assignment.scope_value)}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
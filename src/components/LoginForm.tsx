@@ -8,7 +8,7 @@ import { AlertCircle, Eye, EyeOff } from 'lucide-react'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 
 export const LoginForm: React.FC = () => {
-  const [username, setUsername] = useState('')
+  const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
   const [showPassword, setShowPassword] = useState(false)
   const [error, setError] = useState('')
@@ -21,9 +21,9 @@ export const LoginForm: React.FC = () => {
     setIsLoggingIn(true)
 
     try {
-      const success = await login(username, password)
+      const success = await login(email, password)
       if (!success) {
-        setError('Invalid username or password')
+        setError('Invalid email or password')
       }
     } catch (error) {
       setError('Login failed. Please try again.')
@@ -46,15 +46,16 @@ export const LoginForm: React.FC = () => {
         <CardContent>
           <form onSubmit={handleSubmit} className="space-y-4">
             <div className="space-y-2">
-              <Label htmlFor="username">Username</Label>
+              <Label htmlFor="email">Email</Label>
               <Input
-                id="username"
-                type="text"
-                value={username}
-                onChange={(e) => setUsername(e.target.value)}
+                id="email"
+                type="email"
+                autoComplete="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
                 required
                 disabled={isLoggingIn}
-                placeholder="Enter your username"
+                placeholder="Enter your email"
               />
             </div>
 
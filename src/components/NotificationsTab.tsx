@@ -1,5 +1,5 @@
 import { CampaignDataRow } from '@/types/campaign';
-import { useState, useEffect, useMemo } from "react";
+import { useState, useEffect, useMemo, useCallback } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -26,9 +26,15 @@ import { AnomalyFiltersComponent, ActiveFilters, AnomalyFilters } from "./Anomal
 import { filterAnomalies } from "@/utils/anomalyFilters";
 import {
   CampaignAnomaly,
-  detectAllAnomalies
+  detectAllAnomalies,
+  planAnomalyRescore
 } from "@/utils/anomalyDetection";
+import { createAnomalyRulesResolver, isInRuleScope, withRuleOverrides } from "@/utils/anomalyRules";
+import { AnomalyRuleOverrides, AnomalyRuleScope, AnomalyRulesResolver, AnomalyRuleUpsert } from "@/types/anomaly";
+import { AnomalyRulesDialog } from "./AnomalyRulesDialog";
 import { useSupabase } from "@/contexts/use-supabase";
+import { useCampaignFilter } from "@/contexts/use-campaign-filter";
+import { useAnomalyRules } from "@/hooks/useAnomalyRules";
 import { toast } from "sonner";
 
 interface NotificationsTabProps {
@@ -41,11 +47,21 @@ export function NotificationsTab({ campaignData }: NotificationsTabProps) {
   const [isLoading, setIsLoading] = useState(true);
   const [isScanning, setIsScanning] = useState(false);
   const [showIgnored, setShowIgnored] = useState(false);
-  const [detectionSettings, setDetectionSettings] = useState({
-    impressionThreshold: 20,
-    transactionDropThreshold: 90,
-    zeroTransactionDays: 2
-  });
+  const [isRulesDialogOpen, setIsRulesDialogOpen] = useState(false);
+
+  // Detection thresholds are persisted rules resolved per campaign (campaign > agency > global)
+  const { extractAgencyInfo } = useCampaignFilter();
+  const getAgencyAbbreviation = useCallback(
+    (campaignName: string) => extractAgencyInfo(campaignName).abbreviation,
+    [extractAgencyInfo]
+  );
+  const {
+    rules: detectionRules,
+    resolveRules,
+    saveRule,
+    deleteRule,
+    isSaving: isSavingRules
+  } = useAnomalyRules(getAgencyAbbreviation);
 
   // Convert campaign data to the format expected by anomaly detection
   const formatCampaignData = (data: CampaignDataRow[]): CampaignDataRow[] => {
@@ -60,63 +76,104 @@ export function NotificationsTab({ campaignData }: NotificationsTabProps) {
     }));
   };
 
-  const { getAnomalies, upsertAnomalies, updateAnomaly } = useSupabase();
+  const { getAnomalies, upsertAnomalies, updateAnomaly, deleteAnomalies } = useSupabase();
+
+  // Re-run detection for the campaigns in scope and swap their stored anomalies
+  // for the results - ignored ones are kept (see planAnomalyRescore)
+  // @returns Number of anomalies detected
+  const rescoreAnomalies = async (
+    resolve: AnomalyRulesResolver,
+    isInScope: (campaignName: string) => boolean
+  ): Promise<number> => {
+    const scopedData = formatCampaignData(campaignData).filter(row => isInScope(row["CAMPAIGN ORDER NAME"]));
+    // Only campaigns with data can be re-detected; anomalies for the rest are left alone
+    const scannedCampaigns = new Set(scopedData.map(row => row["CAMPAIGN ORDER NAME"]));
+
+    const detectedAnomalies = detectAllAnomalies(scopedData, resolve);
+    const storedAnomalies = await getAnomalies(true) as CampaignAnomaly[];
+    const { staleIds, newAnomalies } = planAnomalyRescore(
+      storedAnomalies,
+      detectedAnomalies,
+      campaignName => scannedCampaigns.has(campaignName)
+    );
+
+    if (staleIds.length > 0) {
+      await deleteAnomalies(staleIds);
+    }
+
+    if (newAnomalies.length > 0) {
+      await upsertAnomalies(newAnomalies.map(anomaly => ({
+        campaign_name: anomaly.campaign_name,
+        anomaly_type: anomaly.anomaly_type,
+        date_detected: anomaly.date_detected,
+        severity: anomaly.severity,
+        details: anomaly.details,
+        is_ignored: anomaly.is_ignored,
+        custom_duration: anomaly.custom_duration
+      })), false);
+    }
+
+    const dbAnomalies = await getAnomalies(showIgnored);
+    setAnomalies(dbAnomalies.map(a => ({
+      ...a,
+      id: a.id || undefined
+    })));
+
+    return detectedAnomalies.length;
+  };
 
   // Scan for new anomalies
   const scanForAnomalies = async () => {
     setIsScanning(true);
     try {
-      console.log("🔍 Scanning for anomalies...");
-      console.log("🔍 Campaign data length:", campaignData.length);
-
       if (!campaignData || campaignData.length === 0) {
         toast.error("No campaign data available to scan");
         return;
       }
 
-      const formattedData = formatCampaignData(campaignData);
-      console.log("🔍 Formatted data sample:", formattedData.slice(0, 2));
-
-      const detectedAnomalies = detectAllAnomalies(formattedData, detectionSettings);
-      console.log(`🔍 Detected ${detectedAnomalies.length} anomalies`);
-
-      // Store new anomalies in database
-      if (detectedAnomalies.length > 0) {
-        const anomaliesToInsert = detectedAnomalies.map(anomaly => ({
-          campaign_name: anomaly.campaign_name,
-          anomaly_type: anomaly.anomaly_type,
-          date_detected: anomaly.date_detected,
-          severity: anomaly.severity,
-          details: anomaly.details,
-          is_ignored: anomaly.is_ignored,
-          custom_duration: anomaly.custom_duration
-        }));
-
-        console.log("🔍 Upserting anomalies to database...");
-        await upsertAnomalies(anomaliesToInsert);
-        console.log("🔍 Successfully upserted anomalies");
-      }
-
-      // Reload anomalies from database
-      console.log("🔍 Loading anomalies from database...");
-      const dbAnomalies = await getAnomalies(showIgnored);
-      console.log("🔍 Loaded anomalies:", dbAnomalies.length);
-
-      setAnomalies(dbAnomalies.map(a => ({
-        ...a,
-        id: a.id || undefined
-      })));
-
-      toast.success(`Scan complete: ${detectedAnomalies.length} anomalies found`);
+      const detectedCount = await rescoreAnomalies(resolveRules, () => true);
+      toast.success(`Scan complete: ${detectedCount} anomalies found`);
     } catch (error) {
       console.error("Error scanning for anomalies:", error);
-      console.error("Error details:", error);
       toast.error(`Failed to scan for anomalies: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
       setIsScanning(false);
     }
   };
 
+  // Anomalies raised under the old thresholds are re-scored once a rule change is
+  // saved. The rules query hasn't reloaded yet, so the change is applied to the
+  // current rules here.
+  const rescoreAfterRuleChange = async (scope: AnomalyRuleScope, scopeValue: string, settings: AnomalyRuleOverrides | null) => {
+    if (campaignData.length === 0) return;
+
+    setIsScanning(true);
+    try {
+      const resolve = createAnomalyRulesResolver(
+        withRuleOverrides(detectionRules, scope, scopeValue, settings),
+        getAgencyAbbreviation
+      );
+      await rescoreAnomalies(resolve, campaignName => isInRuleScope(scope, scopeValue, campaignName, getAgencyAbbreviation));
+    } catch (error) {
+      console.error("Error re-scoring anomalies:", error);
+      toast.error("Failed to re-score anomalies for the new rules");
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  const handleSaveRule = (rule: AnomalyRuleUpsert) => {
+    saveRule(rule, {
+      onSuccess: () => rescoreAfterRuleChange(rule.scope, rule.scope_value, rule.settings)
+    });
+  };
+
+  const handleResetRule = (scope: AnomalyRuleScope, scopeValue: string) => {
+    deleteRule(scope, scopeValue, {
+      onSuccess: () => rescoreAfterRuleChange(scope, scopeValue, null)
+    });
+  };
+
   // Load anomalies on component mount
   useEffect(() => {
     const loadAnomalies = async () => {
@@ -183,6 +240,11 @@ export function NotificationsTab({ campaignData }: NotificationsTabProps) {
     return campaigns;
   }, [campaignData]);
 
+  const campaignNames = useMemo(
+    () => Array.from(availableCampaigns).sort(),
+    [availableCampaigns]
+  );
+
   // Filter anomalies based on current filters, show/hide ignored, and global filters
   const filteredAnomalies = useMemo(() => {
     let filtered = filterAnomalies(anomalies, filters);
@@ -289,6 +351,15 @@ export function NotificationsTab({ campaignData }: NotificationsTabProps) {
             {showIgnored ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
             {showIgnored ? 'Hide Ignored' : 'Show Ignored'}
           </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setIsRulesDialogOpen(true)}
+            className="flex items-center gap-2"
+          >
+            <Settings className="h-4 w-4" />
+            Detection Rules
+          </Button>
           <Button
             onClick={scanForAnomalies}
             disabled={isScanning}
@@ -368,6 +439,17 @@ export function NotificationsTab({ campaignData }: NotificationsTabProps) {
       </div>
 
       {/* Detection Settings */}
+      <AnomalyRulesDialog
+        isOpen={isRulesDialogOpen}
+        onClose={() => setIsRulesDialogOpen(false)}
+        rules={detectionRules}
+        campaignNames={campaignNames}
+        getAgencyAbbreviation={getAgencyAbbreviation}
+        onSave={handleSaveRule}
+        onReset={handleResetRule}
+        isSaving={isSavingRules}
+      />
+
       {campaignData.length === 0 && (
         <Alert>
           <AlertTriangle className="h-4 w-4" />
@@ -346,6 +346,10 @@ const QuadrantZoomModal = ({
                         <span>Overall Health:</span>
                         <span className="font-medium">{tooltipState.campaigns[0].healthScore}</span>
                       </div>
+                      <div className="flex justify-between">
+                        <span>Scoring Profile:</span>
+                        <span className="font-medium">{tooltipState.campaigns[0].profileName}</span>
+                      </div>
                       <div className="flex justify-between">
                         <span>ROAS:</span>
                         <span className="font-medium">{formatNumber(tooltipState.campaigns[0].roas, { decimals: 1 })}x (Score: {tooltipState.campaigns[0].roasScore})</span>
@@ -391,6 +395,10 @@ const QuadrantZoomModal = ({
                         </AccordionTrigger>
                         <AccordionContent className="px-3 pb-3">
                           <div className="space-y-1 text-xs">
+                            <div className="flex justify-between">
+                              <span>Scoring Profile:</span>
+                              <span className="font-medium">{campaign.profileName}</span>
+                            </div>
                             <div className="flex justify-between">
                               <span>ROAS:</span>
                               <span className="font-medium">{formatNumber(campaign.roas, { decimals: 1 })}x (Score: {campaign.roasScore})</span>
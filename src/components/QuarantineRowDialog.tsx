@@ -0,0 +1,105 @@
+import { useEffect, useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { GenericCSVRow } from "@/types/csv";
+import { QuarantinedRow } from "@/types/upload-history";
+import { CSV_IMPORT_FIELDS, applyColumnMapping } from "@/utils/csvColumnMapping";
+import { validateImportRow } from "@/utils/csvProcessing";
+
+const DELIVERY_FIELDS = CSV_IMPORT_FIELDS.delivery;
+
+// Form values are already under the canonical headers - map each field to itself
+const IDENTITY_MAPPING = Object.fromEntries(DELIVERY_FIELDS.map(field => [field.key, field.key]));
+
+interface QuarantineRowDialogProps {
+  row: QuarantinedRow | null;
+  onClose: () => void;
+  onReimport: (row: QuarantinedRow, fixedData: GenericCSVRow) => void;
+  onDiscard: (row: QuarantinedRow) => void;
+  getAgencyAbbreviation: (campaignName: string) => string;
+  isSaving?: boolean;
+}
+
+export function QuarantineRowDialog({
+  row,
+  onClose,
+  onReimport,
+  onDiscard,
+  getAgencyAbbreviation,
+  isSaving = false
+}: QuarantineRowDialogProps) {
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!row) return;
+    setValues(Object.fromEntries(DELIVERY_FIELDS.map(field => [field.key, String(row.row_data[field.key] ?? '')])));
+  }, [row]);
+
+  const fixedData = useMemo(
+    () => applyColumnMapping('delivery', [values], IDENTITY_MAPPING, 'MM/DD/YYYY')[0] || {},
+    [values]
+  );
+  const issues = useMemo(
+    () => validateImportRow(fixedData, getAgencyAbbreviation),
+    [fixedData, getAgencyAbbreviation]
+  );
+
+  return (
+    <Dialog open={!!row} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Fix Quarantined Row</DialogTitle>
+          <DialogDescription>
+            {row?.file_name || 'Unknown file'}{row?.row_number ? `, row ${row.row_number}` : ''}. Dates use MM/DD/YYYY.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-3 py-2">
+          {DELIVERY_FIELDS.map(field => (
+            <div key={field.key} className="grid grid-cols-[150px_1fr] items-center gap-2">
+              <Label htmlFor={`quarantine-${field.key}`} className="text-sm">
+                {field.label}
+                {field.required && <span className="text-red-500 ml-0.5">*</span>}
+              </Label>
+              <Input
+                id={`quarantine-${field.key}`}
+                value={values[field.key] ?? ''}
+                onChange={(e) => setValues(prev => ({ ...prev, [field.key]: e.target.value }))}
+                className="h-8"
+              />
+            </div>
+          ))}
+
+          {issues.length > 0 ? (
+            <ul className="text-sm text-red-600 list-disc pl-5">
+              {issues.map((issue, index) => (
+                <li key={index}>{issue.message}</li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-green-700">Row passes validation.</p>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button
+            variant="outline"
+            className="text-red-600 hover:text-red-700"
+            onClick={() => row && onDiscard(row)}
+            disabled={isSaving}
+          >
+            Discard Row
+          </Button>
+          <Button
+            onClick={() => row && onReimport(row, fixedData)}
+            disabled={isSaving || issues.length > 0}
+          >
+            {isSaving ? 'Importing...' : 'Re-import'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
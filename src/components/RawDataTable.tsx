@@ -31,7 +31,6 @@ import {
 } from "@/components/ui/select";
 import { normalizeDate, parseDateString } from "@/lib/utils";
 import { useCampaignFilter } from "@/contexts/use-campaign-filter";
-import { AGENCY_MAPPING } from "@/contexts/agency-mapping";
 
 interface RawDataTableProps {
   data: CampaignDataRow[];
@@ -0,0 +1,230 @@
+/**
+ * SavedViewsMenu - Open, save, share and delete saved views of the dashboard
+ * filters and chart settings. Also restores the view a page opens with.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { useCampaignFilter } from '@/contexts/use-campaign-filter';
+import { useSavedViews, useRestoreSavedView } from '@/hooks/useSavedViews';
+import { SavedView, SavedViewVisibility } from '@/types/saved-views';
+import { serializeViewState, VIEW_ID_PARAM } from '@/utils/savedViews';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Bookmark, Link, Save, Star, Trash2, Users } from 'lucide-react';
+import { toast } from 'sonner';
+
+const buildLink = (params: URLSearchParams) => {
+  const query = params.toString();
+  return `${window.location.origin}${window.location.pathname}${query ? `?${query}` : ''}`;
+};
+
+export function SavedViewsMenu() {
+  const { viewState, applyViewState } = useCampaignFilter();
+  const { views, defaultViewId, saveView, deleteView, setDefaultView, isSaving, canEdit } = useSavedViews();
+  const [activeView, setActiveView] = useState<SavedView | null>(null);
+  const [isSaveDialogOpen, setIsSaveDialogOpen] = useState(false);
+
+  useRestoreSavedView(useCallback((view: SavedView | null) => setActiveView(view), []));
+
+  const personalViews = views.filter(view => view.visibility === 'personal');
+  const sharedViews = views.filter(view => view.visibility === 'shared');
+
+  const openView = (view: SavedView) => {
+    applyViewState(view.state);
+    setActiveView(view);
+  };
+
+  const handleSaveNew = (name: string, visibility: SavedViewVisibility, makeDefault: boolean) => {
+    saveView({ name, visibility, state: viewState }, {
+      onSuccess: (view) => {
+        setActiveView(view);
+        setIsSaveDialogOpen(false);
+        if (makeDefault) setDefaultView(view.id);
+      }
+    });
+  };
+
+  const handleUpdate = () => {
+    if (!activeView) return;
+    saveView(
+      { id: activeView.id, name: activeView.name, visibility: activeView.visibility, state: viewState },
+      { onSuccess: setActiveView }
+    );
+  };
+
+  const copyLink = async (params: URLSearchParams, label: string) => {
+    try {
+      await navigator.clipboard.writeText(buildLink(params));
+      toast.success(`${label} copied to clipboard`);
+    } catch (error) {
+      console.error('Error copying view link:', error);
+      toast.error('Failed to copy to clipboard');
+    }
+  };
+
+  const renderViewItem = (view: SavedView) => (
+    <DropdownMenuItem key={view.id} onClick={() => openView(view)} className="gap-2">
+      <span className="truncate flex-1">{view.name}</span>
+      {view.id === defaultViewId && <Star className="h-3 w-3 fill-current text-amber-500" />}
+    </DropdownMenuItem>
+  );
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="gap-2 max-w-[220px]">
+            <Bookmark className="h-4 w-4" />
+            <span className="truncate">{activeView?.name || 'Views'}</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuLabel>My Views</DropdownMenuLabel>
+          {personalViews.length > 0
+            ? personalViews.map(renderViewItem)
+            : <div className="px-2 py-1.5 text-xs text-muted-foreground">No personal views yet</div>}
+
+          <DropdownMenuLabel className="flex items-center gap-2">
+            <Users className="h-3 w-3" />
+            Shared Views
+          </DropdownMenuLabel>
+          {sharedViews.length > 0
+            ? sharedViews.map(renderViewItem)
+            : <div className="px-2 py-1.5 text-xs text-muted-foreground">No shared views yet</div>}
+
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => setIsSaveDialogOpen(true)} className="gap-2">
+            <Save className="h-4 w-4" />
+            Save current view as...
+          </DropdownMenuItem>
+          {activeView && canEdit(activeView) && (
+            <DropdownMenuItem onClick={handleUpdate} disabled={isSaving} className="gap-2">
+              <Save className="h-4 w-4" />
+              Update "{activeView.name}"
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onClick={() => copyLink(serializeViewState(viewState), 'Link to current view')} className="gap-2">
+            <Link className="h-4 w-4" />
+            Copy link to current view
+          </DropdownMenuItem>
+
+          {activeView && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem
+                onClick={() => copyLink(new URLSearchParams({ [VIEW_ID_PARAM]: activeView.id }), `Link to "${activeView.name}"`)}
+                className="gap-2"
+              >
+                <Link className="h-4 w-4" />
+                Copy link to "{activeView.name}"
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => setDefaultView(activeView.id === defaultViewId ? null : activeView.id)}
+                className="gap-2"
+              >
+                <Star className="h-4 w-4" />
+                {activeView.id === defaultViewId ? 'Clear my default view' : 'Set as my default view'}
+              </DropdownMenuItem>
+              {canEdit(activeView) && (
+                <DropdownMenuItem
+                  onClick={() => deleteView(activeView.id, { onSuccess: () => setActiveView(null) })}
+                  className="gap-2 text-red-600 focus:text-red-700"
+                >
+                  <Trash2 className="h-4 w-4" />
+                  Delete "{activeView.name}"
+                </DropdownMenuItem>
+              )}
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <SaveViewDialog
+        open={isSaveDialogOpen}
+        onClose={() => setIsSaveDialogOpen(false)}
+        onSave={handleSaveNew}
+        isSaving={isSaving}
+      />
+    </>
+  );
+}
+
+interface SaveViewDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSave: (name: string, visibility: SavedViewVisibility, makeDefault: boolean) => void;
+  isSaving: boolean;
+}
+
+function SaveViewDialog({ open, onClose, onSave, isSaving }: SaveViewDialogProps) {
+  const [name, setName] = useState('');
+  const [isShared, setIsShared] = useState(false);
+  const [makeDefault, setMakeDefault] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName('');
+    setIsShared(false);
+    setMakeDefault(false);
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={(nextOpen) => !nextOpen && onClose()}>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle>Save View</DialogTitle>
+          <DialogDescription>
+            Saves the current filters, date range, tab and chart settings.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="saved-view-name">Name</Label>
+            <Input
+              id="saved-view-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Orangellow - last 30 days"
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="saved-view-shared">Share with the team</Label>
+              <p className="text-xs text-muted-foreground">Shared views are listed for everyone</p>
+            </div>
+            <Switch id="saved-view-shared" checked={isShared} onCheckedChange={setIsShared} />
+          </div>
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="saved-view-default">Make this my default</Label>
+              <p className="text-xs text-muted-foreground">Opened automatically when you sign in</p>
+            </div>
+            <Switch id="saved-view-default" checked={makeDefault} onCheckedChange={setMakeDefault} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            onClick={() => onSave(name, isShared ? 'shared' : 'personal', makeDefault)}
+            disabled={!name.trim() || isSaving}
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
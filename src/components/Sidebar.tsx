@@ -1,8 +1,8 @@
 import React, { useState } from 'react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
-import { AdminPasswordDialog } from '@/components/AdminPasswordDialog';
 import { useAuth } from '@/contexts/use-auth';
+import { useMyOpenTaskCounts } from '@/hooks/useMyTasks';
 import {
   LayoutDashboard,
   ChartLine,
@@ -40,6 +40,8 @@ interface NavItem {
   label: string;
   icon: React.ComponentType<{ className?: string }>;
   condition?: boolean;
+  badge?: number;
+  badgeTitle?: string;
 }
 
 const Sidebar: React.FC<SidebarProps> = ({
@@ -57,8 +59,8 @@ const Sidebar: React.FC<SidebarProps> = ({
 }) => {
   const [isCollapsed, setIsCollapsed] = useState(false);
   const [isMobileOpen, setIsMobileOpen] = useState(false);
-  const [showAdminDialog, setShowAdminDialog] = useState(false);
-  const { logout } = useAuth();
+  const { logout, hasRole } = useAuth();
+  const { openCount: myOpenTasks, overdueCount: myOverdueTasks } = useMyOpenTaskCounts();
 
   // Format timestamp in Pacific Time
   const formatTimestamp = (date: Date | null | undefined): string => {
@@ -127,7 +129,9 @@ const Sidebar: React.FC<SidebarProps> = ({
       id: 'priorities',
       label: 'Daily Priorities',
       icon: CheckSquare,
-      condition: true
+      condition: true,
+      badge: myOpenTasks,
+      badgeTitle: `${myOpenTasks} open tasks assigned to you, ${myOverdueTasks} overdue`
     },
     {
       id: 'custom-report',
@@ -196,6 +200,17 @@ const Sidebar: React.FC<SidebarProps> = ({
                 {!isCollapsed && (
                   <span className="text-sm font-medium">{item.label}</span>
                 )}
+                {!isCollapsed && !!item.badge && (
+                  <span
+                    className={cn(
+                      "ml-auto rounded-full px-1.5 text-[10px] font-semibold",
+                      isActive ? "bg-primary-foreground text-primary" : "bg-primary/10 text-primary"
+                    )}
+                    title={item.badgeTitle}
+                  >
+                    {item.badge}
+                  </span>
+                )}
               </Button>
             );
           })}
@@ -244,8 +259,8 @@ const Sidebar: React.FC<SidebarProps> = ({
             </div>
           )}
 
-          {/* Clear Database Button */}
-          {onClearDatabase && pacingDataLength === 0 && (
+          {/* Clear Database Button (admins only) */}
+          {onClearDatabase && pacingDataLength === 0 && hasRole('admin') && (
             <Button
               variant="outline"
               className={cn(
@@ -253,7 +268,7 @@ const Sidebar: React.FC<SidebarProps> = ({
                 isCollapsed && "justify-center px-2"
               )}
               onClick={() => {
-                setShowAdminDialog(true);
+                onClearDatabase();
                 setIsMobileOpen(false);
               }}
             >
@@ -337,17 +352,6 @@ const Sidebar: React.FC<SidebarProps> = ({
       >
         <SidebarContent />
       </div>
-
-      {/* Admin Password Dialog */}
-      <AdminPasswordDialog
-        isOpen={showAdminDialog}
-        onClose={() => setShowAdminDialog(false)}
-        onSuccess={() => {
-          onClearDatabase?.();
-        }}
-        title="Admin Authentication Required"
-        description="Clearing the database will permanently delete all campaign data. This action cannot be undone. Please enter the admin password to continue."
-      />
     </>
   );
 };
@@ -0,0 +1,22 @@
+import { Switch } from "@/components/ui/switch";
+import { useCampaignFilter } from "@/contexts/use-campaign-filter";
+
+export function SpendModeToggle() {
+  const { spendMode, setSpendMode } = useCampaignFilter();
+
+  return (
+    <div
+      className="flex items-center space-x-2"
+      title="Normalized spend applies each agency's spend rules (effective CPM, markup or pass-through); raw spend is as reported"
+    >
+      <Switch
+        checked={spendMode === 'normalized'}
+        onCheckedChange={(checked) => setSpendMode(checked ? 'normalized' : 'raw')}
+        className="data-[state=checked]:bg-primary"
+      />
+      <span className="text-sm font-medium">
+        {spendMode === 'normalized' ? "Normalized Spend" : "Raw Spend"}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,315 @@
+/**
+ * SpendNormalizationRulesCard - Per-agency rules that turn reported spend into
+ * the normalized spend the dashboard, priorities and reports compare
+ */
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { useAgencies } from '@/hooks/useAgencies';
+import { useSpendNormalizationRules } from '@/hooks/useSpendNormalization';
+import {
+  SPEND_NORMALIZATION_METHOD_LABELS,
+  SpendNormalizationMethod,
+  SpendNormalizationRule,
+  SpendNormalizationRuleUpsert
+} from '@/types/spend-normalization';
+import { findAgencyByCode } from '@/contexts/agency-mapping';
+import { getDisplayName } from '@/config/users';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Plus } from 'lucide-react';
+
+const EMPTY_RULE: SpendNormalizationRuleUpsert = {
+  agency_abbreviation: '',
+  method: 'effective_cpm',
+  value: null,
+  effective_from: null,
+  effective_to: null,
+  notes: null
+};
+
+const formatRuleValue = (rule: SpendNormalizationRule) => {
+  if (rule.method === 'pass_through' || rule.value === null) return '-';
+  return rule.method === 'effective_cpm' ? `$${rule.value.toFixed(2)} CPM` : `${rule.value}%`;
+};
+
+const formatEffectiveRange = (rule: SpendNormalizationRule) => {
+  if (!rule.effective_from && !rule.effective_to) return 'Always';
+  if (!rule.effective_to) return `From ${rule.effective_from}`;
+  if (!rule.effective_from) return `Until ${rule.effective_to}`;
+  return `${rule.effective_from} to ${rule.effective_to}`;
+};
+
+export function SpendNormalizationRulesCard() {
+  const { rules, isLoading, saveRule, deleteRule, isSaving, canManage } = useSpendNormalizationRules();
+  const [editRule, setEditRule] = useState<SpendNormalizationRuleUpsert | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<SpendNormalizationRule | null>(null);
+
+  return (
+    <Card className="shadow-sm mt-6">
+      <CardHeader className="border-b bg-white">
+        <div className="flex items-start gap-4">
+          <div>
+            <CardTitle className="text-lg">Spend Normalization</CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">
+              How each agency's reported spend is normalized. Agencies without a rule are shown as reported.
+            </p>
+          </div>
+          {canManage && (
+            <Button variant="outline" className="ml-auto gap-2" onClick={() => setEditRule(EMPTY_RULE)}>
+              <Plus className="h-4 w-4" />
+              Add Rule
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="p-0">
+        {isLoading ? (
+          <div className="p-6 text-sm text-muted-foreground">Loading spend rules...</div>
+        ) : rules.length === 0 ? (
+          <div className="p-6 text-sm text-muted-foreground">No spend rules - every agency's spend is shown as reported.</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Agency</TableHead>
+                <TableHead>Method</TableHead>
+                <TableHead>Value</TableHead>
+                <TableHead>Effective</TableHead>
+                <TableHead>Notes</TableHead>
+                <TableHead>Last Updated</TableHead>
+                {canManage && <TableHead className="text-right">Actions</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.map(rule => (
+                <TableRow key={rule.id}>
+                  <TableCell className="whitespace-nowrap">
+                    <span className="font-mono font-medium">{rule.agency_abbreviation}</span>
+                    <span className="text-muted-foreground"> - {findAgencyByCode(rule.agency_abbreviation)?.display_name ?? 'Unknown'}</span>
+                  </TableCell>
+                  <TableCell>{SPEND_NORMALIZATION_METHOD_LABELS[rule.method]}</TableCell>
+                  <TableCell className="whitespace-nowrap">{formatRuleValue(rule)}</TableCell>
+                  <TableCell className="whitespace-nowrap text-xs">{formatEffectiveRange(rule)}</TableCell>
+                  <TableCell className="max-w-[240px] truncate text-xs" title={rule.notes || undefined}>
+                    {rule.notes || <span className="text-muted-foreground">-</span>}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap text-xs text-muted-foreground">
+                    {format(new Date(rule.updated_at), 'MMM d, yyyy')}
+                    {rule.updated_by && ` by ${getDisplayName(rule.updated_by)}`}
+                  </TableCell>
+                  {canManage && (
+                    <TableCell className="text-right whitespace-nowrap">
+                      <div className="flex justify-end gap-2">
+                        <Button variant="outline" size="sm" onClick={() => setEditRule(rule)}>
+                          Edit
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="text-red-600 hover:text-red-700"
+                          onClick={() => setDeleteTarget(rule)}
+                        >
+                          Delete
+                        </Button>
+                      </div>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <SpendRuleDialog
+        rule={editRule}
+        onClose={() => setEditRule(null)}
+        onSave={(rule) => saveRule(rule, { onSuccess: () => setEditRule(null) })}
+        isSaving={isSaving}
+      />
+
+      <AlertDialog open={deleteTarget !== null} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Spend Rule</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleteTarget?.agency_abbreviation} spend covered by this rule ({deleteTarget && formatEffectiveRange(deleteTarget).toLowerCase()}) will
+              be shown as reported unless another rule covers it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteTarget && deleteRule(deleteTarget.id, { onSettled: () => setDeleteTarget(null) })}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
+
+interface SpendRuleDialogProps {
+  rule: SpendNormalizationRuleUpsert | null; // null when closed
+  onClose: () => void;
+  onSave: (rule: SpendNormalizationRuleUpsert) => void;
+  isSaving: boolean;
+}
+
+function SpendRuleDialog({ rule, onClose, onSave, isSaving }: SpendRuleDialogProps) {
+  const { activeAgencies } = useAgencies();
+  const [agency, setAgency] = useState('');
+  const [method, setMethod] = useState<SpendNormalizationMethod>('effective_cpm');
+  const [value, setValue] = useState('');
+  const [effectiveFrom, setEffectiveFrom] = useState('');
+  const [effectiveTo, setEffectiveTo] = useState('');
+  const [notes, setNotes] = useState('');
+
+  useEffect(() => {
+    if (!rule) return;
+    setAgency(rule.agency_abbreviation);
+    setMethod(rule.method);
+    setValue(rule.value === null ? '' : String(rule.value));
+    setEffectiveFrom(rule.effective_from || '');
+    setEffectiveTo(rule.effective_to || '');
+    setNotes(rule.notes || '');
+  }, [rule]);
+
+  const needsValue = method !== 'pass_through';
+  const parsedValue = value.trim() === '' ? NaN : Number(value);
+  const isValueValid = !needsValue || (Number.isFinite(parsedValue) && (method === 'markup' || parsedValue > 0));
+  const isRangeValid = !effectiveFrom || !effectiveTo || effectiveFrom <= effectiveTo;
+
+  const handleSave = () => {
+    onSave({
+      ...(rule?.id ? { id: rule.id } : {}),
+      agency_abbreviation: agency,
+      method,
+      value: needsValue ? parsedValue : null,
+      effective_from: effectiveFrom || null,
+      effective_to: effectiveTo || null,
+      notes: notes.trim() || null
+    });
+  };
+
+  return (
+    <Dialog open={rule !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{rule?.id ? 'Edit Spend Rule' : 'Add Spend Rule'}</DialogTitle>
+          <DialogDescription>
+            Leave the dates empty for an open-ended rule. Where rules overlap, the one starting latest applies.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label>Agency</Label>
+            <Select value={agency} onValueChange={setAgency}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select agency..." />
+              </SelectTrigger>
+              <SelectContent>
+                {activeAgencies.map(({ abbreviation, display_name }) => (
+                  <SelectItem key={abbreviation} value={abbreviation}>
+                    {abbreviation} - {display_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>Method</Label>
+              <Select value={method} onValueChange={(next) => setMethod(next as SpendNormalizationMethod)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(SPEND_NORMALIZATION_METHOD_LABELS) as SpendNormalizationMethod[]).map(m => (
+                    <SelectItem key={m} value={m}>{SPEND_NORMALIZATION_METHOD_LABELS[m]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="spend-rule-value">{method === 'markup' ? 'Markup (%)' : 'CPM ($)'}</Label>
+              <Input
+                id="spend-rule-value"
+                type="number"
+                step="0.01"
+                value={needsValue ? value : ''}
+                onChange={(e) => setValue(e.target.value)}
+                placeholder={method === 'markup' ? '15' : '7.00'}
+                disabled={!needsValue}
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="spend-rule-from">Effective From</Label>
+              <Input id="spend-rule-from" type="date" value={effectiveFrom} onChange={(e) => setEffectiveFrom(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="spend-rule-to">Effective To</Label>
+              <Input id="spend-rule-to" type="date" value={effectiveTo} onChange={(e) => setEffectiveTo(e.target.value)} />
+            </div>
+          </div>
+          {!isRangeValid && (
+            <p className="text-xs text-red-600">The end date is before the start date.</p>
+          )}
+          <div className="space-y-1">
+            <Label htmlFor="spend-rule-notes">Notes</Label>
+            <Textarea
+              id="spend-rule-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="e.g. billing terms this rule reflects"
+              rows={2}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSave} disabled={!agency || !isValueValid || !isRangeValid || isSaving}>
+            {isSaving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,3 @@
-import { CampaignDataRow } from '@/types/campaign';
 import React, { useState } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
@@ -6,16 +5,27 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Upload, FileText, Target } from 'lucide-react';
 import { toast } from 'sonner';
 import Papa from 'papaparse';
+import CsvColumnMappingStep from './CsvColumnMappingStep';
+import CsvValidationReportStep from './CsvValidationReportStep';
+import { GenericCSVRow } from '@/types/csv';
 
 interface UnifiedUploadModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onDeliveryDataLoaded?: (data: CampaignDataRow[]) => void;
-  onContractTermsLoaded?: (data: CampaignDataRow[]) => void;
+  onDeliveryDataLoaded?: (rows: GenericCSVRow[], fileName: string) => void;
+  onContractTermsLoaded?: (rows: GenericCSVRow[]) => void;
 }
 
 type FileType = 'delivery' | 'contract-terms' | '';
 
+// A parsed file waiting for its columns to be mapped (and, for delivery data, validated)
+interface PendingFile {
+  name: string;
+  headers: string[];
+  rows: GenericCSVRow[];
+  mappedRows?: GenericCSVRow[];
+}
+
 const UnifiedUploadModal: React.FC<UnifiedUploadModalProps> = ({
   isOpen,
   onClose,
@@ -24,6 +34,7 @@ const UnifiedUploadModal: React.FC<UnifiedUploadModalProps> = ({
 }) => {
   const [selectedFileType, setSelectedFileType] = useState<FileType>('');
   const [isUploading, setIsUploading] = useState(false);
+  const [pendingFile, setPendingFile] = useState<PendingFile | null>(null);
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -44,6 +55,7 @@ const UnifiedUploadModal: React.FC<UnifiedUploadModalProps> = ({
     Papa.parse(file, {
       header: true,
       skipEmptyLines: true,
+      transformHeader: (header: string) => header.trim(),
       complete: (results) => {
         setIsUploading(false);
 
@@ -53,43 +65,16 @@ const UnifiedUploadModal: React.FC<UnifiedUploadModalProps> = ({
           return;
         }
 
-        const data = results.data as unknown[];
-
-        if (selectedFileType === 'delivery') {
-          // Validate delivery data columns
-          const requiredColumns = ['DATE', 'CAMPAIGN ORDER NAME', 'IMPRESSIONS', 'CLICKS', 'REVENUE', 'SPEND'];
-          const headers = Object.keys(data[0] || {});
-          const missingColumns = requiredColumns.filter(col =>
-            !headers.some(header => header.toUpperCase().includes(col))
-          );
-
-          if (missingColumns.length > 0) {
-            toast.error(`Missing required columns: ${missingColumns.join(', ')}`);
-            return;
-          }
-
-          onDeliveryDataLoaded?.(data);
-          toast.success(`Successfully loaded ${data.length} delivery records`);
-        } else if (selectedFileType === 'contract-terms') {
-          // Validate contract terms columns
-          const requiredColumns = ['Name', 'Start Date', 'End Date', 'Budget', 'CPM', 'Impressions Goal'];
-          const headers = Object.keys(data[0] || {});
-          const missingColumns = requiredColumns.filter(col =>
-            !headers.some(header => header.toLowerCase().includes(col.toLowerCase()))
-          );
-
-          if (missingColumns.length > 0) {
-            toast.error(`Missing required columns: ${missingColumns.join(', ')}`);
-            return;
-          }
-
-          onContractTermsLoaded?.(data);
-          toast.success(`Successfully loaded ${data.length} contract terms`);
+        const rows = results.data as GenericCSVRow[];
+        const headers = (results.meta.fields || []).filter(Boolean);
+
+        if (rows.length === 0 || headers.length === 0) {
+          toast.error('The CSV file has no data rows');
+          return;
         }
 
-        // Reset form and close modal
-        setSelectedFileType('');
-        onClose();
+        // Columns are matched up in the mapping step before anything is loaded
+        setPendingFile({ name: file.name, headers, rows });
       },
       error: (error) => {
         setIsUploading(false);
@@ -102,8 +87,34 @@ const UnifiedUploadModal: React.FC<UnifiedUploadModalProps> = ({
     event.target.value = '';
   };
 
+  const handleMappingConfirmed = (rows: GenericCSVRow[]) => {
+    // Delivery rows get a validation report before anything is loaded
+    if (selectedFileType === 'delivery') {
+      setPendingFile(prev => prev && { ...prev, mappedRows: rows });
+      return;
+    }
+
+    finishImport(rows);
+  };
+
+  const finishImport = (rows: GenericCSVRow[]) => {
+    if (selectedFileType === 'delivery') {
+      if (rows.length > 0) {
+        onDeliveryDataLoaded?.(rows, pendingFile?.name);
+      }
+    } else if (selectedFileType === 'contract-terms') {
+      onContractTermsLoaded?.(rows);
+    }
+
+    // Reset form and close modal
+    setPendingFile(null);
+    setSelectedFileType('');
+    onClose();
+  };
+
   const handleClose = () => {
     if (!isUploading) {
+      setPendingFile(null);
       setSelectedFileType('');
       onClose();
     }
@@ -111,86 +122,104 @@ const UnifiedUploadModal: React.FC<UnifiedUploadModalProps> = ({
 
   return (
     <Dialog open={isOpen} onOpenChange={handleClose}>
-      <DialogContent className="sm:max-w-md">
+      <DialogContent className={pendingFile ? "sm:max-w-3xl max-h-[90vh] overflow-y-auto" : "sm:max-w-md"}>
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Upload className="h-5 w-5" />
-            Upload CSV Data
+            {pendingFile?.mappedRows ? 'Review Rows' : pendingFile ? 'Map Columns' : 'Upload CSV Data'}
           </DialogTitle>
         </DialogHeader>
 
-        <div className="space-y-6">
-          <div className="space-y-2">
-            <label className="text-sm font-medium">File Type</label>
-            <Select value={selectedFileType} onValueChange={(value: FileType) => setSelectedFileType(value)}>
-              <SelectTrigger>
-                <SelectValue placeholder="Select the type of data you're uploading" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="delivery">
-                  <div className="flex items-center gap-2">
-                    <FileText className="h-4 w-4" />
-                    <div>
-                      <div className="font-medium">Campaign Delivery Data</div>
-                      <div className="text-xs text-muted-foreground">Performance reports with impressions, clicks, revenue</div>
+        {pendingFile?.mappedRows ? (
+          <CsvValidationReportStep
+            fileName={pendingFile.name}
+            rows={pendingFile.mappedRows}
+            onBack={() => setPendingFile(prev => prev && { ...prev, mappedRows: undefined })}
+            onConfirm={finishImport}
+          />
+        ) : pendingFile && selectedFileType ? (
+          <CsvColumnMappingStep
+            kind={selectedFileType}
+            fileName={pendingFile.name}
+            headers={pendingFile.headers}
+            rows={pendingFile.rows}
+            onBack={() => setPendingFile(null)}
+            onConfirm={handleMappingConfirmed}
+          />
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">File Type</label>
+              <Select value={selectedFileType} onValueChange={(value: FileType) => setSelectedFileType(value)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select the type of data you're uploading" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="delivery">
+                    <div className="flex items-center gap-2">
+                      <FileText className="h-4 w-4" />
+                      <div>
+                        <div className="font-medium">Campaign Delivery Data</div>
+                        <div className="text-xs text-muted-foreground">Performance reports with impressions, clicks, revenue</div>
+                      </div>
                     </div>
-                  </div>
-                </SelectItem>
-                <SelectItem value="contract-terms">
-                  <div className="flex items-center gap-2">
-                    <Target className="h-4 w-4" />
-                    <div>
-                      <div className="font-medium">Contract Terms</div>
-                      <div className="text-xs text-muted-foreground">Campaign budgets, goals, and date ranges</div>
+                  </SelectItem>
+                  <SelectItem value="contract-terms">
+                    <div className="flex items-center gap-2">
+                      <Target className="h-4 w-4" />
+                      <div>
+                        <div className="font-medium">Contract Terms</div>
+                        <div className="text-xs text-muted-foreground">Campaign budgets, goals, and date ranges</div>
+                      </div>
                     </div>
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">CSV File</label>
+              <div className="flex items-center justify-center w-full">
+                <label
+                  htmlFor="csv-upload"
+                  className={`flex flex-col items-center justify-center w-full h-32 border-2 border-dashed rounded-lg cursor-pointer transition-colors ${
+                    selectedFileType
+                      ? 'border-gray-300 bg-gray-50 hover:bg-gray-100'
+                      : 'border-gray-200 bg-gray-25 cursor-not-allowed'
+                  }`}
+                >
+                  <div className="flex flex-col items-center justify-center pt-5 pb-6">
+                    <Upload className={`w-8 h-8 mb-4 ${selectedFileType ? 'text-gray-500' : 'text-gray-300'}`} />
+                    <p className={`mb-2 text-sm ${selectedFileType ? 'text-gray-500' : 'text-gray-400'}`}>
+                      <span className="font-semibold">Click to upload</span> or drag and drop
+                    </p>
+                    <p className={`text-xs ${selectedFileType ? 'text-gray-500' : 'text-gray-400'}`}>
+                      CSV files only
+                    </p>
                   </div>
-                </SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
+                  <input
+                    id="csv-upload"
+                    type="file"
+                    accept=".csv"
+                    className="hidden"
+                    onChange={handleFileUpload}
+                    disabled={!selectedFileType || isUploading}
+                  />
+                </label>
+              </div>
+            </div>
 
-          <div className="space-y-2">
-            <label className="text-sm font-medium">CSV File</label>
-            <div className="flex items-center justify-center w-full">
-              <label
-                htmlFor="csv-upload"
-                className={`flex flex-col items-center justify-center w-full h-32 border-2 border-dashed rounded-lg cursor-pointer transition-colors ${
-                  selectedFileType
-                    ? 'border-gray-300 bg-gray-50 hover:bg-gray-100'
-                    : 'border-gray-200 bg-gray-25 cursor-not-allowed'
-                }`}
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="outline"
+                onClick={handleClose}
+                disabled={isUploading}
               >
-                <div className="flex flex-col items-center justify-center pt-5 pb-6">
-                  <Upload className={`w-8 h-8 mb-4 ${selectedFileType ? 'text-gray-500' : 'text-gray-300'}`} />
-                  <p className={`mb-2 text-sm ${selectedFileType ? 'text-gray-500' : 'text-gray-400'}`}>
-                    <span className="font-semibold">Click to upload</span> or drag and drop
-                  </p>
-                  <p className={`text-xs ${selectedFileType ? 'text-gray-500' : 'text-gray-400'}`}>
-                    CSV files only
-                  </p>
-                </div>
-                <input
-                  id="csv-upload"
-                  type="file"
-                  accept=".csv"
-                  className="hidden"
-                  onChange={handleFileUpload}
-                  disabled={!selectedFileType || isUploading}
-                />
-              </label>
+                Cancel
+              </Button>
             </div>
           </div>
-
-          <div className="flex justify-end gap-2">
-            <Button
-              variant="outline"
-              onClick={handleClose}
-              disabled={isUploading}
-            >
-              Cancel
-            </Button>
-          </div>
-        </div>
+        )}
       </DialogContent>
     </Dialog>
   );
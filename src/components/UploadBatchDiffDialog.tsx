@@ -0,0 +1,129 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useUploadBatchDiff } from "@/hooks/useUploadHistory";
+import { UploadBatch, UploadDiffMetric, UploadRowDiff } from "@/types/upload-history";
+import { UPLOAD_DIFF_METRICS } from "@/utils/uploadHistory";
+
+// Rendering every row of a large upload makes the dialog unusable
+const MAX_DIFF_ROWS = 200;
+
+const METRIC_LABELS: Record<UploadDiffMetric, string> = {
+  impressions: 'Impressions',
+  clicks: 'Clicks',
+  revenue: 'Revenue',
+  spend: 'Spend',
+  transactions: 'Transactions'
+};
+
+const formatMetric = (metric: UploadDiffMetric, value: number | undefined): string => {
+  if (value === undefined) return '-';
+  if (metric === 'revenue' || metric === 'spend') return `$${value.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+  return value.toLocaleString();
+};
+
+const renderMetricCell = (row: UploadRowDiff, metric: UploadDiffMetric) => {
+  const after = row.after[metric];
+  const before = row.before?.[metric];
+
+  if (row.change !== 'changed' || before === after) {
+    return <span>{formatMetric(metric, after)}</span>;
+  }
+
+  return (
+    <span>
+      <span className="text-muted-foreground line-through mr-1">{formatMetric(metric, before)}</span>
+      <span className="font-medium">{formatMetric(metric, after)}</span>
+    </span>
+  );
+};
+
+interface UploadBatchDiffDialogProps {
+  batch: UploadBatch | null;
+  onClose: () => void;
+}
+
+export function UploadBatchDiffDialog({ batch, onClose }: UploadBatchDiffDialogProps) {
+  const { data: diff, isLoading, error } = useUploadBatchDiff(batch);
+  const changedRows = diff?.rows.filter(row => row.change !== 'unchanged') || [];
+
+  return (
+    <Dialog open={!!batch} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[960px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Upload Changes</DialogTitle>
+          <DialogDescription>
+            {batch?.file_name || 'Unnamed upload'} - rows this upload wrote compared with the data before it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && <p className="text-sm text-muted-foreground">Loading changes...</p>}
+        {error && <p className="text-sm text-red-600">Failed to load changes.</p>}
+
+        {diff && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge className="bg-green-100 text-green-800">{diff.added.toLocaleString()} added</Badge>
+              <Badge className="bg-yellow-100 text-yellow-800">{diff.changed.toLocaleString()} changed</Badge>
+              <Badge variant="secondary">{diff.unchanged.toLocaleString()} unchanged</Badge>
+              {diff.superseded > 0 && (
+                <Badge variant="outline">
+                  {diff.superseded.toLocaleString()} {batch?.status === 'rolled_back' ? 'removed by rollback' : 'overwritten by later uploads'}
+                </Badge>
+              )}
+            </div>
+
+            {changedRows.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No rows from this upload differ from the data before it.</p>
+            ) : (
+              <>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Campaign</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Change</TableHead>
+                      {UPLOAD_DIFF_METRICS.map(metric => (
+                        <TableHead key={metric} className="text-right">{METRIC_LABELS[metric]}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {changedRows.slice(0, MAX_DIFF_ROWS).map(row => (
+                      <TableRow key={`${row.date}|${row.campaign_order_name}`}>
+                        <TableCell className="max-w-[260px] truncate text-xs" title={row.campaign_order_name}>
+                          {row.campaign_order_name}
+                        </TableCell>
+                        <TableCell className="text-xs whitespace-nowrap">{row.date}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className="capitalize">{row.change}</Badge>
+                        </TableCell>
+                        {UPLOAD_DIFF_METRICS.map(metric => (
+                          <TableCell key={metric} className="text-right text-xs whitespace-nowrap">
+                            {renderMetricCell(row, metric)}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {changedRows.length > MAX_DIFF_ROWS && (
+                  <p className="text-xs text-muted-foreground">
+                    Showing the first {MAX_DIFF_ROWS} of {changedRows.length.toLocaleString()} changed rows.
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -86,6 +86,10 @@ export const HealthScatterTooltip = ({
               <span>Overall Health:</span>
               <span className="font-medium">{tooltipState.campaigns[0].healthScore}</span>
             </div>
+            <div className="flex justify-between">
+              <span>Scoring Profile:</span>
+              <span className="font-medium">{tooltipState.campaigns[0].profileName}</span>
+            </div>
             <div className="flex justify-between">
               <span>ROAS:</span>
               <span className="font-medium">{tooltipState.campaigns[0].roas.toFixed(1)}x (Score: {tooltipState.campaigns[0].roasScore})</span>
@@ -131,6 +135,10 @@ export const HealthScatterTooltip = ({
               </AccordionTrigger>
               <AccordionContent className="px-3 pb-3">
                 <div className="space-y-1 text-xs">
+                  <div className="flex justify-between">
+                    <span>Scoring Profile:</span>
+                    <span className="font-medium">{campaign.profileName}</span>
+                  </div>
                   <div className="flex justify-between">
                     <span>ROAS:</span>
                     <span className="font-medium">{campaign.roas.toFixed(1)}x (Score: {campaign.roasScore})</span>
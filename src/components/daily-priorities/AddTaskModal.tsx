@@ -9,17 +9,21 @@ import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Check, ChevronsUpDown } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { DailyPriorityInsert, PrioritySection } from '@/types/daily-priorities';
+import { NewPriorityInput, PrioritySection, RecurrenceRule } from '@/types/daily-priorities';
+import { WEEKDAY_LABELS } from '@/lib/recurrence';
 import { useAdvertisersList } from '@/hooks/useAdvertisersList';
 import { useAgenciesList } from '@/hooks/useAgenciesList';
 import { useAuth } from '@/contexts/use-auth';
 
+type RepeatOption = 'none' | RecurrenceRule['type'];
+
 interface AddTaskModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onAdd: (task: DailyPriorityInsert) => void;
+  onAdd: (task: NewPriorityInput) => void;
   section: PrioritySection;
   date: string;
   nextPriorityOrder: number;
@@ -50,6 +54,10 @@ export default function AddTaskModal({
   const [advertiserComboboxOpen, setAdvertiserComboboxOpen] = useState(false);
   const [advertiserSearchValue, setAdvertiserSearchValue] = useState('');
   const [ticketUrlError, setTicketUrlError] = useState('');
+  const [repeat, setRepeat] = useState<RepeatOption>('none');
+  const [repeatWeekdays, setRepeatWeekdays] = useState<number[]>([]);
+  const [repeatInterval, setRepeatInterval] = useState('7');
+  const [repeatError, setRepeatError] = useState('');
 
   // Update priority_order when nextPriorityOrder prop changes
   useEffect(() => {
@@ -128,6 +136,25 @@ export default function AddTaskModal({
       return;
     }
 
+    // Build recurrence rule (if repeating)
+    let recurrenceRule: RecurrenceRule | null = null;
+    if (repeat === 'weekly') {
+      if (repeatWeekdays.length === 0) {
+        setRepeatError('Select at least one day');
+        return;
+      }
+      recurrenceRule = { type: 'weekly', weekdays: repeatWeekdays };
+    } else if (repeat === 'every_n_days') {
+      const interval = parseInt(repeatInterval);
+      if (isNaN(interval) || interval < 1) {
+        setRepeatError('Enter a number of days (1 or more)');
+        return;
+      }
+      recurrenceRule = { type: 'every_n_days', interval };
+    } else if (repeat === 'monthly_first_business_day') {
+      recurrenceRule = { type: 'monthly_first_business_day' };
+    }
+
     // Parse and validate priority number
     let priorityNum = parseInt(formData.priority_order);
 
@@ -149,7 +176,8 @@ export default function AddTaskModal({
       assignees: formData.assignees
         ? formData.assignees.split(',').map(a => a.trim()).filter(Boolean)
         : [],
-      created_by: currentUser?.id || null
+      created_by: currentUser?.id || null,
+      recurrence_rule: recurrenceRule
     };
 
     console.log('Adding task with data:', taskToAdd);
@@ -165,9 +193,24 @@ export default function AddTaskModal({
       assignees: ''
     });
     setTicketUrlError('');
+    resetRepeat();
     onClose();
   };
 
+  const resetRepeat = () => {
+    setRepeat('none');
+    setRepeatWeekdays([]);
+    setRepeatInterval('7');
+    setRepeatError('');
+  };
+
+  const toggleRepeatWeekday = (day: number) => {
+    setRepeatWeekdays(prev =>
+      prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day].sort((a, b) => a - b)
+    );
+    setRepeatError('');
+  };
+
   const handleCancel = () => {
     setFormData({
       priority_order: nextPriorityOrder.toString(),
@@ -178,6 +221,7 @@ export default function AddTaskModal({
       assignees: ''
     });
     setTicketUrlError('');
+    resetRepeat();
     onClose();
   };
 
@@ -450,6 +494,70 @@ export default function AddTaskModal({
               placeholder="Ben, Tyler, Hannah (comma-separated)"
             />
           </div>
+
+          <div className="grid gap-2">
+            <Label>Repeat</Label>
+            <Select
+              value={repeat}
+              onValueChange={(value) => {
+                setRepeat(value as RepeatOption);
+                setRepeatError('');
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Does not repeat</SelectItem>
+                <SelectItem value="weekly">Weekly on selected days</SelectItem>
+                <SelectItem value="monthly_first_business_day">First business day of the month</SelectItem>
+                <SelectItem value="every_n_days">Every N days</SelectItem>
+              </SelectContent>
+            </Select>
+
+            {repeat === 'weekly' && (
+              <div className="flex gap-1">
+                {WEEKDAY_LABELS.map((label, day) => (
+                  <Button
+                    key={label}
+                    type="button"
+                    variant={repeatWeekdays.includes(day) ? 'default' : 'outline'}
+                    size="sm"
+                    className="h-7 px-2 text-xs"
+                    onClick={() => toggleRepeatWeekday(day)}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+            )}
+
+            {repeat === 'every_n_days' && (
+              <div className="flex items-center gap-2 text-sm">
+                <span>Every</span>
+                <Input
+                  type="number"
+                  min="1"
+                  value={repeatInterval}
+                  onChange={(e) => {
+                    setRepeatInterval(e.target.value);
+                    setRepeatError('');
+                  }}
+                  className="w-20"
+                />
+                <span>days</span>
+              </div>
+            )}
+
+            {repeat !== 'none' && (
+              <p className="text-xs text-muted-foreground">
+                A new copy of this task is added to this section on each scheduled day, even after it is completed.
+              </p>
+            )}
+            {repeatError && (
+              <p className="text-sm text-destructive">{repeatError}</p>
+            )}
+          </div>
         </div>
 
         <DialogFooter>
@@ -0,0 +1,211 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAgencies } from "@/hooks/useAgencies";
+import {
+  AlertThresholds,
+  AlertThresholdScope,
+  AlertThresholdSetting,
+  AlertThresholdSettingUpsert
+} from "@/types/daily-priorities";
+import { DEFAULT_ALERT_THRESHOLDS, diffThresholdOverrides } from "@/utils/alertThresholds";
+
+interface AlertThresholdsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: AlertThresholdSetting[];
+  onSave: (setting: AlertThresholdSettingUpsert) => void;
+  onReset: (scope: AlertThresholdScope, scopeValue: string) => void;
+  isSaving?: boolean;
+  canEdit?: boolean;
+}
+
+const SCOPE_LABELS: Record<AlertThresholdScope, string> = {
+  global: 'All agencies',
+  agency: 'Agency'
+};
+
+export function AlertThresholdsDialog({
+  isOpen,
+  onClose,
+  settings,
+  onSave,
+  onReset,
+  isSaving = false,
+  canEdit = true
+}: AlertThresholdsDialogProps) {
+  const [scope, setScope] = useState<AlertThresholdScope>('global');
+  const [scopeValue, setScopeValue] = useState('');
+  const [values, setValues] = useState<AlertThresholds>(DEFAULT_ALERT_THRESHOLDS);
+
+  const { activeAgencies: agencyOptions } = useAgencies();
+
+  const findSetting = useCallback(
+    (settingScope: AlertThresholdScope, value: string) =>
+      settings.find(s => s.scope === settingScope && s.scope_value === value),
+    [settings]
+  );
+
+  // Thresholds this scope inherits from
+  const parentThresholds = useMemo(() => {
+    if (scope === 'global') return DEFAULT_ALERT_THRESHOLDS;
+    return { ...DEFAULT_ALERT_THRESHOLDS, ...findSetting('global', '')?.settings };
+  }, [scope, findSetting]);
+
+  const existingSetting = findSetting(scope, scopeValue);
+
+  // Load the effective values whenever the selected scope changes
+  useEffect(() => {
+    setValues({ ...parentThresholds, ...existingSetting?.settings });
+  }, [parentThresholds, existingSetting]);
+
+  const hasScopeTarget = scope === 'global' || scopeValue !== '';
+
+  const handleScopeChange = (value: AlertThresholdScope) => {
+    setScope(value);
+    setScopeValue('');
+  };
+
+  const handleNumberChange = (key: keyof AlertThresholds, value: string) => {
+    const parsed = parseFloat(value);
+    setValues(prev => ({ ...prev, [key]: isNaN(parsed) ? 0 : parsed }));
+  };
+
+  const handleSave = () => {
+    onSave({
+      scope,
+      scope_value: scope === 'global' ? '' : scopeValue,
+      settings: diffThresholdOverrides(parentThresholds, values)
+    });
+  };
+
+  const renderNumberField = (key: keyof AlertThresholds, label: string, step: string = '1') => (
+    <div className="grid gap-1">
+      <Label className="text-xs text-muted-foreground">{label}</Label>
+      <Input
+        type="number"
+        step={step}
+        min="0"
+        value={values[key]}
+        onChange={(e) => handleNumberChange(key, e.target.value)}
+        disabled={!canEdit}
+      />
+    </div>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Alert Thresholds</DialogTitle>
+          <DialogDescription>
+            Agency thresholds override the thresholds for all agencies.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label>Applies to</Label>
+              <Select value={scope} onValueChange={(value) => handleScopeChange(value as AlertThresholdScope)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(SCOPE_LABELS) as AlertThresholdScope[]).map(s => (
+                    <SelectItem key={s} value={s}>{SCOPE_LABELS[s]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {scope === 'agency' && (
+              <div className="grid gap-2">
+                <Label>Agency</Label>
+                <Select value={scopeValue} onValueChange={setScopeValue}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select agency..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {agencyOptions.map(({ abbreviation, display_name }) => (
+                      <SelectItem key={abbreviation} value={abbreviation}>
+                        {abbreviation} - {display_name}
+                        {findSetting('agency', abbreviation) ? ' •' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          {hasScopeTarget && (
+            <>
+              {existingSetting && scope !== 'global' && (
+                <Badge variant="secondary" className="w-fit">Custom thresholds set for this agency</Badge>
+              )}
+
+              <div className="grid gap-2">
+                <Label>Upcoming renewals</Label>
+                <div className="grid grid-cols-3 gap-2">
+                  {renderNumberField('renewalLeadDays', 'Lead time (days)')}
+                  {renderNumberField('renewalMediumDays', 'Medium within (days)')}
+                  {renderNumberField('renewalHighDays', 'High within (days)')}
+                </div>
+              </div>
+
+              <div className="grid gap-2">
+                <Label>Pacing alerts</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  {renderNumberField('pacingUnderThreshold', 'Under-pacing below (%)', 'any')}
+                  {renderNumberField('pacingOverThreshold', 'Over-pacing above (%)', 'any')}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Severity is medium more than 5 points outside the band, high more than 10.
+                </p>
+              </div>
+
+              <div className="grid gap-2">
+                <Label>ROAS alerts</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  {renderNumberField('roasFloor', 'ROAS floor', 'any')}
+                  {renderNumberField('roasMinSpend', 'Minimum spend ($)', 'any')}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          {existingSetting && canEdit && (
+            <Button
+              variant="outline"
+              className="mr-auto"
+              onClick={() => onReset(scope, existingSetting.scope_value)}
+            >
+              {scope === 'global' ? 'Reset to defaults' : 'Remove agency thresholds'}
+            </Button>
+          )}
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          {canEdit && (
+            <Button onClick={handleSave} disabled={!hasScopeTarget || isSaving}>
+              {isSaving ? 'Saving...' : 'Save Thresholds'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,10 +3,11 @@
  */
 
 import { useState, useMemo } from 'react';
-import { AutoGeneratedPriority, RenewalStatus } from '@/types/daily-priorities';
+import { Link } from 'react-router-dom';
+import { AutoGeneratedPriority, DailyPriority, RenewalStatus } from '@/types/daily-priorities';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { TableCell } from '@/components/ui/table';
-import { AlertCircle, AlertTriangle, Info, ArrowUpDown, ArrowUp, ArrowDown, EyeOff, Eye } from 'lucide-react';
+import { AlertCircle, AlertTriangle, Info, ArrowUpDown, ArrowUp, ArrowDown, EyeOff, Eye, UserPlus } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
@@ -33,6 +34,8 @@ interface AutoGeneratedSectionProps {
   onShowIgnoredChange?: (show: boolean) => void;
   isLoadingCampaignData?: boolean;
   headerAction?: React.ReactNode;
+  onClaim?: (priority: AutoGeneratedPriority) => void;
+  getClaimedTask?: (campaignName: string) => DailyPriority | undefined;
 }
 
 const severityIcons = {
@@ -69,7 +72,9 @@ export default function AutoGeneratedSection({
   showIgnored = false,
   onShowIgnoredChange,
   isLoadingCampaignData = false,
-  headerAction
+  headerAction,
+  onClaim,
+  getClaimedTask
 }: AutoGeneratedSectionProps) {
   const [sortField, setSortField] = useState<SortField>(null);
   const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
@@ -242,11 +247,15 @@ export default function AutoGeneratedSection({
                   {showIgnoreToggle && (
                     <th className="h-10 px-2 text-center align-middle font-medium text-muted-foreground [&:has([role=checkbox])]:pr-0 [&>[role=checkbox]]:translate-y-[2px] w-20 bg-white dark:bg-slate-950">Ignore</th>
                   )}
+                  {onClaim && (
+                    <th className="h-10 px-2 text-left align-middle font-medium text-muted-foreground [&:has([role=checkbox])]:pr-0 [&>[role=checkbox]]:translate-y-[2px] w-36 bg-white dark:bg-slate-950">Owner</th>
+                  )}
                 </tr>
               </thead>
               <tbody>
                 {sortedPriorities.map((priority, idx) => {
                   const rowColorClass = priority.severity ? severityColors[priority.severity] : '';
+                  const claimedTask = getClaimedTask?.(priority.client_name);
 
                   return (
                     <tr
@@ -259,7 +268,9 @@ export default function AutoGeneratedSection({
                         </div>
                       </td>
                       <td className="px-2 py-4 align-middle [&:has([role=checkbox])]:pr-0 font-medium">
-                        {priority.client_name}
+                        <Link to={`/campaigns/${encodeURIComponent(priority.client_name)}`} className="hover:underline">
+                          {priority.client_name}
+                        </Link>
                       </td>
                       {showRenewalStatus && onStatusUpdate && (
                         <td className="px-2 py-4 align-middle [&:has([role=checkbox])]:pr-0">
@@ -321,6 +332,34 @@ export default function AutoGeneratedSection({
                           </div>
                         </td>
                       )}
+                      {onClaim && (
+                        <td className="px-2 py-4 align-middle [&:has([role=checkbox])]:pr-0">
+                          {claimedTask ? (
+                            <div className="flex gap-1 flex-wrap" title="Claimed as a priority task">
+                              {claimedTask.assignees.length > 0 ? claimedTask.assignees.map((assignee, assigneeIdx) => (
+                                <span
+                                  key={assigneeIdx}
+                                  className="inline-flex items-center px-2 py-0.5 rounded-full text-xs bg-primary/10 text-primary"
+                                >
+                                  {assignee}
+                                </span>
+                              )) : (
+                                <span className="text-muted-foreground italic">Claimed</span>
+                              )}
+                            </div>
+                          ) : (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="h-7 gap-1 text-xs"
+                              onClick={() => onClaim(priority)}
+                            >
+                              <UserPlus className="h-3 w-3" />
+                              Claim
+                            </Button>
+                          )}
+                        </td>
+                      )}
                     </tr>
                   );
                 })}
@@ -1,8 +1,9 @@
 /**
- * ChangelogModal - Shows activity log/changelog for daily priorities
+ * ChangelogModal - Shows activity log/changelog for daily priorities, status tracking,
+ * announcements, resources and anomalies
  */
 
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useCallback } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -13,7 +14,7 @@ import { History, Calendar, Search } from 'lucide-react';
 import { useActivityLog, useActivityLogArchive } from '@/hooks/useActivityLog';
 import { getDisplayName } from '@/config/users';
 import { format } from 'date-fns';
-import { ActivityLogEntry } from '@/types/activity-log';
+import { ACTIVITY_ENTITY_LABELS, ActivityEntityType, ActivityLogEntry } from '@/types/activity-log';
 import { SECTION_LABELS } from '@/types/daily-priorities';
 
 interface ChangelogModalProps {
@@ -21,15 +22,30 @@ interface ChangelogModalProps {
   onClose: () => void;
 }
 
+// What created/updated/deleted refer to for each entity type
+const ENTITY_NOUNS: Record<ActivityEntityType, string> = {
+  priority: 'task',
+  campaign: 'campaign',
+  renewal_tracking: 'renewal tracking',
+  launch_tracking: 'launch tracking',
+  announcement: 'announcement',
+  resource: 'resource',
+  anomaly: 'anomaly'
+};
+
+const ALL = 'all';
+
 // Helper to format action text
 const getActionText = (entry: ActivityLogEntry): string => {
+  const noun = ENTITY_NOUNS[entry.entity_type] || ENTITY_NOUNS.priority;
+
   switch (entry.action) {
     case 'created':
-      return 'Created task';
+      return `Created ${noun}`;
     case 'updated':
-      return 'Updated task';
+      return `Updated ${noun}`;
     case 'deleted':
-      return 'Deleted task';
+      return `Deleted ${noun}`;
     case 'completed':
       return 'Completed task';
     case 'reopened':
@@ -48,6 +64,14 @@ const getActionText = (entry: ActivityLogEntry): string => {
       return 'Enabled ROAS alerts for';
     case 'renewal_status_updated':
       return 'Updated renewal status for';
+    case 'alert_resolved':
+      return 'Alert cleared for';
+    case 'alert_reraised':
+      return 'Alert raised again for';
+    case 'renewal_tracking_moved':
+      return 'Moved renewal tracking for';
+    case 'launch_tracking_moved':
+      return 'Moved launch tracking for';
     default:
       return entry.action;
   }
@@ -104,6 +128,8 @@ export default function ChangelogModal({ isOpen, onClose }: ChangelogModalProps)
   const [selectedYear, setSelectedYear] = useState<number>(currentDate.getFullYear());
   const [selectedMonth, setSelectedMonth] = useState<number>(currentDate.getMonth());
   const [searchQuery, setSearchQuery] = useState<string>('');
+  const [entityFilter, setEntityFilter] = useState<string>(ALL);
+  const [userFilter, setUserFilter] = useState<string>(ALL);
 
   const { entries: currentMonthEntries, isLoading: currentLoading } = useActivityLog(
     currentDate.getFullYear(),
@@ -117,22 +143,35 @@ export default function ChangelogModal({ isOpen, onClose }: ChangelogModalProps)
 
   const { archive } = useActivityLogArchive();
 
-  // Filter entries by search query (advertiser name only)
-  const filteredCurrentEntries = useMemo(() => {
-    if (!searchQuery.trim()) return currentMonthEntries;
-    const query = searchQuery.toLowerCase();
-    return currentMonthEntries.filter(entry =>
-      entry.task_description?.toLowerCase().includes(query)
-    );
-  }, [currentMonthEntries, searchQuery]);
+  // Users who appear in the loaded entries, for the user filter
+  const userOptions = useMemo(() => {
+    const userIds = new Set([...currentMonthEntries, ...archiveEntries].map(entry => entry.user_id));
+    return Array.from(userIds)
+      .map(userId => ({ userId, name: getDisplayName(userId) }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [currentMonthEntries, archiveEntries]);
 
-  const filteredArchiveEntries = useMemo(() => {
-    if (!searchQuery.trim()) return archiveEntries;
-    const query = searchQuery.toLowerCase();
-    return archiveEntries.filter(entry =>
-      entry.task_description?.toLowerCase().includes(query)
+  // Filter entries by search query (advertiser/item name), entity type and user
+  const filterEntries = useCallback((entries: ActivityLogEntry[]) => {
+    const query = searchQuery.trim().toLowerCase();
+    return entries.filter(entry =>
+      (!query || entry.task_description?.toLowerCase().includes(query)) &&
+      (entityFilter === ALL || (entry.entity_type || 'priority') === entityFilter) &&
+      (userFilter === ALL || entry.user_id === userFilter)
     );
-  }, [archiveEntries, searchQuery]);
+  }, [searchQuery, entityFilter, userFilter]);
+
+  const filteredCurrentEntries = useMemo(
+    () => filterEntries(currentMonthEntries),
+    [currentMonthEntries, filterEntries]
+  );
+
+  const filteredArchiveEntries = useMemo(
+    () => filterEntries(archiveEntries),
+    [archiveEntries, filterEntries]
+  );
+
+  const isFiltered = !!searchQuery || entityFilter !== ALL || userFilter !== ALL;
 
   const renderEntry = (entry: ActivityLogEntry) => {
     const date = new Date(entry.created_at);
@@ -196,15 +235,41 @@ export default function ChangelogModal({ isOpen, onClose }: ChangelogModalProps)
           </DialogTitle>
         </DialogHeader>
 
-        {/* Search Field */}
-        <div className="relative">
-          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-          <Input
-            placeholder="Search by advertiser name..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="pl-9"
-          />
+        {/* Search and Filters */}
+        <div className="flex gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              placeholder="Search by advertiser name..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+          <Select value={entityFilter} onValueChange={setEntityFilter}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All activity</SelectItem>
+              {(Object.keys(ACTIVITY_ENTITY_LABELS) as ActivityEntityType[]).map(entityType => (
+                <SelectItem key={entityType} value={entityType}>
+                  {ACTIVITY_ENTITY_LABELS[entityType]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={userFilter} onValueChange={setUserFilter}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All users</SelectItem>
+              {userOptions.map(({ userId, name }) => (
+                <SelectItem key={userId} value={userId}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
 
         <Tabs defaultValue="current" className="w-full">
@@ -226,7 +291,7 @@ export default function ChangelogModal({ isOpen, onClose }: ChangelogModalProps)
                 </div>
               ) : filteredCurrentEntries.length === 0 ? (
                 <div className="text-sm text-muted-foreground py-8 text-center italic">
-                  {searchQuery ? 'No matching activity found' : 'No activity this month'}
+                  {isFiltered ? 'No matching activity found' : 'No activity this month'}
                 </div>
               ) : (
                 filteredCurrentEntries.map(renderEntry)
@@ -272,7 +337,7 @@ export default function ChangelogModal({ isOpen, onClose }: ChangelogModalProps)
                     </div>
                   ) : filteredArchiveEntries.length === 0 ? (
                     <div className="text-sm text-muted-foreground py-8 text-center italic">
-                      {searchQuery ? 'No matching activity found' : 'No activity for selected month'}
+                      {isFiltered ? 'No matching activity found' : 'No activity for selected month'}
                     </div>
                   ) : (
                     filteredArchiveEntries.map(renderEntry)
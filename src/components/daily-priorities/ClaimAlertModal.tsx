@@ -0,0 +1,140 @@
+/**
+ * ClaimAlertModal - Turns a campaign alert into a tracked priority task
+ */
+
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  ALERT_TYPE_LABELS,
+  AlertType,
+  AutoGeneratedPriority,
+  NewPriorityInput,
+  PrioritySection,
+  SECTION_LABELS,
+  SECTION_ORDER
+} from '@/types/daily-priorities';
+import { useAuth } from '@/contexts/use-auth';
+import { useCampaignFilter } from '@/contexts/use-campaign-filter';
+
+// Claimed alerts start as active work, never directly in Blocked
+const CLAIM_SECTIONS = SECTION_ORDER.filter(section => section !== 'blocked');
+
+interface ClaimAlertModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onClaim: (task: NewPriorityInput) => void;
+  alertType: AlertType;
+  alert: AutoGeneratedPriority | null;
+  date: string;
+  getNextPriorityOrder: (section: PrioritySection) => number;
+}
+
+export default function ClaimAlertModal({
+  isOpen,
+  onClose,
+  onClaim,
+  alertType,
+  alert,
+  date,
+  getNextPriorityOrder
+}: ClaimAlertModalProps) {
+  const { currentUser } = useAuth();
+  const { extractAgencyInfo, extractAdvertiserName } = useCampaignFilter();
+  const [section, setSection] = useState<PrioritySection>('partner_success');
+  const [assignees, setAssignees] = useState('');
+  const [description, setDescription] = useState('');
+
+  // Reset the form for each alert that is opened
+  useEffect(() => {
+    if (!isOpen || !alert) return;
+    setSection('partner_success');
+    setAssignees(currentUser?.displayName || '');
+    setDescription(`${ALERT_TYPE_LABELS[alertType]} alert: ${alert.description}`);
+  }, [isOpen, alert, alertType, currentUser]);
+
+  const handleSubmit = () => {
+    if (!alert) return;
+
+    const campaignName = alert.client_name;
+    onClaim({
+      active_date: date,
+      created_date: new Date().toISOString(),
+      section,
+      priority_order: getNextPriorityOrder(section),
+      agency_name: extractAgencyInfo(campaignName).agency || null,
+      client_name: extractAdvertiserName(campaignName) || campaignName,
+      ticket_url: null,
+      description: description || null,
+      assignees: assignees.split(',').map(a => a.trim()).filter(Boolean),
+      created_by: currentUser?.id || null,
+      alert_type: alertType,
+      alert_campaign_name: campaignName
+    });
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Claim {ALERT_TYPE_LABELS[alertType]} Alert</DialogTitle>
+          <DialogDescription>
+            Adds a task linked to this alert. It is flagged as resolved once the campaign drops off the alert list.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-4">
+          <p className="text-sm font-medium">{alert?.client_name}</p>
+
+          <div className="grid gap-2">
+            <Label>Section</Label>
+            <Select value={section} onValueChange={(value) => setSection(value as PrioritySection)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CLAIM_SECTIONS.map(value => (
+                  <SelectItem key={value} value={value}>{SECTION_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="claim-assignees">Assignee(s)</Label>
+            <Input
+              id="claim-assignees"
+              value={assignees}
+              onChange={(e) => setAssignees(e.target.value)}
+              placeholder="Ben, Tyler, Hannah (comma-separated)"
+            />
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="claim-description">Description</Label>
+            <Textarea
+              id="claim-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!alert}>
+            Claim
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
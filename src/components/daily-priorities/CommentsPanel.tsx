@@ -1,88 +1,120 @@
 /**
  * CommentsPanel - Shows and manages comments for a task
+ * Comments follow the task across carry-forward copies, support @mentions of known
+ * users and one level of threaded replies. Opening the panel marks them as read.
  */
 
-import { useState, useEffect } from 'react';
-import { useSupabase } from '@/contexts/use-supabase';
-import { PriorityComment, PriorityCommentInsert } from '@/types/daily-priorities';
+import { useState, useEffect, useRef } from 'react';
+import { DailyPriority, PriorityComment } from '@/types/daily-priorities';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
-import { MessageSquare, Send, X } from 'lucide-react';
+import { MessageSquare, Send, Reply, Pencil, Trash2 } from 'lucide-react';
 import { format } from 'date-fns';
 import { toZonedTime } from 'date-fns-tz';
-import { useAuth } from '@/contexts/use-auth';
-import { getDisplayName } from '@/config/users';
+import { getDisplayName, getUsers } from '@/config/users';
+import { useTaskComments } from '@/hooks/useTaskComments';
+import { getMentionQuery, splitMentions } from '@/utils/mentions';
+import { cn } from '@/lib/utils';
 
 interface CommentsPanelProps {
-  priorityId: string;
+  task: DailyPriority;
   isOpen: boolean;
   onClose: () => void;
-  onCommentAdded?: () => void;
 }
 
-export default function CommentsPanel({ priorityId, isOpen, onClose, onCommentAdded }: CommentsPanelProps) {
-  const { supabase } = useSupabase();
-  const { currentUser } = useAuth();
-  const [comments, setComments] = useState<PriorityComment[]>([]);
-  const [newComment, setNewComment] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
-  const [isSending, setIsSending] = useState(false);
+const formatCommentDate = (timestamp: string) =>
+  format(toZonedTime(new Date(timestamp), 'America/Los_Angeles'), 'MMM d, yyyy h:mm a');
 
-  // Fetch comments
+export default function CommentsPanel({ task, isOpen, onClose }: CommentsPanelProps) {
+  const {
+    comments,
+    threads,
+    isLoading,
+    addComment,
+    editComment,
+    deleteComment,
+    markRead,
+    isSending,
+    canEdit,
+    canDelete
+  } = useTaskComments(task, isOpen);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  // Everything visible while the panel is open counts as read
   useEffect(() => {
-    const fetchComments = async () => {
-      setIsLoading(true);
-      const { data, error } = await supabase
-        .from('priority_comments')
-        .select('*')
-        .eq('priority_id', priorityId)
-        .order('created_at', { ascending: true });
-
-      if (error) {
-        console.error('Error fetching comments:', error);
-      } else {
-        setComments(data || []);
-      }
-      setIsLoading(false);
-    };
-
-    fetchComments();
-  }, [supabase, priorityId]);
-
-  const handleAddComment = async () => {
-    if (!newComment.trim()) return;
-
-    setIsSending(true);
-    const commentData: PriorityCommentInsert = {
-      priority_id: priorityId,
-      comment: newComment.trim(),
-      created_by: currentUser?.id || null
-    };
-
-    const { data, error } = await supabase
-      .from('priority_comments')
-      .insert(commentData)
-      .select()
-      .single();
-
-    if (error) {
-      console.error('Error adding comment:', error);
-    } else if (data) {
-      setComments([...comments, data]);
-      setNewComment('');
-      onCommentAdded?.(); // Notify parent that a comment was added
-    }
-    setIsSending(false);
-  };
+    if (isOpen && !isLoading) markRead();
+  }, [isOpen, isLoading, comments.length, markRead]);
 
-  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
-    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
-      e.preventDefault();
-      handleAddComment();
+  const handleDelete = (comment: PriorityComment) => {
+    const hasReplies = comments.some(c => c.parent_id === comment.id);
+    if (confirm(hasReplies ? 'Delete this comment and its replies?' : 'Delete this comment?')) {
+      deleteComment(comment.id);
     }
   };
 
+  const renderComment = (comment: PriorityComment, isReply: boolean) => (
+    <div key={comment.id} className={cn('p-3 rounded-lg space-y-1', isReply ? 'bg-muted/30' : 'bg-muted/50')}>
+      {editingId === comment.id ? (
+        <CommentComposer
+          initialValue={comment.comment}
+          submitLabel="Save"
+          onSubmit={(text) => {
+            editComment({ id: comment.id, comment: text });
+            setEditingId(null);
+          }}
+          onCancel={() => setEditingId(null)}
+        />
+      ) : (
+        <p className="text-sm whitespace-pre-wrap">
+          <CommentText text={comment.comment} />
+        </p>
+      )}
+      <div className="flex items-center gap-2">
+        <p className="text-xs text-muted-foreground">
+          {getDisplayName(comment.created_by)} · {formatCommentDate(comment.created_at)} PT
+          {comment.edited_at && ' · edited'}
+        </p>
+        <div className="ml-auto flex gap-1">
+          {!isReply && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => setReplyingTo(replyingTo === comment.id ? null : comment.id)}
+            >
+              <Reply className="h-3 w-3 mr-1" />
+              Reply
+            </Button>
+          )}
+          {canEdit(comment) && editingId !== comment.id && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              onClick={() => setEditingId(comment.id)}
+              title="Edit comment"
+            >
+              <Pencil className="h-3 w-3" />
+            </Button>
+          )}
+          {canDelete(comment) && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              onClick={() => handleDelete(comment)}
+              title="Delete comment"
+            >
+              <Trash2 className="h-3 w-3 text-destructive" />
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="sm:max-w-[600px]">
@@ -98,49 +130,178 @@ export default function CommentsPanel({ priorityId, isOpen, onClose, onCommentAd
           <div className="space-y-3 max-h-[400px] overflow-y-auto">
             {isLoading ? (
               <p className="text-sm text-muted-foreground">Loading comments...</p>
-            ) : comments.length === 0 ? (
+            ) : threads.length === 0 ? (
               <p className="text-sm text-muted-foreground italic">No comments yet</p>
             ) : (
-              comments.map((comment) => {
-                const utcDate = new Date(comment.created_at);
-                const pacificDate = toZonedTime(utcDate, 'America/Los_Angeles');
-                const formattedDate = format(pacificDate, 'MMM d, yyyy h:mm a');
-
-                return (
-                  <div key={comment.id} className="p-3 bg-muted/50 rounded-lg space-y-1">
-                    <p className="text-sm whitespace-pre-wrap">{comment.comment}</p>
-                    <p className="text-xs text-muted-foreground">
-                      {getDisplayName(comment.created_by)} · {formattedDate} PT
-                    </p>
-                  </div>
-                );
-              })
+              threads.map(({ comment, replies }) => (
+                <div key={comment.id} className="space-y-2">
+                  {renderComment(comment, false)}
+                  {(replies.length > 0 || replyingTo === comment.id) && (
+                    <div className="ml-6 space-y-2 border-l pl-3">
+                      {replies.map(reply => renderComment(reply, true))}
+                      {replyingTo === comment.id && (
+                        <CommentComposer
+                          placeholder="Write a reply... (Cmd/Ctrl+Enter to send)"
+                          submitLabel="Reply"
+                          isSending={isSending}
+                          autoFocus
+                          onSubmit={(text) => {
+                            addComment({ comment: text, parentId: comment.id });
+                            setReplyingTo(null);
+                          }}
+                          onCancel={() => setReplyingTo(null)}
+                        />
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))
             )}
           </div>
 
           {/* Add Comment */}
-          <div className="space-y-2">
-            <Textarea
-              value={newComment}
-              onChange={(e) => setNewComment(e.target.value)}
-              onKeyDown={handleKeyDown}
-              placeholder="Add a comment... (Cmd/Ctrl+Enter to send)"
-              rows={3}
-              className="resize-none"
-            />
-            <div className="flex justify-end">
-              <Button
-                onClick={handleAddComment}
-                disabled={!newComment.trim() || isSending}
-                size="sm"
-              >
-                <Send className="h-3 w-3 mr-1" />
-                {isSending ? 'Sending...' : 'Send'}
-              </Button>
-            </div>
-          </div>
+          <CommentComposer
+            placeholder="Add a comment... Type @ to mention someone (Cmd/Ctrl+Enter to send)"
+            submitLabel="Send"
+            isSending={isSending}
+            onSubmit={(text) => addComment({ comment: text })}
+          />
         </div>
       </DialogContent>
     </Dialog>
   );
 }
+
+// Comment text with mentions of known users highlighted
+function CommentText({ text }: { text: string }) {
+  return (
+    <>
+      {splitMentions(text, getUsers()).map((part, idx) =>
+        part.userId ? (
+          <span key={idx} className="font-medium text-primary" title={getDisplayName(part.userId)}>
+            {part.text}
+          </span>
+        ) : (
+          <span key={idx}>{part.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+interface CommentComposerProps {
+  initialValue?: string;
+  placeholder?: string;
+  submitLabel: string;
+  isSending?: boolean;
+  autoFocus?: boolean;
+  onSubmit: (text: string) => void;
+  onCancel?: () => void;
+}
+
+// Textarea with @mention suggestions from the user directory
+function CommentComposer({
+  initialValue = '',
+  placeholder,
+  submitLabel,
+  isSending = false,
+  autoFocus = false,
+  onSubmit,
+  onCancel
+}: CommentComposerProps) {
+  const [text, setText] = useState(initialValue);
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const suggestions = mentionQuery === null
+    ? []
+    : getUsers()
+      .filter(u =>
+        u.username.toLowerCase().startsWith(mentionQuery.toLowerCase()) ||
+        u.displayName.toLowerCase().includes(mentionQuery.toLowerCase())
+      )
+      .slice(0, 5);
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setText(e.target.value);
+    setMentionQuery(getMentionQuery(e.target.value, e.target.selectionStart));
+  };
+
+  const insertMention = (username: string) => {
+    const cursor = textareaRef.current?.selectionStart ?? text.length;
+    const before = text.slice(0, cursor).replace(/@[\w.-]*$/, `@${username} `);
+    setText(before + text.slice(cursor));
+    setMentionQuery(null);
+    textareaRef.current?.focus();
+  };
+
+  const handleSubmit = () => {
+    if (!text.trim()) return;
+    onSubmit(text);
+    setText('');
+    setMentionQuery(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      handleSubmit();
+    } else if (e.key === 'Enter' && suggestions.length > 0) {
+      e.preventDefault();
+      insertMention(suggestions[0].username);
+    } else if (e.key === 'Escape' && mentionQuery !== null) {
+      e.preventDefault();
+      setMentionQuery(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Textarea
+          ref={textareaRef}
+          value={text}
+          onChange={handleChange}
+          onKeyDown={handleKeyDown}
+          placeholder={placeholder}
+          rows={3}
+          className="resize-none"
+          autoFocus={autoFocus}
+        />
+        {suggestions.length > 0 && (
+          <div className="absolute left-2 top-full z-10 mt-1 w-64 rounded-md border bg-popover p-1 shadow-md">
+            {suggestions.map(user => (
+              <button
+                key={user.id}
+                type="button"
+                className="flex w-full items-center justify-between rounded px-2 py-1 text-left text-sm hover:bg-muted"
+                onMouseDown={(e) => {
+                  e.preventDefault(); // Keep focus in the textarea
+                  insertMention(user.username);
+                }}
+              >
+                <span>{user.displayName}</span>
+                <span className="text-xs text-muted-foreground">@{user.username}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button variant="outline" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button
+          onClick={handleSubmit}
+          disabled={!text.trim() || isSending}
+          size="sm"
+        >
+          <Send className="h-3 w-3 mr-1" />
+          {isSending ? 'Sending...' : submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+/**
+ * DigestExportDialog - Preview, copy or download the day's priorities digest
+ * as Markdown, standalone HTML or Slack Block Kit JSON
+ */
+
+import { useMemo, useState } from 'react';
+import { format, parseISO, subDays } from 'date-fns';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Copy, Download, Share2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useCompletedPriorities } from '@/hooks/useDailyPriorities';
+import { DailyPrioritiesView, DailyPriority } from '@/types/daily-priorities';
+import {
+  buildDailyPrioritiesView,
+  DIGEST_FORMAT_LABELS,
+  DigestFormat,
+  renderPriorityDigest
+} from '@/lib/priorityDigest';
+
+interface DigestExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  date: string; // YYYY-MM-DD
+  priorities: DailyPriority[];
+  autoSections: Partial<DailyPrioritiesView['auto_sections']>;
+}
+
+const FILE_EXTENSIONS: Record<DigestFormat, { extension: string; type: string }> = {
+  markdown: { extension: 'md', type: 'text/markdown;charset=utf-8;' },
+  html: { extension: 'html', type: 'text/html;charset=utf-8;' },
+  slack: { extension: 'json', type: 'application/json;charset=utf-8;' }
+};
+
+export default function DigestExportDialog({ isOpen, onClose, date, priorities, autoSections }: DigestExportDialogProps) {
+  const [digestFormat, setDigestFormat] = useState<DigestFormat>('markdown');
+  const yesterday = format(subDays(parseISO(date), 1), 'yyyy-MM-dd');
+  const { data: completedYesterday = [], isLoading } = useCompletedPriorities(yesterday);
+
+  const content = useMemo(
+    () => renderPriorityDigest(
+      { view: buildDailyPrioritiesView(date, priorities, autoSections), completedYesterday },
+      digestFormat
+    ),
+    [date, priorities, autoSections, completedYesterday, digestFormat]
+  );
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(content);
+      toast.success(`${DIGEST_FORMAT_LABELS[digestFormat]} copied to clipboard`);
+    } catch (error) {
+      console.error('Error copying digest:', error);
+      toast.error('Failed to copy to clipboard');
+    }
+  };
+
+  const handleDownload = () => {
+    const { extension, type } = FILE_EXTENSIONS[digestFormat];
+    const blob = new Blob([content], { type });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', `daily-priorities-${date}.${extension}`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[800px] max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Share2 className="h-5 w-5" />
+            Export Digest
+          </DialogTitle>
+          <DialogDescription>
+            Open tasks and alerts for {format(parseISO(date), 'EEEE, MMMM d')}, plus what was completed the day before.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={digestFormat} onValueChange={(value) => setDigestFormat(value as DigestFormat)}>
+          <TabsList>
+            {(Object.keys(DIGEST_FORMAT_LABELS) as DigestFormat[]).map(option => (
+              <TabsTrigger key={option} value={option}>{DIGEST_FORMAT_LABELS[option]}</TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        <Textarea
+          value={isLoading ? 'Loading...' : content}
+          readOnly
+          className="flex-1 min-h-[400px] font-mono text-xs resize-none"
+        />
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={handleDownload} disabled={isLoading} className="gap-2">
+            <Download className="h-4 w-4" />
+            Download
+          </Button>
+          <Button onClick={handleCopy} disabled={isLoading} className="gap-2">
+            <Copy className="h-4 w-4" />
+            Copy
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -10,27 +10,26 @@ import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Check, ChevronsUpDown } from 'lucide-react';
+import { Check, ChevronsUpDown, Repeat } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { DailyPriority, DailyPriorityUpdate, PrioritySection, SECTION_LABELS } from '@/types/daily-priorities';
 import { useAdvertisersList } from '@/hooks/useAdvertisersList';
 import { useAgenciesList } from '@/hooks/useAgenciesList';
-import CommentsPanel from './CommentsPanel';
+import { useRecurringPriorities } from '@/hooks/useRecurringPriorities';
+import { formatRecurrenceRule } from '@/lib/recurrence';
 
 interface EditTaskModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSave: (updates: DailyPriorityUpdate) => void;
   task: DailyPriority;
-  onCommentAdded?: () => void;
 }
 
 export default function EditTaskModal({
   isOpen,
   onClose,
   onSave,
-  task,
-  onCommentAdded
+  task
 }: EditTaskModalProps) {
   const [formData, setFormData] = useState({
     section: task.section,
@@ -50,6 +49,8 @@ export default function EditTaskModal({
 
   const { data: agencies = [] } = useAgenciesList();
   const { data: advertisersData } = useAdvertisersList();
+  const { getRecurringPriority, stopRecurrence, isStoppingRecurrence } = useRecurringPriorities();
+  const recurringPriority = getRecurringPriority(task.recurring_priority_id);
 
   // Get filtered advertisers based on selected agency
   const advertisers = (() => {
@@ -452,10 +453,26 @@ export default function EditTaskModal({
             />
           </div>
 
-          {/* HIDDEN: Commenting feature temporarily disabled */}
-          {/* <div className="pt-4 border-t">
-            <CommentsPanel priorityId={task.id} onCommentAdded={onCommentAdded} />
-          </div> */}
+          {recurringPriority && (
+            <div className="flex items-center justify-between rounded-md border px-3 py-2">
+              <div className="flex items-center gap-2 text-sm">
+                <Repeat className="h-4 w-4 text-muted-foreground" />
+                <span>Repeats: {formatRecurrenceRule(recurringPriority.recurrence_rule)}</span>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={isStoppingRecurrence}
+                onClick={() => {
+                  if (confirm('Stop repeating this task? Existing copies are kept.')) {
+                    stopRecurrence(recurringPriority.id);
+                  }
+                }}
+              >
+                Stop repeating
+              </Button>
+            </div>
+          )}
         </div>
 
         <DialogFooter>
@@ -4,7 +4,7 @@
 
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { DailyPriority, PrioritySection as PrioritySectionType, SECTION_LABELS, DailyPriorityInsert, DailyPriorityUpdate } from '@/types/daily-priorities';
+import { DailyPriority, PrioritySection as PrioritySectionType, SECTION_LABELS, NewPriorityInput, DailyPriorityUpdate } from '@/types/daily-priorities';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody } from '@/components/ui/table';
 import { Button } from '@/components/ui/button';
@@ -68,7 +68,7 @@ interface PrioritySectionProps {
   section: PrioritySectionType;
   priorities: DailyPriority[];
   date: string;
-  onAddPriority: (priority: DailyPriorityInsert) => void;
+  onAddPriority: (priority: NewPriorityInput) => void;
   onUpdatePriority: (id: string, updates: DailyPriorityUpdate) => void;
   onDeletePriority: (id: string) => void;
   onReorderPriorities: (section: PrioritySectionType, priorityIds: string[]) => void;
@@ -0,0 +1,208 @@
+/**
+ * TaskHistoryModal - Timeline of everything that happened to one task,
+ * across all of its carried-forward copies
+ */
+
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { History, RotateCcw } from 'lucide-react';
+import { useTaskHistory } from '@/hooks/useTaskHistory';
+import { getDisplayName } from '@/config/users';
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { ActivityLogEntry } from '@/types/activity-log';
+import { DailyPriority, DailyPriorityUpdate, SECTION_LABELS } from '@/types/daily-priorities';
+import { diffWords } from '@/utils/textDiff';
+
+interface TaskHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  task: DailyPriority;
+  onRestore: (updates: DailyPriorityUpdate) => void;
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  created: 'Created',
+  updated: 'Edited',
+  deleted: 'Deleted',
+  completed: 'Completed',
+  reopened: 'Reopened',
+  blocked: 'Blocked',
+  unblocked: 'Unblocked',
+  moved_section: 'Moved',
+  reordered: 'Reordered',
+  alert_resolved: 'Alert cleared',
+  alert_reraised: 'Alert raised again'
+};
+
+const ACTION_DOT_COLORS: Record<string, string> = {
+  created: 'bg-green-500',
+  completed: 'bg-green-500',
+  blocked: 'bg-red-500',
+  unblocked: 'bg-blue-500',
+  moved_section: 'bg-purple-500',
+  deleted: 'bg-gray-400'
+};
+
+const getSectionLabel = (section: unknown) =>
+  SECTION_LABELS[section as keyof typeof SECTION_LABELS] || String(section || 'none');
+
+const formatAssignees = (assignees: unknown) =>
+  Array.isArray(assignees) && assignees.length > 0 ? assignees.join(', ') : 'none';
+
+const sameAssignees = (a: unknown, b: unknown) =>
+  [...((a as string[]) || [])].sort().join('|') === [...((b as string[]) || [])].sort().join('|');
+
+export default function TaskHistoryModal({ isOpen, onClose, task, onRestore }: TaskHistoryModalProps) {
+  const { entries, instanceCount, isLoading } = useTaskHistory(task, isOpen);
+
+  const renderFieldChange = (field: string, before: unknown, after: unknown) => {
+    if (field === 'description') {
+      const canRestore = (before || '') !== (task.description || '');
+      return (
+        <div key={field} className="space-y-1">
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-semibold">Description</span>
+            {canRestore && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 px-2 text-xs gap-1"
+                onClick={() => onRestore({ description: (before as string) || null })}
+                title="Restore the description from before this edit"
+              >
+                <RotateCcw className="h-3 w-3" />
+                Restore previous
+              </Button>
+            )}
+          </div>
+          <div className="whitespace-pre-wrap rounded border bg-muted/30 p-2 text-foreground">
+            {diffWords(before as string, after as string).map((part, idx) => (
+              <span
+                key={idx}
+                className={cn(
+                  part.type === 'added' && 'bg-green-100 text-green-800',
+                  part.type === 'removed' && 'bg-red-100 text-red-800 line-through'
+                )}
+              >
+                {part.text}
+              </span>
+            ))}
+          </div>
+        </div>
+      );
+    }
+
+    if (field === 'assignees') {
+      const canRestore = !sameAssignees(before, task.assignees);
+      return (
+        <div key={field} className="flex items-center justify-between gap-2">
+          <span>
+            <span className="font-semibold">Assignees:</span> {formatAssignees(before)} → {formatAssignees(after)}
+          </span>
+          {canRestore && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-xs gap-1"
+              onClick={() => onRestore({ assignees: Array.isArray(before) ? before : [] })}
+              title="Restore the assignees from before this edit"
+            >
+              <RotateCcw className="h-3 w-3" />
+              Restore previous
+            </Button>
+          )}
+        </div>
+      );
+    }
+
+    if (field === 'section' || field === 'original_section') {
+      return (
+        <div key={field}>
+          <span className="font-semibold">Section:</span> {getSectionLabel(before)} → {getSectionLabel(after)}
+        </div>
+      );
+    }
+
+    if (field === 'priority_order') {
+      return (
+        <div key={field}>
+          <span className="font-semibold">Priority:</span> #{String(before)} → #{String(after)}
+        </div>
+      );
+    }
+
+    return (
+      <div key={field}>
+        <span className="font-semibold">{field}:</span> {String(before || '(empty)')} → {String(after || '(empty)')}
+      </div>
+    );
+  };
+
+  const renderDetails = (entry: ActivityLogEntry) => {
+    const changes = entry.changes;
+    if (!changes) return null;
+
+    // Section moves are logged as { field: 'section', before, after }
+    if (changes.field === 'section') {
+      return (
+        <div>
+          {getSectionLabel(changes.before)} → {getSectionLabel(changes.after)}
+        </div>
+      );
+    }
+
+    return Object.entries(changes)
+      .filter(([, value]) => typeof value === 'object' && value !== null && 'before' in value)
+      .map(([field, value]) => {
+        const { before, after } = value as { before: unknown; after: unknown };
+        return renderFieldChange(field, before, after);
+      });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[640px] max-h-[80vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Task History
+          </DialogTitle>
+          <DialogDescription>
+            {task.client_name || 'Unnamed task'}
+            {instanceCount > 1 && ` • ${instanceCount} days on the board`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="h-[60vh] pr-4">
+          {isLoading ? (
+            <div className="text-sm text-muted-foreground py-8 text-center">Loading history...</div>
+          ) : entries.length === 0 ? (
+            <div className="text-sm text-muted-foreground py-8 text-center">No history recorded for this task</div>
+          ) : (
+            <ol className="relative ml-2 border-l">
+              {entries.map(entry => (
+                <li key={entry.id} className="ml-4 pb-4">
+                  <span
+                    className={cn(
+                      'absolute -left-1.5 mt-1 h-3 w-3 rounded-full border border-white',
+                      ACTION_DOT_COLORS[entry.action] || 'bg-gray-300'
+                    )}
+                  />
+                  <div className="text-sm font-medium">{ACTION_LABELS[entry.action] || entry.action}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {getDisplayName(entry.user_id)} • {format(new Date(entry.created_at), 'MMM d, yyyy h:mm a')}
+                  </div>
+                  <div className="mt-1 space-y-2 text-xs text-muted-foreground">
+                    {renderDetails(entry)}
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,16 +2,20 @@
  * TaskRow - Row for a single priority task with edit modal
  */
 
-import { useState, useEffect, forwardRef } from 'react';
-import { DailyPriority, DailyPriorityUpdate, PrioritySection, SECTION_LABELS } from '@/types/daily-priorities';
+import { useState, forwardRef } from 'react';
+import { ALERT_TYPE_LABELS, DailyPriority, DailyPriorityUpdate, PrioritySection, SECTION_LABELS } from '@/types/daily-priorities';
 import { TableRow, TableCell } from '@/components/ui/table';
 import { Button } from '@/components/ui/button';
-import { Trash2, GripVertical, ExternalLink, Pencil, MessageSquare, Check, Ban, Unlock, ArrowLeftRight } from 'lucide-react';
+import { Trash2, GripVertical, ExternalLink, Pencil, MessageSquare, Check, Ban, Unlock, ArrowLeftRight, Repeat, BellRing, CircleCheck, History } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { useSupabase } from '@/contexts/use-supabase';
+import { useAuth } from '@/contexts/use-auth';
 import EditTaskModal from './EditTaskModal';
 import CommentsPanel from './CommentsPanel';
+import TaskHistoryModal from './TaskHistoryModal';
 import { getDisplayName } from '@/config/users';
+import { useRecurringPriorities } from '@/hooks/useRecurringPriorities';
+import { useTaskCommentSummaries } from '@/hooks/useTaskComments';
+import { formatRecurrenceRule } from '@/lib/recurrence';
 import {
   Select,
   SelectContent,
@@ -40,30 +44,18 @@ const TaskRow = forwardRef<HTMLTableRowElement, TaskRowProps>(function TaskRow(
   { priority, onUpdate, onDelete, dragHandleProps, style },
   ref
 ) {
-  const { supabase } = useSupabase();
+  const { hasRole } = useAuth();
+  const canDelete = hasRole('editor');
+  const { getRecurringPriority } = useRecurringPriorities();
+  const recurringPriority = getRecurringPriority(priority.recurring_priority_id);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [isMoveModalOpen, setIsMoveModalOpen] = useState(false);
+  const [isHistoryModalOpen, setIsHistoryModalOpen] = useState(false);
   const [selectedSection, setSelectedSection] = useState<PrioritySection>(priority.section);
-  // HIDDEN: Commenting feature temporarily disabled
-  // const [commentCount, setCommentCount] = useState<number>(0);
-  // const [isCommentsModalOpen, setIsCommentsModalOpen] = useState(false);
+  const [isCommentsModalOpen, setIsCommentsModalOpen] = useState(false);
   const [isDescriptionExpanded, setIsDescriptionExpanded] = useState(false);
-
-  // HIDDEN: Fetch comment count
-  // useEffect(() => {
-  //   const fetchCommentCount = async () => {
-  //     const { count, error } = await supabase
-  //       .from('priority_comments')
-  //       .select('*', { count: 'exact', head: true })
-  //       .eq('priority_id', priority.id);
-
-  //     if (!error && count !== null) {
-  //       setCommentCount(count);
-  //     }
-  //   };
-
-  //   fetchCommentCount();
-  // }, [supabase, priority.id]);
+  const { getSummary } = useTaskCommentSummaries();
+  const commentSummary = getSummary(priority);
 
   const handleToggleComplete = () => {
     console.log('Toggle complete clicked', {
@@ -81,12 +73,6 @@ const TaskRow = forwardRef<HTMLTableRowElement, TaskRowProps>(function TaskRow(
     onUpdate(priority.id, updates);
   };
 
-  // HIDDEN: Commenting feature temporarily disabled
-  // const handleCommentAdded = () => {
-  //   // Refresh comment count when a comment is added
-  //   setCommentCount(prev => prev + 1);
-  // };
-
   const handleToggleBlock = () => {
     if (priority.section === 'blocked') {
       // Unblock: move back to original section
@@ -167,6 +153,34 @@ const TaskRow = forwardRef<HTMLTableRowElement, TaskRowProps>(function TaskRow(
               <div className="text-muted-foreground text-[10px]">
                 Created: {new Date(priority.created_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
               </div>
+              {recurringPriority && (
+                <div
+                  className="flex items-center gap-1 text-muted-foreground text-[10px]"
+                  title="Recurring task"
+                >
+                  <Repeat className="h-2.5 w-2.5" />
+                  {formatRecurrenceRule(recurringPriority.recurrence_rule)}
+                </div>
+              )}
+              {priority.alert_type && (
+                priority.alert_resolved_at && !priority.completed ? (
+                  <div
+                    className="flex items-center gap-1 text-green-700 text-[10px] font-medium"
+                    title={`${priority.alert_campaign_name} is no longer on the ${ALERT_TYPE_LABELS[priority.alert_type]} alert list`}
+                  >
+                    <CircleCheck className="h-2.5 w-2.5" />
+                    {ALERT_TYPE_LABELS[priority.alert_type]} alert resolved {new Date(priority.alert_resolved_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                  </div>
+                ) : (
+                  <div
+                    className="flex items-center gap-1 text-muted-foreground text-[10px]"
+                    title={priority.alert_campaign_name || undefined}
+                  >
+                    <BellRing className="h-2.5 w-2.5" />
+                    {ALERT_TYPE_LABELS[priority.alert_type]} alert
+                  </div>
+                )
+              )}
             </div>
           </div>
         </TableCell>
@@ -277,34 +291,51 @@ const TaskRow = forwardRef<HTMLTableRowElement, TaskRowProps>(function TaskRow(
                   <Ban className="h-4 w-4 text-orange-600" />
                 )}
               </Button>
-              {/* HIDDEN: Commenting feature temporarily disabled */}
-              {/* <Button
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setIsHistoryModalOpen(true)}
+                title="View task history"
+                className="h-7 w-7"
+              >
+                <History className="h-4 w-4 text-muted-foreground" />
+              </Button>
+              <Button
                 variant="ghost"
                 size="icon"
                 onClick={() => setIsCommentsModalOpen(true)}
                 className="relative h-7 w-7"
-                title="View comments"
+                title={commentSummary.unread > 0
+                  ? `${commentSummary.unread} unread comment${commentSummary.unread === 1 ? '' : 's'}${commentSummary.unreadMentions > 0 ? ' (you were mentioned)' : ''}`
+                  : 'View comments'}
               >
                 <MessageSquare className="h-4 w-4" />
-                {commentCount > 0 && (
-                  <span className="absolute -top-1 -right-1 h-4 w-4 rounded-full bg-primary text-primary-foreground text-[10px] flex items-center justify-center">
-                    {commentCount}
+                {commentSummary.count > 0 && (
+                  <span className={cn(
+                    "absolute -top-1 -right-1 h-4 min-w-4 px-0.5 rounded-full text-[10px] flex items-center justify-center",
+                    commentSummary.unreadMentions > 0 ? "bg-red-500 text-white" :
+                    commentSummary.unread > 0 ? "bg-primary text-primary-foreground" :
+                    "bg-muted text-muted-foreground"
+                  )}>
+                    {commentSummary.unread > 0 ? commentSummary.unread : commentSummary.count}
                   </span>
                 )}
-              </Button> */}
-              <Button
-                variant="ghost"
-                size="icon"
-                onClick={() => {
-                  if (confirm('Delete this task?')) {
-                    onDelete(priority.id);
-                  }
-                }}
-                title="Delete task"
-                className="h-7 w-7"
-              >
-                <Trash2 className="h-4 w-4 text-destructive" />
               </Button>
+              {canDelete && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => {
+                    if (confirm('Delete this task?')) {
+                      onDelete(priority.id);
+                    }
+                  }}
+                  title="Delete task"
+                  className="h-7 w-7"
+                >
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              )}
             </div>
           </div>
         </TableCell>
@@ -315,7 +346,13 @@ const TaskRow = forwardRef<HTMLTableRowElement, TaskRowProps>(function TaskRow(
         onClose={() => setIsEditModalOpen(false)}
         onSave={handleSaveEdit}
         task={priority}
-        // HIDDEN: onCommentAdded={handleCommentAdded}
+      />
+
+      <TaskHistoryModal
+        isOpen={isHistoryModalOpen}
+        onClose={() => setIsHistoryModalOpen(false)}
+        task={priority}
+        onRestore={handleSaveEdit}
       />
 
       {/* Move Task Modal */}
@@ -353,13 +390,11 @@ const TaskRow = forwardRef<HTMLTableRowElement, TaskRowProps>(function TaskRow(
         </DialogContent>
       </Dialog>
 
-      {/* HIDDEN: Commenting feature temporarily disabled */}
-      {/* <CommentsPanel
-        priorityId={priority.id}
+      <CommentsPanel
+        task={priority}
         isOpen={isCommentsModalOpen}
         onClose={() => setIsCommentsModalOpen(false)}
-        onCommentAdded={handleCommentAdded}
-      /> */}
+      />
     </>
   );
 });
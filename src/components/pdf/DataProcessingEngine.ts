@@ -3,6 +3,7 @@ import { CampaignDataRow } from '@/types/campaign';
 import { PacingDeliveryData } from '@/types/pacing';
 import { ChartInstance, ChartFilters, DataProcessingResult, ViewMode } from './enhanced-types';
 import { DateRange } from 'react-day-picker';
+import { parseAgencyInfo } from '@/utils/campaignNameParsing';
 
 // Interface for aggregated data structures
 interface AggregatedDataPoint {
@@ -384,9 +385,8 @@ export class DataProcessingEngine {
   }
 
   private extractAgency(campaignName: string): string {
-    // Extract agency from campaign name using regex
-    const match = campaignName.match(/^\d+[/\d]*:\s*([A-Z]+):/);
-    return match ? match[1] : 'Unknown';
+    // Agency abbreviation, resolved through the agency registry
+    return parseAgencyInfo(campaignName).abbreviation || 'Unknown';
   }
 
   private extractAdvertiser(campaignName: string): string {
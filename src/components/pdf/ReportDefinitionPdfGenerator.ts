@@ -0,0 +1,354 @@
+// Named export: the default export isn't constructible under Node/Deno, where scheduled runs happen
+import { jsPDF } from 'jspdf';
+import { eachDayOfInterval, format, parseISO, subDays } from 'date-fns';
+import type { CampaignDataRow } from '@/types/campaign';
+import type { ReportDefinition, SavedReportChart } from '@/types/report-definitions';
+import { formatCurrency, formatNumber } from '@/lib/formatters';
+import { toDateKey } from '@/utils/reportDefinitions';
+
+/**
+ * Renders a saved report definition to PDF without a DOM.
+ *
+ * PdfGenerator and the export modals screenshot rendered charts with
+ * html2canvas; scheduled reports run headless, so each chart is drawn as the
+ * table of numbers behind it instead.
+ */
+
+export interface ReportDefinitionPdfOptions {
+  definition: Pick<ReportDefinition, 'report_title' | 'charts' | 'agencies' | 'advertisers'>;
+  rows: CampaignDataRow[];
+  dateRange: { from: Date; to: Date };
+  generatedAt: Date;
+}
+
+interface MetricTotals {
+  impressions: number;
+  clicks: number;
+  revenue: number;
+  spend: number;
+  transactions: number;
+}
+
+const EMPTY_TOTALS: MetricTotals = { impressions: 0, clicks: 0, revenue: 0, spend: 0, transactions: 0 };
+
+const DAYS_OF_WEEK = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+const addTotals = (a: MetricTotals, b: MetricTotals): MetricTotals => ({
+  impressions: a.impressions + b.impressions,
+  clicks: a.clicks + b.clicks,
+  revenue: a.revenue + b.revenue,
+  spend: a.spend + b.spend,
+  transactions: a.transactions + b.transactions
+});
+
+const getCtr = (totals: MetricTotals) => totals.impressions > 0 ? (totals.clicks / totals.impressions) * 100 : 0;
+const getRoas = (totals: MetricTotals) => totals.spend > 0 ? totals.revenue / totals.spend : 0;
+
+const formatSparkMetric = (metric: string, totals: MetricTotals): string => {
+  switch (metric) {
+    case 'impressions': return formatNumber(totals.impressions);
+    case 'clicks': return formatNumber(totals.clicks);
+    case 'ctr': return `${getCtr(totals).toFixed(2)}%`;
+    case 'transactions': return formatNumber(totals.transactions);
+    case 'revenue': return formatCurrency(totals.revenue, { maximumFractionDigits: 0 });
+    case 'roas': return `${getRoas(totals).toFixed(2)}x`;
+    default: return '-';
+  }
+};
+
+const formatChange = (current: number, previous: number): string => {
+  if (previous === 0) return current === 0 ? '0%' : 'new';
+  const change = ((current - previous) / previous) * 100;
+  return `${change >= 0 ? '+' : ''}${change.toFixed(1)}%`;
+};
+
+export class ReportDefinitionPdfGenerator {
+  private pdf: jsPDF;
+  private pageWidth = 215.9;
+  private pageHeight = 279.4;
+  private margin = 20;
+  private currentY = 20;
+
+  constructor() {
+    this.pdf = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'letter' });
+  }
+
+  generate(options: ReportDefinitionPdfOptions): this {
+    const dailyTotals = this.getDailyTotals(options.rows, options.dateRange);
+
+    this.addHeader(options);
+
+    if (options.rows.length === 0) {
+      this.pdf.setFontSize(11);
+      this.pdf.text('No delivery data for this date range and these filters.', this.margin, this.currentY);
+      this.currentY += 10;
+    }
+
+    options.definition.charts.forEach(chart => {
+      switch (chart.category) {
+        case 'spark-charts':
+          this.addSparkChartSection(chart, dailyTotals);
+          break;
+        case 'campaign-performance':
+          this.addPerformanceSection(chart, dailyTotals);
+          break;
+        case 'weekly-comparison':
+          this.addWeeklyComparisonSection(chart, dailyTotals, options.dateRange);
+          break;
+      }
+    });
+
+    this.addPageNumbers();
+    return this;
+  }
+
+  getArrayBuffer(): ArrayBuffer {
+    return this.pdf.output('arraybuffer');
+  }
+
+  getBlob(): Blob {
+    return this.pdf.output('blob');
+  }
+
+  // One entry per day of the range (zero-filled), keyed YYYY-MM-DD
+  private getDailyTotals(rows: CampaignDataRow[], dateRange: { from: Date; to: Date }): Map<string, MetricTotals> {
+    const totals = new Map<string, MetricTotals>();
+    eachDayOfInterval({ start: dateRange.from, end: dateRange.to }).forEach(day => {
+      totals.set(toDateKey(day), EMPTY_TOTALS);
+    });
+
+    rows.forEach(row => {
+      const key = row.DATE;
+      const current = totals.get(key);
+      if (!current) return;
+      totals.set(key, addTotals(current, {
+        impressions: Number(row.IMPRESSIONS) || 0,
+        clicks: Number(row.CLICKS) || 0,
+        revenue: Number(row.REVENUE) || 0,
+        spend: Number(row.SPEND) || 0,
+        transactions: Number(row.TRANSACTIONS) || 0
+      }));
+    });
+
+    return totals;
+  }
+
+  private addHeader(options: ReportDefinitionPdfOptions): void {
+    const { definition, dateRange, generatedAt } = options;
+
+    this.pdf.setFontSize(20);
+    this.pdf.setFont('helvetica', 'bold');
+    this.pdf.text(definition.report_title, this.margin, this.currentY + 5);
+    this.currentY += 14;
+
+    this.pdf.setFontSize(10);
+    this.pdf.setFont('helvetica', 'normal');
+    this.pdf.text(
+      `${format(dateRange.from, 'MMM d, yyyy')} - ${format(dateRange.to, 'MMM d, yyyy')}`,
+      this.margin,
+      this.currentY
+    );
+    this.currentY += 5;
+
+    if (definition.agencies.length > 0) {
+      this.addWrappedText(`Agencies: ${definition.agencies.join(', ')}`);
+    }
+    if (definition.advertisers.length > 0) {
+      this.addWrappedText(`Advertisers: ${definition.advertisers.join(', ')}`);
+    }
+
+    this.pdf.setTextColor(120, 120, 120);
+    this.pdf.text(`Generated ${format(generatedAt, "MMM d, yyyy 'at' h:mm a")}`, this.margin, this.currentY);
+    this.pdf.setTextColor(0, 0, 0);
+    this.currentY += 12;
+  }
+
+  private addSparkChartSection(chart: SavedReportChart, dailyTotals: Map<string, MetricTotals>): void {
+    const total = Array.from(dailyTotals.values()).reduce(addTotals, EMPTY_TOTALS);
+
+    this.addSectionTitle(chart.title, `Total: ${formatSparkMetric(chart.type, total)}`);
+    this.addTable(
+      ['Date', chart.title],
+      Array.from(dailyTotals.entries()).map(([date, totals]) => [
+        format(parseISO(date), 'EEE, MMM d'),
+        formatSparkMetric(chart.type, totals)
+      ])
+    );
+  }
+
+  private addPerformanceSection(chart: SavedReportChart, dailyTotals: Map<string, MetricTotals>): void {
+    const mode = chart.subOptions?.mode === 'attribution' ? 'attribution' : 'display';
+    const byDayOfWeek = chart.subOptions?.format === 'by-day-of-week';
+
+    let rows: [string, MetricTotals][];
+    if (byDayOfWeek) {
+      const byDay = new Map(DAYS_OF_WEEK.map(day => [day, EMPTY_TOTALS]));
+      dailyTotals.forEach((totals, date) => {
+        const day = format(parseISO(date), 'EEEE');
+        byDay.set(day, addTotals(byDay.get(day)!, totals));
+      });
+      rows = Array.from(byDay.entries());
+    } else {
+      rows = Array.from(dailyTotals.entries()).map(([date, totals]) => [format(parseISO(date), 'EEE, MMM d'), totals]);
+    }
+
+    this.addSectionTitle(chart.title);
+    if (mode === 'display') {
+      this.addTable(
+        [byDayOfWeek ? 'Day' : 'Date', 'Impressions', 'Clicks', 'CTR'],
+        rows.map(([label, totals]) => [label, formatNumber(totals.impressions), formatNumber(totals.clicks), `${getCtr(totals).toFixed(2)}%`])
+      );
+    } else {
+      this.addTable(
+        [byDayOfWeek ? 'Day' : 'Date', 'Transactions', 'Attributed Sales', 'ROAS'],
+        rows.map(([label, totals]) => [
+          label,
+          formatNumber(totals.transactions),
+          formatCurrency(totals.revenue, { maximumFractionDigits: 0 }),
+          `${getRoas(totals).toFixed(2)}x`
+        ])
+      );
+    }
+  }
+
+  private addWeeklyComparisonSection(
+    chart: SavedReportChart,
+    dailyTotals: Map<string, MetricTotals>,
+    dateRange: { from: Date; to: Date }
+  ): void {
+    // The builder stores the period in the type ('7-day'), the export modal in subOptions ('7-days')
+    const periodDays = parseInt(chart.subOptions?.period || chart.type, 10) || 7;
+
+    // Non-overlapping periods counted back from the end of the range
+    const periods: { start: Date; end: Date; totals: MetricTotals }[] = [];
+    let periodEnd = dateRange.to;
+    while (subDays(periodEnd, periodDays - 1) >= dateRange.from) {
+      const periodStart = subDays(periodEnd, periodDays - 1);
+      const totals = eachDayOfInterval({ start: periodStart, end: periodEnd })
+        .map(day => dailyTotals.get(toDateKey(day)) || EMPTY_TOTALS)
+        .reduce(addTotals, EMPTY_TOTALS);
+      periods.push({ start: periodStart, end: periodEnd, totals });
+      periodEnd = subDays(periodStart, 1);
+    }
+
+    this.addSectionTitle(chart.title);
+    if (periods.length === 0) {
+      this.addWrappedText(`The report's date range is shorter than one ${periodDays}-day period.`);
+      this.currentY += 6;
+      return;
+    }
+
+    this.addTable(
+      ['Period', 'Impressions', 'Clicks', 'CTR', 'Transactions', 'Attributed Sales', 'Sales Change'],
+      periods.map((period, index) => {
+        const previous = periods[index + 1];
+        return [
+          `${format(period.start, 'M/d')} - ${format(period.end, 'M/d')}`,
+          formatNumber(period.totals.impressions),
+          formatNumber(period.totals.clicks),
+          `${getCtr(period.totals).toFixed(2)}%`,
+          formatNumber(period.totals.transactions),
+          formatCurrency(period.totals.revenue, { maximumFractionDigits: 0 }),
+          previous ? formatChange(period.totals.revenue, previous.totals.revenue) : '-'
+        ];
+      })
+    );
+  }
+
+  private addSectionTitle(title: string, subtitle?: string): void {
+    this.ensureSpace(24);
+    this.pdf.setFontSize(13);
+    this.pdf.setFont('helvetica', 'bold');
+    this.pdf.text(title, this.margin, this.currentY);
+    this.currentY += 6;
+
+    if (subtitle) {
+      this.pdf.setFontSize(10);
+      this.pdf.setFont('helvetica', 'normal');
+      this.pdf.text(subtitle, this.margin, this.currentY);
+      this.currentY += 6;
+    }
+  }
+
+  private addWrappedText(text: string): void {
+    this.pdf.setFontSize(10);
+    this.pdf.setFont('helvetica', 'normal');
+    const lines = this.pdf.splitTextToSize(text, this.pageWidth - 2 * this.margin) as string[];
+    lines.forEach(line => {
+      this.ensureSpace(5);
+      this.pdf.text(line, this.margin, this.currentY);
+      this.currentY += 5;
+    });
+  }
+
+  // First column left-aligned, numbers right-aligned; the header repeats on new pages
+  private addTable(headers: string[], rows: string[][]): void {
+    const rowHeight = 6;
+    const tableWidth = this.pageWidth - 2 * this.margin;
+    const firstColumnWidth = headers.length > 2 ? 30 : tableWidth / 2;
+    const columnWidth = (tableWidth - firstColumnWidth) / (headers.length - 1);
+    const columnRight = (index: number) => this.margin + firstColumnWidth + columnWidth * index;
+
+    const drawHeader = () => {
+      this.pdf.setFontSize(9);
+      this.pdf.setFont('helvetica', 'bold');
+      this.pdf.setFillColor(243, 244, 246);
+      this.pdf.rect(this.margin, this.currentY - 4, tableWidth, rowHeight, 'F');
+      headers.forEach((header, index) => {
+        if (index === 0) {
+          this.pdf.text(header, this.margin + 1, this.currentY);
+        } else {
+          this.pdf.text(header, columnRight(index) - 1, this.currentY, { align: 'right' });
+        }
+      });
+      this.currentY += rowHeight;
+      this.pdf.setFont('helvetica', 'normal');
+    };
+
+    this.ensureSpace(rowHeight * 2);
+    drawHeader();
+
+    rows.forEach(row => {
+      if (this.currentY + rowHeight > this.pageHeight - this.margin) {
+        this.pdf.addPage();
+        this.currentY = this.margin;
+        drawHeader();
+      }
+      row.forEach((cell, index) => {
+        if (index === 0) {
+          this.pdf.text(cell, this.margin + 1, this.currentY);
+        } else {
+          this.pdf.text(cell, columnRight(index) - 1, this.currentY, { align: 'right' });
+        }
+      });
+      this.pdf.setDrawColor(229, 231, 235);
+      this.pdf.line(this.margin, this.currentY + 2, this.margin + tableWidth, this.currentY + 2);
+      this.currentY += rowHeight;
+    });
+
+    this.currentY += 8;
+  }
+
+  private ensureSpace(height: number): void {
+    if (this.currentY + height > this.pageHeight - this.margin) {
+      this.pdf.addPage();
+      this.currentY = this.margin;
+    }
+  }
+
+  private addPageNumbers(): void {
+    const pageCount = this.pdf.internal.getNumberOfPages();
+
+    for (let i = 1; i <= pageCount; i++) {
+      this.pdf.setPage(i);
+      this.pdf.setFontSize(8);
+      this.pdf.setFont('helvetica', 'normal');
+      this.pdf.text(
+        `Page ${i} of ${pageCount}`,
+        this.pageWidth / 2,
+        this.pageHeight - 10,
+        { align: 'center' }
+      );
+    }
+  }
+}
@@ -1,6 +1,10 @@
+import { useState } from 'react';
 import { Button } from '@/components/ui/button';
-import { FileDown } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FileDown, Save } from 'lucide-react';
 import { ReportBuilderState, ReportBuilderActions } from '@/hooks/useCustomReportBuilder';
+import { useReportDefinitions } from '@/hooks/useReportDefinitions';
+import { ReportDefinitionDialog } from '@/components/reports/ReportDefinitionDialog';
 
 interface ReportBuilderHeaderProps {
   state: ReportBuilderState;
@@ -11,6 +15,14 @@ export const ReportBuilderHeader = ({
   state,
   actions
 }: ReportBuilderHeaderProps) => {
+  const { definitions, saveDefinition, isSaving, canEdit } = useReportDefinitions();
+  const [isSaveDialogOpen, setIsSaveDialogOpen] = useState(false);
+
+  const loadDefinition = (id: string) => {
+    const definition = definitions.find(d => d.id === id);
+    if (definition) actions.loadDefinition(definition);
+  };
+
   return (
     <div className="flex items-center justify-between">
       <div>
@@ -19,14 +31,48 @@ export const ReportBuilderHeader = ({
           Build your custom report by adding charts and configuring their settings
         </p>
       </div>
-      <Button
-        onClick={actions.exportToPDF}
-        disabled={state.isExporting || state.charts.length === 0}
-        className="flex items-center gap-2"
-      >
-        <FileDown className="h-4 w-4" />
-        {state.isExporting ? 'Exporting...' : 'Export PDF'}
-      </Button>
+      <div className="flex items-center gap-2">
+        {definitions.length > 0 && (
+          <Select value="" onValueChange={loadDefinition}>
+            <SelectTrigger className="w-[200px]">
+              <SelectValue placeholder="Load saved report" />
+            </SelectTrigger>
+            <SelectContent>
+              {definitions.map(definition => (
+                <SelectItem key={definition.id} value={definition.id}>{definition.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {canEdit && (
+          <Button
+            variant="outline"
+            onClick={() => setIsSaveDialogOpen(true)}
+            disabled={state.charts.length === 0}
+            className="flex items-center gap-2"
+          >
+            <Save className="h-4 w-4" />
+            Save Report
+          </Button>
+        )}
+        <Button
+          onClick={actions.exportToPDF}
+          disabled={state.isExporting || state.charts.length === 0}
+          className="flex items-center gap-2"
+        >
+          <FileDown className="h-4 w-4" />
+          {state.isExporting ? 'Exporting...' : 'Export PDF'}
+        </Button>
+      </div>
+
+      <ReportDefinitionDialog
+        open={isSaveDialogOpen}
+        onOpenChange={setIsSaveDialogOpen}
+        charts={state.charts.map(({ dateRange, ...chart }) => chart)}
+        reportTitle={state.reportTitle}
+        onSave={(definition) => saveDefinition(definition, { onSuccess: () => setIsSaveDialogOpen(false) })}
+        isSaving={isSaving}
+      />
     </div>
   );
 };
\ No newline at end of file
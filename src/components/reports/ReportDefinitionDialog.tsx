@@ -0,0 +1,263 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MultiSelect } from '@/components/MultiSelect';
+import { useAgenciesList } from '@/hooks/useAgenciesList';
+import { useAdvertisersList } from '@/hooks/useAdvertisersList';
+import {
+  RelativeDateRange,
+  ReportDefinition,
+  ReportDefinitionUpsert,
+  ReportFrequency,
+  SavedReportChart
+} from '@/types/report-definitions';
+import {
+  RELATIVE_DATE_RANGE_OPTIONS,
+  REPORT_FREQUENCY_LABELS,
+  WEEKDAY_LABELS
+} from '@/utils/reportDefinitions';
+
+const NOT_SCHEDULED = 'none';
+
+interface ReportDefinitionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Existing definition to edit; omit to save a new one from `charts` */
+  definition?: ReportDefinition | null;
+  charts?: SavedReportChart[];
+  reportTitle?: string;
+  onSave: (definition: ReportDefinitionUpsert) => void;
+  isSaving?: boolean;
+}
+
+const parseRecipients = (value: string) =>
+  value.split(/[,;\s]+/).map(email => email.trim()).filter(Boolean);
+
+export function ReportDefinitionDialog({
+  open,
+  onOpenChange,
+  definition,
+  charts = [],
+  reportTitle = '',
+  onSave,
+  isSaving = false
+}: ReportDefinitionDialogProps) {
+  const { data: agencies = [] } = useAgenciesList();
+  const { data: advertiserData } = useAdvertisersList();
+
+  const [name, setName] = useState('');
+  const [title, setTitle] = useState('');
+  const [dateRange, setDateRange] = useState<RelativeDateRange>('last-7-days');
+  const [selectedAgencies, setSelectedAgencies] = useState<string[]>([]);
+  const [selectedAdvertisers, setSelectedAdvertisers] = useState<string[]>([]);
+  const [frequency, setFrequency] = useState<ReportFrequency | typeof NOT_SCHEDULED>('weekly');
+  const [dayOfWeek, setDayOfWeek] = useState(1);
+  const [dayOfMonth, setDayOfMonth] = useState(1);
+  const [hourUtc, setHourUtc] = useState(13);
+  const [recipients, setRecipients] = useState('');
+  const [isActive, setIsActive] = useState(true);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(definition?.name ?? reportTitle);
+    setTitle(definition?.report_title ?? reportTitle);
+    setDateRange(definition?.date_range ?? 'last-7-days');
+    setSelectedAgencies(definition?.agencies ?? []);
+    setSelectedAdvertisers(definition?.advertisers ?? []);
+    setFrequency(definition ? definition.schedule_frequency ?? NOT_SCHEDULED : 'weekly');
+    setDayOfWeek(definition?.schedule_day_of_week ?? 1);
+    setDayOfMonth(definition?.schedule_day_of_month ?? 1);
+    setHourUtc(definition?.schedule_hour_utc ?? 13);
+    setRecipients((definition?.recipients ?? []).join(', '));
+    setIsActive(definition?.is_active ?? true);
+  }, [open, definition, reportTitle]);
+
+  const agencyOptions = useMemo(() => agencies.map(agency => ({ value: agency, label: agency })), [agencies]);
+
+  // Narrow advertisers to the selected agencies, keeping anything already chosen
+  const advertiserOptions = useMemo(() => {
+    if (!advertiserData) return [];
+    const advertisers = selectedAgencies.length > 0
+      ? Array.from(new Set([
+          ...selectedAgencies.flatMap(agency => advertiserData.byAgency.get(agency) || []),
+          ...selectedAdvertisers
+        ])).sort((a, b) => a.localeCompare(b, undefined, { sensitivity: 'base' }))
+      : advertiserData.advertisers;
+    return advertisers.map(advertiser => ({ value: advertiser, label: advertiser }));
+  }, [advertiserData, selectedAgencies, selectedAdvertisers]);
+
+  const reportCharts = definition?.charts ?? charts;
+
+  const handleSave = () => {
+    const scheduled = frequency !== NOT_SCHEDULED;
+    onSave({
+      ...(definition ? { id: definition.id } : {}),
+      name: name.trim(),
+      report_title: title.trim() || name.trim(),
+      charts: reportCharts,
+      date_range: dateRange,
+      agencies: selectedAgencies,
+      advertisers: selectedAdvertisers,
+      schedule_frequency: scheduled ? frequency : null,
+      schedule_day_of_week: scheduled && frequency === 'weekly' ? dayOfWeek : null,
+      schedule_day_of_month: scheduled && frequency === 'monthly' ? dayOfMonth : null,
+      schedule_hour_utc: hourUtc,
+      recipients: parseRecipients(recipients),
+      is_active: isActive
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>{definition ? 'Edit Saved Report' : 'Save Report'}</DialogTitle>
+          <DialogDescription>
+            {reportCharts.length} chart{reportCharts.length === 1 ? '' : 's'}. Dates are worked out each time the report runs.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="report-name">Name</Label>
+              <Input id="report-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Weekly - Herb.co" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="report-title">Report Title</Label>
+              <Input id="report-title" value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Campaign Performance Report" />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label>Date Range</Label>
+            <Select value={dateRange} onValueChange={(value) => setDateRange(value as RelativeDateRange)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RELATIVE_DATE_RANGE_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>Agencies</Label>
+              <MultiSelect
+                options={agencyOptions}
+                selected={selectedAgencies}
+                onChange={setSelectedAgencies}
+                placeholder="All agencies"
+                className="w-full"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Advertisers</Label>
+              <MultiSelect
+                options={advertiserOptions}
+                selected={selectedAdvertisers}
+                onChange={setSelectedAdvertisers}
+                placeholder="All advertisers"
+                className="w-full"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label>Schedule</Label>
+              <Select value={frequency} onValueChange={(value) => setFrequency(value as ReportFrequency | typeof NOT_SCHEDULED)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NOT_SCHEDULED}>Not scheduled</SelectItem>
+                  {(Object.keys(REPORT_FREQUENCY_LABELS) as ReportFrequency[]).map(value => (
+                    <SelectItem key={value} value={value}>{REPORT_FREQUENCY_LABELS[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {frequency === 'weekly' && (
+              <div className="space-y-1">
+                <Label>Day</Label>
+                <Select value={String(dayOfWeek)} onValueChange={(value) => setDayOfWeek(Number(value))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WEEKDAY_LABELS.map((label, index) => (
+                      <SelectItem key={label} value={String(index)}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {frequency === 'monthly' && (
+              <div className="space-y-1">
+                <Label htmlFor="report-day-of-month">Day of Month</Label>
+                <Input
+                  id="report-day-of-month"
+                  type="number"
+                  min={1}
+                  max={28}
+                  value={dayOfMonth}
+                  onChange={(e) => setDayOfMonth(Math.min(Math.max(Number(e.target.value) || 1, 1), 28))}
+                />
+              </div>
+            )}
+            {frequency !== NOT_SCHEDULED && (
+              <div className="space-y-1">
+                <Label>Time (UTC)</Label>
+                <Select value={String(hourUtc)} onValueChange={(value) => setHourUtc(Number(value))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from({ length: 24 }, (_, hour) => (
+                      <SelectItem key={hour} value={String(hour)}>{String(hour).padStart(2, '0')}:00</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          {frequency !== NOT_SCHEDULED && (
+            <>
+              <div className="space-y-1">
+                <Label htmlFor="report-recipients">Recipients</Label>
+                <Input
+                  id="report-recipients"
+                  value={recipients}
+                  onChange={(e) => setRecipients(e.target.value)}
+                  placeholder="client@example.com, am@example.com"
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch id="report-active" checked={isActive} onCheckedChange={setIsActive} />
+                <Label htmlFor="report-active" className="font-normal">Schedule active</Label>
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !name.trim() || reportCharts.length === 0}>
+            {isSaving ? 'Saving...' : 'Save Report'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,293 @@
+/**
+ * StatusTrackingBoard - Kanban view of renewal/launch tracking records by status.
+ * Used by both LaunchStatusPage and RenewalsStatusPage as an alternative to the list tabs.
+ */
+
+import { useMemo, useState } from 'react';
+import { addDays, format, isValid, parseISO, startOfDay } from 'date-fns';
+import {
+  DndContext,
+  KeyboardSensor,
+  PointerSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+  DragEndEvent
+} from '@dnd-kit/core';
+import { CSS } from '@dnd-kit/utilities';
+import { RenewalProcessStatus, RenewalStatusTracking, RenewalType, WorkflowTemplate } from '@/types/daily-priorities';
+import { parseAgencyInfo } from '@/utils/campaignNameParsing';
+import { getOverdueSteps, getWorkflowCompletion } from '@/utils/workflowTemplates';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+
+const BOARD_COLUMNS: RenewalProcessStatus[] = [
+  'Not Started',
+  'In Progress',
+  'Blocked',
+  'Completed'
+];
+
+const COLUMN_COLORS: Record<RenewalProcessStatus, string> = {
+  'Not Started': 'border-t-gray-400',
+  'In Progress': 'border-t-blue-500',
+  'Blocked': 'border-t-red-500',
+  'Completed': 'border-t-green-500'
+};
+
+const RENEWAL_TYPE_OPTIONS: RenewalType[] = [
+  'Extension',
+  'Relaunch',
+  'NOT Renewing'
+];
+
+type DateWindow = 'all' | 'past' | 'next_14' | 'next_30' | 'next_90' | 'no_date';
+
+const DATE_WINDOW_LABELS: Record<DateWindow, string> = {
+  all: 'Any date', // shown as "Any <renewal/launch> date"
+  past: 'Date passed',
+  next_14: 'Next 14 days',
+  next_30: 'Next 30 days',
+  next_90: 'Next 90 days',
+  no_date: 'No date set'
+};
+
+const ALL = 'all';
+
+/**
+ * Column a record sits in - records marked complete from the list view count as Completed
+ */
+function getBoardStatus(record: RenewalStatusTracking): RenewalProcessStatus {
+  return record.completed ? 'Completed' : record.status;
+}
+
+function isInDateWindow(dateString: string | null, dateWindow: DateWindow, today: Date): boolean {
+  if (dateWindow === 'all') return true;
+
+  const date = dateString ? parseISO(dateString) : null;
+  if (!date || !isValid(date)) return dateWindow === 'no_date';
+  if (dateWindow === 'no_date') return false;
+  if (dateWindow === 'past') return date < today;
+
+  const days = { next_14: 14, next_30: 30, next_90: 90 }[dateWindow];
+  return date >= today && date <= addDays(today, days);
+}
+
+export interface StatusTrackingBoardProps {
+  records: RenewalStatusTracking[];
+  /** Resolves the workflow template a record follows */
+  getTemplate: (templateId: string | null | undefined) => WorkflowTemplate | undefined;
+  /** Whether to show the Renewal Type filter and badge (used in RenewalsStatusPage) */
+  showRenewalType?: boolean;
+  /** Label for the renewal_date field (e.g., "Renewal" or "Launch") */
+  dateLabel: string;
+  /** Callback when a card is dropped on another column */
+  onMove: (id: string, status: RenewalProcessStatus) => void;
+}
+
+export function StatusTrackingBoard({
+  records,
+  getTemplate,
+  showRenewalType = false,
+  dateLabel,
+  onMove
+}: StatusTrackingBoardProps) {
+  const [agencyFilter, setAgencyFilter] = useState(ALL);
+  const [renewalTypeFilter, setRenewalTypeFilter] = useState(ALL);
+  const [dateWindow, setDateWindow] = useState<DateWindow>('all');
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor)
+  );
+
+  const agencyOptions = useMemo(() => {
+    const agencies = new Set(records.map(r => parseAgencyInfo(r.campaign_name).agency).filter(Boolean));
+    return Array.from(agencies).sort();
+  }, [records]);
+
+  const columns = useMemo(() => {
+    const today = startOfDay(new Date());
+    const grouped: Record<RenewalProcessStatus, RenewalStatusTracking[]> = {
+      'Not Started': [],
+      'In Progress': [],
+      'Blocked': [],
+      'Completed': []
+    };
+
+    records
+      .filter(r => agencyFilter === ALL || parseAgencyInfo(r.campaign_name).agency === agencyFilter)
+      .filter(r => !showRenewalType || renewalTypeFilter === ALL || r.renewal_type === renewalTypeFilter)
+      .filter(r => isInDateWindow(r.renewal_date, dateWindow, today))
+      .forEach(r => grouped[getBoardStatus(r)].push(r));
+
+    // Soonest date first, records without a date last
+    Object.values(grouped).forEach(list => list.sort((a, b) => {
+      if (!a.renewal_date && !b.renewal_date) return 0;
+      if (!a.renewal_date) return 1;
+      if (!b.renewal_date) return -1;
+      return new Date(a.renewal_date).getTime() - new Date(b.renewal_date).getTime();
+    }));
+
+    return grouped;
+  }, [records, agencyFilter, renewalTypeFilter, dateWindow, showRenewalType]);
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+    if (!over) return;
+
+    const record = records.find(r => r.id === active.id);
+    const status = over.id as RenewalProcessStatus;
+    if (record && getBoardStatus(record) !== status) {
+      onMove(record.id, status);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={agencyFilter} onValueChange={setAgencyFilter}>
+          <SelectTrigger className="w-[200px] h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL} className="text-xs">All agencies</SelectItem>
+            {agencyOptions.map(agency => (
+              <SelectItem key={agency} value={agency} className="text-xs">{agency}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {showRenewalType && (
+          <Select value={renewalTypeFilter} onValueChange={setRenewalTypeFilter}>
+            <SelectTrigger className="w-[160px] h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL} className="text-xs">All renewal types</SelectItem>
+              {RENEWAL_TYPE_OPTIONS.map(type => (
+                <SelectItem key={type} value={type} className="text-xs">{type}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        <Select value={dateWindow} onValueChange={(value) => setDateWindow(value as DateWindow)}>
+          <SelectTrigger className="w-[160px] h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(DATE_WINDOW_LABELS) as DateWindow[]).map(option => (
+              <SelectItem key={option} value={option} className="text-xs">
+                {option === 'all' ? `Any ${dateLabel.toLowerCase()} date` : DATE_WINDOW_LABELS[option]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Columns */}
+      <DndContext sensors={sensors} onDragEnd={handleDragEnd}>
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+          {BOARD_COLUMNS.map(status => (
+            <BoardColumn key={status} status={status} count={columns[status].length}>
+              {columns[status].map(record => (
+                <BoardCard
+                  key={record.id}
+                  record={record}
+                  template={getTemplate(record.workflow_template_id)}
+                  showRenewalType={showRenewalType}
+                />
+              ))}
+            </BoardColumn>
+          ))}
+        </div>
+      </DndContext>
+    </div>
+  );
+}
+
+interface BoardColumnProps {
+  status: RenewalProcessStatus;
+  count: number;
+  children: React.ReactNode;
+}
+
+function BoardColumn({ status, count, children }: BoardColumnProps) {
+  const { setNodeRef, isOver } = useDroppable({ id: status });
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={cn(
+        'flex flex-col gap-2 rounded-md border border-t-4 bg-white p-2 min-h-[200px] transition-colors',
+        COLUMN_COLORS[status],
+        isOver && 'bg-muted/50'
+      )}
+    >
+      <div className="flex items-center justify-between px-1 pb-1">
+        <span className="text-sm font-semibold">{status}</span>
+        <span className="text-xs text-muted-foreground">{count}</span>
+      </div>
+      {children}
+    </div>
+  );
+}
+
+interface BoardCardProps {
+  record: RenewalStatusTracking;
+  template: WorkflowTemplate | undefined;
+  showRenewalType: boolean;
+}
+
+function BoardCard({ record, template, showRenewalType }: BoardCardProps) {
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({ id: record.id });
+
+  const steps = template?.steps || [];
+  const completion = getWorkflowCompletion(record, steps);
+  const overdueCount = record.completed ? 0 : getOverdueSteps(record, steps).length;
+  const date = record.renewal_date ? parseISO(record.renewal_date) : null;
+
+  const style = {
+    transform: CSS.Translate.toString(transform),
+    opacity: isDragging ? 0.5 : 1,
+    zIndex: isDragging ? 50 : undefined
+  };
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      {...attributes}
+      {...listeners}
+      className="rounded-md border bg-gray-50 p-2 shadow-sm cursor-grab active:cursor-grabbing hover:shadow-md transition-shadow"
+    >
+      <p className="text-xs font-medium break-words">{record.campaign_name}</p>
+      <div className="mt-1 flex flex-wrap items-center gap-1">
+        <span className="text-[11px] text-muted-foreground">
+          {date && isValid(date) ? format(date, 'MMM d, yyyy') : 'No date'}
+        </span>
+        {showRenewalType && (
+          <Badge variant="outline" className="text-[10px] px-1.5 py-0">{record.renewal_type}</Badge>
+        )}
+        {overdueCount > 0 && (
+          <Badge variant="destructive" className="text-[10px] px-1.5 py-0">{overdueCount} overdue</Badge>
+        )}
+      </div>
+      <div className="mt-2 flex items-center gap-2">
+        <Progress value={completion} className="h-1 flex-1" />
+        <span className="text-[10px] text-muted-foreground">{completion}%</span>
+      </div>
+    </div>
+  );
+}
@@ -5,11 +5,20 @@
 
 import { useState } from 'react';
 import { format, parseISO, isValid } from 'date-fns';
-import { RenewalStatusTracking, RenewalProcessStatus, RenewalType, RenewalStatusTrackingUpdate } from '@/types/daily-priorities';
+import { RenewalStatusTracking, RenewalProcessStatus, RenewalType, WorkflowTemplate } from '@/types/daily-priorities';
+import {
+  getOverdueSteps,
+  getScheduleStatus,
+  getStepDueDate,
+  getWorkflowCompletion,
+  isStepCompleted,
+  isStepOverdue
+} from '@/utils/workflowTemplates';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
@@ -66,10 +75,14 @@ export interface StatusTrackingCardProps {
   showRenewalType?: boolean;
   /** Whether to show the Notes field (default: true) */
   showNotes?: boolean;
-  /** Use launch-specific labels instead of renewal labels (default: false) */
-  useLaunchLabels?: boolean;
-  /** Callback when a checkbox field changes */
-  onCheckboxChange: (id: string, field: keyof RenewalStatusTrackingUpdate, checked: boolean) => void;
+  /** Workflow template whose steps are shown for this record */
+  template: WorkflowTemplate | undefined;
+  /** Templates the record can be switched to (switcher hidden when omitted) */
+  templates?: WorkflowTemplate[];
+  /** Callback when a workflow step is checked or unchecked */
+  onStepToggle: (id: string, stepId: string, completed: boolean, stepLabel: string) => void;
+  /** Callback when the record is moved to another template */
+  onTemplateChange?: (id: string, templateId: string) => void;
   /** Callback when status changes */
   onStatusChange: (id: string, status: RenewalProcessStatus) => void;
   /** Callback when renewal type changes */
@@ -88,34 +101,15 @@ export interface StatusTrackingCardProps {
   onReopen?: (id: string) => void;
 }
 
-/**
- * Calculate the completion percentage based on checked workflow steps.
- * @param record The tracking record
- * @param includeDspCreativeSetup Whether to include DSP Creative Setup in calculation (launch only)
- */
-function getCompletionPercentage(record: RenewalStatusTracking, includeDspCreativeSetup: boolean): number {
-  const steps = [
-    record.project_kickoff_ticket_creation,
-    record.bt_approval,
-    record.bt_approved,
-    record.coda_strategy,
-    record.dashboard_update,
-    ...(includeDspCreativeSetup ? [record.dsp_creative_setup] : []),
-    record.dsp_update,
-    record.pre_qa,
-    record.post_qa
-  ];
-  const completed = steps.filter(Boolean).length;
-  return Math.round((completed / steps.length) * 100);
-}
-
 export function StatusTrackingCard({
   record,
   isCompleted = false,
   showRenewalType = false,
   showNotes = true,
-  useLaunchLabels = false,
-  onCheckboxChange,
+  template,
+  templates,
+  onStepToggle,
+  onTemplateChange,
   onStatusChange,
   onRenewalTypeChange,
   onRenewalDateChange,
@@ -129,7 +123,9 @@ export function StatusTrackingCard({
   const [taskUrlInput, setTaskUrlInput] = useState(record.task_url || '');
   const [isDatePickerOpen, setIsDatePickerOpen] = useState(false);
 
-  const completion = getCompletionPercentage(record, useLaunchLabels);
+  const steps = template?.steps || [];
+  const completion = getWorkflowCompletion(record, steps);
+  const scheduleStatus = isCompleted ? 'unscheduled' : getScheduleStatus(record, steps);
 
   const handleTaskUrlSave = () => {
     onTaskUrlChange(record.id, taskUrlInput || null);
@@ -179,6 +175,16 @@ export function StatusTrackingCard({
             <div className="flex items-center gap-2">
               <Progress value={completion} className="h-1.5 w-24" />
               <span className="text-xs text-muted-foreground whitespace-nowrap">{completion}%</span>
+              {scheduleStatus === 'breached' && (
+                <Badge variant="destructive" className="text-[10px] px-1.5 py-0 whitespace-nowrap">
+                  {getOverdueSteps(record, steps).length} overdue
+                </Badge>
+              )}
+              {scheduleStatus === 'on_schedule' && (
+                <Badge variant="outline" className="text-[10px] px-1.5 py-0 whitespace-nowrap border-green-300 text-green-700">
+                  On schedule
+                </Badge>
+              )}
             </div>
           </div>
 
@@ -309,140 +315,50 @@ export function StatusTrackingCard({
             )}
           </div>
 
-          {/* Middle section: Checkboxes */}
-          <div className="flex-1 min-w-0 flex flex-col">
-            {useLaunchLabels ? (
-              /* Launch Status: 3x3 grid with 9 checkboxes */
-              <div className="grid grid-cols-3 gap-2 w-full">
-                {/* Row 1 */}
-                <CheckboxField
-                  id={`${record.id}-project`}
-                  checked={record.project_kickoff_ticket_creation}
-                  onChange={(checked) => onCheckboxChange(record.id, 'project_kickoff_ticket_creation', checked)}
-                  label="Project & Kickoff"
-                  disabled={isCompleted}
-                />
-                <CheckboxField
-                  id={`${record.id}-bt`}
-                  checked={record.bt_approval}
-                  onChange={(checked) => onCheckboxChange(record.id, 'bt_approval', checked)}
-                  label="BT Created"
-                  disabled={isCompleted}
-                />
-                <CheckboxField
-                  id={`${record.id}-bt-approved`}
-                  checked={record.bt_approved}
-                  onChange={(checked) => onCheckboxChange(record.id, 'bt_approved', checked)}
-                  label="BT Approved"
-                  disabled={isCompleted}
-                />
-                {/* Row 2 */}
-                <CheckboxField
-                  id={`${record.id}-coda`}
-                  checked={record.coda_strategy}
-                  onChange={(checked) => onCheckboxChange(record.id, 'coda_strategy', checked)}
-                  label="Coda Strategy"
-                  disabled={isCompleted}
-                />
-                <CheckboxField
-                  id={`${record.id}-dashboard`}
-                  checked={record.dashboard_update}
-                  onChange={(checked) => onCheckboxChange(record.id, 'dashboard_update', checked)}
-                  label="Dashboard Launch"
-                  disabled={isCompleted}
-                />
-                <CheckboxField
-                  id={`${record.id}-dsp-creative`}
-                  checked={record.dsp_creative_setup}
-                  onChange={(checked) => onCheckboxChange(record.id, 'dsp_creative_setup', checked)}
-                  label="DSP Creative Setup"
-                  disabled={isCompleted}
-                />
-                {/* Row 3 */}
-                <CheckboxField
-                  id={`${record.id}-dsp`}
-                  checked={record.dsp_update}
-                  onChange={(checked) => onCheckboxChange(record.id, 'dsp_update', checked)}
-                  label="DSP Launch"
-                  disabled={isCompleted}
-                />
-                <CheckboxField
-                  id={`${record.id}-preqa`}
-                  checked={record.pre_qa}
-                  onChange={(checked) => onCheckboxChange(record.id, 'pre_qa', checked)}
-                  label="Pre QA"
-                  disabled={isCompleted}
-                />
-                <CheckboxField
-                  id={`${record.id}-postqa`}
-                  checked={record.post_qa}
-                  onChange={(checked) => onCheckboxChange(record.id, 'post_qa', checked)}
-                  label="Post QA"
+          {/* Middle section: Workflow steps */}
+          <div className="flex-1 min-w-0 flex flex-col gap-2">
+            {templates && templates.length > 1 && onTemplateChange && (
+              <div className="flex items-center gap-2">
+                <label className="text-xs text-muted-foreground">Workflow:</label>
+                <Select
+                  value={template?.id}
+                  onValueChange={(value) => onTemplateChange(record.id, value)}
                   disabled={isCompleted}
-                />
+                >
+                  <SelectTrigger className="w-[220px] h-7 text-xs">
+                    <SelectValue placeholder="Select workflow" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {templates.map((t) => (
+                      <SelectItem key={t.id} value={t.id} className="text-xs">
+                        {t.name}{t.is_default ? ' (default)' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
-            ) : (
-              /* Renewals Status: 4x2 grid with 8 checkboxes (no DSP Creative Setup) */
-              <div className="grid grid-cols-4 gap-2 w-full">
-                {/* Row 1 */}
-                <CheckboxField
-                  id={`${record.id}-project`}
-                  checked={record.project_kickoff_ticket_creation}
-                  onChange={(checked) => onCheckboxChange(record.id, 'project_kickoff_ticket_creation', checked)}
-                  label="Project & Kickoff"
-                  disabled={isCompleted}
-                />
-                <CheckboxField
-                  id={`${record.id}-bt`}
-                  checked={record.bt_approval}
-                  onChange={(checked) => onCheckboxChange(record.id, 'bt_approval', checked)}
-                  label="BT Updated"
-                  disabled={isCompleted}
-                />
-                <CheckboxField
-                  id={`${record.id}-bt-approved`}
-                  checked={record.bt_approved}
-                  onChange={(checked) => onCheckboxChange(record.id, 'bt_approved', checked)}
-                  label="BT Approved"
-                  disabled={isCompleted}
-                />
-                <CheckboxField
-                  id={`${record.id}-coda`}
-                  checked={record.coda_strategy}
-                  onChange={(checked) => onCheckboxChange(record.id, 'coda_strategy', checked)}
-                  label="Coda Strategy"
-                  disabled={isCompleted}
-                />
-                {/* Row 2 */}
-                <CheckboxField
-                  id={`${record.id}-dashboard`}
-                  checked={record.dashboard_update}
-                  onChange={(checked) => onCheckboxChange(record.id, 'dashboard_update', checked)}
-                  label="Dashboard Update"
-                  disabled={isCompleted}
-                />
-                <CheckboxField
-                  id={`${record.id}-dsp`}
-                  checked={record.dsp_update}
-                  onChange={(checked) => onCheckboxChange(record.id, 'dsp_update', checked)}
-                  label="DSP Update"
-                  disabled={isCompleted}
-                />
-                <CheckboxField
-                  id={`${record.id}-preqa`}
-                  checked={record.pre_qa}
-                  onChange={(checked) => onCheckboxChange(record.id, 'pre_qa', checked)}
-                  label="Pre QA"
-                  disabled={isCompleted}
-                />
-                <CheckboxField
-                  id={`${record.id}-postqa`}
-                  checked={record.post_qa}
-                  onChange={(checked) => onCheckboxChange(record.id, 'post_qa', checked)}
-                  label="Post QA"
-                  disabled={isCompleted}
-                />
+            )}
+            {steps.length > 0 ? (
+              <div className={`grid ${steps.length % 4 === 0 ? 'grid-cols-4' : 'grid-cols-3'} gap-2 w-full`}>
+                {steps.map((step) => {
+                  const dueDate = getStepDueDate(step, record.renewal_date);
+                  return (
+                    <CheckboxField
+                      key={step.id}
+                      id={`${record.id}-${step.id}`}
+                      checked={isStepCompleted(record, step.id)}
+                      onChange={(checked) => onStepToggle(record.id, step.id, checked, step.label)}
+                      label={step.label}
+                      owner={step.owner}
+                      dueDate={dueDate ? format(dueDate, 'MMM d') : null}
+                      isOverdue={!isCompleted && isStepOverdue(record, step)}
+                      disabled={isCompleted}
+                    />
+                  );
+                })}
               </div>
+            ) : (
+              <p className="text-xs text-muted-foreground italic">No workflow template</p>
             )}
           </div>
 
@@ -494,12 +410,21 @@ interface CheckboxFieldProps {
   checked: boolean;
   onChange: (checked: boolean) => void;
   label: string;
+  owner?: string | null;
+  dueDate?: string | null;
+  isOverdue?: boolean;
   disabled?: boolean;
 }
 
-function CheckboxField({ id, checked, onChange, label, disabled }: CheckboxFieldProps) {
+function CheckboxField({ id, checked, onChange, label, owner, dueDate, isOverdue, disabled }: CheckboxFieldProps) {
+  const details = [owner, dueDate && `due ${dueDate}`].filter(Boolean).join(' · ');
+
   return (
-    <div className="flex items-center gap-1.5 p-2 border rounded-md bg-gray-100 hover:bg-muted/50 transition-colors h-8">
+    <div
+      className={`flex items-center gap-1.5 p-2 border rounded-md transition-colors min-h-8 ${
+        isOverdue ? 'bg-red-50 border-red-200 hover:bg-red-100' : 'bg-gray-100 hover:bg-muted/50'
+      }`}
+    >
       <Checkbox
         id={id}
         checked={checked}
@@ -512,6 +437,11 @@ function CheckboxField({ id, checked, onChange, label, disabled }: CheckboxField
         className="text-sm cursor-pointer flex-1"
       >
         {label}
+        {details && (
+          <span className={`block text-[10px] leading-tight ${isOverdue ? 'text-red-600' : 'text-muted-foreground'}`}>
+            {details}
+          </span>
+        )}
       </label>
     </div>
   );
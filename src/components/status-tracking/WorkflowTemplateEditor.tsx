@@ -0,0 +1,271 @@
+/**
+ * WorkflowTemplateEditor - Dialog for editing the ordered steps of renewal/launch workflows.
+ * Used by both LaunchStatusPage and RenewalsStatusPage.
+ */
+
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { WorkflowKind, WorkflowStep, WorkflowTemplate, WorkflowTemplateUpsert } from '@/types/daily-priorities';
+import { createStepId } from '@/utils/workflowTemplates';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+
+const NEW_TEMPLATE = 'new';
+
+interface WorkflowTemplateEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  kind: WorkflowKind;
+  templates: WorkflowTemplate[];
+  onSave: (template: WorkflowTemplateUpsert, options?: { onSuccess?: (saved: WorkflowTemplate) => void }) => void;
+  onDelete: (id: string) => void;
+  isSaving?: boolean;
+  canEdit?: boolean;
+}
+
+// Open on the default template
+const getInitialTemplateId = (templates: WorkflowTemplate[]) =>
+  templates.find(t => t.is_default)?.id || templates[0]?.id || NEW_TEMPLATE;
+
+export function WorkflowTemplateEditor({ isOpen, onClose, ...formProps }: WorkflowTemplateEditorProps) {
+  // The dialog content unmounts on close, so the form starts over each time it opens
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+        <WorkflowTemplateForm onClose={onClose} {...formProps} />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function WorkflowTemplateForm({
+  onClose,
+  kind,
+  templates,
+  onSave,
+  onDelete,
+  isSaving = false,
+  canEdit = true
+}: Omit<WorkflowTemplateEditorProps, 'isOpen'>) {
+  const [selectedId, setSelectedId] = useState<string>(() => getInitialTemplateId(templates));
+  const selectedTemplate = templates.find(t => t.id === selectedId);
+  const [name, setName] = useState(selectedTemplate?.name || '');
+  const [isDefault, setIsDefault] = useState(selectedTemplate?.is_default || false);
+  const [steps, setSteps] = useState<WorkflowStep[]>(selectedTemplate?.steps || []);
+
+  const dateLabel = kind === 'launch' ? 'launch' : 'renewal';
+
+  // Load a template into the form
+  const selectTemplate = (id: string) => {
+    const template = templates.find(t => t.id === id);
+    setSelectedId(id);
+    setName(template?.name || '');
+    setIsDefault(template?.is_default || false);
+    setSteps(template?.steps || []);
+  };
+
+  const updateStep = (index: number, updates: Partial<WorkflowStep>) => {
+    setSteps(prev => prev.map((step, i) => (i === index ? { ...step, ...updates } : step)));
+  };
+
+  const moveStep = (index: number, direction: -1 | 1) => {
+    setSteps(prev => {
+      const next = [...prev];
+      [next[index], next[index + direction]] = [next[index + direction], next[index]];
+      return next;
+    });
+  };
+
+  const addStep = () => {
+    setSteps(prev => [...prev, { id: createStepId(), label: '', owner: null, due_offset_days: null }]);
+  };
+
+  const removeStep = (index: number) => {
+    setSteps(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleOffsetChange = (index: number, value: string) => {
+    const parsed = parseInt(value, 10);
+    updateStep(index, { due_offset_days: isNaN(parsed) ? null : parsed });
+  };
+
+  const cleanedSteps = steps
+    .map(step => ({ ...step, label: step.label.trim(), owner: step.owner?.trim() || null }))
+    .filter(step => step.label);
+
+  const handleSave = () => {
+    onSave(
+      {
+        ...(selectedTemplate ? { id: selectedTemplate.id } : {}),
+        kind,
+        name: name.trim(),
+        steps: cleanedSteps,
+        is_default: isDefault
+      },
+      { onSuccess: (saved) => setSelectedId(saved.id) }
+    );
+  };
+
+  const handleDelete = () => {
+    if (!selectedTemplate) return;
+    onDelete(selectedTemplate.id);
+    selectTemplate(templates.find(t => t.is_default)?.id || NEW_TEMPLATE);
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Workflow Templates</DialogTitle>
+        <DialogDescription>
+          Steps are shown in order on each {dateLabel} record. Due offsets count days from the {dateLabel} date
+          (-10 = due 10 days before it). Steps left undone past their due date flag the record as at risk.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="grid gap-4 py-2">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="grid gap-2">
+            <Label>Template</Label>
+            <Select value={selectedId} onValueChange={selectTemplate}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {templates.map(t => (
+                  <SelectItem key={t.id} value={t.id}>
+                    {t.name}{t.is_default ? ' (default)' : ''}
+                  </SelectItem>
+                ))}
+                {canEdit && <SelectItem value={NEW_TEMPLATE}>+ New template</SelectItem>}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="workflow-template-name">Name</Label>
+            <Input
+              id="workflow-template-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Standard renewal"
+              disabled={!canEdit}
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Switch
+            id="workflow-template-default"
+            checked={isDefault}
+            onCheckedChange={setIsDefault}
+            disabled={!canEdit || selectedTemplate?.is_default}
+          />
+          <Label htmlFor="workflow-template-default" className="font-normal">
+            Default for new {dateLabel} records
+          </Label>
+        </div>
+
+        <div className="grid gap-2">
+          <div className="grid grid-cols-[1fr_160px_110px_96px] gap-2 text-xs text-muted-foreground">
+            <span>Step</span>
+            <span>Owner (optional)</span>
+            <span>Due offset (days)</span>
+            <span />
+          </div>
+          {steps.map((step, index) => (
+            <div key={step.id} className="grid grid-cols-[1fr_160px_110px_96px] gap-2 items-center">
+              <Input
+                value={step.label}
+                onChange={(e) => updateStep(index, { label: e.target.value })}
+                placeholder="Step label"
+                className="h-8 text-sm"
+                disabled={!canEdit}
+              />
+              <Input
+                value={step.owner || ''}
+                onChange={(e) => updateStep(index, { owner: e.target.value })}
+                placeholder="Owner"
+                className="h-8 text-sm"
+                disabled={!canEdit}
+              />
+              <Input
+                type="number"
+                step="1"
+                value={step.due_offset_days ?? ''}
+                onChange={(e) => handleOffsetChange(index, e.target.value)}
+                placeholder="e.g. -10"
+                className="h-8 text-sm"
+                disabled={!canEdit}
+              />
+              {canEdit && (
+                <div className="flex gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    onClick={() => moveStep(index, -1)}
+                    disabled={index === 0}
+                    title="Move up"
+                  >
+                    <ArrowUp className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    onClick={() => moveStep(index, 1)}
+                    disabled={index === steps.length - 1}
+                    title="Move down"
+                  >
+                    <ArrowDown className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0 hover:bg-red-50"
+                    onClick={() => removeStep(index)}
+                    title="Remove step"
+                  >
+                    <Trash2 className="h-3.5 w-3.5 text-red-500" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+          {canEdit && (
+            <Button variant="outline" size="sm" className="w-fit gap-1" onClick={addStep}>
+              <Plus className="h-4 w-4" />
+              Add step
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <DialogFooter>
+        {selectedTemplate && !selectedTemplate.is_default && canEdit && (
+          <Button variant="outline" className="mr-auto text-red-600" onClick={handleDelete}>
+            Delete template
+          </Button>
+        )}
+        <Button variant="outline" onClick={onClose}>
+          Close
+        </Button>
+        {canEdit && (
+          <Button onClick={handleSave} disabled={!name.trim() || cleanedSteps.length === 0 || isSaving}>
+            {isSaving ? 'Saving...' : 'Save Template'}
+          </Button>
+        )}
+      </DialogFooter>
+    </>
+  );
+}
@@ -1,71 +1,78 @@
 /**
- * User mapping configuration
- * Maps usernames to user IDs and display names for activity tracking
+ * User directory and roles
+ * Maps user IDs to display names for activity tracking
  *
- * Users are defined via environment variables for security:
- * VITE_USERS='ben:user-ben:Ben Malone:pass123,tyler:user-tyler:Tyler:pass456'
- * Format: username:userId:displayName:password,username:userId:displayName:password
+ * Users sign in through Supabase Auth. Each auth user has a row in the
+ * `profiles` table holding their display name and role; AuthContext loads
+ * every profile into this directory after sign-in so stored user IDs
+ * (created_by, updated_by, ...) can be resolved synchronously while rendering.
+ *
+ * Records written before Supabase Auth carry the old hard-coded IDs
+ * (e.g. 'user-ben') - those resolve through profiles.legacy_user_id.
  */
 
+export type UserRole = 'viewer' | 'editor' | 'admin'
+
 export interface User {
   id: string
   username: string
   displayName: string
-  password: string
+  role: UserRole
+  legacyId: string | null
 }
 
-// Parse users from environment variable
-const parseUsers = (): Record<string, User> => {
-  const usersEnv = import.meta.env.VITE_USERS;
+// Row shape of the `profiles` table
+export interface UserProfileRow {
+  id: string
+  username: string
+  display_name: string
+  role: UserRole
+  legacy_user_id: string | null
+  created_at: string
+  updated_at: string
+}
 
-  if (!usersEnv) {
-    // Fallback for local development only
-    console.warn('VITE_USERS not set - using default development users');
-    return {
-      ben: {
-        id: 'user-ben',
-        username: 'ben',
-        displayName: 'Ben Malone',
-        password: 'password123'
-      },
-      tyler: {
-        id: 'user-tyler',
-        username: 'tyler',
-        displayName: 'Tyler',
-        password: 'password123'
-      },
-      hannah: {
-        id: 'user-hannah',
-        username: 'hannah',
-        displayName: 'Hannah',
-        password: 'password123'
-      }
-    };
-  }
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  viewer: 'Viewer',
+  editor: 'Editor',
+  admin: 'Admin'
+}
+
+// Each role can do everything the roles below it can
+const ROLE_RANK: Record<UserRole, number> = {
+  viewer: 0,
+  editor: 1,
+  admin: 2
+}
 
-  const users: Record<string, User> = {};
+export const toUser = (row: UserProfileRow): User => ({
+  id: row.id,
+  username: row.username,
+  displayName: row.display_name,
+  role: row.role,
+  legacyId: row.legacy_user_id
+})
 
-  usersEnv.split(',').forEach(userStr => {
-    const [username, id, displayName, password] = userStr.split(':');
-    if (username && id && displayName && password) {
-      users[username.toLowerCase()] = {
-        id,
-        username: username.toLowerCase(),
-        displayName,
-        password
-      };
-    }
-  });
+// Check whether a user has at least the given role
+export const hasRole = (user: User | null, role: UserRole): boolean => {
+  if (!user) return false
+  return ROLE_RANK[user.role] >= ROLE_RANK[role]
+}
+
+let USERS: User[] = []
 
-  return users;
-};
+// Replace the directory (called by AuthContext once profiles are loaded)
+export const setUserDirectory = (users: User[]) => {
+  USERS = users
+}
 
-export const USERS: Record<string, User> = parseUsers();
+// All known users, e.g. for @mention suggestions
+export const getUsers = (): User[] => USERS
 
-// Helper function to get user by ID
+// Helper function to get user by ID (auth user ID or legacy ID)
 export const getUserById = (userId: string | null): User | null => {
   if (!userId) return null
-  return Object.values(USERS).find(u => u.id === userId) || null
+  return USERS.find(u => u.id === userId || u.legacyId === userId) || null
 }
 
 // Helper function to get display name by user ID
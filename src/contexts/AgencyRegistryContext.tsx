@@ -0,0 +1,57 @@
+import React, { createContext, ReactNode, useMemo, useSyncExternalStore } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { useAuth } from './use-auth'
+import { useSupabase } from './use-supabase'
+import { AgencyEntry, getAgencies, loadAgencyRegistry, subscribeToAgencyRegistry } from './agency-mapping'
+
+/**
+ * Loads the agency registry once for the whole app
+ *
+ * Campaign names are parsed synchronously against the module-level registry
+ * (see agency-mapping), so signed-in pages wait for the first load before they
+ * render. The registry itself is React state here: hooks that derive data from
+ * it list `registry` as a dependency and recompute when an admin edits agencies.
+ */
+
+interface AgencyRegistryContextType {
+  registry: AgencyEntry[]
+  isLoading: boolean
+}
+
+export const AgencyRegistryContext = createContext<AgencyRegistryContextType | undefined>(undefined)
+
+interface AgencyRegistryProviderProps {
+  children: ReactNode
+}
+
+export const AgencyRegistryProvider: React.FC<AgencyRegistryProviderProps> = ({ children }) => {
+  const { supabase } = useSupabase()
+  const { currentUser } = useAuth()
+
+  // Same key as useAgencies, which shares this query. On error the built-in mapping stays in use.
+  const { isLoading } = useQuery({
+    queryKey: ['agencies'],
+    queryFn: () => loadAgencyRegistry(supabase),
+    enabled: !!supabase && !!currentUser
+  })
+
+  const registry = useSyncExternalStore(subscribeToAgencyRegistry, getAgencies)
+  const value = useMemo(() => ({ registry, isLoading }), [registry, isLoading])
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto"></div>
+          <p className="mt-2 text-gray-600">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <AgencyRegistryContext.Provider value={value}>
+      {children}
+    </AgencyRegistryContext.Provider>
+  )
+}
@@ -1,12 +1,22 @@
-import React, { createContext, useState, useEffect, ReactNode } from 'react'
-import { USERS, type User } from '@/config/users'
+import React, { createContext, useState, useEffect, useCallback, ReactNode } from 'react'
+import type { Session } from '@supabase/supabase-js'
+import { supabase } from '@/lib/supabase'
+import {
+  hasRole as userHasRole,
+  setUserDirectory,
+  toUser,
+  type User,
+  type UserProfileRow,
+  type UserRole
+} from '@/config/users'
 
 interface AuthContextType {
   isAuthenticated: boolean
   currentUser: User | null
-  login: (username: string, password: string) => Promise<boolean>
+  login: (email: string, password: string) => Promise<boolean>
   logout: () => void
   isLoading: boolean
+  hasRole: (role: UserRole) => boolean
 }
 
 export const AuthContext = createContext<AuthContextType | undefined>(undefined)
@@ -16,60 +26,80 @@ interface AuthProviderProps {
 }
 
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
-  const [isAuthenticated, setIsAuthenticated] = useState(false)
   const [currentUser, setCurrentUser] = useState<User | null>(null)
   const [isLoading, setIsLoading] = useState(true)
 
-  // Check for existing auth on mount
-  useEffect(() => {
-    const authStatus = localStorage.getItem('campaign-trends-auth')
-    const authTimestamp = localStorage.getItem('campaign-trends-auth-timestamp')
-    const authUserId = localStorage.getItem('campaign-trends-user-id')
-
-    if (authStatus === 'authenticated' && authTimestamp && authUserId) {
-      const timestamp = parseInt(authTimestamp)
-      const now = Date.now()
-      const twentyFourHours = 24 * 60 * 60 * 1000
-
-      // Check if auth is less than 24 hours old
-      if (now - timestamp < twentyFourHours) {
-        // Find user by ID
-        const user = Object.values(USERS).find(u => u.id === authUserId)
-        if (user) {
-          setIsAuthenticated(true)
-          setCurrentUser(user)
-        } else {
-          // User not found, clear auth
-          localStorage.removeItem('campaign-trends-auth')
-          localStorage.removeItem('campaign-trends-auth-timestamp')
-          localStorage.removeItem('campaign-trends-user-id')
-        }
-      } else {
-        // Auth expired
-        localStorage.removeItem('campaign-trends-auth')
-        localStorage.removeItem('campaign-trends-auth-timestamp')
-        localStorage.removeItem('campaign-trends-user-id')
-      }
+  // Load the user directory and resolve the signed-in user's profile
+  const loadSessionUser = useCallback(async (session: Session | null) => {
+    if (!session) {
+      setUserDirectory([])
+      setCurrentUser(null)
+      return
+    }
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('*')
+
+    if (error) {
+      console.error('Error loading user profiles:', error)
     }
 
-    setIsLoading(false)
+    const users = ((data || []) as UserProfileRow[]).map(toUser)
+    setUserDirectory(users)
+
+    // No profile row yet - treat as a viewer until an admin assigns a role
+    const profile = users.find(u => u.id === session.user.id)
+    setCurrentUser(profile || {
+      id: session.user.id,
+      username: session.user.email?.split('@')[0] || session.user.id,
+      displayName: session.user.email || 'Unknown User',
+      role: 'viewer',
+      legacyId: null
+    })
   }, [])
 
-  const login = async (username: string, password: string): Promise<boolean> => {
+  // Restore the existing session on mount and follow sign-in/sign-out
+  useEffect(() => {
+    if (!supabase) {
+      console.warn('Supabase is not configured - sign-in is unavailable')
+      setIsLoading(false)
+      return
+    }
+
+    supabase.auth.getSession()
+      .then(({ data }) => loadSessionUser(data.session))
+      .catch(error => console.error('Error restoring session:', error))
+      .finally(() => setIsLoading(false))
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      // The initial session is handled by getSession above
+      if (event === 'INITIAL_SESSION') return
+
+      // Defer so the Supabase client isn't called from inside its own auth callback
+      setTimeout(() => {
+        loadSessionUser(session).catch(error => console.error('Error loading session user:', error))
+      }, 0)
+    })
+
+    return () => subscription.unsubscribe()
+  }, [loadSessionUser])
+
+  const login = async (email: string, password: string): Promise<boolean> => {
+    if (!supabase) return false
+
     try {
-      // Check if user exists and password matches
-      const user = USERS[username.toLowerCase()]
-
-      if (user && user.password === password) {
-        setIsAuthenticated(true)
-        setCurrentUser(user)
-        localStorage.setItem('campaign-trends-auth', 'authenticated')
-        localStorage.setItem('campaign-trends-auth-timestamp', Date.now().toString())
-        localStorage.setItem('campaign-trends-user-id', user.id)
-        return true
-      } else {
+      const { data, error } = await supabase.auth.signInWithPassword({
+        email: email.trim(),
+        password
+      })
+
+      if (error || !data.session) {
         return false
       }
+
+      await loadSessionUser(data.session)
+      return true
     } catch (error) {
       console.error('Login error:', error)
       return false
@@ -77,19 +107,20 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   }
 
   const logout = () => {
-    setIsAuthenticated(false)
     setCurrentUser(null)
-    localStorage.removeItem('campaign-trends-auth')
-    localStorage.removeItem('campaign-trends-auth-timestamp')
-    localStorage.removeItem('campaign-trends-user-id')
+    setUserDirectory([])
+    supabase?.auth.signOut().catch(error => console.error('Logout error:', error))
   }
 
+  const hasRole = useCallback((role: UserRole) => userHasRole(currentUser, role), [currentUser])
+
   const value: AuthContextType = {
-    isAuthenticated,
+    isAuthenticated: !!currentUser,
     currentUser,
     login,
     logout,
-    isLoading
+    isLoading,
+    hasRole
   }
 
   return (
@@ -97,4 +128,4 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       {children}
     </AuthContext.Provider>
   )
-}
\ No newline at end of file
+}
@@ -1,9 +1,14 @@
 import React, { createContext, ReactNode } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
 import { supabase, type CampaignData, type CampaignAnomalyData, type ContractTermsData } from '@/lib/supabase'
+import { useAuth } from './use-auth'
+import { getCampaignDataKey, summarizeUploadRows } from '@/utils/uploadHistory'
+import { diffFields, logActivity } from '@/lib/activityLogger'
+import { syncCampaignDimensions } from '@/lib/campaignDimensions'
 
 interface SupabaseContextType {
   supabase: typeof supabase
-  upsertCampaignData: (data: Omit<CampaignData, 'id' | 'created_at' | 'updated_at'>[], onProgress?: (progress: string) => void) => Promise<void>
+  upsertCampaignData: (data: Omit<CampaignData, 'id' | 'created_at' | 'updated_at'>[], onProgress?: (progress: string) => void, fileName?: string) => Promise<void>
   getCampaignData: (startDate?: string, endDate?: string, onProgress?: (progress: string) => void, recentOnly?: boolean) => Promise<CampaignData[]>
   deleteCampaignData: (campaignName?: string, date?: string) => Promise<void>
   clearCampaignData: () => Promise<void>
@@ -14,6 +19,7 @@ interface SupabaseContextType {
   upsertAnomalies: (anomalies: Omit<CampaignAnomalyData, 'id' | 'created_at' | 'updated_at'>[], clearFirst?: boolean) => Promise<void>
   updateAnomaly: (id: string, updates: Partial<Omit<CampaignAnomalyData, 'id' | 'created_at' | 'updated_at'>>) => Promise<void>
   deleteAnomaly: (id: string) => Promise<void>
+  deleteAnomalies: (ids: string[]) => Promise<void>
   clearAnomalies: () => Promise<void>
   // Contract terms methods
   getContractTerms: () => Promise<ContractTermsData[]>
@@ -30,6 +36,16 @@ interface SupabaseProviderProps {
 }
 
 export const SupabaseProvider: React.FC<SupabaseProviderProps> = ({ children }) => {
+  const { currentUser, hasRole } = useAuth()
+  const queryClient = useQueryClient()
+
+  // Wiping whole tables is admin-only, whatever UI calls it
+  const requireAdmin = (action: string) => {
+    if (!hasRole('admin')) {
+      throw new Error(`Only admins can ${action}`)
+    }
+  }
+
   // Helper to convert US date format (MM/DD/YY) to ISO format (YYYY-MM-DD)
   const convertToISODate = (dateStr: string): string => {
     const trimmed = dateStr.trim();
@@ -59,7 +75,95 @@ export const SupabaseProvider: React.FC<SupabaseProviderProps> = ({ children })
     throw new Error(`Unable to parse date format: ${dateStr}`);
   };
 
-  const upsertCampaignData = async (data: Omit<CampaignData, 'id' | 'created_at' | 'updated_at'>[], onProgress?: (progress: string) => void) => {
+  // Existing campaign_data rows an upload is about to overwrite
+  const fetchOverwrittenRows = async (rows: Omit<CampaignData, 'id' | 'created_at' | 'updated_at'>[]): Promise<CampaignData[]> => {
+    const keys = new Set(rows.map(getCampaignDataKey))
+    const { dateStart, dateEnd, campaigns } = summarizeUploadRows(rows)
+    const campaignChunkSize = 50 // Keep the IN (...) filter well under URL length limits
+    const pageSize = 1000
+    const overwritten: CampaignData[] = []
+
+    for (let i = 0; i < campaigns.length; i += campaignChunkSize) {
+      const campaignChunk = campaigns.slice(i, i + campaignChunkSize)
+      let page = 0
+      let hasMore = true
+
+      while (hasMore) {
+        const { data, error } = await supabase
+          .from('campaign_data')
+          .select('*')
+          .in('campaign_order_name', campaignChunk)
+          .gte('date', dateStart)
+          .lte('date', dateEnd)
+          .order('id', { ascending: true })
+          .range(page * pageSize, (page + 1) * pageSize - 1)
+
+        if (error) throw error
+
+        const pageRows = (data || []) as CampaignData[]
+        overwritten.push(...pageRows.filter(row => keys.has(getCampaignDataKey(row))))
+        hasMore = pageRows.length === pageSize
+        page++
+      }
+    }
+
+    return overwritten
+  }
+
+  // Add a batch to the upload ledger, along with the rows it overwrites.
+  // The batch is written as incomplete and only marked active once every overwritten
+  // row is recorded - rolling back a partial ledger would lose the rows it missed.
+  const recordUploadBatch = async (
+    sessionId: string,
+    rows: Omit<CampaignData, 'id' | 'created_at' | 'updated_at'>[],
+    fileName?: string
+  ): Promise<void> => {
+    const overwrittenRows = await fetchOverwrittenRows(rows)
+    const { dateStart, dateEnd, campaigns } = summarizeUploadRows(rows)
+
+    const { data: batch, error } = await supabase
+      .from('upload_batches')
+      .insert({
+        session_id: sessionId,
+        file_name: fileName || null,
+        status: 'incomplete',
+        uploaded_by: currentUser?.id || null,
+        row_count: rows.length,
+        inserted_count: rows.length - overwrittenRows.length,
+        updated_count: overwrittenRows.length,
+        date_start: dateStart,
+        date_end: dateEnd,
+        campaigns
+      })
+      .select('id')
+      .single()
+
+    if (error) throw error
+    const batchId = (batch as { id: string }).id
+
+    const chunkSize = 500
+    for (let i = 0; i < overwrittenRows.length; i += chunkSize) {
+      const { error: rowsError } = await supabase
+        .from('upload_batch_rows')
+        .insert(overwrittenRows.slice(i, i + chunkSize).map(row => ({
+          batch_id: batchId,
+          date: row.date,
+          campaign_order_name: row.campaign_order_name,
+          previous: row
+        })))
+
+      if (rowsError) throw rowsError
+    }
+
+    const { error: statusError } = await supabase
+      .from('upload_batches')
+      .update({ status: 'active' })
+      .eq('id', batchId)
+
+    if (statusError) throw statusError
+  }
+
+  const upsertCampaignData = async (data: Omit<CampaignData, 'id' | 'created_at' | 'updated_at'>[], onProgress?: (progress: string) => void, fileName?: string) => {
     try {
       // Generate upload timestamp and session ID for this batch
       const uploadTimestamp = new Date().toISOString()
@@ -88,7 +192,7 @@ export const SupabaseProvider: React.FC<SupabaseProviderProps> = ({ children })
           cpc: row.cpc ? Number(row.cpc) || null : null,
           roas: row.roas ? Number(row.roas) || null : null,
           data_source: row.data_source || 'csv_upload',
-          user_session_id: row.user_session_id || sessionId,
+          user_session_id: sessionId,
           uploaded_at: row.uploaded_at || uploadTimestamp,
           orangellow_corrected: row.orangellow_corrected || false,
           original_spend: row.original_spend ? Number(row.original_spend) || null : null
@@ -99,6 +203,15 @@ export const SupabaseProvider: React.FC<SupabaseProviderProps> = ({ children })
         throw new Error('No valid data rows to upsert')
       }
 
+      // Record the batch in the upload ledger so it can be reviewed and rolled back later.
+      // The ledger is bookkeeping - if it can't be written the upload still goes ahead.
+      try {
+        onProgress?.('Recording upload history...')
+        await recordUploadBatch(sessionId, sanitizedData, fileName)
+      } catch (ledgerError) {
+        console.warn('⚠️ Could not record upload history - this batch cannot be rolled back:', ledgerError)
+      }
+
       console.log(`💾 Attempting to upsert ${sanitizedData.length} sanitized records to Supabase...`)
       console.log(`📅 Sample date formats being sent:`, sanitizedData.slice(0, 3).map(r => ({ date: r.date, campaign: r.campaign_order_name.substring(0, 30) })))
 
@@ -154,6 +267,16 @@ export const SupabaseProvider: React.FC<SupabaseProviderProps> = ({ children })
 
         console.log(`✅ Successfully upserted ${sanitizedData.length} campaign records`);
       }
+
+      // Parse the batch's campaign names into the campaigns dimension table.
+      // Like the ledger this is bookkeeping - a failure doesn't fail the upload.
+      try {
+        onProgress?.('Updating campaign metadata...')
+        await syncCampaignDimensions(supabase, summarizeUploadRows(sanitizedData).campaigns)
+        queryClient.invalidateQueries({ queryKey: ['campaigns'] })
+      } catch (dimensionError) {
+        console.warn('⚠️ Could not update campaign metadata:', dimensionError)
+      }
     } catch (error) {
       console.error('❌ Failed to upsert campaign data:', error);
       throw error;
@@ -378,7 +501,9 @@ export const SupabaseProvider: React.FC<SupabaseProviderProps> = ({ children })
 
       // Group anomalies by campaign and type to keep only the most recent/severe for each
       const groupedAnomalies = sanitizedData.reduce((acc, anomaly) => {
-        const key = `${anomaly.campaign_name}|${anomaly.anomaly_type}`
+        // Statistical anomalies are tracked per metric
+        const metric = (anomaly.details as { metric?: string }).metric || ''
+        const key = `${anomaly.campaign_name}|${anomaly.anomaly_type}|${metric}`
 
         if (!acc[key]) {
           acc[key] = anomaly
@@ -406,7 +531,7 @@ export const SupabaseProvider: React.FC<SupabaseProviderProps> = ({ children })
 
       const finalAnomalies = Object.values(groupedAnomalies)
 
-      console.log(`💾 Reduced ${sanitizedData.length} anomalies to ${finalAnomalies.length} unique anomalies (most recent/severe per campaign per type)`)
+      console.log(`💾 Reduced ${sanitizedData.length} anomalies to ${finalAnomalies.length} unique anomalies (most recent/severe per campaign per type/metric)`)
 
       const { error } = await supabase
         .from('campaign_anomalies')
@@ -427,6 +552,13 @@ export const SupabaseProvider: React.FC<SupabaseProviderProps> = ({ children })
 
   const updateAnomaly = async (id: string, updates: Partial<Omit<CampaignAnomalyData, 'id' | 'created_at' | 'updated_at'>>): Promise<void> => {
     try {
+      // Read the current values first so the activity log can record what changed
+      const { data: previous } = await supabase
+        .from('campaign_anomalies')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle()
+
       const { error } = await supabase
         .from('campaign_anomalies')
         .update(updates)
@@ -438,6 +570,19 @@ export const SupabaseProvider: React.FC<SupabaseProviderProps> = ({ children })
       }
 
       console.log(`✅ Successfully updated anomaly ${id}`)
+
+      const changes = diffFields(previous, updates)
+      if (changes) {
+        await logActivity(supabase, queryClient, {
+          entity_type: 'anomaly',
+          entity_id: id,
+          priority_id: null,
+          user_id: currentUser?.id || 'unknown',
+          action: 'updated',
+          task_description: (previous as CampaignAnomalyData | null)?.campaign_name || 'Anomaly',
+          changes
+        })
+      }
     } catch (error) {
       console.error('❌ Failed to update anomaly:', error)
       throw error
@@ -463,6 +608,22 @@ export const SupabaseProvider: React.FC<SupabaseProviderProps> = ({ children })
     }
   }
 
+  const deleteAnomalies = async (ids: string[]): Promise<void> => {
+    const chunkSize = 100 // Keep the IN (...) filter well under URL length limits
+
+    for (let i = 0; i < ids.length; i += chunkSize) {
+      const { error } = await supabase
+        .from('campaign_anomalies')
+        .delete()
+        .in('id', ids.slice(i, i + chunkSize))
+
+      if (error) {
+        console.error('Error deleting anomalies:', error)
+        throw error
+      }
+    }
+  }
+
   // Contract Terms operations
   const getContractTerms = async (): Promise<ContractTermsData[]> => {
     try {
@@ -577,6 +738,8 @@ export const SupabaseProvider: React.FC<SupabaseProviderProps> = ({ children })
   }
 
   const clearContractTerms = async (): Promise<void> => {
+    requireAdmin('clear contract terms')
+
     try {
       const { error } = await supabase
         .from('contract_terms')
@@ -596,6 +759,8 @@ export const SupabaseProvider: React.FC<SupabaseProviderProps> = ({ children })
   }
 
   const clearCampaignData = async (): Promise<void> => {
+    requireAdmin('clear campaign data')
+
     try {
       const { error } = await supabase
         .from('campaign_data')
@@ -626,6 +791,7 @@ export const SupabaseProvider: React.FC<SupabaseProviderProps> = ({ children })
     upsertAnomalies,
     updateAnomaly,
     deleteAnomaly,
+    deleteAnomalies,
     clearAnomalies,
     getContractTerms,
     upsertContractTerms,
@@ -1,4 +1,31 @@
-// Define the agency mapping
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Agency registry
+ *
+ * Agencies are managed in the `agencies` table (Agencies page). The registry is
+ * loaded from it once per session so campaign names can be resolved
+ * synchronously - in the app and in the scheduled report generator alike.
+ * Until it loads, or while the table is empty, the built-in mapping below is used.
+ */
+
+export interface Agency {
+  id: string;
+  abbreviation: string; // Code used in campaign order names, e.g. 'HRB'
+  display_name: string;
+  aliases: string[]; // Other codes that resolve to this agency
+  is_active: boolean; // Inactive agencies still resolve but aren't offered in pickers
+  is_test: boolean; // Campaigns booked under this agency are test campaigns
+  created_at: string;
+  updated_at: string;
+  updated_by: string | null;
+}
+
+export type AgencyEntry = Pick<Agency, 'abbreviation' | 'display_name' | 'aliases' | 'is_active' | 'is_test'>;
+
+export type AgencyUpsert = AgencyEntry & { id?: string };
+
+// Built-in agency mapping - the fallback registry and the seed for the agencies table
 export const AGENCY_MAPPING: Record<string, string> = {
   '2RS': 'Two Rivers',
   '6D': '6 Degrees Media',
@@ -28,3 +55,79 @@ export const AGENCY_MAPPING: Record<string, string> = {
   'W&T': 'Water & Trees',
   'WWX': 'Wunderworx'
 };
+
+const DEFAULT_AGENCIES: AgencyEntry[] = Object.entries(AGENCY_MAPPING).map(([abbreviation, display_name]) => ({
+  abbreviation,
+  display_name,
+  aliases: [],
+  is_active: true,
+  is_test: abbreviation === 'TST'
+}));
+
+export const normalizeAgencyCode = (code: string) => code.trim().toUpperCase();
+
+const buildCodeLookup = (agencies: AgencyEntry[]) => {
+  const lookup = new Map<string, AgencyEntry>();
+  // Abbreviations win over aliases when two agencies claim the same code
+  agencies.forEach(agency => agency.aliases.forEach(alias => lookup.set(normalizeAgencyCode(alias), agency)));
+  agencies.forEach(agency => lookup.set(normalizeAgencyCode(agency.abbreviation), agency));
+  return lookup;
+};
+
+let AGENCIES: AgencyEntry[] = DEFAULT_AGENCIES;
+let CODE_LOOKUP = buildCodeLookup(AGENCIES);
+let REGISTRY_VERSION = 0;
+const REGISTRY_LISTENERS = new Set<() => void>();
+
+// Replace the registry (called whenever the agencies table is loaded)
+export const setAgencyRegistry = (agencies: AgencyEntry[]) => {
+  AGENCIES = agencies.length > 0 ? agencies : DEFAULT_AGENCIES;
+  CODE_LOOKUP = buildCodeLookup(AGENCIES);
+  REGISTRY_VERSION++;
+  REGISTRY_LISTENERS.forEach(listener => listener());
+};
+
+// Called after every registry change; returns the unsubscribe function
+export const subscribeToAgencyRegistry = (listener: () => void): (() => void) => {
+  REGISTRY_LISTENERS.add(listener);
+  return () => {
+    REGISTRY_LISTENERS.delete(listener);
+  };
+};
+
+export const getAgencies = (): AgencyEntry[] => AGENCIES;
+
+// Bumped on every registry change, for caches derived from it
+export const getAgencyRegistryVersion = (): number => REGISTRY_VERSION;
+
+// Every code that resolves to an agency (abbreviations and aliases), normalized
+export const getAgencyCodes = (): string[] => [...CODE_LOOKUP.keys()];
+
+// Agency for an abbreviation or alias, case-insensitive
+export const findAgencyByCode = (code: string | null | undefined): AgencyEntry | null => {
+  if (!code) return null;
+  return CODE_LOOKUP.get(normalizeAgencyCode(code)) || null;
+};
+
+// findAgencyByCode against a registry snapshot instead of the current registry
+export const createAgencyLookup = (agencies: AgencyEntry[]) => {
+  const lookup = buildCodeLookup(agencies);
+  return (code: string | null | undefined): AgencyEntry | null =>
+    code ? lookup.get(normalizeAgencyCode(code)) || null : null;
+};
+
+/**
+ * Load the agencies table into the registry
+ */
+export async function loadAgencyRegistry(supabase: SupabaseClient): Promise<Agency[]> {
+  const { data, error } = await supabase
+    .from('agencies')
+    .select('*')
+    .order('abbreviation', { ascending: true });
+
+  if (error) throw error;
+
+  const agencies = (data || []) as Agency[];
+  setAgencyRegistry(agencies);
+  return agencies;
+}
@@ -0,0 +1,10 @@
+import { useContext } from 'react'
+import { AgencyRegistryContext } from './AgencyRegistryContext'
+
+export const useAgencyRegistry = () => {
+  const context = useContext(AgencyRegistryContext)
+  if (context === undefined) {
+    throw new Error('useAgencyRegistry must be used within an AgencyRegistryProvider')
+  }
+  return context
+}
@@ -6,20 +6,27 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useSupabase } from '@/contexts/use-supabase';
 import { useAuth } from '@/contexts/use-auth';
+import { diffFields, logActivity } from '@/lib/activityLogger';
+import { ActivityAction, ActivityEntityType } from '@/types/activity-log';
 import {
+  RenewalProcessStatus,
   RenewalStatusTracking,
   RenewalStatusTrackingInsert,
-  RenewalStatusTrackingUpdate
+  RenewalStatusTrackingUpdate,
+  WorkflowKind,
+  WorkflowStepCompletion
 } from '@/types/daily-priorities';
 import { toast } from 'sonner';
 
 export interface StatusTrackingConfig {
   /** The Supabase table name */
-  tableName: string;
+  tableName: 'renewal_status_tracking' | 'launch_status_tracking';
   /** The React Query key for caching */
   queryKey: string;
   /** Display name for toast messages (e.g., "Renewal" or "Launch") */
   displayName: string;
+  /** Which workflow templates the records follow */
+  workflowKind: WorkflowKind;
 }
 
 /** Options for mutation callbacks */
@@ -36,6 +43,11 @@ export interface StatusTrackingHookReturn {
   createTrackingRecord: (insert: RenewalStatusTrackingInsert, options?: MutationCallbackOptions) => void;
   updateTrackingRecord: (params: { id: string; updates: RenewalStatusTrackingUpdate }, options?: MutationCallbackOptions) => void;
   deleteTrackingRecord: (id: string, options?: MutationCallbackOptions) => void;
+  setStepCompleted: (
+    params: { id: string; stepId: string; completed: boolean; stepLabel?: string },
+    options?: MutationCallbackOptions
+  ) => void;
+  moveTrackingRecord: (params: { id: string; status: RenewalProcessStatus }, options?: MutationCallbackOptions) => void;
   hasTrackingRecord: (campaignName: string) => boolean;
   isCreating: boolean;
   isUpdating: boolean;
@@ -47,7 +59,8 @@ export interface StatusTrackingHookReturn {
  * Used to generate useRenewalStatusTracking and useLaunchStatusTracking hooks.
  */
 export function createStatusTrackingHook(config: StatusTrackingConfig) {
-  const { tableName, queryKey, displayName } = config;
+  const { tableName, queryKey, displayName, workflowKind } = config;
+  const entityType: ActivityEntityType = `${workflowKind}_tracking`;
 
   return function useStatusTracking(): StatusTrackingHookReturn {
     const { supabase } = useSupabase();
@@ -64,6 +77,21 @@ export function createStatusTrackingHook(config: StatusTrackingConfig) {
       return null;
     };
 
+    // Activity log entry for a tracking record
+    const logTrackingActivity = (
+      record: Pick<RenewalStatusTracking, 'id' | 'campaign_name'> | undefined,
+      action: ActivityAction,
+      changes: Record<string, unknown> | null
+    ) => logActivity(supabase, queryClient, {
+      entity_type: entityType,
+      entity_id: record?.id ?? null,
+      priority_id: null,
+      user_id: currentUser?.id || 'system',
+      action,
+      task_description: record?.campaign_name || 'Unknown campaign',
+      changes
+    });
+
     // Fetch all tracking records
     const { data: trackingRecords = [], isLoading, error, isError } = useQuery<RenewalStatusTracking[]>({
       queryKey: [queryKey],
@@ -91,18 +119,25 @@ export function createStatusTrackingHook(config: StatusTrackingConfig) {
       mutationFn: async (insert: RenewalStatusTrackingInsert) => {
         if (!supabase) throw new Error('Supabase not initialized');
 
+        // New records start on the current default template unless one is given
+        let workflowTemplateId = insert.workflow_template_id ?? null;
+        if (!workflowTemplateId) {
+          const { data: defaultTemplate, error: templateError } = await supabase
+            .from('workflow_templates')
+            .select('id')
+            .eq('kind', workflowKind)
+            .eq('is_default', true)
+            .maybeSingle();
+
+          if (templateError) throw templateError;
+          workflowTemplateId = (defaultTemplate as { id: string } | null)?.id ?? null;
+        }
+
         const insertData = {
           campaign_name: insert.campaign_name,
           renewal_date: insert.renewal_date || null,
-          project_kickoff_ticket_creation: insert.project_kickoff_ticket_creation ?? false,
-          bt_approval: insert.bt_approval ?? false,
-          bt_approved: insert.bt_approved ?? false,
-          coda_strategy: insert.coda_strategy ?? false,
-          dashboard_update: insert.dashboard_update ?? false,
-          dsp_creative_setup: insert.dsp_creative_setup ?? false,
-          dsp_update: insert.dsp_update ?? false,
-          pre_qa: insert.pre_qa ?? false,
-          post_qa: insert.post_qa ?? false,
+          workflow_template_id: workflowTemplateId,
+          step_completion: {},
           status: insert.status ?? 'Not Started',
           renewal_type: insert.renewal_type ?? 'Extension',
           created_by: getCurrentUserId()
@@ -132,9 +167,10 @@ export function createStatusTrackingHook(config: StatusTrackingConfig) {
         }
         return data as RenewalStatusTracking;
       },
-      onSuccess: () => {
+      onSuccess: (record) => {
         queryClient.invalidateQueries({ queryKey: [queryKey] });
         toast.success(`${displayName} tracking record created`);
+        logTrackingActivity(record, 'created', null);
       },
       onError: (error: unknown) => {
         console.error('Error creating tracking record:', error);
@@ -167,8 +203,12 @@ export function createStatusTrackingHook(config: StatusTrackingConfig) {
         if (error) throw error;
         return data as RenewalStatusTracking;
       },
-      onSuccess: () => {
+      onSuccess: (record, { id, updates }) => {
         queryClient.invalidateQueries({ queryKey: [queryKey] });
+
+        const previous = trackingRecords.find(r => r.id === id);
+        const changes = diffFields(previous, updates, ['updated_at', 'updated_by', 'notes_updated_at']);
+        if (changes) logTrackingActivity(record, 'updated', changes);
       },
       onError: (error: unknown) => {
         console.error('Error updating tracking record:', error);
@@ -180,6 +220,113 @@ export function createStatusTrackingHook(config: StatusTrackingConfig) {
       }
     });
 
+    // Mark a workflow step done (with a timestamp) or not done.
+    // Reads the stored completion first so quick successive toggles don't overwrite each other.
+    const setStepCompleted = useMutation({
+      mutationFn: async ({ id, stepId, completed }: { id: string; stepId: string; completed: boolean; stepLabel?: string }) => {
+        if (!supabase) throw new Error('Supabase not initialized');
+
+        const { data: current, error: fetchError } = await supabase
+          .from(tableName)
+          .select('step_completion')
+          .eq('id', id)
+          .single();
+
+        if (fetchError) throw fetchError;
+
+        const stored = (current as { step_completion: WorkflowStepCompletion | null } | null)?.step_completion;
+        const stepCompletion: WorkflowStepCompletion = { ...(stored || {}) };
+        if (completed) {
+          stepCompletion[stepId] = new Date().toISOString();
+        } else {
+          delete stepCompletion[stepId];
+        }
+
+        const { error } = await supabase
+          .from(tableName)
+          .update({
+            step_completion: stepCompletion,
+            updated_by: getCurrentUserId()
+          })
+          .eq('id', id);
+
+        if (error) throw error;
+      },
+      onSuccess: (_, { id, stepId, completed, stepLabel }) => {
+        queryClient.invalidateQueries({ queryKey: [queryKey] });
+
+        logTrackingActivity(trackingRecords.find(r => r.id === id), 'updated', {
+          [stepLabel || stepId]: {
+            before: completed ? 'open' : 'done',
+            after: completed ? 'done' : 'open'
+          }
+        });
+      },
+      onError: (error: unknown) => {
+        console.error('Error updating workflow step:', error);
+        const errorMessage = (error as { message?: string })?.message || 'Unknown error';
+        toast.error(`Failed to update step: ${errorMessage}`, {
+          duration: 5000,
+          description: 'Please try again. If the problem persists, refresh the page.'
+        });
+      }
+    });
+
+    // Move a record to another status column (board view). Completed and the
+    // completed flag move together so the list tabs agree with the board.
+    const moveTrackingRecord = useMutation({
+      mutationFn: async ({ id, status }: { id: string; status: RenewalProcessStatus }) => {
+        if (!supabase) throw new Error('Supabase not initialized');
+
+        const isCompleted = status === 'Completed';
+        const { error } = await supabase
+          .from(tableName)
+          .update({
+            status,
+            completed: isCompleted,
+            completed_at: isCompleted ? new Date().toISOString() : null,
+            updated_by: getCurrentUserId()
+          })
+          .eq('id', id);
+
+        if (error) throw error;
+      },
+      onMutate: async ({ id, status }) => {
+        await queryClient.cancelQueries({ queryKey: [queryKey] });
+
+        const previousRecords = queryClient.getQueryData<RenewalStatusTracking[]>([queryKey]);
+
+        queryClient.setQueryData<RenewalStatusTracking[]>([queryKey], (old = []) =>
+          old.map(r => (r.id === id ? { ...r, status, completed: status === 'Completed' } : r))
+        );
+
+        return { previousRecords };
+      },
+      onSuccess: (_, { id, status }, context) => {
+        queryClient.invalidateQueries({ queryKey: [queryKey] });
+
+        const previous = context?.previousRecords?.find(r => r.id === id);
+        logTrackingActivity(previous, `${workflowKind}_tracking_moved`, {
+          status: {
+            before: previous?.completed ? 'Completed' : previous?.status || null,
+            after: status
+          }
+        });
+      },
+      onError: (error: unknown, _, context) => {
+        if (context?.previousRecords) {
+          queryClient.setQueryData([queryKey], context.previousRecords);
+        }
+
+        console.error('Error moving tracking record:', error);
+        const errorMessage = (error as { message?: string })?.message || 'Unknown error';
+        toast.error(`Failed to move: ${errorMessage}`, {
+          duration: 5000,
+          description: 'Please try again. If the problem persists, refresh the page.'
+        });
+      }
+    });
+
     // Delete a tracking record
     const deleteTrackingRecord = useMutation({
       mutationFn: async (id: string) => {
@@ -192,9 +339,10 @@ export function createStatusTrackingHook(config: StatusTrackingConfig) {
 
         if (error) throw error;
       },
-      onSuccess: () => {
+      onSuccess: (_, id) => {
         queryClient.invalidateQueries({ queryKey: [queryKey] });
         toast.success('Tracking record deleted');
+        logTrackingActivity(trackingRecords.find(r => r.id === id), 'deleted', null);
       },
       onError: (error: unknown) => {
         console.error('Error deleting tracking record:', error);
@@ -219,9 +367,11 @@ export function createStatusTrackingHook(config: StatusTrackingConfig) {
       createTrackingRecord: createTrackingRecord.mutate,
       updateTrackingRecord: updateTrackingRecord.mutate,
       deleteTrackingRecord: deleteTrackingRecord.mutate,
+      setStepCompleted: setStepCompleted.mutate,
+      moveTrackingRecord: moveTrackingRecord.mutate,
       hasTrackingRecord,
       isCreating: createTrackingRecord.isPending,
-      isUpdating: updateTrackingRecord.isPending,
+      isUpdating: updateTrackingRecord.isPending || setStepCompleted.isPending,
       isDeleting: deleteTrackingRecord.isPending
     };
   };
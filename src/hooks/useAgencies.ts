@@ -0,0 +1,124 @@
+/**
+ * Custom hooks for the agency registry
+ *
+ * Loading the agencies table also refreshes the module-level registry that
+ * campaign name parsing resolves through (see contexts/agency-mapping). The
+ * registry is loaded for the whole app by AgencyRegistryProvider.
+ */
+
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useSupabase } from '@/contexts/use-supabase';
+import { useAuth } from '@/contexts/use-auth';
+import { useAgencyRegistry } from '@/contexts/use-agency-registry';
+import { Agency, AgencyUpsert, loadAgencyRegistry, normalizeAgencyCode } from '@/contexts/agency-mapping';
+import { findUnmatchedCampaignNames } from '@/utils/campaignNameParsing';
+import { fetchCampaignOrderNames } from '@/lib/campaignDimensions';
+import { toast } from 'sonner';
+
+export function useAgencies() {
+  const { supabase } = useSupabase();
+  const queryClient = useQueryClient();
+  const { currentUser, hasRole } = useAuth();
+  const { registry } = useAgencyRegistry();
+
+  const { data, isLoading } = useQuery<Agency[]>({
+    queryKey: ['agencies'],
+    queryFn: () => loadAgencyRegistry(supabase),
+    enabled: !!supabase
+  });
+
+  const agencies = useMemo(() => data || [], [data]);
+
+  // Resolved registry entries to offer in pickers - falls back to the built-in
+  // mapping until the table has loaded
+  const activeAgencies = useMemo(
+    () => registry
+      .filter(agency => agency.is_active)
+      .sort((a, b) => a.abbreviation.localeCompare(b.abbreviation)),
+    [registry]
+  );
+
+  const saveAgency = useMutation({
+    mutationFn: async (agency: AgencyUpsert) => {
+      if (!hasRole('admin')) throw new Error('Only admins can manage agencies');
+
+      const abbreviation = normalizeAgencyCode(agency.abbreviation);
+      const { data, error } = await supabase
+        .from('agencies')
+        .upsert({
+          ...agency,
+          abbreviation,
+          display_name: agency.display_name.trim(),
+          aliases: [...new Set(agency.aliases.map(normalizeAgencyCode))].filter(alias => alias && alias !== abbreviation),
+          updated_by: currentUser?.id || null
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as Agency;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['agencies'] });
+      toast.success('Agency saved');
+    },
+    onError: (error) => {
+      console.error('Error saving agency:', error);
+      toast.error(`Failed to save agency: ${(error as Error)?.message || 'Unknown error'}`);
+    }
+  });
+
+  const deleteAgency = useMutation({
+    mutationFn: async (id: string) => {
+      if (!hasRole('admin')) throw new Error('Only admins can manage agencies');
+
+      const { error } = await supabase
+        .from('agencies')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['agencies'] });
+      toast.success('Agency deleted');
+    },
+    onError: (error) => {
+      console.error('Error deleting agency:', error);
+      toast.error('Failed to delete agency');
+    }
+  });
+
+  return {
+    agencies,
+    activeAgencies,
+    isLoading,
+    saveAgency: saveAgency.mutate,
+    deleteAgency: deleteAgency.mutate,
+    isSaving: saveAgency.isPending,
+    canManage: hasRole('admin')
+  };
+}
+
+/**
+ * Campaign names in campaign_data whose agency code matched no registry entry
+ */
+export function useUnmatchedCampaignNames(enabled: boolean = true) {
+  const { supabase } = useSupabase();
+  const { registry } = useAgencyRegistry();
+
+  const { data: campaignNames = [], isLoading } = useQuery<string[]>({
+    queryKey: ['campaign-order-names'],
+    queryFn: () => fetchCampaignOrderNames(supabase),
+    enabled: !!supabase && enabled
+  });
+
+  // Re-evaluated whenever the registry reloads, so adding an agency clears its rows
+  const unmatched = useMemo(
+    () => findUnmatchedCampaignNames(campaignNames, registry),
+    [campaignNames, registry]
+  );
+
+  return { unmatched, campaignCount: campaignNames.length, isLoading };
+}
@@ -0,0 +1,124 @@
+/**
+ * Hook linking campaign alerts to the priority tasks claimed from them
+ *
+ * A claimed alert is a normal daily_priorities task carrying alert_type and
+ * alert_campaign_name. While the task is open, the alert lists are checked on
+ * every refresh: when the campaign drops off its list the task is flagged with
+ * alert_resolved_at, and the flag is cleared again if the alert comes back.
+ * Flagging never completes the task - the assignee still closes it.
+ */
+
+import { useEffect, useMemo, useRef } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useSupabase } from '@/contexts/use-supabase';
+import { useAuth } from '@/contexts/use-auth';
+import { logActivity } from '@/lib/activityLogger';
+import { AlertType, AutoGeneratedPriority, DailyPriority } from '@/types/daily-priorities';
+
+interface AlertLists {
+  renewals: AutoGeneratedPriority[];
+  pacing: AutoGeneratedPriority[];
+  roas: AutoGeneratedPriority[];
+}
+
+const ALERT_LIST_KEYS: Record<AlertType, keyof AlertLists> = {
+  renewal: 'renewals',
+  pacing: 'pacing',
+  roas: 'roas'
+};
+
+const alertKey = (alertType: AlertType, campaignName: string) => `${alertType}:${campaignName}`;
+
+/**
+ * @param priorities - Tasks on the date being viewed
+ * @param alertLists - Current alert lists (unfiltered - ignored ROAS alerts are still alerts)
+ * @param canResolve - Only true once the alert lists are fully loaded for today, including
+ *                     the spend rules they are computed with; an incomplete or unnormalized
+ *                     list would flag claimed tasks as resolved
+ */
+export function useAlertTasks(
+  priorities: DailyPriority[],
+  alertLists: AlertLists,
+  canResolve: boolean
+) {
+  const { supabase } = useSupabase();
+  const queryClient = useQueryClient();
+  const { currentUser } = useAuth();
+  const pendingKeys = useRef(new Set<string>());
+
+  // Open claimed tasks on this date, by alert
+  const claimedTasks = useMemo(() => {
+    const tasks = new Map<string, DailyPriority>();
+    priorities.forEach(priority => {
+      if (priority.completed || !priority.alert_type || !priority.alert_campaign_name) return;
+      tasks.set(alertKey(priority.alert_type, priority.alert_campaign_name), priority);
+    });
+    return tasks;
+  }, [priorities]);
+
+  // Campaigns currently on each alert list, by alert
+  const { renewals, pacing, roas } = alertLists;
+  const activeAlerts = useMemo(() => {
+    const lists: AlertLists = { renewals, pacing, roas };
+    const alerts = new Set<string>();
+    (Object.keys(ALERT_LIST_KEYS) as AlertType[]).forEach(alertType => {
+      lists[ALERT_LIST_KEYS[alertType]].forEach(alert => {
+        alerts.add(alertKey(alertType, alert.client_name));
+      });
+    });
+    return alerts;
+  }, [renewals, pacing, roas]);
+
+  // Flag or un-flag every open instance (this date onwards) of a claimed alert
+  const { mutate: setAlertResolved } = useMutation({
+    mutationFn: async ({ task, resolved }: { task: DailyPriority; resolved: boolean }) => {
+      const { error } = await supabase
+        .from('daily_priorities')
+        .update({
+          alert_resolved_at: resolved ? new Date().toISOString() : null
+        })
+        .eq('alert_type', task.alert_type)
+        .eq('alert_campaign_name', task.alert_campaign_name)
+        .eq('completed', false)
+        .gte('active_date', task.active_date);
+
+      if (error) throw error;
+
+      await logActivity(supabase, queryClient, {
+        priority_id: task.id,
+        user_id: currentUser?.id || 'system',
+        action: resolved ? 'alert_resolved' : 'alert_reraised',
+        task_description: task.client_name || task.alert_campaign_name || 'Unnamed task',
+        changes: { alert_type: task.alert_type, campaign: task.alert_campaign_name }
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['daily-priorities'] });
+    },
+    onError: (error) => {
+      console.error('Error updating claimed alert:', error);
+    },
+    onSettled: (_, __, { task }) => {
+      pendingKeys.current.delete(alertKey(task.alert_type!, task.alert_campaign_name!));
+    }
+  });
+
+  useEffect(() => {
+    if (!canResolve || !supabase) return;
+
+    claimedTasks.forEach((task, key) => {
+      const isActive = activeAlerts.has(key);
+      const isFlagged = !!task.alert_resolved_at;
+      if (isActive !== isFlagged || pendingKeys.current.has(key)) return;
+
+      pendingKeys.current.add(key);
+      setAlertResolved({ task, resolved: !isActive });
+    });
+  }, [canResolve, supabase, claimedTasks, activeAlerts, setAlertResolved]);
+
+  // Open task claimed from an alert, if any
+  const getClaimedTask = (alertType: AlertType, campaignName: string): DailyPriority | undefined =>
+    claimedTasks.get(alertKey(alertType, campaignName));
+
+  return { getClaimedTask };
+}
@@ -0,0 +1,104 @@
+/**
+ * Custom hook for managing persisted campaign alert thresholds
+ */
+
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useSupabase } from '@/contexts/use-supabase';
+import { useAuth } from '@/contexts/use-auth';
+import { AlertThresholdScope, AlertThresholdSetting, AlertThresholdSettingUpsert } from '@/types/daily-priorities';
+import { createAlertThresholdsResolver, DEFAULT_ALERT_THRESHOLDS } from '@/utils/alertThresholds';
+import { toast } from 'sonner';
+
+export function useAlertThresholds(getAgencyAbbreviation: (campaignName: string) => string) {
+  const { supabase } = useSupabase();
+  const queryClient = useQueryClient();
+  const { currentUser, hasRole } = useAuth();
+
+  const { data: settings = [], isLoading } = useQuery<AlertThresholdSetting[]>({
+    queryKey: ['alert-threshold-settings'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('alert_threshold_settings')
+        .select('*')
+        .order('scope')
+        .order('scope_value');
+
+      if (error) throw error;
+      return data as AlertThresholdSetting[];
+    },
+    enabled: !!supabase
+  });
+
+  // Save overrides for a scope (one row per scope + scope_value)
+  const saveSetting = useMutation({
+    mutationFn: async (setting: AlertThresholdSettingUpsert) => {
+      if (!hasRole('editor')) throw new Error('Viewers cannot change alert thresholds');
+
+      const { error } = await supabase
+        .from('alert_threshold_settings')
+        .upsert(
+          {
+            ...setting,
+            updated_by: currentUser?.id || null
+          },
+          { onConflict: 'scope,scope_value' }
+        );
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['alert-threshold-settings'] });
+      toast.success('Alert thresholds saved');
+    },
+    onError: (error) => {
+      console.error('Error saving alert thresholds:', error);
+      toast.error('Failed to save alert thresholds');
+    }
+  });
+
+  // Remove a scope's overrides so it falls back to the next scope up
+  const deleteSetting = useMutation({
+    mutationFn: async ({ scope, scopeValue }: { scope: AlertThresholdScope; scopeValue: string }) => {
+      if (!hasRole('editor')) throw new Error('Viewers cannot change alert thresholds');
+
+      const { error } = await supabase
+        .from('alert_threshold_settings')
+        .delete()
+        .eq('scope', scope)
+        .eq('scope_value', scopeValue);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['alert-threshold-settings'] });
+      toast.success('Alert thresholds reset');
+    },
+    onError: (error) => {
+      console.error('Error deleting alert thresholds:', error);
+      toast.error('Failed to reset alert thresholds');
+    }
+  });
+
+  const resolveThresholds = useMemo(
+    () => createAlertThresholdsResolver(settings, getAgencyAbbreviation),
+    [settings, getAgencyAbbreviation]
+  );
+
+  // Thresholds for campaigns without agency overrides (used for section descriptions)
+  const globalThresholds = useMemo(
+    () => ({ ...DEFAULT_ALERT_THRESHOLDS, ...settings.find(s => s.scope === 'global')?.settings }),
+    [settings]
+  );
+
+  return {
+    settings,
+    isLoading,
+    resolveThresholds,
+    globalThresholds,
+    saveSetting: saveSetting.mutate,
+    deleteSetting: (scope: AlertThresholdScope, scopeValue: string) => deleteSetting.mutate({ scope, scopeValue }),
+    isSaving: saveSetting.isPending,
+    canEdit: hasRole('editor')
+  };
+}
@@ -5,12 +5,16 @@
 import { useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useSupabase } from '@/contexts/use-supabase';
+import { useAuth } from '@/contexts/use-auth';
+import { diffFields, logActivity } from '@/lib/activityLogger';
 import { Announcement, AnnouncementInsert, AnnouncementUpdate } from '@/types/announcements';
+import { ActivityAction } from '@/types/activity-log';
 import { toast } from 'sonner';
 
 export function useAnnouncements() {
   const { supabase } = useSupabase();
   const queryClient = useQueryClient();
+  const { currentUser } = useAuth();
 
   // Fetch active announcements (not expired)
   const { data: announcements = [], isLoading, error } = useQuery({
@@ -36,6 +40,24 @@ export function useAnnouncements() {
     refetchInterval: 5 * 60 * 1000
   });
 
+  // Activity log entry for an announcement, described by the start of its message
+  const logAnnouncementActivity = (
+    announcement: Pick<Announcement, 'id' | 'message'> | undefined,
+    action: ActivityAction,
+    changes: Record<string, unknown> | null
+  ) => {
+    const message = announcement?.message || 'Announcement';
+    return logActivity(supabase, queryClient, {
+      entity_type: 'announcement',
+      entity_id: announcement?.id ?? null,
+      priority_id: null,
+      user_id: currentUser?.id || 'unknown',
+      action,
+      task_description: message.length > 80 ? `${message.slice(0, 80)}...` : message,
+      changes
+    });
+  };
+
   // Subscribe to realtime changes for collaborative updates
   useEffect(() => {
     if (!supabase) return;
@@ -80,9 +102,10 @@ export function useAnnouncements() {
       if (error) throw error;
       return data as Announcement;
     },
-    onSuccess: () => {
+    onSuccess: (announcement) => {
       queryClient.invalidateQueries({ queryKey: ['announcements'] });
       toast.success('Announcement added');
+      logAnnouncementActivity(announcement, 'created', null);
     },
     onError: (error) => {
       console.error('Error adding announcement:', error);
@@ -105,9 +128,12 @@ export function useAnnouncements() {
       if (error) throw error;
       return data as Announcement;
     },
-    onSuccess: () => {
+    onSuccess: (announcement, { id, update }) => {
       queryClient.invalidateQueries({ queryKey: ['announcements'] });
       toast.success('Announcement updated');
+
+      const changes = diffFields(announcements.find(a => a.id === id), update);
+      if (changes) logAnnouncementActivity(announcement, 'updated', changes);
     },
     onError: (error) => {
       console.error('Error updating announcement:', error);
@@ -127,9 +153,10 @@ export function useAnnouncements() {
 
       if (error) throw error;
     },
-    onSuccess: () => {
+    onSuccess: (_, id) => {
       queryClient.invalidateQueries({ queryKey: ['announcements'] });
       toast.success('Announcement deleted');
+      logAnnouncementActivity(announcements.find(a => a.id === id), 'deleted', null);
     },
     onError: (error) => {
       console.error('Error deleting announcement:', error);
@@ -0,0 +1,97 @@
+/**
+ * Custom hook for managing persisted anomaly detection rules
+ */
+
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useSupabase } from '@/contexts/use-supabase';
+import { useAuth } from '@/contexts/use-auth';
+import { AnomalyRule, AnomalyRuleScope, AnomalyRuleUpsert } from '@/types/anomaly';
+import { createAnomalyRulesResolver } from '@/utils/anomalyRules';
+import { toast } from 'sonner';
+
+export function useAnomalyRules(getAgencyAbbreviation: (campaignName: string) => string) {
+  const { supabase } = useSupabase();
+  const queryClient = useQueryClient();
+  const { currentUser } = useAuth();
+
+  const { data: rules = [], isLoading } = useQuery<AnomalyRule[]>({
+    queryKey: ['anomaly-detection-rules'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('anomaly_detection_rules')
+        .select('*')
+        .order('scope')
+        .order('scope_value');
+
+      if (error) throw error;
+      return data as AnomalyRule[];
+    },
+    enabled: !!supabase
+  });
+
+  // Save overrides for a scope (one row per scope + scope_value)
+  const saveRule = useMutation({
+    mutationFn: async (rule: AnomalyRuleUpsert) => {
+      const { error } = await supabase
+        .from('anomaly_detection_rules')
+        .upsert(
+          {
+            ...rule,
+            updated_by: currentUser?.id || null
+          },
+          { onConflict: 'scope,scope_value' }
+        );
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['anomaly-detection-rules'] });
+      toast.success('Detection rules saved');
+    },
+    onError: (error) => {
+      console.error('Error saving anomaly rule:', error);
+      toast.error('Failed to save detection rules');
+    }
+  });
+
+  // Remove a scope's overrides so it falls back to the next scope up
+  const deleteRule = useMutation({
+    mutationFn: async ({ scope, scopeValue }: { scope: AnomalyRuleScope; scopeValue: string }) => {
+      const { error } = await supabase
+        .from('anomaly_detection_rules')
+        .delete()
+        .eq('scope', scope)
+        .eq('scope_value', scopeValue);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['anomaly-detection-rules'] });
+      toast.success('Detection rules reset');
+    },
+    onError: (error) => {
+      console.error('Error deleting anomaly rule:', error);
+      toast.error('Failed to reset detection rules');
+    }
+  });
+
+  const resolveRules = useMemo(
+    () => createAnomalyRulesResolver(rules, getAgencyAbbreviation),
+    [rules, getAgencyAbbreviation]
+  );
+
+  const getRule = (scope: AnomalyRuleScope, scopeValue: string): AnomalyRule | null =>
+    rules.find(r => r.scope === scope && r.scope_value === scopeValue) || null;
+
+  return {
+    rules,
+    isLoading,
+    resolveRules,
+    getRule,
+    saveRule: saveRule.mutate,
+    deleteRule: (scope: AnomalyRuleScope, scopeValue: string, options?: { onSuccess?: () => void }) =>
+      deleteRule.mutate({ scope, scopeValue }, options),
+    isSaving: saveRule.isPending
+  };
+}
@@ -0,0 +1,43 @@
+/**
+ * Hook listing renewal and launch tracking records that have breached their
+ * step due dates, for the "At-risk Launches & Renewals" auto section
+ */
+
+import { useMemo } from 'react';
+import { useRenewalStatusTracking } from '@/hooks/useRenewalStatusTracking';
+import { useLaunchStatusTracking } from '@/hooks/useLaunchStatusTracking';
+import { useWorkflowTemplates } from '@/hooks/useWorkflowTemplates';
+import { AutoGeneratedPriority } from '@/types/daily-priorities';
+import { getAtRiskWorkflowAlerts, resolveWorkflowTemplate } from '@/utils/workflowTemplates';
+
+export function useAtRiskWorkflows(targetDate: Date = new Date()) {
+  const { trackingRecords: renewalRecords, isLoading: isLoadingRenewals } = useRenewalStatusTracking();
+  const { trackingRecords: launchRecords, isLoading: isLoadingLaunches } = useLaunchStatusTracking();
+  const { templates: renewalTemplates, isLoading: isLoadingRenewalTemplates } = useWorkflowTemplates('renewal');
+  const { templates: launchTemplates, isLoading: isLoadingLaunchTemplates } = useWorkflowTemplates('launch');
+
+  const atRisk = useMemo(() => {
+    const alerts: AutoGeneratedPriority[] = [
+      ...getAtRiskWorkflowAlerts(
+        'launch',
+        launchRecords,
+        (templateId) => resolveWorkflowTemplate(launchTemplates, templateId),
+        targetDate
+      ),
+      ...getAtRiskWorkflowAlerts(
+        'renewal',
+        renewalRecords,
+        (templateId) => resolveWorkflowTemplate(renewalTemplates, templateId),
+        targetDate
+      )
+    ];
+
+    // Most overdue first
+    return alerts.sort((a, b) => (parseInt(String(b.metric)) || 0) - (parseInt(String(a.metric)) || 0));
+  }, [launchRecords, renewalRecords, launchTemplates, renewalTemplates, targetDate]);
+
+  return {
+    atRisk,
+    isLoading: isLoadingRenewals || isLoadingLaunches || isLoadingRenewalTemplates || isLoadingLaunchTemplates
+  };
+}
@@ -1,15 +1,26 @@
 /**
  * Hook for generating auto-populated priority sections from campaign data
+ *
+ * Renewal window, pacing band and ROAS floor come from the alert thresholds
+ * resolved for each campaign (see useAlertThresholds); without a resolver the
+ * built-in defaults apply.
  */
 
 import { useMemo } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { useSupabase } from '@/contexts/use-supabase';
-import { AutoGeneratedPriority, CampaignRenewal } from '@/types/daily-priorities';
+import { AlertThresholdsResolver, AutoGeneratedPriority, CampaignRenewal } from '@/types/daily-priorities';
 import { CampaignDataRow } from '@/types/campaign';
 import { addDays, parseISO, format, isWithinInterval, differenceInDays } from 'date-fns';
 import { processCampaigns } from '@/lib/pacingCalculations';
 import type { ContractTerms, PacingDeliveryData } from '@/types/pacing';
+import type { ContractTermsData } from '@/lib/supabase';
+import {
+  DEFAULT_ALERT_THRESHOLDS,
+  getPacingSeverity,
+  getRenewalSeverity,
+  getRoasSeverity
+} from '@/utils/alertThresholds';
 
 interface AutoGeneratedSections {
   renewals: AutoGeneratedPriority[];
@@ -17,15 +28,18 @@ interface AutoGeneratedSections {
   roas: AutoGeneratedPriority[];
 }
 
+const resolveDefaultThresholds: AlertThresholdsResolver = () => DEFAULT_ALERT_THRESHOLDS;
+
 export function useAutoGeneratedPriorities(
   targetDate: Date = new Date(),
-  campaignData: CampaignDataRow[] = []
-): AutoGeneratedSections {
+  campaignData: CampaignDataRow[] = [],
+  resolveThresholds: AlertThresholdsResolver = resolveDefaultThresholds
+): AutoGeneratedSections & { isLoading: boolean } {
   const { supabase } = useSupabase();
   const today = targetDate;
 
   // Fetch contract terms data for renewals
-  const { data: contractTerms = [] } = useQuery<ContractTerms[]>({
+  const { data: contractTerms = [], isLoading: isLoadingContractTerms } = useQuery<ContractTermsData[]>({
     queryKey: ['contract-terms-all'],
     queryFn: async () => {
       const { data, error } = await supabase
@@ -33,13 +47,13 @@ export function useAutoGeneratedPriorities(
         .select('*');
 
       if (error) throw error;
-      return data as ContractTerms[];
+      return data;
     },
     enabled: !!supabase
   });
 
   // Fetch renewal statuses
-  const { data: renewalStatuses = [] } = useQuery<CampaignRenewal[]>({
+  const { data: renewalStatuses = [], isLoading: isLoadingRenewalStatuses } = useQuery<CampaignRenewal[]>({
     queryKey: ['campaign-renewals'],
     queryFn: async () => {
       const { data, error } = await supabase
@@ -68,9 +82,8 @@ export function useAutoGeneratedPriorities(
     // Process contract terms for renewals
     if (contractTerms && contractTerms.length > 0) {
       contractTerms.forEach(contract => {
-        // Try different field names that might exist in contract_terms
-        const campaignName = contract.campaign_order_name || contract.campaign_name || contract.CAMPAIGN_ORDER_NAME;
-        const endDate = contract.end_date || contract.END_DATE;
+        const campaignName = contract.campaign_name;
+        const endDate = contract.end_date;
 
         // Skip if no end date or campaign name
         if (!endDate || !campaignName) {
@@ -86,9 +99,10 @@ export function useAutoGeneratedPriorities(
         try {
           const parsedEndDate = parseISO(endDate);
           const daysUntilEnd = Math.ceil((parsedEndDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+          const thresholds = resolveThresholds(campaignName);
 
-          // Show campaigns ending today or in next 15 days (exclude campaigns that already ended)
-          if (daysUntilEnd >= 0 && daysUntilEnd <= 15) {
+          // Show campaigns ending today or within the renewal lead time (exclude campaigns that already ended)
+          if (daysUntilEnd >= 0 && daysUntilEnd <= thresholds.renewalLeadDays) {
             // Get renewal status if it exists
             const renewalStatus = renewalStatusMap.get(campaignName);
 
@@ -96,7 +110,7 @@ export function useAutoGeneratedPriorities(
               client_name: campaignName,
               description: format(parsedEndDate, 'MMM d, yyyy'),
               metric: `${daysUntilEnd} days`,
-              severity: daysUntilEnd <= 7 ? 'high' : daysUntilEnd <= 10 ? 'medium' : 'low',
+              severity: getRenewalSeverity(daysUntilEnd, thresholds),
               renewalStatus: renewalStatus?.renewal_status || 'Awaiting Confirmation',
               renewalId: renewalStatus?.id,
               endDate: endDate // Include the raw end date for use in renewal tracking
@@ -113,12 +127,12 @@ export function useAutoGeneratedPriorities(
       // Convert contract terms to expected format
       // NOTE: Supabase returns lowercase snake_case fields from contract_terms table
       const pacingContractTerms: ContractTerms[] = contractTerms.map((row) => ({
-        Name: (row as Record<string, unknown>).campaign_name as string || '',
-        'Start Date': (row as Record<string, unknown>).start_date as string || '',
-        'End Date': (row as Record<string, unknown>).end_date as string || '',
-        Budget: ((row as Record<string, unknown>).budget || 0).toString(),
-        CPM: ((row as Record<string, unknown>).cpm || 0).toString(),
-        'Impressions Goal': ((row as Record<string, unknown>).impressions_goal || 0).toString()
+        Name: row.campaign_name || '',
+        'Start Date': row.start_date || '',
+        'End Date': row.end_date || '',
+        Budget: (row.budget || 0).toString(),
+        CPM: (row.cpm || 0).toString(),
+        'Impressions Goal': (row.impressions_goal || 0).toString()
       })).filter(ct => ct.Name); // Filter out any without names
 
       // Campaign data is already in the correct format (CampaignDataRow with uppercase fields)
@@ -143,8 +157,9 @@ export function useAutoGeneratedPriorities(
           return;
         }
 
-        // Show campaigns with pacing < 95% or > 105%
-        if (pacingPercent < 95 || pacingPercent > 105) {
+        // Show campaigns pacing outside their band (95% - 105% by default)
+        const thresholds = resolveThresholds(campaign.name);
+        if (pacingPercent < thresholds.pacingUnderThreshold || pacingPercent > thresholds.pacingOverThreshold) {
           // Calculate days left based on today's date vs. end date from contract terms
           const matchingContract = contractTerms.find((ct) => (ct as Record<string, unknown>).campaign_name === campaign.name);
           let daysLeft = 0;
@@ -168,16 +183,14 @@ export function useAutoGeneratedPriorities(
             return;
           }
 
-          const isUnderPacing = pacingPercent < 95;
+          const isUnderPacing = pacingPercent < thresholds.pacingUnderThreshold;
           sections.pacing.push({
             client_name: campaign.name,
             description: isUnderPacing
               ? `Under-pacing at ${pacingPercent.toFixed(1)}%`
               : `Over-pacing at ${pacingPercent.toFixed(1)}%`,
             metric: `${pacingPercent.toFixed(1)}%`,
-            severity: pacingPercent < 85 || pacingPercent > 115 ? 'high'
-                    : pacingPercent < 90 || pacingPercent > 110 ? 'medium'
-                    : 'low',
+            severity: getPacingSeverity(pacingPercent, thresholds),
             daysLeft: daysLeft,
             overallPacing: campaign.metrics?.currentPacing || 0,
             yesterdayRatio: campaign.metrics?.yesterdayVsNeeded || 0
@@ -220,9 +233,10 @@ export function useAutoGeneratedPriorities(
       // Check ROAS (Return on Ad Spend)
       if (totalSpend > 0) {
         const roas = totalRevenue / totalSpend;
+        const thresholds = resolveThresholds(campaignName);
 
-        // Flag campaigns with ROAS < 2.0 (adjustable threshold)
-        if (roas < 2.0 && totalSpend > 100) { // Only flag campaigns with meaningful spend
+        // Flag campaigns below the ROAS floor, only once they have meaningful spend
+        if (roas < thresholds.roasFloor && totalSpend > thresholds.roasMinSpend) {
           // Find matching contract term for days left
           const matchingContract = contractTerms.find((ct) => (ct as Record<string, unknown>).campaign_name === campaignName);
 
@@ -271,7 +285,7 @@ export function useAutoGeneratedPriorities(
             client_name: campaignName,
             description: `Low ROAS: $${totalRevenue.toFixed(2)} revenue on $${totalSpend.toFixed(2)} spend`,
             metric: roas.toFixed(2),
-            severity: roas < 1.0 ? 'high' : roas < 1.5 ? 'medium' : 'low',
+            severity: getRoasSeverity(roas, thresholds),
             daysLeft: daysLeft
           });
         }
@@ -301,7 +315,8 @@ export function useAutoGeneratedPriorities(
     sections.roas.sort(sortBySeverity);
 
     return sections;
-  }, [campaignData, contractTerms, renewalStatuses, today]);
+  }, [campaignData, contractTerms, renewalStatuses, today, resolveThresholds]);
 
-  return autoSections;
+  // Until both lookups load the lists are incomplete, not empty
+  return { ...autoSections, isLoading: isLoadingContractTerms || isLoadingRenewalStatuses };
 }
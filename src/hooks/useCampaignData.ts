@@ -100,6 +100,7 @@ export const useFilteredCampaignData = (props: UseFilteredCampaignDataProps) =>
     selectedAgencies,
     dateRange
   } = props;
+  const { extractAgencyInfo, extractAdvertiserName } = useCampaignFilter();
 
   // Filter data based on selections
   const filteredData = useMemo(() => {
@@ -122,14 +123,21 @@ export const useFilteredCampaignData = (props: UseFilteredCampaignDataProps) =>
       });
     }
 
-    // TODO: Add advertiser and agency filtering
-    // This would require integration with the campaign parsing logic
+    // Apply agency and advertiser filters
+    if (selectedAgencies && selectedAgencies.length > 0) {
+      filtered = filtered.filter(row =>
+        selectedAgencies.includes(extractAgencyInfo(row['CAMPAIGN ORDER NAME']).agency)
+      );
+    }
 
-    // Note: selectedAdvertisers and selectedAgencies not yet implemented
-    console.log('Filters not yet implemented:', { selectedAdvertisers, selectedAgencies });
+    if (selectedAdvertisers && selectedAdvertisers.length > 0) {
+      filtered = filtered.filter(row =>
+        selectedAdvertisers.includes(extractAdvertiserName(row['CAMPAIGN ORDER NAME']))
+      );
+    }
 
     return filtered;
-  }, [data, selectedCampaigns, selectedAdvertisers, selectedAgencies, dateRange]);
+  }, [data, selectedCampaigns, selectedAdvertisers, selectedAgencies, dateRange, extractAgencyInfo, extractAdvertiserName]);
 
   // Use the main hook with filtered data
   return useCampaignData({ data: filteredData });
@@ -0,0 +1,46 @@
+/**
+ * Custom hook for the campaigns dimension table (parsed campaign order names)
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useSupabase } from '@/contexts/use-supabase';
+import { useAuth } from '@/contexts/use-auth';
+import type { CampaignDimensionData } from '@/lib/supabase';
+import { fetchCampaignDimensions, fetchCampaignOrderNames, syncCampaignDimensions } from '@/lib/campaignDimensions';
+import { toast } from 'sonner';
+
+export function useCampaignDimensions() {
+  const { supabase } = useSupabase();
+  const queryClient = useQueryClient();
+  const { hasRole } = useAuth();
+
+  const { data: campaigns = [], isLoading } = useQuery<CampaignDimensionData[]>({
+    queryKey: ['campaigns'],
+    queryFn: () => fetchCampaignDimensions(supabase),
+    enabled: !!supabase
+  });
+
+  // Re-parse every campaign name in campaign_data, e.g. after the naming rules change
+  const rebuild = useMutation({
+    mutationFn: async () => {
+      if (!hasRole('admin')) throw new Error('Only admins can rebuild campaign metadata');
+      return syncCampaignDimensions(supabase, await fetchCampaignOrderNames(supabase));
+    },
+    onSuccess: (count) => {
+      queryClient.invalidateQueries({ queryKey: ['campaigns'] });
+      toast.success(`Parsed ${count.toLocaleString()} campaigns`);
+    },
+    onError: (error) => {
+      console.error('Error rebuilding campaign metadata:', error);
+      toast.error('Failed to rebuild campaign metadata');
+    }
+  });
+
+  return {
+    campaigns,
+    isLoading,
+    rebuild: rebuild.mutate,
+    isRebuilding: rebuild.isPending,
+    canRebuild: hasRole('admin')
+  };
+}
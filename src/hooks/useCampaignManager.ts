@@ -12,7 +12,7 @@ import { GenericCSVRow } from "@/types/csv";
 import { ProcessedCampaign } from "@/types/pacing";
 
 interface UseCampaignManagerProps {
-  data: CampaignDataRow[];
+  data: CampaignDataRow[]; // Spend already normalized (see useNormalizedCampaignData)
   pacingData: GenericCSVRow[];
   contractTermsData: ContractTermsRow[];
   globalDateRange?: DateRange | undefined;
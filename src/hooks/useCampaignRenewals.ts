@@ -164,6 +164,8 @@ export function useCampaignRenewals() {
     newStatus: RenewalStatus
   ) => {
     await logActivity(supabase, queryClient, {
+      entity_type: 'campaign',
+      entity_id: campaignName,
       priority_id: null,
       user_id: getCurrentUserId(),
       action: 'renewal_status_updated',
@@ -3,6 +3,7 @@ import { formatNumber, parseDateString, formatDateSortable, setToStartOfDay, set
 import { useCampaignFilter } from "@/contexts/use-campaign-filter";
 import { CampaignDataRow } from "@/types/campaign";
 import { DateRange } from "react-day-picker";
+import { getSpendByPartner } from "@/utils/dashboardCalculations";
 
 // Interface for combo chart data point
 interface ComboChartDataPoint {
@@ -213,71 +214,7 @@ export const useCombinedMetrics = ({ data,
     // But check if data has DAY_OF_WEEK to know if we should aggregate by day of week
     const isDayOfWeekMode = data.length > 0 && data.some(row => row.DAY_OF_WEEK);
     const dataToUse = rawData.length > 0 ? rawData : data;
-    const spendByDate = new Map();
-
-    dataToUse.forEach(row => {
-      // If in day of week mode, convert DATE to day of week
-      let date: string;
-      if (isDayOfWeekMode && (row.DATE || row.date)) {
-        const parsedDate = parseDateString(row.DATE || row.date);
-        if (parsedDate) {
-          const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-          date = dayNames[parsedDate.getDay()];
-        } else {
-          return;
-        }
-      } else {
-        date = row.DATE || row.date;
-      }
-      if (!date || date === 'Totals') return;
-
-      const campaignName = row["CAMPAIGN ORDER NAME"] || row.campaignName || "";
-      let spend = Number(row.SPEND || row.spend || 0);
-
-      // Apply Orangellow CPM to $7 conversion
-      const { agency, abbreviation } = extractAgencyInfo(campaignName);
-      if (abbreviation === 'OG' || abbreviation === 'SM' || agency === 'Orangellow') {
-        // Convert CPM campaigns to $7 CPM equivalent
-        const impressions = Number(row.IMPRESSIONS || row.impressions || 0);
-        if (impressions > 0) {
-          spend = (impressions / 1000) * 7; // $7 CPM
-        }
-      }
-
-      // Determine if it's MediaJel Direct or Channel Partners
-      const isMediaJelDirect = agency === 'MediaJel Direct' || abbreviation === 'MJ';
-
-      if (!spendByDate.has(date)) {
-        spendByDate.set(date, {
-          date,
-          MediaJelDirect: 0,
-          ChannelPartners: 0
-        });
-      }
-
-      const dayData = spendByDate.get(date);
-      if (isMediaJelDirect) {
-        dayData.MediaJelDirect += spend;
-      } else {
-        dayData.ChannelPartners += spend;
-      }
-    });
-
-    const result = Array.from(spendByDate.values());
-
-    // Check if we're dealing with day of week data
-    const isDayOfWeek = result.length > 0 && /^(Sun|Mon|Tue|Wed|Thu|Fri|Sat)/i.test(result[0].date);
-
-    // Only sort by date if not day of week data
-    if (!isDayOfWeek) {
-      return result.sort((a, b) => {
-        const dateA = parseDateString(a.date);
-        const dateB = parseDateString(b.date);
-        return dateA && dateB ? dateA.getTime() - dateB.getTime() : 0;
-      });
-    }
-
-    return result;
+    return getSpendByPartner(dataToUse, campaignName => extractAgencyInfo(campaignName).agency, isDayOfWeekMode);
   }, [data, rawData, extractAgencyInfo]);
 
   // Process main chart data
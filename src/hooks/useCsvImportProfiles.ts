@@ -0,0 +1,69 @@
+/**
+ * Custom hook for saved CSV column mappings (import profiles)
+ */
+
+import { useCallback } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useSupabase } from '@/contexts/use-supabase';
+import { useAuth } from '@/contexts/use-auth';
+import { CsvImportKind, CsvImportProfile, CsvImportProfileUpsert } from '@/types/csv';
+import { toast } from 'sonner';
+
+export function useCsvImportProfiles() {
+  const { supabase } = useSupabase();
+  const queryClient = useQueryClient();
+  const { currentUser } = useAuth();
+
+  const { data: profiles = [], isLoading } = useQuery<CsvImportProfile[]>({
+    queryKey: ['csv-import-profiles'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('csv_import_profiles')
+        .select('*')
+        .order('name');
+
+      if (error) throw error;
+      return data as CsvImportProfile[];
+    },
+    enabled: !!supabase
+  });
+
+  // One profile per file layout - saving again for the same headers replaces it
+  const saveProfile = useMutation({
+    mutationFn: async (profile: CsvImportProfileUpsert) => {
+      const { error } = await supabase
+        .from('csv_import_profiles')
+        .upsert(
+          {
+            ...profile,
+            created_by: currentUser?.id || null
+          },
+          { onConflict: 'import_kind,header_signature' }
+        );
+
+      if (error) throw error;
+    },
+    onSuccess: (_, profile) => {
+      queryClient.invalidateQueries({ queryKey: ['csv-import-profiles'] });
+      toast.success(`Import profile "${profile.name}" saved`);
+    },
+    onError: (error) => {
+      console.error('Error saving import profile:', error);
+      toast.error('Failed to save import profile');
+    }
+  });
+
+  const findProfile = useCallback(
+    (kind: CsvImportKind, headerSignature: string): CsvImportProfile | null =>
+      profiles.find(p => p.import_kind === kind && p.header_signature === headerSignature) || null,
+    [profiles]
+  );
+
+  return {
+    profiles,
+    isLoading,
+    findProfile,
+    saveProfile: saveProfile.mutate,
+    isSaving: saveProfile.isPending
+  };
+}
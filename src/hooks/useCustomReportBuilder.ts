@@ -1,19 +1,16 @@
 import { CampaignDataRow } from '@/types/campaign';
 import { ContractTermsRow } from '@/types/dashboard';
 import { PacingDeliveryData } from '@/types/pacing';
+import { ReportDefinition, SavedReportChart } from '@/types/report-definitions';
+import { resolveRelativeDateRange } from '@/utils/reportDefinitions';
 import { useState, useMemo } from 'react';
 import { DateRange } from 'react-day-picker';
 import { toast } from 'sonner';
 import html2canvas from 'html2canvas';
 import jsPDF from 'jspdf';
 
-export interface ChartConfig {
-  id: string;
-  category: 'spark-charts' | 'campaign-performance' | 'weekly-comparison';
-  type: string;
-  subOptions?: Record<string, string>;
+export interface ChartConfig extends SavedReportChart {
   dateRange: DateRange;
-  title: string;
 }
 
 export interface CustomReportBuilderProps {
@@ -38,6 +35,7 @@ export interface ReportBuilderActions {
   setReportTitle: (title: string) => void;
   setIsLeftPanelCollapsed: (collapsed: boolean) => void;
   setNewChart: React.Dispatch<React.SetStateAction<Partial<ChartConfig>>>;
+  loadDefinition: (definition: ReportDefinition) => void;
 }
 
 // Available chart types configuration
@@ -170,6 +168,14 @@ export const useCustomReportBuilder = ({ data,
     toast.success('Chart removed from report');
   };
 
+  // Saved definitions have a relative range - pin it to today's dates for the preview
+  const loadDefinition = (definition: ReportDefinition) => {
+    const definitionRange = resolveRelativeDateRange(definition.date_range);
+    setReportTitle(definition.report_title);
+    setCharts(definition.charts.map(chart => ({ ...chart, dateRange: definitionRange })));
+    toast.success(`Loaded "${definition.name}"`);
+  };
+
   const exportToPDF = async () => {
     if (charts.length === 0) {
       toast.error('Please add at least one chart to export');
@@ -240,7 +246,8 @@ export const useCustomReportBuilder = ({ data,
     exportToPDF,
     setReportTitle,
     setIsLeftPanelCollapsed,
-    setNewChart
+    setNewChart,
+    loadDefinition
   };
 
   return {
@@ -12,26 +12,36 @@
  * - Each appearance is a separate database record with the same created_at but different active_date
  * - Updating secondary fields (agency_name, description, etc.) syncs across ALL dates
  * - Updating primary identity (client_name) only affects the current date (creates new identity)
+ *
+ * RECURRING TASKS:
+ * - A recurring_priorities template carries a schedule rule (see lib/recurrence.ts)
+ * - Each scheduled occurrence becomes a normal task instance linked by recurring_priority_id + occurrence_date
+ * - Open instances carry forward like any other task; the generator skips a series that
+ *   already has an open instance on the target date, so overdue occurrences never stack up
+ * - Completed occurrences are never regenerated; the next occurrence creates a fresh task identity
  */
 
-import { useEffect } from 'react';
+import { useEffect, useId } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useSupabase } from '@/contexts/use-supabase';
 import {
   DailyPriority,
   DailyPriorityInsert,
   DailyPriorityUpdate,
-  PrioritySection
+  NewPriorityInput,
+  PrioritySection,
+  RecurringPriority
 } from '@/types/daily-priorities';
 import { toast } from 'sonner';
-import { format, addDays, parseISO } from 'date-fns';
+import { format, addDays, parseISO, startOfDay, endOfDay } from 'date-fns';
 import { useAuth } from '@/contexts/use-auth';
 import { ActivityLogInsert, ActivityAction } from '@/types/activity-log';
+import { getLatestOccurrence } from '@/lib/recurrence';
 
 export function useDailyPriorities(date: string) {
   const { supabase } = useSupabase();
   const queryClient = useQueryClient();
-  const { currentUser } = useAuth();
+  const { currentUser, hasRole } = useAuth();
 
   // Helper function to get current user ID
   const getCurrentUserId = (): string => {
@@ -52,7 +62,10 @@ export function useDailyPriorities(date: string) {
     }
 
     try {
-      const { error } = await supabase.from('activity_log').insert(log).select();
+      const { error } = await supabase
+        .from('activity_log')
+        .insert({ ...log, entity_type: 'priority', entity_id: log.priority_id ?? null })
+        .select();
       if (error) {
         console.error('Error logging activity:', error);
       } else {
@@ -191,7 +204,12 @@ export function useDailyPriorities(date: string) {
         assignees: task.assignees,
         completed: false, // Always unchecked when carried forward
         created_by: task.created_by,
-        created_at: task.created_at // CRITICAL: Preserve original created_at for task identity
+        created_at: task.created_at, // CRITICAL: Preserve original created_at for task identity
+        recurring_priority_id: task.recurring_priority_id, // Keep link to recurrence series
+        occurrence_date: task.occurrence_date, // Carried copies still fulfil the original occurrence
+        alert_type: task.alert_type, // Keep link to the claimed campaign alert
+        alert_campaign_name: task.alert_campaign_name,
+        alert_resolved_at: task.alert_resolved_at
       };
     });
 
@@ -220,6 +238,120 @@ export function useDailyPriorities(date: string) {
     }
   };
 
+  // Generate instances of recurring tasks that are due on the target date
+  // Runs after carry-forward so carried-over open instances are already present
+  const generateRecurringTasks = async (targetDate: string) => {
+    if (!supabase) {
+      return;
+    }
+
+    const { data: templates, error: templatesError } = await supabase
+      .from('recurring_priorities')
+      .select('*')
+      .eq('active', true)
+      .lte('start_date', targetDate);
+
+    if (templatesError) {
+      console.error('[Recurring] Error fetching recurring priorities:', templatesError);
+      return;
+    }
+
+    // Work out which occurrence (if any) each series owes on the target date
+    const dueBySeries = new Map<string, { template: RecurringPriority; occurrence: string }>();
+    ((templates || []) as RecurringPriority[]).forEach(template => {
+      if (template.end_date && template.end_date < targetDate) return;
+      const occurrence = getLatestOccurrence(template.recurrence_rule, template.start_date, targetDate);
+      if (occurrence) {
+        dueBySeries.set(template.id, { template, occurrence });
+      }
+    });
+
+    if (dueBySeries.size === 0) {
+      return;
+    }
+
+    // Fetch every instance of these series on or after the oldest due occurrence.
+    // This covers both "already generated (maybe completed on an earlier day)" and
+    // "an open instance was carried forward onto the target date".
+    const oldestOccurrence = [...dueBySeries.values()]
+      .map(d => d.occurrence)
+      .sort()[0];
+
+    const { data: instances, error: instancesError } = await supabase
+      .from('daily_priorities')
+      .select('recurring_priority_id, occurrence_date, active_date, completed')
+      .in('recurring_priority_id', [...dueBySeries.keys()])
+      .or(`occurrence_date.gte.${oldestOccurrence},active_date.eq.${targetDate}`);
+
+    if (instancesError) {
+      console.error('[Recurring] Error fetching recurring instances:', instancesError);
+      return;
+    }
+
+    const { data: existingTasksOnTarget } = await supabase
+      .from('daily_priorities')
+      .select('section, priority_order')
+      .eq('active_date', targetDate);
+
+    const maxPriorityBySection: Record<string, number> = {};
+    (existingTasksOnTarget || []).forEach(task => {
+      maxPriorityBySection[task.section] = Math.max(maxPriorityBySection[task.section] || 0, task.priority_order);
+    });
+
+    const tasksToGenerate: DailyPriorityInsert[] = [];
+
+    const recurringInstances = (instances || []) as Pick<
+      DailyPriority,
+      'recurring_priority_id' | 'occurrence_date' | 'active_date' | 'completed'
+    >[];
+
+    for (const [seriesId, { template, occurrence }] of dueBySeries.entries()) {
+      const seriesInstances = recurringInstances.filter(i => i.recurring_priority_id === seriesId);
+
+      // Occurrence already generated (whether still open or completed) - don't recreate it
+      if (seriesInstances.some(i => i.occurrence_date === occurrence)) continue;
+
+      // An earlier occurrence is still open on the target date - it covers this one
+      if (seriesInstances.some(i => i.active_date === targetDate && !i.completed)) continue;
+
+      const priorityOrder = (maxPriorityBySection[template.section] || 0) + 1;
+      maxPriorityBySection[template.section] = priorityOrder;
+
+      tasksToGenerate.push({
+        active_date: targetDate,
+        created_date: new Date().toISOString(),
+        priority_order: priorityOrder,
+        section: template.section,
+        agency_name: template.agency_name,
+        client_name: template.client_name,
+        ticket_url: template.ticket_url,
+        description: template.description,
+        assignees: template.assignees,
+        completed: false,
+        created_by: template.created_by,
+        recurring_priority_id: template.id,
+        occurrence_date: occurrence
+      });
+    }
+
+    if (tasksToGenerate.length === 0) {
+      return;
+    }
+
+    // Unique index on (recurring_priority_id, occurrence_date, active_date) guards against
+    // two clients generating the same occurrence concurrently
+    const { error: insertError } = await supabase
+      .from('daily_priorities')
+      .upsert(tasksToGenerate, {
+        onConflict: 'recurring_priority_id,occurrence_date,active_date',
+        ignoreDuplicates: true
+      });
+
+    if (insertError) {
+      console.error('[Recurring] Error generating recurring tasks:', insertError);
+    }
+  };
+
   // Fetch priorities for a specific date, with automatic carry-forward
   const { data: priorities = [], isLoading, error } = useQuery({
     queryKey: ['daily-priorities', date],
@@ -233,7 +365,11 @@ export function useDailyPriorities(date: string) {
       // 2. Database unique constraint prevents duplicates even if called multiple times
       // 3. Uses ignoreDuplicates: true to handle concurrent calls gracefully
       // This ensures tasks added late in the day get carried forward to future dates
-      await carryForwardTasks(date);
+      // Viewers can't write (RLS) - the next editor to open the date fills it in
+      if (hasRole('editor')) {
+        await carryForwardTasks(date);
+        await generateRecurringTasks(date);
+      }
 
       // Fetch tasks for this date - maintains historical record
       const { data, error } = await supabase
@@ -314,12 +450,14 @@ export function useDailyPriorities(date: string) {
     enabled: !!supabase
   });
 
-  // Subscribe to realtime changes for collaborative updates
+  // Subscribe to realtime changes for collaborative updates. Channel names are per
+  // instance - two hooks sharing one name would share (and tear down) one channel.
+  const channelId = useId();
   useEffect(() => {
     if (!supabase) return;
 
     const channel = supabase
-      .channel('daily-priorities-changes')
+      .channel(`daily-priorities-changes-${date}-${channelId}`)
       .on(
         'postgres_changes',
         {
@@ -339,13 +477,37 @@ export function useDailyPriorities(date: string) {
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [supabase, date, queryClient]);
+  }, [supabase, date, channelId, queryClient]);
 
   // Add a new priority
   const addPriority = useMutation({
-    mutationFn: async (priority: DailyPriorityInsert) => {
+    mutationFn: async ({ recurrence_rule, ...priority }: NewPriorityInput) => {
       if (!supabase) throw new Error('Supabase not initialized');
 
+      // Recurring task: create the series template first, this task is its first occurrence
+      if (recurrence_rule) {
+        const { data: template, error: templateError } = await supabase
+          .from('recurring_priorities')
+          .insert({
+            section: priority.section,
+            agency_name: priority.agency_name ?? null,
+            client_name: priority.client_name ?? null,
+            ticket_url: priority.ticket_url ?? null,
+            description: priority.description ?? null,
+            assignees: priority.assignees ?? [],
+            recurrence_rule,
+            start_date: priority.active_date,
+            created_by: priority.created_by ?? null
+          })
+          .select()
+          .single();
+
+        if (templateError) throw templateError;
+
+        priority.recurring_priority_id = (template as RecurringPriority).id;
+        priority.occurrence_date = priority.active_date;
+      }
+
       // First, check if there are existing tasks at or after this priority order in the same section
       const { data: existingTasks } = await supabase
         .from('daily_priorities')
@@ -380,13 +542,14 @@ export function useDailyPriorities(date: string) {
         user_id: getCurrentUserId(),
         action: 'created',
         task_description: data.client_name || 'Unnamed task',
-        changes: null
+        changes: recurrence_rule ? { recurrence_rule } : null
       });
 
       return data as DailyPriority;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['daily-priorities', date] });
+      queryClient.invalidateQueries({ queryKey: ['recurring-priorities'] });
       toast.success('Priority added');
     },
     onError: (error) => {
@@ -878,6 +1041,7 @@ export function useDailyPriorities(date: string) {
   const deletePriority = useMutation({
     mutationFn: async (id: string) => {
       if (!supabase) throw new Error('Supabase not initialized');
+      if (!hasRole('editor')) throw new Error('Viewers cannot delete tasks');
 
       // Get the task to find its details
       const { data: task } = await supabase
@@ -1080,6 +1244,29 @@ export function useDailyPriorities(date: string) {
   };
 }
 
+// Hook for getting tasks completed on a given date (local day, by completed_at)
+export function useCompletedPriorities(date: string) {
+  const { supabase } = useSupabase();
+
+  return useQuery({
+    queryKey: ['daily-priorities', 'completed-on', date],
+    queryFn: async () => {
+      const day = parseISO(date);
+      const { data, error } = await supabase
+        .from('daily_priorities')
+        .select('*')
+        .eq('completed', true)
+        .gte('completed_at', startOfDay(day).toISOString())
+        .lte('completed_at', endOfDay(day).toISOString())
+        .order('completed_at', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as DailyPriority[];
+    },
+    enabled: !!supabase
+  });
+}
+
 // Hook for getting dates that have priorities (for calendar highlighting)
 export function usePriorityDates() {
   const { supabase } = useSupabase();
@@ -1,8 +1,10 @@
 import { useState, useEffect } from 'react';
 import { AnomalyDetectionResult } from '@/types/anomaly';
+import { useCampaignFilter } from '@/contexts/use-campaign-filter';
 
 // Types for state management
 export type ChartViewMode = "date" | "dayOfWeek";
+export type ChartMode = "display" | "attribution" | "custom" | "spend";
 export type AnomalyPeriod = "daily" | "weekly";
 export type ComparisonPeriod = "7" | "14" | "30";
 
@@ -77,9 +79,12 @@ export const useDashboardState = (props: DashboardStateProps = {}) => {
   const [localSelectedMetricsAdvertisers, setLocalSelectedMetricsAdvertisers] = useState<string[]>(selectedMetricsAdvertisers);
   const [localSelectedMetricsAgencies, setLocalSelectedMetricsAgencies] = useState<string[]>(selectedMetricsAgencies);
 
-  // View modes and periods
-  const [anomalyPeriod, setAnomalyPeriod] = useState<AnomalyPeriod>("daily");
-  const [comparisonPeriod, setComparisonPeriod] = useState<ComparisonPeriod>("7");
+  // View modes and periods - the periods are kept in the filter context so saved views restore them
+  const { chartSettings, setChartSetting } = useCampaignFilter();
+  const anomalyPeriod = chartSettings.anomalyPeriod ?? "daily";
+  const comparisonPeriod = chartSettings.comparisonPeriod ?? "7";
+  const setAnomalyPeriod = (period: AnomalyPeriod) => setChartSetting('anomalyPeriod', period);
+  const setComparisonPeriod = (period: ComparisonPeriod) => setChartSetting('comparisonPeriod', period);
   const [metricsViewMode, setMetricsViewMode] = useState<ChartViewMode>(viewByDate ? "date" : "dayOfWeek");
   const [revenueViewMode, setRevenueViewMode] = useState<ChartViewMode>(viewByDate ? "date" : "dayOfWeek");
 
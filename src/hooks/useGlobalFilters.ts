@@ -0,0 +1,149 @@
+import { useCallback, useMemo } from "react";
+import { DateRange } from "react-day-picker";
+import { setToEndOfDay, setToStartOfDay, parseDateString } from "@/lib/utils";
+import { useCampaignFilter } from "@/contexts/use-campaign-filter";
+import { CampaignDataRow } from "@/types/campaign";
+import { Option } from "@/components/MultiSelect";
+
+const toOptions = (values: Set<string>): Option[] =>
+  Array.from(values).sort().map(value => ({ value, label: value }));
+
+// The latest date in the rows, as it appears in them
+const getMostRecentDate = (data: CampaignDataRow[]): string | null => {
+  let mostRecent: { date: string; time: number } | null = null;
+  for (const row of data) {
+    if (!row.DATE || row.DATE === 'Totals') continue;
+    const time = parseDateString(row.DATE)?.getTime();
+    if (time !== undefined && (!mostRecent || time > mostRecent.time)) {
+      mostRecent = { date: row.DATE, time };
+    }
+  }
+  return mostRecent?.date ?? null;
+};
+
+/**
+ * Delivery rows narrowed by the global filters - the agency, advertiser and
+ * campaign selections in CampaignFilterContext, the date range and the live
+ * campaigns toggle - plus the options each filter offers. Choosing agencies
+ * clears the advertisers and campaigns below them, as does choosing advertisers
+ * for campaigns.
+ */
+export const useGlobalFilters = (data: CampaignDataRow[], dateRange?: DateRange) => {
+  const {
+    showLiveOnly,
+    selectedAgencies,
+    setSelectedAgencies,
+    selectedAdvertisers,
+    setSelectedAdvertisers,
+    selectedCampaigns,
+    setSelectedCampaigns,
+    extractAgencyInfo,
+    extractAdvertiserName,
+    isTestCampaign
+  } = useCampaignFilter();
+
+  // Whether a campaign passes the agency, advertiser and campaign selections
+  const matchesSelections = useCallback((campaignName: string) => {
+    if (selectedCampaigns.length > 0 && !selectedCampaigns.includes(campaignName)) return false;
+    if (selectedAgencies.length > 0 && !selectedAgencies.includes(extractAgencyInfo(campaignName).agency)) return false;
+    if (selectedAdvertisers.length > 0 && !selectedAdvertisers.includes(extractAdvertiserName(campaignName))) return false;
+    return true;
+  }, [selectedAgencies, selectedAdvertisers, selectedCampaigns, extractAgencyInfo, extractAdvertiserName]);
+
+  const dateFilteredData = useMemo(() => {
+    if (!dateRange?.from) return data;
+
+    const fromDate = setToStartOfDay(dateRange.from);
+    const toDate = setToEndOfDay(dateRange.to ?? new Date());
+    return data.filter(row => {
+      if (row.DATE === 'Totals') return true;
+      const rowDate = parseDateString(row.DATE);
+      return !!rowDate && rowDate >= fromDate && rowDate <= toDate;
+    });
+  }, [data, dateRange]);
+
+  // Live campaigns are the ones with impressions on the most recent date in range
+  const liveData = useMemo(() => {
+    if (!showLiveOnly) return dateFilteredData;
+
+    const mostRecentDate = getMostRecentDate(dateFilteredData);
+    if (!mostRecentDate) return dateFilteredData;
+
+    const liveCampaigns = new Set<string>();
+    for (const row of dateFilteredData) {
+      const campaignName = row["CAMPAIGN ORDER NAME"] || "";
+      if (row.DATE === mostRecentDate && Number(row.IMPRESSIONS) > 0 && !isTestCampaign(campaignName)) {
+        liveCampaigns.add(campaignName);
+      }
+    }
+
+    return dateFilteredData.filter(row => row.DATE === 'Totals' || liveCampaigns.has(row["CAMPAIGN ORDER NAME"] || ""));
+  }, [dateFilteredData, showLiveOnly, isTestCampaign]);
+
+  const filteredData = useMemo(
+    () => liveData.filter(row => matchesSelections(row["CAMPAIGN ORDER NAME"] || "")),
+    [liveData, matchesSelections]
+  );
+
+  // Every date, for views that apply the date range themselves
+  const selectedData = useMemo(
+    () => data.filter(row => matchesSelections(row["CAMPAIGN ORDER NAME"] || "")),
+    [data, matchesSelections]
+  );
+
+  // Each filter lists what is left after the filters above it
+  const { agencyOptions, advertiserOptions, campaignOptions } = useMemo(() => {
+    const agencies = new Set<string>();
+    const advertisers = new Set<string>();
+    const campaigns = new Set<string>();
+
+    for (const row of liveData) {
+      const campaignName = row["CAMPAIGN ORDER NAME"] || "";
+      if (!campaignName || isTestCampaign(campaignName)) continue;
+
+      const { agency } = extractAgencyInfo(campaignName);
+      if (agency) agencies.add(agency);
+      if (selectedAgencies.length > 0 && !selectedAgencies.includes(agency)) continue;
+
+      const advertiser = extractAdvertiserName(campaignName);
+      if (advertiser) advertisers.add(advertiser);
+      if (selectedAdvertisers.length > 0 && !selectedAdvertisers.includes(advertiser)) continue;
+
+      campaigns.add(campaignName);
+    }
+
+    return {
+      agencyOptions: toOptions(agencies),
+      advertiserOptions: toOptions(advertisers),
+      campaignOptions: toOptions(campaigns)
+    };
+  }, [liveData, selectedAgencies, selectedAdvertisers, extractAgencyInfo, extractAdvertiserName, isTestCampaign]);
+
+  const onAgenciesChange = useCallback((selected: string[]) => {
+    setSelectedAgencies(selected);
+    setSelectedAdvertisers([]);
+    setSelectedCampaigns([]);
+  }, [setSelectedAgencies, setSelectedAdvertisers, setSelectedCampaigns]);
+
+  const onAdvertisersChange = useCallback((selected: string[]) => {
+    setSelectedAdvertisers(selected);
+    setSelectedCampaigns([]);
+  }, [setSelectedAdvertisers, setSelectedCampaigns]);
+
+  return {
+    dateFilteredData,
+    liveData,
+    filteredData,
+    selectedData,
+    matchesSelections,
+    agencyOptions,
+    advertiserOptions,
+    campaignOptions,
+    selectedAgencies,
+    selectedAdvertisers,
+    selectedCampaigns,
+    onAgenciesChange,
+    onAdvertisersChange,
+    onCampaignsChange: setSelectedCampaigns
+  };
+};
@@ -0,0 +1,96 @@
+/**
+ * Custom hook for managing which health scoring profile each campaign or agency uses
+ */
+
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useSupabase } from '@/contexts/use-supabase';
+import { useAuth } from '@/contexts/use-auth';
+import {
+  HealthProfileAssignment,
+  HealthProfileAssignmentUpsert,
+  HealthProfileScope
+} from '@/types/health-scoring';
+import { createHealthProfileResolver } from '@/utils/healthScoringProfiles';
+import { toast } from 'sonner';
+
+export function useHealthProfiles(getAgencyAbbreviation: (campaignName: string) => string) {
+  const { supabase } = useSupabase();
+  const queryClient = useQueryClient();
+  const { currentUser } = useAuth();
+
+  const { data: assignments = [], isLoading } = useQuery<HealthProfileAssignment[]>({
+    queryKey: ['health-profile-assignments'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('health_profile_assignments')
+        .select('*')
+        .order('scope')
+        .order('scope_value');
+
+      if (error) throw error;
+      return data as HealthProfileAssignment[];
+    },
+    enabled: !!supabase
+  });
+
+  // Assign a profile to a campaign or agency (one row per scope + scope_value)
+  const assignProfile = useMutation({
+    mutationFn: async (assignment: HealthProfileAssignmentUpsert) => {
+      const { error } = await supabase
+        .from('health_profile_assignments')
+        .upsert(
+          {
+            ...assignment,
+            updated_by: currentUser?.id || null
+          },
+          { onConflict: 'scope,scope_value' }
+        );
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['health-profile-assignments'] });
+      toast.success('Scoring profile assigned');
+    },
+    onError: (error) => {
+      console.error('Error assigning health profile:', error);
+      toast.error('Failed to assign scoring profile');
+    }
+  });
+
+  // Remove an assignment so the campaign falls back to its agency's profile or the default
+  const removeAssignment = useMutation({
+    mutationFn: async ({ scope, scopeValue }: { scope: HealthProfileScope; scopeValue: string }) => {
+      const { error } = await supabase
+        .from('health_profile_assignments')
+        .delete()
+        .eq('scope', scope)
+        .eq('scope_value', scopeValue);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['health-profile-assignments'] });
+      toast.success('Scoring profile assignment removed');
+    },
+    onError: (error) => {
+      console.error('Error removing health profile assignment:', error);
+      toast.error('Failed to remove scoring profile assignment');
+    }
+  });
+
+  const resolveProfile = useMemo(
+    () => createHealthProfileResolver(assignments, getAgencyAbbreviation),
+    [assignments, getAgencyAbbreviation]
+  );
+
+  return {
+    assignments,
+    isLoading,
+    resolveProfile,
+    assignProfile: assignProfile.mutate,
+    removeAssignment: (scope: HealthProfileScope, scopeValue: string) => removeAssignment.mutate({ scope, scopeValue }),
+    isSaving: assignProfile.isPending
+  };
+}
@@ -0,0 +1,58 @@
+/**
+ * Custom hook for daily campaign health snapshots
+ *
+ * Snapshots are written by the record-health-snapshots job from the full,
+ * unfiltered campaign data - this hook only reads the recent history back
+ * for trends. One query covers every campaign, so callers fetch it once and
+ * hand each campaign its slice (see groupSnapshotsByCampaign).
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { format, subDays } from 'date-fns';
+import { useSupabase } from '@/contexts/use-supabase';
+import { HealthScoreSnapshot } from '@/types/health-scoring';
+
+// Enough history for a sparkline and a week-over-week comparison
+const HISTORY_DAYS = 30;
+const PAGE_SIZE = 1000;
+
+export function useHealthScoreHistory() {
+  const { supabase } = useSupabase();
+
+  const { data: snapshots = [], isLoading } = useQuery<HealthScoreSnapshot[]>({
+    queryKey: ['health-score-snapshots'],
+    queryFn: async () => {
+      const since = format(subDays(new Date(), HISTORY_DAYS), 'yyyy-MM-dd');
+      const snapshots: HealthScoreSnapshot[] = [];
+      let page = 0;
+      let hasMore = true;
+
+      // A month of snapshots for every campaign runs well past Supabase's
+      // 1000-row response cap - keep fetching until a short page comes back
+      while (hasMore) {
+        const { data, error } = await supabase
+          .from('campaign_health_snapshots')
+          .select('*')
+          .gte('snapshot_date', since)
+          .order('snapshot_date', { ascending: true })
+          .order('id', { ascending: true })
+          .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+        if (error) throw error;
+
+        const pageRows = (data || []) as HealthScoreSnapshot[];
+        snapshots.push(...pageRows);
+        hasMore = pageRows.length === PAGE_SIZE;
+        page++;
+      }
+
+      return snapshots;
+    },
+    enabled: !!supabase
+  });
+
+  return {
+    snapshots,
+    isLoading
+  };
+}
@@ -8,5 +8,6 @@ import { createStatusTrackingHook } from './createStatusTrackingHook';
 export const useLaunchStatusTracking = createStatusTrackingHook({
   tableName: 'launch_status_tracking',
   queryKey: 'launch-status-tracking',
-  displayName: 'Launch'
+  displayName: 'Launch',
+  workflowKind: 'launch'
 });
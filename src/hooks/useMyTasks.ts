@@ -0,0 +1,85 @@
+/**
+ * Custom hook for the current user's tasks across all sections
+ *
+ * Open tasks come from today's board (carry-forward keeps every open task there),
+ * so quick actions go through the same updatePriority as the main view.
+ */
+
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format, startOfWeek } from 'date-fns';
+import { useSupabase } from '@/contexts/use-supabase';
+import { useAuth } from '@/contexts/use-auth';
+import { useDailyPriorities } from '@/hooks/useDailyPriorities';
+import { DailyPriority } from '@/types/daily-priorities';
+import { groupMyTasks, isAssignedTo } from '@/utils/myTasks';
+
+export function useMyTasks() {
+  const { supabase } = useSupabase();
+  const { currentUser } = useAuth();
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const weekStart = startOfWeek(new Date(), { weekStartsOn: 1 });
+
+  const { priorities, isLoading, updatePriority } = useDailyPriorities(today);
+
+  // Under 'daily-priorities' so completing a task refreshes this list too
+  const { data: completedThisWeek = [], isLoading: isLoadingCompleted } = useQuery({
+    queryKey: ['daily-priorities', 'completed-since', weekStart.toISOString(), currentUser?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('daily_priorities')
+        .select('*')
+        .eq('completed', true)
+        .gte('completed_at', weekStart.toISOString())
+        .order('completed_at', { ascending: false });
+
+      if (error) throw error;
+      return ((data || []) as DailyPriority[]).filter(task => isAssignedTo(task.assignees, currentUser));
+    },
+    enabled: !!supabase && !!currentUser
+  });
+
+  const groups = useMemo(
+    () => groupMyTasks(priorities.filter(task => isAssignedTo(task.assignees, currentUser))),
+    [priorities, currentUser]
+  );
+
+  return {
+    ...groups,
+    completedThisWeek,
+    openCount: groups.open.length + groups.overdue.length + groups.blocked.length,
+    isLoading: isLoading || isLoadingCompleted,
+    updatePriority
+  };
+}
+
+/**
+ * Open and overdue counts of the current user's tasks, for badges. Read-only: it
+ * reads today's board without carry-forward or a realtime channel of its own. The
+ * key sits under ['daily-priorities', today], so the board's refreshes update it.
+ */
+export function useMyOpenTaskCounts() {
+  const { supabase } = useSupabase();
+  const { currentUser } = useAuth();
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  const { data: groups } = useQuery({
+    queryKey: ['daily-priorities', today, 'assigned-open', currentUser?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('daily_priorities')
+        .select('*')
+        .eq('active_date', today)
+        .eq('completed', false);
+
+      if (error) throw error;
+      return groupMyTasks(((data || []) as DailyPriority[]).filter(task => isAssignedTo(task.assignees, currentUser)));
+    },
+    enabled: !!supabase && !!currentUser
+  });
+
+  return {
+    openCount: groups ? groups.open.length + groups.overdue.length + groups.blocked.length : 0,
+    overdueCount: groups?.overdue.length || 0
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * Custom hook for CSV import rows held in quarantine
+ *
+ * Rows that fail validateImportRows are stored here instead of being imported;
+ * once fixed they are re-imported through upsertCampaignData.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useSupabase } from '@/contexts/use-supabase';
+import { useAuth } from '@/contexts/use-auth';
+import { GenericCSVRow, RowValidationResult } from '@/types/csv';
+import { QuarantinedRow } from '@/types/upload-history';
+import { toCampaignDataRecord } from '@/utils/csvProcessing';
+import { toast } from 'sonner';
+
+export function useQuarantinedRows() {
+  const { supabase, upsertCampaignData } = useSupabase();
+  const queryClient = useQueryClient();
+  const { currentUser } = useAuth();
+
+  const { data: quarantinedRows = [], isLoading } = useQuery<QuarantinedRow[]>({
+    queryKey: ['quarantined-rows'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('quarantined_rows')
+        .select('*')
+        .eq('status', 'pending')
+        .order('created_at', { ascending: false })
+        .order('row_number', { ascending: true });
+
+      if (error) throw error;
+      return data as QuarantinedRow[];
+    },
+    enabled: !!supabase
+  });
+
+  // Hold back the rows that failed validation during an import
+  const quarantineRows = useMutation({
+    mutationFn: async ({ rows, fileName }: { rows: RowValidationResult[]; fileName: string }) => {
+      if (rows.length === 0) return;
+
+      const { error } = await supabase
+        .from('quarantined_rows')
+        .insert(rows.map(result => ({
+          import_kind: 'delivery' as const,
+          file_name: fileName,
+          row_number: result.rowNumber,
+          row_data: result.row,
+          issues: result.issues,
+          created_by: currentUser?.id || null
+        })));
+
+      if (error) throw error;
+    },
+    onSuccess: (_, { rows }) => {
+      queryClient.invalidateQueries({ queryKey: ['quarantined-rows'] });
+      if (rows.length > 0) {
+        toast.warning(`${rows.length} row${rows.length === 1 ? '' : 's'} sent to quarantine`);
+      }
+    },
+    onError: (error) => {
+      console.error('Error quarantining rows:', error);
+      toast.error('Failed to quarantine invalid rows');
+    }
+  });
+
+  const resolveRow = async (id: string, status: 'reimported' | 'discarded', rowData?: GenericCSVRow) => {
+    const { error } = await supabase
+      .from('quarantined_rows')
+      .update({
+        status,
+        ...(rowData ? { row_data: rowData, issues: [] } : {}),
+        resolved_by: currentUser?.id || null,
+        resolved_at: new Date().toISOString()
+      })
+      .eq('id', id);
+
+    if (error) throw error;
+  };
+
+  // Import a corrected row, then take it out of quarantine
+  const reimportRow = useMutation({
+    mutationFn: async ({ row, fixedData }: { row: QuarantinedRow; fixedData: GenericCSVRow }) => {
+      await upsertCampaignData([toCampaignDataRecord(fixedData)], undefined, row.file_name ? `${row.file_name} (quarantine fix)` : 'Quarantine fix');
+      await resolveRow(row.id, 'reimported', fixedData);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['quarantined-rows'] });
+      queryClient.invalidateQueries({ queryKey: ['upload-batches'] });
+      toast.success('Row re-imported');
+    },
+    onError: (error) => {
+      console.error('Error re-importing quarantined row:', error);
+      toast.error('Failed to re-import row');
+    }
+  });
+
+  const discardRow = useMutation({
+    mutationFn: async (id: string) => resolveRow(id, 'discarded'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['quarantined-rows'] });
+      toast.success('Row discarded');
+    },
+    onError: (error) => {
+      console.error('Error discarding quarantined row:', error);
+      toast.error('Failed to discard row');
+    }
+  });
+
+  return {
+    quarantinedRows,
+    isLoading,
+    quarantineRows: quarantineRows.mutateAsync,
+    reimportRow: reimportRow.mutate,
+    discardRow: discardRow.mutate,
+    isReimporting: reimportRow.isPending
+  };
+}
@@ -0,0 +1,78 @@
+/**
+ * Custom hook for managing recurring priority templates (schedule rules)
+ * Instances are generated by useDailyPriorities - this hook only manages the series.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useSupabase } from '@/contexts/use-supabase';
+import { useAuth } from '@/contexts/use-auth';
+import { RecurringPriority } from '@/types/daily-priorities';
+import { toast } from 'sonner';
+import { logActivity } from '@/lib/activityLogger';
+
+export function useRecurringPriorities() {
+  const { supabase } = useSupabase();
+  const queryClient = useQueryClient();
+  const { currentUser } = useAuth();
+
+  // Fetch all active recurrence series
+  const { data: recurringPriorities = [], isLoading } = useQuery<RecurringPriority[]>({
+    queryKey: ['recurring-priorities'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('recurring_priorities')
+        .select('*')
+        .eq('active', true)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data as RecurringPriority[];
+    },
+    enabled: !!supabase
+  });
+
+  // Stop a series - existing instances stay, no new occurrences are generated
+  const stopRecurrence = useMutation({
+    mutationFn: async (id: string) => {
+      const { data, error } = await supabase
+        .from('recurring_priorities')
+        .update({ active: false })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      await logActivity(supabase, queryClient, {
+        priority_id: null,
+        user_id: currentUser?.id || 'unknown',
+        action: 'updated',
+        task_description: (data as RecurringPriority).client_name || 'Unnamed task',
+        changes: {
+          recurrence: { before: 'active', after: 'stopped' }
+        }
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['recurring-priorities'] });
+      toast.success('Task will no longer repeat');
+    },
+    onError: (error) => {
+      console.error('Error stopping recurrence:', error);
+      toast.error('Failed to stop repeating task');
+    }
+  });
+
+  const getRecurringPriority = (id: string | null): RecurringPriority | null => {
+    if (!id) return null;
+    return recurringPriorities.find(r => r.id === id) || null;
+  };
+
+  return {
+    recurringPriorities,
+    isLoading,
+    getRecurringPriority,
+    stopRecurrence: stopRecurrence.mutate,
+    isStoppingRecurrence: stopRecurrence.isPending
+  };
+}
@@ -8,5 +8,6 @@ import { createStatusTrackingHook } from './createStatusTrackingHook';
 export const useRenewalStatusTracking = createStatusTrackingHook({
   tableName: 'renewal_status_tracking',
   queryKey: 'renewal-status-tracking',
-  displayName: 'Renewal'
+  displayName: 'Renewal',
+  workflowKind: 'renewal'
 });
@@ -0,0 +1,151 @@
+/**
+ * Custom hook for saved report definitions and the reports they generate
+ *
+ * Scheduled runs happen in the run-scheduled-reports edge function; "Run now"
+ * uses the same generator from the browser.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useSupabase } from '@/contexts/use-supabase';
+import { useAuth } from '@/contexts/use-auth';
+import { ReportDefinition, ReportDefinitionUpsert, ReportOutboxEntry } from '@/types/report-definitions';
+import { generateReportDefinition, REPORT_OUTBOX_BUCKET } from '@/lib/scheduledReports';
+import { getNextRunAt, getReportSchedule } from '@/utils/reportDefinitions';
+import { toast } from 'sonner';
+
+// Recent enough to find last week's reports without paging
+const OUTBOX_LIMIT = 100;
+
+export function useReportDefinitions() {
+  const { supabase } = useSupabase();
+  const queryClient = useQueryClient();
+  const { currentUser, hasRole } = useAuth();
+
+  const { data: definitions = [], isLoading } = useQuery<ReportDefinition[]>({
+    queryKey: ['report-definitions'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('report_definitions')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data as ReportDefinition[];
+    },
+    enabled: !!supabase
+  });
+
+  const { data: outbox = [], isLoading: isLoadingOutbox } = useQuery<ReportOutboxEntry[]>({
+    queryKey: ['report-outbox'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('report_outbox')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(OUTBOX_LIMIT);
+
+      if (error) throw error;
+      return data as ReportOutboxEntry[];
+    },
+    enabled: !!supabase
+  });
+
+  const saveDefinition = useMutation({
+    mutationFn: async (definition: ReportDefinitionUpsert) => {
+      if (!hasRole('editor')) throw new Error('Viewers cannot save reports');
+
+      const schedule = getReportSchedule(definition);
+      const row = {
+        ...definition,
+        next_run_at: schedule && definition.is_active ? getNextRunAt(schedule, new Date()).toISOString() : null,
+        failed_attempts: 0,
+        ...(definition.id ? {} : { created_by: currentUser?.id || null })
+      };
+
+      const { data, error } = await supabase
+        .from('report_definitions')
+        .upsert(row)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as ReportDefinition;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['report-definitions'] });
+      toast.success('Report saved');
+    },
+    onError: (error) => {
+      console.error('Error saving report definition:', error);
+      toast.error('Failed to save report');
+    }
+  });
+
+  const deleteDefinition = useMutation({
+    mutationFn: async (id: string) => {
+      if (!hasRole('editor')) throw new Error('Viewers cannot delete reports');
+
+      const { error } = await supabase
+        .from('report_definitions')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['report-definitions'] });
+      toast.success('Report deleted');
+    },
+    onError: (error) => {
+      console.error('Error deleting report definition:', error);
+      toast.error('Failed to delete report');
+    }
+  });
+
+  const runNow = useMutation({
+    mutationFn: async (definition: ReportDefinition) => {
+      const entry = await generateReportDefinition(supabase, definition, 'manual');
+      if (entry.status === 'failed') throw new Error(entry.error || 'Report generation failed');
+      return entry;
+    },
+    onSuccess: () => {
+      toast.success('Report generated');
+    },
+    onError: (error) => {
+      console.error('Error generating report:', error);
+      toast.error('Failed to generate report');
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['report-outbox'] });
+    }
+  });
+
+  const downloadReport = async (entry: ReportOutboxEntry) => {
+    if (!entry.file_path) return;
+
+    const { data, error } = await supabase.storage
+      .from(REPORT_OUTBOX_BUCKET)
+      .createSignedUrl(entry.file_path, 60, { download: true });
+
+    if (error || !data) {
+      console.error('Error creating report download link:', error);
+      toast.error('Failed to download report');
+      return;
+    }
+    window.open(data.signedUrl, '_blank');
+  };
+
+  return {
+    definitions,
+    isLoading,
+    outbox,
+    isLoadingOutbox,
+    saveDefinition: saveDefinition.mutate,
+    deleteDefinition: deleteDefinition.mutate,
+    runNow: runNow.mutate,
+    downloadReport,
+    isSaving: saveDefinition.isPending,
+    runningDefinitionId: runNow.isPending ? runNow.variables?.id : undefined,
+    canEdit: hasRole('editor')
+  };
+}
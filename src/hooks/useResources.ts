@@ -5,12 +5,16 @@
 import { useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useSupabase } from '@/contexts/use-supabase';
+import { useAuth } from '@/contexts/use-auth';
+import { diffFields, logActivity } from '@/lib/activityLogger';
 import { Resource, ResourceInsert, ResourceUpdate } from '@/types/resources';
+import { ActivityAction } from '@/types/activity-log';
 import { toast } from 'sonner';
 
 export function useResources() {
   const { supabase } = useSupabase();
   const queryClient = useQueryClient();
+  const { currentUser } = useAuth();
 
   // Fetch all resources
   const { data: resources = [], isLoading, error } = useQuery({
@@ -33,6 +37,21 @@ export function useResources() {
     enabled: !!supabase
   });
 
+  // Activity log entry for a resource
+  const logResourceActivity = (
+    resource: Pick<Resource, 'id' | 'title'> | undefined,
+    action: ActivityAction,
+    changes: Record<string, unknown> | null
+  ) => logActivity(supabase, queryClient, {
+    entity_type: 'resource',
+    entity_id: resource?.id ?? null,
+    priority_id: null,
+    user_id: currentUser?.id || 'unknown',
+    action,
+    task_description: resource?.title || 'Resource',
+    changes
+  });
+
   // Subscribe to realtime changes for collaborative updates
   useEffect(() => {
     if (!supabase) return;
@@ -77,9 +96,10 @@ export function useResources() {
       if (error) throw error;
       return data as Resource;
     },
-    onSuccess: () => {
+    onSuccess: (resource) => {
       queryClient.invalidateQueries({ queryKey: ['resources'] });
       toast.success('Resource added');
+      logResourceActivity(resource, 'created', null);
     },
     onError: (error) => {
       console.error('Error adding resource:', error);
@@ -102,9 +122,12 @@ export function useResources() {
       if (error) throw error;
       return data as Resource;
     },
-    onSuccess: () => {
+    onSuccess: (resource, { id, updates }) => {
       queryClient.invalidateQueries({ queryKey: ['resources'] });
       toast.success('Resource updated');
+
+      const changes = diffFields(resources.find(r => r.id === id), updates);
+      if (changes) logResourceActivity(resource, 'updated', changes);
     },
     onError: (error) => {
       console.error('Error updating resource:', error);
@@ -124,9 +147,10 @@ export function useResources() {
 
       if (error) throw error;
     },
-    onSuccess: () => {
+    onSuccess: (_, id) => {
       queryClient.invalidateQueries({ queryKey: ['resources'] });
       toast.success('Resource deleted');
+      logResourceActivity(resources.find(r => r.id === id), 'deleted', null);
     },
     onError: (error) => {
       console.error('Error deleting resource:', error);
@@ -50,6 +50,8 @@ export function useRoasIgnores() {
 
       // Log activity
       await logActivity(supabase, queryClient, {
+        entity_type: 'campaign',
+        entity_id: campaignName,
         priority_id: null,
         user_id: getCurrentUserId(),
         action: 'roas_ignored',
@@ -87,6 +89,8 @@ export function useRoasIgnores() {
 
       // Log activity
       await logActivity(supabase, queryClient, {
+        entity_type: 'campaign',
+        entity_id: campaignName,
         priority_id: null,
         user_id: getCurrentUserId(),
         action: 'roas_unignored',
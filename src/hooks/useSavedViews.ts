@@ -0,0 +1,183 @@
+/**
+ * Custom hooks for saved dashboard views
+ */
+
+import { useEffect, useMemo, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useSupabase } from '@/contexts/use-supabase';
+import { useAuth } from '@/contexts/use-auth';
+import { useCampaignFilter } from '@/contexts/use-campaign-filter';
+import { SavedView, SavedViewUpsert } from '@/types/saved-views';
+import { hasViewStateParams, normalizeViewState, parseViewState, VIEW_ID_PARAM } from '@/utils/savedViews';
+import { toast } from 'sonner';
+
+export function useSavedViews() {
+  const { supabase } = useSupabase();
+  const queryClient = useQueryClient();
+  const { currentUser, hasRole } = useAuth();
+  const userId = currentUser?.id;
+
+  // The user's own views and everyone's shared ones
+  const { data, isLoading } = useQuery<SavedView[]>({
+    queryKey: ['saved-views', userId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('saved_views')
+        .select('*')
+        .or(`visibility.eq.shared,owner_id.eq.${userId}`)
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return ((data || []) as SavedView[]).map(view => ({ ...view, state: normalizeViewState(view.state) }));
+    },
+    enabled: !!supabase && !!userId
+  });
+
+  const { data: defaultViewId = null, isLoading: isLoadingDefault } = useQuery<string | null>({
+    queryKey: ['saved-view-default', userId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('saved_view_defaults')
+        .select('view_id')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return (data as { view_id: string } | null)?.view_id ?? null;
+    },
+    enabled: !!supabase && !!userId
+  });
+
+  const views = useMemo(() => data || [], [data]);
+
+  const canEdit = (view: SavedView) => view.owner_id === userId || hasRole('admin');
+
+  const saveView = useMutation({
+    mutationFn: async (view: SavedViewUpsert) => {
+      if (!userId) throw new Error('Sign in to save views');
+
+      const { id, ...fields } = view;
+      const row = { ...fields, name: view.name.trim() };
+
+      // Existing views keep their owner - only new ones are saved as the current user
+      const { data, error } = id
+        ? await supabase
+            .from('saved_views')
+            .update(row)
+            .eq('id', id)
+            .select()
+            .single()
+        : await supabase
+            .from('saved_views')
+            .insert({ ...row, owner_id: userId })
+            .select()
+            .single();
+
+      if (error) throw error;
+      return data as SavedView;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['saved-views'] });
+      toast.success('View saved');
+    },
+    onError: (error) => {
+      console.error('Error saving view:', error);
+      toast.error(`Failed to save view: ${(error as Error)?.message || 'Unknown error'}`);
+    }
+  });
+
+  const deleteView = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('saved_views')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['saved-views'] });
+      queryClient.invalidateQueries({ queryKey: ['saved-view-default'] });
+      toast.success('View deleted');
+    },
+    onError: (error) => {
+      console.error('Error deleting view:', error);
+      toast.error('Failed to delete view');
+    }
+  });
+
+  // null clears the default
+  const setDefaultView = useMutation({
+    mutationFn: async (viewId: string | null) => {
+      if (!userId) throw new Error('Sign in to set a default view');
+
+      const { error } = viewId
+        ? await supabase
+            .from('saved_view_defaults')
+            .upsert({ user_id: userId, view_id: viewId }, { onConflict: 'user_id' })
+        : await supabase
+            .from('saved_view_defaults')
+            .delete()
+            .eq('user_id', userId);
+
+      if (error) throw error;
+    },
+    onSuccess: (_, viewId) => {
+      queryClient.invalidateQueries({ queryKey: ['saved-view-default'] });
+      toast.success(viewId ? 'Default view set' : 'Default view cleared');
+    },
+    onError: (error) => {
+      console.error('Error setting default view:', error);
+      toast.error('Failed to set default view');
+    }
+  });
+
+  return {
+    views,
+    defaultViewId,
+    isLoading: isLoading || isLoadingDefault,
+    saveView: saveView.mutate,
+    deleteView: deleteView.mutate,
+    setDefaultView: setDefaultView.mutate,
+    isSaving: saveView.isPending,
+    canEdit
+  };
+}
+
+/**
+ * Restores the view state once when a page opens: the state in the query string
+ * (a shared link), else the saved view it names, else the user's default view
+ * @param onRestore - Called with the saved view that was opened, or null for a shared link's state
+ */
+export function useRestoreSavedView(onRestore: (view: SavedView | null) => void) {
+  const [searchParams] = useSearchParams();
+  const { applyViewState } = useCampaignFilter();
+  const { views, defaultViewId, isLoading } = useSavedViews();
+  const hasRestored = useRef(false);
+
+  useEffect(() => {
+    if (hasRestored.current) return;
+
+    if (hasViewStateParams(searchParams)) {
+      hasRestored.current = true;
+      applyViewState(parseViewState(searchParams));
+      onRestore(null);
+      return;
+    }
+
+    if (isLoading) return;
+    hasRestored.current = true;
+
+    const viewId = searchParams.get(VIEW_ID_PARAM) || defaultViewId;
+    if (!viewId) return;
+
+    const view = views.find(v => v.id === viewId);
+    if (view) {
+      applyViewState(view.state);
+      onRestore(view);
+    } else if (searchParams.has(VIEW_ID_PARAM)) {
+      toast.error('That saved view no longer exists or is not shared with you');
+    }
+  }, [searchParams, views, defaultViewId, isLoading, applyViewState, onRestore]);
+}
@@ -0,0 +1,96 @@
+/**
+ * Custom hooks for agency spend normalization rules
+ */
+
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useSupabase } from '@/contexts/use-supabase';
+import { useAuth } from '@/contexts/use-auth';
+import { useCampaignFilter } from '@/contexts/use-campaign-filter';
+import { CampaignDataRow } from '@/types/campaign';
+import { SpendNormalizationRule, SpendNormalizationRuleUpsert } from '@/types/spend-normalization';
+import { applySpendNormalization } from '@/utils/spendNormalization';
+import { fetchSpendNormalizationRules } from '@/lib/spendNormalizationRules';
+import { toast } from 'sonner';
+
+export function useSpendNormalizationRules() {
+  const { supabase } = useSupabase();
+  const queryClient = useQueryClient();
+  const { currentUser, hasRole } = useAuth();
+
+  const { data: rules = [], isLoading } = useQuery<SpendNormalizationRule[]>({
+    queryKey: ['spend-normalization-rules'],
+    queryFn: () => fetchSpendNormalizationRules(supabase),
+    enabled: !!supabase
+  });
+
+  const saveRule = useMutation({
+    mutationFn: async (rule: SpendNormalizationRuleUpsert) => {
+      if (!hasRole('admin')) throw new Error('Only admins can manage spend normalization rules');
+
+      const { error } = await supabase
+        .from('spend_normalization_rules')
+        .upsert({
+          ...rule,
+          value: rule.method === 'pass_through' ? null : rule.value,
+          updated_by: currentUser?.id || null
+        });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['spend-normalization-rules'] });
+      toast.success('Spend rule saved');
+    },
+    onError: (error) => {
+      console.error('Error saving spend normalization rule:', error);
+      toast.error(`Failed to save spend rule: ${(error as Error)?.message || 'Unknown error'}`);
+    }
+  });
+
+  const deleteRule = useMutation({
+    mutationFn: async (id: string) => {
+      if (!hasRole('admin')) throw new Error('Only admins can manage spend normalization rules');
+
+      const { error } = await supabase
+        .from('spend_normalization_rules')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['spend-normalization-rules'] });
+      toast.success('Spend rule deleted');
+    },
+    onError: (error) => {
+      console.error('Error deleting spend normalization rule:', error);
+      toast.error('Failed to delete spend rule');
+    }
+  });
+
+  return {
+    rules,
+    isLoading,
+    saveRule: saveRule.mutate,
+    deleteRule: deleteRule.mutate,
+    isSaving: saveRule.isPending,
+    canManage: hasRole('admin')
+  };
+}
+
+/**
+ * Delivery rows with spend normalized by the agency rules, or as reported when
+ * the raw/normalized toggle is set to raw
+ */
+export function useNormalizedCampaignData<T extends CampaignDataRow>(rows: T[]): T[] {
+  const { spendMode, extractAgencyInfo } = useCampaignFilter();
+  const { rules } = useSpendNormalizationRules();
+
+  return useMemo(
+    () => spendMode === 'raw'
+      ? rows
+      : applySpendNormalization(rows, rules, campaignName => extractAgencyInfo(campaignName).abbreviation),
+    [rows, rules, spendMode, extractAgencyInfo]
+  );
+}
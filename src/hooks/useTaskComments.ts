@@ -0,0 +1,208 @@
+/**
+ * Custom hooks for task comments
+ *
+ * Comments are keyed to the task's stable identity (client_name + created_at), the same
+ * key carry-forward uses, so they stay with the task as it moves from day to day.
+ * Read state is tracked per user and task in priority_comment_reads.
+ */
+
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useSupabase } from '@/contexts/use-supabase';
+import { useAuth } from '@/contexts/use-auth';
+import { getUsers } from '@/config/users';
+import { DailyPriority, PriorityComment, PriorityCommentInsert } from '@/types/daily-priorities';
+import { extractMentions } from '@/utils/mentions';
+import { toast } from 'sonner';
+
+type TaskIdentity = Pick<DailyPriority, 'client_name' | 'created_at'>;
+
+export interface TaskCommentSummary {
+  count: number;
+  unread: number;
+  unreadMentions: number; // Unread comments that mention the current user
+}
+
+const getTaskKey = (clientName: string | null, createdAt: string) => `${clientName}_${createdAt}`;
+
+export function useTaskComments(task: DailyPriority, enabled: boolean = true) {
+  const { supabase } = useSupabase();
+  const queryClient = useQueryClient();
+  const { currentUser, hasRole } = useAuth();
+
+  const { data: comments = [], isLoading } = useQuery<PriorityComment[]>({
+    queryKey: ['priority-comments', task.client_name, task.created_at],
+    queryFn: async () => {
+      let query = supabase
+        .from('priority_comments')
+        .select('*')
+        .eq('task_created_at', task.created_at);
+
+      // Handle null client_name properly
+      query = task.client_name === null
+        ? query.is('task_client_name', null)
+        : query.eq('task_client_name', task.client_name);
+
+      const { data, error } = await query.order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as PriorityComment[];
+    },
+    enabled: !!supabase && enabled && !!task.created_at
+  });
+
+  // Top-level comments in order, each with its replies
+  const threads = useMemo(() => {
+    const roots = comments.filter(c => !c.parent_id);
+    return roots.map(root => ({
+      comment: root,
+      replies: comments.filter(c => c.parent_id === root.id)
+    }));
+  }, [comments]);
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['priority-comments'] });
+
+  const addComment = useMutation({
+    mutationFn: async ({ comment, parentId }: { comment: string; parentId?: string | null }) => {
+      const commentData: PriorityCommentInsert = {
+        priority_id: task.id,
+        task_client_name: task.client_name,
+        task_created_at: task.created_at,
+        parent_id: parentId || null,
+        comment: comment.trim(),
+        mentions: extractMentions(comment, getUsers()),
+        created_by: currentUser?.id || null
+      };
+
+      const { data, error } = await supabase
+        .from('priority_comments')
+        .insert(commentData)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as PriorityComment;
+    },
+    onSuccess: invalidate,
+    onError: (error) => {
+      console.error('Error adding comment:', error);
+      toast.error(`Failed to add comment: ${(error as Error)?.message || 'Unknown error'}`);
+    }
+  });
+
+  const editComment = useMutation({
+    mutationFn: async ({ id, comment }: { id: string; comment: string }) => {
+      const existing = comments.find(c => c.id === id);
+      if (existing?.created_by !== currentUser?.id) throw new Error('You can only edit your own comments');
+
+      const { error } = await supabase
+        .from('priority_comments')
+        .update({
+          comment: comment.trim(),
+          mentions: extractMentions(comment, getUsers()),
+          edited_at: new Date().toISOString()
+        })
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: (error) => {
+      console.error('Error editing comment:', error);
+      toast.error(`Failed to edit comment: ${(error as Error)?.message || 'Unknown error'}`);
+    }
+  });
+
+  // Deleting a top-level comment removes its replies too (parent_id is ON DELETE CASCADE)
+  const deleteComment = useMutation({
+    mutationFn: async (id: string) => {
+      const existing = comments.find(c => c.id === id);
+      if (existing?.created_by !== currentUser?.id && !hasRole('admin')) {
+        throw new Error('You can only delete your own comments');
+      }
+
+      const { error } = await supabase
+        .from('priority_comments')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: (error) => {
+      console.error('Error deleting comment:', error);
+      toast.error(`Failed to delete comment: ${(error as Error)?.message || 'Unknown error'}`);
+    }
+  });
+
+  // Record that the current user has seen every comment on this task
+  const markRead = useMutation({
+    mutationFn: async () => {
+      if (!currentUser) return;
+
+      const { error } = await supabase
+        .from('priority_comment_reads')
+        .upsert(
+          {
+            user_id: currentUser.id,
+            task_client_name: task.client_name,
+            task_created_at: task.created_at,
+            last_read_at: new Date().toISOString()
+          },
+          { onConflict: 'user_id,task_client_name,task_created_at' }
+        );
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['priority-comments', 'summary'] });
+    },
+    onError: (error) => {
+      console.error('Error marking comments as read:', error);
+    }
+  });
+
+  return {
+    comments,
+    threads,
+    isLoading,
+    addComment: addComment.mutate,
+    editComment: editComment.mutate,
+    deleteComment: deleteComment.mutate,
+    markRead: markRead.mutate,
+    isSending: addComment.isPending,
+    canEdit: (comment: PriorityComment) => comment.created_by === currentUser?.id,
+    canDelete: (comment: PriorityComment) => comment.created_by === currentUser?.id || hasRole('admin')
+  };
+}
+
+/**
+ * Comment and unread counts for every task, loaded once and shared by all task rows.
+ * Counted in the database (get_task_comment_summaries) for the signed-in user.
+ */
+export function useTaskCommentSummaries() {
+  const { supabase } = useSupabase();
+  const { currentUser } = useAuth();
+
+  const { data } = useQuery({
+    queryKey: ['priority-comments', 'summary', currentUser?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_task_comment_summaries');
+
+      if (error) throw error;
+
+      return new Map<string, TaskCommentSummary>(
+        (data || []).map(row => [
+          getTaskKey(row.task_client_name, row.task_created_at),
+          { count: row.comment_count, unread: row.unread_count, unreadMentions: row.unread_mention_count }
+        ])
+      );
+    },
+    enabled: !!supabase && !!currentUser
+  });
+
+  return {
+    getSummary: (task: TaskIdentity): TaskCommentSummary =>
+      data?.get(getTaskKey(task.client_name, task.created_at)) || { count: 0, unread: 0, unreadMentions: 0 }
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * Custom hook for fetching the full activity history of a single task,
+ * across all of its carried-forward copies
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { useSupabase } from '@/contexts/use-supabase';
+import { ActivityLogEntry } from '@/types/activity-log';
+import { DailyPriority } from '@/types/daily-priorities';
+
+export function useTaskHistory(task: DailyPriority, enabled: boolean = true) {
+  const { supabase } = useSupabase();
+
+  // Under 'activity-log' so anything that logs activity refreshes the timeline too
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['activity-log', 'task', task.client_name, task.created_at],
+    queryFn: async () => {
+      // Every date's copy of the task - identity is (client_name + created_at), see carryForwardTasks
+      let instancesQuery = supabase
+        .from('daily_priorities')
+        .select('id')
+        .eq('created_at', task.created_at);
+
+      instancesQuery = task.client_name === null
+        ? instancesQuery.is('client_name', null)
+        : instancesQuery.eq('client_name', task.client_name);
+
+      const { data: instances, error: instancesError } = await instancesQuery;
+      if (instancesError) throw instancesError;
+
+      const instanceIds = Array.from(new Set([task.id, ...(instances || []).map(i => i.id as string)]));
+
+      const { data: entries, error: entriesError } = await supabase
+        .from('activity_log')
+        .select('*')
+        .in('priority_id', instanceIds)
+        .order('created_at', { ascending: false });
+
+      if (entriesError) throw entriesError;
+
+      return {
+        entries: (entries || []) as ActivityLogEntry[],
+        instanceCount: instanceIds.length
+      };
+    },
+    enabled: !!supabase && enabled && !!task.created_at
+  });
+
+  return {
+    entries: data?.entries || [],
+    instanceCount: data?.instanceCount || 0,
+    isLoading,
+    error
+  };
+}
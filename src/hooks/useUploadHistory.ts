@@ -0,0 +1,201 @@
+/**
+ * Custom hook for the campaign data upload ledger
+ *
+ * Batches are recorded by upsertCampaignData in SupabaseContext; this hook
+ * lists them, diffs a batch against the data it overwrote and rolls it back.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { useSupabase } from '@/contexts/use-supabase';
+import { useAuth } from '@/contexts/use-auth';
+import type { CampaignData } from '@/lib/supabase';
+import { UploadBatch, UploadBatchDiff, UploadBatchPreviousRow } from '@/types/upload-history';
+import { diffUploadBatch } from '@/utils/uploadHistory';
+import { toast } from 'sonner';
+
+const PAGE_SIZE = 1000;
+
+// Supabase caps responses at 1000 rows - keep fetching until a short page comes back
+async function fetchAllPages<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: unknown; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  let page = 0;
+  let hasMore = true;
+
+  while (hasMore) {
+    const { data, error } = await fetchPage(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+    if (error) throw error;
+
+    const pageRows = (data || []) as T[];
+    rows.push(...pageRows);
+    hasMore = pageRows.length === PAGE_SIZE;
+    page++;
+  }
+
+  return rows;
+}
+
+// Batches not rolled back that overwrote rows this batch wrote (their ledger rows hold this batch's session ID)
+async function getOverwritingBatches(supabase: SupabaseClient, batch: UploadBatch): Promise<UploadBatch[]> {
+  const ledgerRows = await fetchAllPages<Pick<UploadBatchPreviousRow, 'batch_id'>>((from, to) =>
+    supabase
+      .from('upload_batch_rows')
+      .select('batch_id')
+      .eq('previous->>user_session_id', batch.session_id)
+      .order('id', { ascending: true })
+      .range(from, to)
+  );
+
+  const batchIds = [...new Set(ledgerRows.map(row => row.batch_id))].filter(id => id !== batch.id);
+  if (batchIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('upload_batches')
+    .select('*')
+    .in('id', batchIds)
+    .neq('status', 'rolled_back')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data as UploadBatch[];
+}
+
+export function useUploadHistory() {
+  const { supabase } = useSupabase();
+  const queryClient = useQueryClient();
+  const { currentUser, hasRole } = useAuth();
+
+  const { data: batches = [], isLoading } = useQuery<UploadBatch[]>({
+    queryKey: ['upload-batches'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('upload_batches')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(200);
+
+      if (error) throw error;
+      return data as UploadBatch[];
+    },
+    enabled: !!supabase
+  });
+
+  // Remove the rows a batch still owns and restore the rows it overwrote
+  const rollbackBatch = useMutation({
+    mutationFn: async (batch: UploadBatch) => {
+      if (!hasRole('admin')) throw new Error('Only admins can roll back uploads');
+      if (batch.status === 'rolled_back') throw new Error('This upload has already been rolled back');
+      if (batch.status === 'incomplete') throw new Error('The rows this upload overwrote were not all recorded, so it cannot be rolled back');
+
+      // Rolling back would restore rows older than the ones a later upload overwrote
+      // and leave that upload's ledger pointing at rows that are gone, so uploads
+      // are rolled back newest first
+      const laterBatches = await getOverwritingBatches(supabase, batch);
+      if (laterBatches.length > 0) {
+        const names = laterBatches.map(later => later.file_name || `upload of ${new Date(later.created_at).toLocaleString()}`);
+        throw new Error(`A later upload changed rows from this one - roll back ${names.join(', ')} first`);
+      }
+
+      const previousRows = await fetchAllPages<UploadBatchPreviousRow>((from, to) =>
+        supabase
+          .from('upload_batch_rows')
+          .select('*')
+          .eq('batch_id', batch.id)
+          .order('id', { ascending: true })
+          .range(from, to)
+      );
+
+      const { error: deleteError } = await supabase
+        .from('campaign_data')
+        .delete()
+        .eq('user_session_id', batch.session_id);
+
+      if (deleteError) throw deleteError;
+
+      // Put back the overwritten rows
+      const chunkSize = 500;
+      for (let i = 0; i < previousRows.length; i += chunkSize) {
+        const restoredRows = previousRows.slice(i, i + chunkSize).map(row => {
+          // Drop the old ID - the row is re-inserted, not matched on it
+          const { id, ...previous } = row.previous;
+          return previous;
+        });
+
+        const { error: restoreError } = await supabase
+          .from('campaign_data')
+          .upsert(restoredRows, {
+            onConflict: 'date,campaign_order_name',
+            ignoreDuplicates: true
+          });
+
+        if (restoreError) throw restoreError;
+      }
+
+      const { error: updateError } = await supabase
+        .from('upload_batches')
+        .update({
+          status: 'rolled_back',
+          rolled_back_at: new Date().toISOString(),
+          rolled_back_by: currentUser?.id || null
+        })
+        .eq('id', batch.id);
+
+      if (updateError) throw updateError;
+
+      return previousRows.length;
+    },
+    onSuccess: (restoredCount) => {
+      queryClient.invalidateQueries({ queryKey: ['upload-batches'] });
+      queryClient.invalidateQueries({ queryKey: ['upload-batch-diff'] });
+      toast.success(`Upload rolled back${restoredCount > 0 ? ` - ${restoredCount.toLocaleString()} previous rows restored` : ''}`);
+    },
+    onError: (error) => {
+      console.error('Error rolling back upload:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to roll back upload');
+    }
+  });
+
+  return {
+    batches,
+    isLoading,
+    rollbackBatch: rollbackBatch.mutate,
+    isRollingBack: rollbackBatch.isPending,
+    canRollback: hasRole('admin')
+  };
+}
+
+/**
+ * What a batch changed: the rows it still owns compared with the rows it overwrote
+ */
+export function useUploadBatchDiff(batch: UploadBatch | null) {
+  const { supabase } = useSupabase();
+
+  return useQuery<UploadBatchDiff>({
+    queryKey: ['upload-batch-diff', batch?.id],
+    queryFn: async () => {
+      const [currentRows, previousRows] = await Promise.all([
+        fetchAllPages<CampaignData>((from, to) =>
+          supabase
+            .from('campaign_data')
+            .select('*')
+            .eq('user_session_id', batch.session_id)
+            .order('id', { ascending: true })
+            .range(from, to)
+        ),
+        fetchAllPages<UploadBatchPreviousRow>((from, to) =>
+          supabase
+            .from('upload_batch_rows')
+            .select('*')
+            .eq('batch_id', batch.id)
+            .order('id', { ascending: true })
+            .range(from, to)
+        )
+      ]);
+
+      return diffUploadBatch(currentRows, previousRows, batch.row_count);
+    },
+    enabled: !!supabase && !!batch
+  });
+}
@@ -0,0 +1,66 @@
+/**
+ * Custom hooks that keep page state in the query string, so every view can be
+ * bookmarked or linked and back/forward step through changes
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useCampaignFilter } from '@/contexts/use-campaign-filter';
+import { parseViewState, serializeViewState, VIEW_ID_PARAM, withViewState } from '@/utils/savedViews';
+
+/**
+ * One query parameter as state. Setting it adds a history entry; null removes it.
+ */
+export function useSearchParamState(key: string): [string | null, (value: string | null) => void] {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const setValue = useCallback((value: string | null) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      if (value === null) {
+        next.delete(key);
+      } else {
+        next.set(key, value);
+      }
+      return next;
+    });
+  }, [key, setSearchParams]);
+
+  return [searchParams.get(key), setValue];
+}
+
+/**
+ * Two-way sync between the campaign filter view state (filters, date range,
+ * tab, chart settings) and the query string, in the format saved view links use
+ */
+export function useViewStateUrlSync() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { viewState, applyViewState } = useCampaignFilter();
+  const query = serializeViewState(viewState).toString();
+  // What each side last looked like, to tell which one changed. The query string
+  // starts unseen so it wins on load.
+  const lastUrlQuery = useRef<string | null>(null);
+  const lastQuery = useRef(query);
+
+  useEffect(() => {
+    const urlState = parseViewState(searchParams);
+    const urlQuery = serializeViewState(urlState).toString();
+    const urlChanged = urlQuery !== lastUrlQuery.current;
+    const stateChanged = query !== lastQuery.current;
+    lastUrlQuery.current = urlQuery;
+    lastQuery.current = query;
+
+    if (urlQuery === query) return;
+
+    // A saved view link is opened by useRestoreSavedView
+    const opensSavedView = searchParams.has(VIEW_ID_PARAM);
+    if (urlChanged && !opensSavedView) {
+      // Query string -> state, on load and on back/forward
+      applyViewState(urlState);
+    } else if (stateChanged) {
+      // State -> query string. Opening a saved view link swaps ?view=<id> for its
+      // state without a new history entry.
+      setSearchParams(withViewState(searchParams, viewState), { replace: opensSavedView });
+    }
+  }, [searchParams, query, viewState, applyViewState, setSearchParams]);
+}
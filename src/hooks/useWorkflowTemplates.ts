@@ -0,0 +1,113 @@
+/**
+ * Custom hook for managing renewal/launch workflow templates
+ */
+
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useSupabase } from '@/contexts/use-supabase';
+import { useAuth } from '@/contexts/use-auth';
+import { WorkflowKind, WorkflowTemplate, WorkflowTemplateUpsert } from '@/types/daily-priorities';
+import { resolveWorkflowTemplate } from '@/utils/workflowTemplates';
+import { toast } from 'sonner';
+
+export function useWorkflowTemplates(kind: WorkflowKind) {
+  const { supabase } = useSupabase();
+  const queryClient = useQueryClient();
+  const { currentUser, hasRole } = useAuth();
+
+  const { data: templates = [], isLoading } = useQuery<WorkflowTemplate[]>({
+    queryKey: ['workflow-templates', kind],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('workflow_templates')
+        .select('*')
+        .eq('kind', kind)
+        .order('is_default', { ascending: false })
+        .order('name');
+
+      if (error) throw error;
+      return data as WorkflowTemplate[];
+    },
+    enabled: !!supabase
+  });
+
+  // Create or update a template; making it the default demotes the current default
+  const saveTemplate = useMutation({
+    mutationFn: async (template: WorkflowTemplateUpsert) => {
+      if (!hasRole('editor')) throw new Error('Viewers cannot change workflow templates');
+      if (template.steps.length === 0) throw new Error('A workflow needs at least one step');
+
+      // The default only moves once the template is saved, and old and new switch in
+      // one transaction (set_default_workflow_template) - one default is allowed per kind
+      const isCurrentDefault = !!template.id && !!templates.find(t => t.id === template.id)?.is_default;
+      const { data, error } = await supabase
+        .from('workflow_templates')
+        .upsert({
+          ...template,
+          is_default: isCurrentDefault,
+          updated_by: currentUser?.id || null
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      if (template.is_default && !isCurrentDefault) {
+        const { error: defaultError } = await supabase.rpc('set_default_workflow_template', { p_template_id: data.id });
+        if (defaultError) throw defaultError;
+        return { ...data, is_default: true } as WorkflowTemplate;
+      }
+
+      return data as WorkflowTemplate;
+    },
+    onSuccess: () => {
+      toast.success('Workflow template saved');
+    },
+    onError: (error) => {
+      console.error('Error saving workflow template:', error);
+      toast.error(`Failed to save workflow template: ${(error as Error)?.message || 'Unknown error'}`);
+    },
+    // The template may be saved even when making it the default failed
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['workflow-templates', kind] });
+    }
+  });
+
+  // Records on a deleted template fall back to the default (FK is ON DELETE SET NULL)
+  const deleteTemplate = useMutation({
+    mutationFn: async (id: string) => {
+      if (!hasRole('editor')) throw new Error('Viewers cannot change workflow templates');
+      if (templates.find(t => t.id === id)?.is_default) {
+        throw new Error('Choose another default before deleting this template');
+      }
+
+      const { error } = await supabase
+        .from('workflow_templates')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['workflow-templates', kind] });
+      toast.success('Workflow template deleted');
+    },
+    onError: (error) => {
+      console.error('Error deleting workflow template:', error);
+      toast.error(`Failed to delete workflow template: ${(error as Error)?.message || 'Unknown error'}`);
+    }
+  });
+
+  const defaultTemplate = useMemo(() => templates.find(t => t.is_default), [templates]);
+
+  return {
+    templates,
+    isLoading,
+    defaultTemplate,
+    getTemplate: (templateId: string | null | undefined) => resolveWorkflowTemplate(templates, templateId),
+    saveTemplate: saveTemplate.mutate,
+    deleteTemplate: deleteTemplate.mutate,
+    isSaving: saveTemplate.isPending,
+    canEdit: hasRole('editor')
+  };
+}
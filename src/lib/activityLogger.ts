@@ -4,7 +4,31 @@
 
 import { SupabaseClient } from '@supabase/supabase-js';
 import { QueryClient } from '@tanstack/react-query';
-import { ActivityLogInsert } from '@/types/activity-log';
+import { ActivityFieldChanges, ActivityLogInsert } from '@/types/activity-log';
+
+/**
+ * Field-level diff between a record and the updates applied to it.
+ * Only fields present in `updates` are compared; returns null when nothing changed.
+ */
+export function diffFields(
+  before: object | null | undefined,
+  updates: object,
+  ignoreFields: string[] = ['updated_at', 'updated_by']
+): ActivityFieldChanges | null {
+  const changes: ActivityFieldChanges = {};
+  const previous = (before || {}) as Record<string, unknown>;
+
+  Object.entries(updates).forEach(([field, after]) => {
+    if (after === undefined || ignoreFields.includes(field)) return;
+
+    const beforeValue = previous[field] ?? null;
+    if (JSON.stringify(beforeValue) === JSON.stringify(after ?? null)) return;
+
+    changes[field] = { before: beforeValue, after: after ?? null };
+  });
+
+  return Object.keys(changes).length > 0 ? changes : null;
+}
 
 export async function logActivity(
   supabase: SupabaseClient | null,
@@ -17,8 +41,14 @@ export async function logActivity(
   }
 
   try {
-    console.log('Logging activity:', log);
-    const { data, error } = await supabase.from('activity_log').insert(log).select();
+    const entry = {
+      ...log,
+      entity_type: log.entity_type ?? 'priority',
+      entity_id: log.entity_id ?? log.priority_id ?? null
+    };
+
+    console.log('Logging activity:', entry);
+    const { data, error } = await supabase.from('activity_log').insert(entry).select();
     if (error) {
       console.error('Error logging activity:', error);
     } else {
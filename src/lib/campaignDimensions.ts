@@ -0,0 +1,122 @@
+/**
+ * The campaigns dimension table - one parsed row per campaign order name
+ *
+ * Used by the upload flow and the Agencies page, so nothing here may depend on React.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { CampaignDimensionData } from '@/lib/supabase';
+import { AgencyEntry, findAgencyByCode } from '@/contexts/agency-mapping';
+import { parseCampaignName, ParsedCampaignName } from '@/utils/campaignNameParsing';
+
+const PAGE_SIZE = 1000;
+const UPSERT_CHUNK_SIZE = 500;
+
+export const toCampaignDimension = (campaignName: string): Omit<CampaignDimensionData, 'id' | 'created_at' | 'updated_at'> => {
+  const parsed = parseCampaignName(campaignName);
+  return {
+    campaign_order_name: campaignName,
+    order_id: parsed.orderId,
+    order_ids: parsed.orderIds,
+    agency_abbreviation: parsed.abbreviation || null,
+    agency_name: parsed.agency || null,
+    advertiser: parsed.advertiser || null,
+    market: parsed.market,
+    channel: parsed.channel,
+    flight_code: parsed.flightCode,
+    description: parsed.description,
+    awaiting_io: parsed.awaitingIo,
+    is_test: parsed.isTest
+  };
+};
+
+/**
+ * Parsed fields from a stored row. The agency resolves through the registry
+ * again so agency edits apply without re-parsing every campaign.
+ * @param findAgency - Registry lookup, e.g. createAgencyLookup for a snapshot
+ */
+export const fromCampaignDimension = (
+  row: CampaignDimensionData,
+  findAgency: (code: string | null | undefined) => AgencyEntry | null = findAgencyByCode
+): ParsedCampaignName => {
+  const agency = findAgency(row.agency_abbreviation);
+  return {
+    orderId: row.order_id,
+    orderIds: row.order_ids || [],
+    agency: agency?.display_name ?? row.agency_name ?? '',
+    abbreviation: agency?.abbreviation ?? row.agency_abbreviation ?? '',
+    advertiser: row.advertiser ?? '',
+    market: row.market,
+    channel: row.channel,
+    flightCode: row.flight_code,
+    description: row.description,
+    awaitingIo: row.awaiting_io,
+    isTest: row.is_test || !!agency?.is_test
+  };
+};
+
+/**
+ * Every distinct campaign order name in campaign_data
+ */
+export async function fetchCampaignOrderNames(supabase: SupabaseClient): Promise<string[]> {
+  const campaignNames = new Set<string>();
+
+  for (let page = 0; ; page++) {
+    const { data, error } = await supabase
+      .from('campaign_data')
+      .select('campaign_order_name')
+      .not('campaign_order_name', 'is', null)
+      .order('id', { ascending: true })
+      .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    ((data || []) as Array<{ campaign_order_name: string }>).forEach(row => {
+      if (row.campaign_order_name) campaignNames.add(row.campaign_order_name);
+    });
+
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return [...campaignNames];
+}
+
+/**
+ * Every row of the campaigns dimension table
+ */
+export async function fetchCampaignDimensions(supabase: SupabaseClient): Promise<CampaignDimensionData[]> {
+  const rows: CampaignDimensionData[] = [];
+
+  for (let page = 0; ; page++) {
+    const { data, error } = await supabase
+      .from('campaigns')
+      .select('*')
+      .order('campaign_order_name', { ascending: true })
+      .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    rows.push(...((data || []) as CampaignDimensionData[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return rows;
+}
+
+/**
+ * Parse the given campaign names and upsert them into the dimension table
+ * @returns Number of campaigns written
+ */
+export async function syncCampaignDimensions(supabase: SupabaseClient, campaignNames: string[]): Promise<number> {
+  const rows = [...new Set(campaignNames.filter(Boolean))].map(toCampaignDimension);
+
+  for (let i = 0; i < rows.length; i += UPSERT_CHUNK_SIZE) {
+    const { error } = await supabase
+      .from('campaigns')
+      .upsert(rows.slice(i, i + UPSERT_CHUNK_SIZE), { onConflict: 'campaign_order_name' });
+
+    if (error) throw error;
+  }
+
+  return rows.length;
+}
@@ -0,0 +1,53 @@
+/**
+ * Headless campaign_data loading
+ *
+ * Shared by scheduled reports and health snapshots, which run in edge
+ * functions, so nothing here may depend on React, the DOM or import.meta.env.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { CampaignData } from '@/lib/supabase';
+import type { CampaignDataRow } from '@/types/campaign';
+import { parseAgencyInfo } from '@/utils/campaignNameParsing';
+import { applySpendNormalization } from '@/utils/spendNormalization';
+import { fetchSpendNormalizationRules } from '@/lib/spendNormalizationRules';
+
+/**
+ * Every campaign_data row in the date range (inclusive, all dates when omitted),
+ * in the dashboard's row shape with normalized spend
+ */
+export async function fetchCampaignRows(supabase: SupabaseClient, dateStart?: string, dateEnd?: string): Promise<CampaignDataRow[]> {
+  const pageSize = 1000;
+  const rows: CampaignData[] = [];
+
+  for (let page = 0; ; page++) {
+    let query = supabase
+      .from('campaign_data')
+      .select('date, campaign_order_name, impressions, clicks, revenue, spend, transactions');
+
+    if (dateStart) query = query.gte('date', dateStart);
+    if (dateEnd) query = query.lte('date', dateEnd);
+
+    const { data, error } = await query
+      .order('date', { ascending: true })
+      .range(page * pageSize, (page + 1) * pageSize - 1);
+
+    if (error) throw error;
+    rows.push(...(data as CampaignData[]));
+    if (!data || data.length < pageSize) break;
+  }
+
+  const campaignRows = rows.map(row => ({
+    DATE: row.date,
+    'CAMPAIGN ORDER NAME': row.campaign_order_name,
+    IMPRESSIONS: Number(row.impressions) || 0,
+    CLICKS: Number(row.clicks) || 0,
+    REVENUE: Number(row.revenue) || 0,
+    SPEND: Number(row.spend) || 0,
+    TRANSACTIONS: Number(row.transactions) || 0
+  }));
+
+  // Jobs always use normalized spend, as the dashboard does by default
+  const rules = await fetchSpendNormalizationRules(supabase);
+  return applySpendNormalization(campaignRows, rules, campaignName => parseAgencyInfo(campaignName).abbreviation);
+}
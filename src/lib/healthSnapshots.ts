@@ -0,0 +1,95 @@
+/**
+ * Headless daily campaign health snapshots
+ *
+ * Scores every campaign from the whole campaign_data table - never a viewer's
+ * filtered slice - and stores one snapshot per campaign per day (re-scoring the
+ * same day overwrites it). Runs in the record-health-snapshots edge function,
+ * so nothing here may depend on React, the DOM or import.meta.env.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { format } from 'date-fns';
+import type { ContractTermsData } from '@/lib/supabase';
+import type { ContractTerms, PacingDeliveryData } from '@/types/pacing';
+import type { ContractTermsRow } from '@/types/dashboard';
+import type { HealthProfileAssignment } from '@/types/health-scoring';
+import { loadAgencyRegistry } from '@/contexts/agency-mapping';
+import { fetchCampaignRows } from '@/lib/campaignRows';
+import { processCampaigns } from '@/lib/pacingCalculations';
+import { calculateCampaignHealth } from '@/utils/campaignHealthScoring';
+import { isTestCampaignName, parseAgencyInfo } from '@/utils/campaignNameParsing';
+import { createHealthProfileResolver } from '@/utils/healthScoringProfiles';
+import { toHealthSnapshot } from '@/utils/healthScoreHistory';
+
+/**
+ * Scores every live campaign and upserts today's snapshots
+ * @returns The number of snapshots written
+ */
+export async function recordHealthSnapshots(supabase: SupabaseClient, now: Date = new Date()): Promise<number> {
+  // Agency profile assignments resolve through the registry - fall back to the built-in mapping if it can't load
+  await loadAgencyRegistry(supabase).catch(registryError => {
+    console.error('Error loading agency registry:', registryError);
+  });
+
+  const [rows, contractTermsResult, assignmentsResult] = await Promise.all([
+    fetchCampaignRows(supabase),
+    supabase.from('contract_terms').select('*'),
+    supabase.from('health_profile_assignments').select('*')
+  ]);
+
+  if (contractTermsResult.error) throw contractTermsResult.error;
+  if (assignmentsResult.error) throw assignmentsResult.error;
+
+  const contractTerms: (ContractTerms & ContractTermsRow)[] = ((contractTermsResult.data || []) as ContractTermsData[]).map(row => ({
+    Name: row.campaign_name,
+    'Start Date': row.start_date,
+    'End Date': row.end_date,
+    Budget: String(row.budget),
+    CPM: String(row.cpm),
+    'Impressions Goal': String(row.impressions_goal)
+  }));
+
+  const resolveProfile = createHealthProfileResolver(
+    (assignmentsResult.data || []) as HealthProfileAssignment[],
+    campaignName => parseAgencyInfo(campaignName).abbreviation
+  );
+
+  // Pacing metrics from contract terms, as the health tab calculates them
+  const deliveryData: PacingDeliveryData[] = rows.map(row => ({
+    DATE: row.DATE,
+    'CAMPAIGN ORDER NAME': row['CAMPAIGN ORDER NAME'],
+    IMPRESSIONS: String(row.IMPRESSIONS),
+    SPEND: String(row.SPEND)
+  }));
+  const pacingMetrics = new Map(
+    processCampaigns(contractTerms, deliveryData, deliveryData).map(campaign => [campaign.name, campaign.metrics])
+  );
+
+  const campaignNames = Array.from(new Set(
+    rows
+      .map(row => row['CAMPAIGN ORDER NAME'])
+      .filter(campaignName => campaignName && !isTestCampaignName(campaignName))
+  ));
+
+  const snapshotDate = format(now, 'yyyy-MM-dd');
+  const snapshots = campaignNames
+    .map(campaignName => calculateCampaignHealth(
+      rows,
+      campaignName,
+      [],
+      contractTerms,
+      pacingMetrics.get(campaignName) || null,
+      resolveProfile(campaignName)
+    ))
+    .filter(health => health.healthScore > 0)
+    .map(health => toHealthSnapshot(health, snapshotDate));
+
+  if (snapshots.length === 0) return 0;
+
+  const { error } = await supabase
+    .from('campaign_health_snapshots')
+    .upsert(snapshots, { onConflict: 'campaign_name,snapshot_date' });
+
+  if (error) throw error;
+  return snapshots.length;
+}
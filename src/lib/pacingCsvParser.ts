@@ -1,10 +1,11 @@
 import Papa from 'papaparse';
 import type { ContractTerms, PacingDeliveryData } from '../types/pacing';
-import { GenericCSVRow } from '../types/csv';
+import { CsvImportKind, GenericCSVRow } from '../types/csv';
+import { suggestColumnMapping } from '../utils/csvColumnMapping';
 
-// Helper function to find column with case-insensitive matching
-const findColumn = (headers: string[], targetColumn: string): string | null => {
-  return headers.find(header => header.toLowerCase() === targetColumn.toLowerCase()) || null;
+// Helper function to find a column by name or a known DSP synonym (case/punctuation-insensitive)
+const findColumn = (headers: string[], targetColumn: string, kind: CsvImportKind): string | null => {
+  return suggestColumnMapping(kind, headers)[targetColumn] || null;
 };
 
 // Helper function to normalize data with case-insensitive column mapping
@@ -18,7 +19,7 @@ const normalizeContractTermsData = (data: GenericCSVRow[]): ContractTerms[] => {
   const requiredColumns = ['Name', 'Start Date', 'End Date', 'Budget', 'CPM', 'Impressions Goal'];
   
   for (const requiredCol of requiredColumns) {
-    const actualCol = findColumn(headers, requiredCol);
+    const actualCol = findColumn(headers, requiredCol, 'contract-terms');
     if (actualCol) {
       columnMap[requiredCol] = actualCol;
     }
@@ -51,7 +52,7 @@ export const parseContractTermsCSV = (file: File): Promise<ContractTerms[]> => {
         if (rawData.length > 0) {
           const headers = Object.keys(rawData[0]);
           const requiredColumns = ['Name', 'Start Date', 'End Date', 'Budget', 'CPM', 'Impressions Goal'];
-          const missingColumns = requiredColumns.filter(col => !findColumn(headers, col));
+          const missingColumns = requiredColumns.filter(col => !findColumn(headers, col, 'contract-terms'));
           
           if (missingColumns.length > 0) {
             reject(new Error(`Missing required columns: ${missingColumns.join(', ')}. Available columns: ${headers.join(', ')}`));
@@ -80,7 +81,7 @@ const normalizeDeliveryData = (data: GenericCSVRow[]): PacingDeliveryData[] => {
   const requiredColumns = ['DATE', 'CAMPAIGN ORDER NAME', 'IMPRESSIONS', 'SPEND'];
   
   for (const requiredCol of requiredColumns) {
-    const actualCol = findColumn(headers, requiredCol);
+    const actualCol = findColumn(headers, requiredCol, 'delivery');
     if (actualCol) {
       columnMap[requiredCol] = actualCol;
     }
@@ -113,7 +114,7 @@ export const parsePacingDeliveryDataCSV = (file: File): Promise<PacingDeliveryDa
         if (rawData.length > 0) {
           const headers = Object.keys(rawData[0]);
           const requiredColumns = ['DATE', 'CAMPAIGN ORDER NAME', 'IMPRESSIONS', 'SPEND'];
-          const missingColumns = requiredColumns.filter(col => !findColumn(headers, col));
+          const missingColumns = requiredColumns.filter(col => !findColumn(headers, col, 'delivery'));
           
           if (missingColumns.length > 0) {
             reject(new Error(`Missing required columns: ${missingColumns.join(', ')}. Available columns: ${headers.join(', ')}`));
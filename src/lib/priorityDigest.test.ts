@@ -0,0 +1,194 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildDailyPrioritiesView,
+  buildDigestSlackBlocks,
+  renderDigestHtml,
+  renderDigestMarkdown,
+  renderPriorityDigest
+} from '@/lib/priorityDigest';
+import { DailyPriority } from '@/types/daily-priorities';
+
+const makeTask = (overrides: Partial<DailyPriority>): DailyPriority => ({
+  id: 'task-1',
+  active_date: '2026-10-19',
+  created_date: '2026-10-12T09:00:00.000Z',
+  priority_order: 1,
+  section: 'partner_success',
+  original_section: null,
+  agency_name: 'Orangellow',
+  client_name: 'Acme Dental',
+  ticket_url: null,
+  description: null,
+  assignees: [],
+  completed: false,
+  completed_at: null,
+  created_at: '2026-10-12T09:00:00.000Z',
+  updated_at: '2026-10-12T09:00:00.000Z',
+  created_by: null,
+  updated_by: null,
+  recurring_priority_id: null,
+  occurrence_date: null,
+  alert_type: null,
+  alert_campaign_name: null,
+  alert_resolved_at: null,
+  ...overrides
+});
+
+const priorities: DailyPriority[] = [
+  makeTask({
+    id: 'launch-2',
+    section: 'launches',
+    priority_order: 2,
+    client_name: 'Beta Roofing',
+    agency_name: null,
+    assignees: ['Sam']
+  }),
+  makeTask({
+    id: 'launch-1',
+    section: 'launches',
+    priority_order: 1,
+    client_name: 'Alpha Autos',
+    ticket_url: 'https://tickets.example.com/browse/OPS-12',
+    description: 'Creative approved\nWaiting on pixel',
+    assignees: ['Ana', 'Sam']
+  }),
+  makeTask({
+    id: 'blocked-1',
+    section: 'blocked',
+    original_section: 'engineering',
+    client_name: 'Gamma Gyms',
+    description: 'Client has not sent logins'
+  }),
+  makeTask({ id: 'done-1', section: 'ops', client_name: 'Done Already', completed: true })
+];
+
+const view = buildDailyPrioritiesView('2026-10-19', priorities, {
+  pacing: [{ client_name: 'Acme Dental Q4', description: 'Under-pacing', metric: '72%' }],
+  roas: [
+    { client_name: 'Ignored Campaign', description: 'Low ROAS', isIgnored: true },
+    { client_name: 'Delta Dining', description: 'Low ROAS', metric: 1.2 }
+  ]
+});
+
+const completedYesterday = [makeTask({ id: 'done-2', client_name: 'Epsilon Eyecare', completed: true, assignees: ['Ana'] })];
+
+describe('buildDailyPrioritiesView', () => {
+  it('orders open tasks within each section and drops completed ones', () => {
+    expect(view.manual_sections.launches.map(task => task.id)).toEqual(['launch-1', 'launch-2']);
+    expect(view.manual_sections.ops).toEqual([]);
+    expect(view.manual_sections.blocked.map(task => task.id)).toEqual(['blocked-1']);
+  });
+
+  it('leaves out ignored ROAS alerts and defaults missing alert lists', () => {
+    expect(view.auto_sections.roas.map(alert => alert.client_name)).toEqual(['Delta Dining']);
+    expect(view.auto_sections.renewals).toEqual([]);
+    expect(view.auto_sections.at_risk).toEqual([]);
+  });
+});
+
+describe('renderDigestMarkdown', () => {
+  const markdown = renderDigestMarkdown({ view, completedYesterday });
+
+  it('renders the title, sections and alerts', () => {
+    expect(markdown).toContain('# Daily Priorities - Monday, October 19, 2026');
+    expect(markdown).toContain('## Launches (2)');
+    expect(markdown).toContain('- **Orangellow - Alpha Autos** · _Ana, Sam_ · [Ticket](https://tickets.example.com/browse/OPS-12)');
+    expect(markdown).toContain('  - Waiting on pixel');
+    expect(markdown).toContain('- **Orangellow - Gamma Gyms** · blocked from Engineering\n  - Reason: Client has not sent logins');
+    expect(markdown).toContain('## Pacing Alerts (1)\n\n- **Acme Dental Q4** - Under-pacing (72%)');
+    expect(markdown).toContain('## Completed Yesterday (1)\n\n- ~~Orangellow - Epsilon Eyecare~~ · _Ana_');
+    expect(markdown).not.toContain('Partner Success');
+  });
+
+  it('says so when nothing was completed yesterday', () => {
+    expect(renderDigestMarkdown({ view, completedYesterday: [] })).toContain('Nothing completed yesterday.');
+  });
+
+  it('escapes Markdown in task names', () => {
+    const task = makeTask({ agency_name: null, client_name: 'Acme *Bold* [Link]' });
+    const output = renderDigestMarkdown({ view: buildDailyPrioritiesView('2026-10-19', [task], {}), completedYesterday: [] });
+    expect(output).toContain('- **Acme \\*Bold\\* \\[Link\\]**');
+  });
+});
+
+describe('renderDigestHtml', () => {
+  const html = renderDigestHtml({ view, completedYesterday });
+
+  it('renders a standalone document with escaped content', () => {
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).toContain('<title>Daily Priorities - Monday, October 19, 2026</title>');
+    expect(html).toContain('<a href="https://tickets.example.com/browse/OPS-12">Ticket</a>');
+    expect(html).toContain('<div class="description">Creative approved<br>Waiting on pixel</div>');
+    expect(html).toContain('<li><s>Orangellow - Epsilon Eyecare</s>');
+  });
+
+  it('escapes HTML in task fields', () => {
+    const task = makeTask({ agency_name: null, client_name: '<script>alert(1)</script>' });
+    const output = renderDigestHtml({ view: buildDailyPrioritiesView('2026-10-19', [task], {}), completedYesterday: [] });
+    expect(output).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(output).not.toContain('<script>');
+  });
+});
+
+describe('buildDigestSlackBlocks', () => {
+  const blocks = buildDigestSlackBlocks({ view, completedYesterday });
+
+  it('starts with a header and links task names to their tickets', () => {
+    expect(blocks[0]).toEqual({ type: 'header', text: { type: 'plain_text', text: 'Daily Priorities - Monday, October 19, 2026' } });
+    const launches = blocks.find(block => block.type === 'section' && block.text.text.startsWith('*Launches (2)*'));
+    expect(launches).toBeDefined();
+    expect(JSON.stringify(launches)).toContain('<https://tickets.example.com/browse/OPS-12|Orangellow - Alpha Autos>');
+  });
+
+  it('splits long sections across blocks under the Slack text limit', () => {
+    const tasks = Array.from({ length: 80 }, (_, i) =>
+      makeTask({ id: `task-${i}`, priority_order: i + 1, client_name: `Client ${i}`, description: 'x'.repeat(60) })
+    );
+    const longBlocks = buildDigestSlackBlocks({
+      view: buildDailyPrioritiesView('2026-10-19', tasks, {}),
+      completedYesterday: []
+    });
+    const sections = longBlocks.filter(block => block.type === 'section');
+    expect(sections.length).toBeGreaterThan(1);
+    sections.forEach(block => expect(block.type === 'section' && block.text.text.length).toBeLessThanOrEqual(3000));
+  });
+
+  it('ends with the completed-yesterday context', () => {
+    expect(blocks[blocks.length - 1]).toEqual({
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: ':white_check_mark: *Completed yesterday (1):* Orangellow - Epsilon Eyecare' }]
+    });
+  });
+});
+
+describe('ticket links', () => {
+  const renderWithTicket = (ticketUrl: string) => {
+    const input = {
+      view: buildDailyPrioritiesView('2026-10-19', [makeTask({ ticket_url: ticketUrl })], {}),
+      completedYesterday: []
+    };
+    return {
+      markdown: renderPriorityDigest(input, 'markdown'),
+      html: renderPriorityDigest(input, 'html'),
+      slack: renderPriorityDigest(input, 'slack')
+    };
+  };
+
+  it.each(['javascript:alert(document.cookie)', 'data:text/html,<script>alert(1)</script>', 'vbscript:msgbox', 'not a url'])(
+    'does not link %s',
+    (ticketUrl) => {
+      const { markdown, html, slack } = renderWithTicket(ticketUrl);
+      expect(markdown).not.toContain('[Ticket]');
+      expect(html).not.toContain('<a href');
+      expect(slack).not.toContain('|Orangellow - Acme Dental>');
+      expect(`${markdown}${html}${slack}`).not.toContain(ticketUrl.split(':')[0] + ':');
+    }
+  );
+
+  it('keeps http links and encodes characters that would break the link syntax', () => {
+    const { markdown, html, slack } = renderWithTicket('http://tickets.example.com/issue?id=(12)|x');
+    expect(markdown).toContain('[Ticket](http://tickets.example.com/issue?id=%2812%29|x)');
+    expect(html).toContain('<a href="http://tickets.example.com/issue?id=(12)|x">Ticket</a>');
+    expect(slack).toContain('<http://tickets.example.com/issue?id=(12)%7Cx|Orangellow - Acme Dental>');
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * Daily priorities digest - renders one date's board as Markdown, standalone HTML
+ * or Slack Block Kit JSON for posting to chat
+ *
+ * Pure functions of their input: no React, DOM, Supabase or current time, so the
+ * same fixture always renders the same digest.
+ */
+
+import { format, parseISO } from 'date-fns';
+import {
+  AutoGeneratedPriority,
+  DailyPrioritiesView,
+  DailyPriority,
+  PrioritySection,
+  SECTION_LABELS,
+  SECTION_ORDER
+} from '@/types/daily-priorities';
+
+export type DigestFormat = 'markdown' | 'html' | 'slack';
+
+export const DIGEST_FORMAT_LABELS: Record<DigestFormat, string> = {
+  markdown: 'Markdown',
+  html: 'HTML',
+  slack: 'Slack blocks'
+};
+
+export interface PriorityDigestInput {
+  view: DailyPrioritiesView;
+  completedYesterday: DailyPriority[];
+}
+
+// Slack rejects section text over 3000 characters
+const SLACK_TEXT_LIMIT = 3000;
+
+const AUTO_SECTIONS: { key: keyof DailyPrioritiesView['auto_sections']; title: string }[] = [
+  { key: 'renewals', title: 'Upcoming Renewals' },
+  { key: 'at_risk', title: 'At-risk Launches & Renewals' },
+  { key: 'pacing', title: 'Pacing Alerts' },
+  { key: 'roas', title: 'ROAS Alerts' }
+];
+
+/**
+ * Groups one date's tasks and auto-generated alerts into a DailyPrioritiesView.
+ * Completed tasks are left out (they show up under "Completed Yesterday" the next
+ * day), and so are ignored ROAS alerts.
+ */
+export function buildDailyPrioritiesView(
+  date: string,
+  priorities: DailyPriority[],
+  autoSections: Partial<DailyPrioritiesView['auto_sections']>
+): DailyPrioritiesView {
+  const manualSections = SECTION_ORDER.reduce((acc, section) => {
+    acc[section] = priorities
+      .filter(p => p.section === section && !p.completed)
+      .sort((a, b) => a.priority_order - b.priority_order);
+    return acc;
+  }, {} as DailyPrioritiesView['manual_sections']);
+
+  return {
+    date,
+    manual_sections: manualSections,
+    auto_sections: {
+      renewals: autoSections.renewals || [],
+      at_risk: autoSections.at_risk || [],
+      pacing: autoSections.pacing || [],
+      roas: (autoSections.roas || []).filter(alert => !alert.isIgnored)
+    }
+  };
+}
+
+const getDigestTitle = (date: string) => `Daily Priorities - ${format(parseISO(date), 'EEEE, MMMM d, yyyy')}`;
+
+const getTaskName = (task: DailyPriority) =>
+  [task.agency_name, task.client_name].filter(Boolean).join(' - ') || 'Untitled task';
+
+const getAlertMetric = (alert: AutoGeneratedPriority) =>
+  alert.metric !== undefined && alert.metric !== '' ? ` (${alert.metric})` : '';
+
+// Ticket links are free text - only http(s) URLs are linked, so a javascript: or
+// data: URL can't end up in a digest someone clicks through
+const getTicketUrl = (task: DailyPriority): string | null => {
+  if (!task.ticket_url) return null;
+  try {
+    const url = new URL(task.ticket_url.trim());
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+  } catch {
+    return null;
+  }
+};
+
+// Blocked tasks: which section they were blocked from; the description is the reason
+const getBlockedFrom = (task: DailyPriority) =>
+  task.section === 'blocked' && task.original_section ? SECTION_LABELS[task.original_section as PrioritySection] : null;
+
+// ---------- Markdown ----------
+
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_[\]<>])/g, '\\$1');
+
+const taskToMarkdown = (task: DailyPriority): string => {
+  const blockedFrom = getBlockedFrom(task);
+  const ticketUrl = getTicketUrl(task);
+  const details = [
+    task.assignees.length > 0 ? `_${escapeMarkdown(task.assignees.join(', '))}_` : null,
+    // Parentheses would end the link target early
+    ticketUrl ? `[Ticket](${ticketUrl.replace(/\(/g, '%28').replace(/\)/g, '%29')})` : null,
+    blockedFrom ? `blocked from ${blockedFrom}` : null
+  ].filter(Boolean);
+
+  const lines = [`- **${escapeMarkdown(getTaskName(task))}**${details.length > 0 ? ` · ${details.join(' · ')}` : ''}`];
+  if (task.description) {
+    const label = task.section === 'blocked' ? 'Reason: ' : '';
+    task.description.split('\n').filter(line => line.trim()).forEach(line => {
+      lines.push(`  - ${label}${escapeMarkdown(line.trim())}`);
+    });
+  }
+  return lines.join('\n');
+};
+
+export function renderDigestMarkdown({ view, completedYesterday }: PriorityDigestInput): string {
+  const parts: string[] = [`# ${getDigestTitle(view.date)}`];
+
+  SECTION_ORDER.forEach(section => {
+    const tasks = view.manual_sections[section];
+    if (tasks.length === 0) return;
+    parts.push(`## ${SECTION_LABELS[section]} (${tasks.length})\n\n${tasks.map(taskToMarkdown).join('\n')}`);
+  });
+
+  AUTO_SECTIONS.forEach(({ key, title }) => {
+    const alerts = view.auto_sections[key];
+    if (alerts.length === 0) return;
+    parts.push(`## ${title} (${alerts.length})\n\n${alerts
+      .map(alert => `- **${escapeMarkdown(alert.client_name)}** - ${escapeMarkdown(alert.description)}${getAlertMetric(alert)}`)
+      .join('\n')}`);
+  });
+
+  parts.push(completedYesterday.length > 0
+    ? `## Completed Yesterday (${completedYesterday.length})\n\n${completedYesterday
+      .map(task => `- ~~${escapeMarkdown(getTaskName(task))}~~${task.assignees.length > 0 ? ` · _${escapeMarkdown(task.assignees.join(', '))}_` : ''}`)
+      .join('\n')}`
+    : '## Completed Yesterday\n\nNothing completed yesterday.');
+
+  return parts.join('\n\n') + '\n';
+}
+
+// ---------- HTML ----------
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const taskToHtml = (task: DailyPriority): string => {
+  const blockedFrom = getBlockedFrom(task);
+  const ticketUrl = getTicketUrl(task);
+  const details = [
+    task.assignees.length > 0 ? `<span class="assignees">${escapeHtml(task.assignees.join(', '))}</span>` : null,
+    ticketUrl ? `<a href="${escapeHtml(ticketUrl)}">Ticket</a>` : null,
+    blockedFrom ? `<span class="muted">blocked from ${escapeHtml(blockedFrom)}</span>` : null
+  ].filter(Boolean);
+
+  const description = task.description
+    ? `<div class="description">${task.section === 'blocked' ? '<strong>Reason:</strong> ' : ''}${escapeHtml(task.description).replace(/\n/g, '<br>')}</div>`
+    : '';
+
+  return `<li><strong>${escapeHtml(getTaskName(task))}</strong>${details.length > 0 ? ` &middot; ${details.join(' &middot; ')}` : ''}${description}</li>`;
+};
+
+export function renderDigestHtml({ view, completedYesterday }: PriorityDigestInput): string {
+  const title = getDigestTitle(view.date);
+  const sections: string[] = [];
+
+  SECTION_ORDER.forEach(section => {
+    const tasks = view.manual_sections[section];
+    if (tasks.length === 0) return;
+    sections.push(`<h2>${SECTION_LABELS[section]} (${tasks.length})</h2>\n<ul>\n${tasks.map(taskToHtml).join('\n')}\n</ul>`);
+  });
+
+  AUTO_SECTIONS.forEach(({ key, title: sectionTitle }) => {
+    const alerts = view.auto_sections[key];
+    if (alerts.length === 0) return;
+    sections.push(`<h2>${escapeHtml(sectionTitle)} (${alerts.length})</h2>\n<ul>\n${alerts
+      .map(alert => `<li><strong>${escapeHtml(alert.client_name)}</strong> - ${escapeHtml(alert.description)}${escapeHtml(getAlertMetric(alert))}</li>`)
+      .join('\n')}\n</ul>`);
+  });
+
+  sections.push(completedYesterday.length > 0
+    ? `<h2>Completed Yesterday (${completedYesterday.length})</h2>\n<ul>\n${completedYesterday
+      .map(task => `<li><s>${escapeHtml(getTaskName(task))}</s>${task.assignees.length > 0 ? ` &middot; <span class="assignees">${escapeHtml(task.assignees.join(', '))}</span>` : ''}</li>`)
+      .join('\n')}\n</ul>`
+    : '<h2>Completed Yesterday</h2>\n<p class="muted">Nothing completed yesterday.</p>');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; font-size: 14px; color: #111827; max-width: 800px; margin: 24px auto; padding: 0 16px; }
+  h1 { font-size: 20px; }
+  h2 { font-size: 16px; margin-top: 24px; border-bottom: 1px solid #e5e7eb; padding-bottom: 4px; }
+  li { margin-bottom: 6px; }
+  .assignees { color: #4f46e5; }
+  .description { color: #4b5563; margin-top: 2px; }
+  .muted { color: #6b7280; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${sections.join('\n')}
+</body>
+</html>
+`;
+}
+
+// ---------- Slack Block Kit ----------
+
+export type SlackBlock =
+  | { type: 'header'; text: { type: 'plain_text'; text: string } }
+  | { type: 'section'; text: { type: 'mrkdwn'; text: string } }
+  | { type: 'context'; elements: { type: 'mrkdwn'; text: string }[] }
+  | { type: 'divider' };
+
+// Slack only needs &, < and > escaped in mrkdwn
+const escapeSlack = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const taskToSlack = (task: DailyPriority): string => {
+  const blockedFrom = getBlockedFrom(task);
+  const ticketUrl = getTicketUrl(task);
+  const name = ticketUrl
+    ? `<${ticketUrl.replace(/\|/g, '%7C')}|${escapeSlack(getTaskName(task))}>`
+    : escapeSlack(getTaskName(task));
+  const details = [
+    task.assignees.length > 0 ? `_${escapeSlack(task.assignees.join(', '))}_` : null,
+    blockedFrom ? `blocked from ${blockedFrom}` : null
+  ].filter(Boolean);
+
+  const lines = [`• *${name}*${details.length > 0 ? ` · ${details.join(' · ')}` : ''}`];
+  if (task.description) {
+    const label = task.section === 'blocked' ? 'Reason: ' : '';
+    lines.push(`    ${label}${escapeSlack(task.description.replace(/\s*\n\s*/g, ' ').trim())}`);
+  }
+  return lines.join('\n');
+};
+
+// One section block per heading, split across blocks when the list is too long for one
+const toSectionBlocks = (heading: string, lines: string[]): SlackBlock[] => {
+  const blocks: SlackBlock[] = [];
+  let text = `*${heading}*`;
+
+  lines.forEach(line => {
+    const next = `${text}\n${line}`;
+    if (next.length > SLACK_TEXT_LIMIT) {
+      blocks.push({ type: 'section', text: { type: 'mrkdwn', text } });
+      text = line.slice(0, SLACK_TEXT_LIMIT);
+    } else {
+      text = next;
+    }
+  });
+  blocks.push({ type: 'section', text: { type: 'mrkdwn', text } });
+
+  return blocks;
+};
+
+export function buildDigestSlackBlocks({ view, completedYesterday }: PriorityDigestInput): SlackBlock[] {
+  const blocks: SlackBlock[] = [
+    { type: 'header', text: { type: 'plain_text', text: getDigestTitle(view.date) } }
+  ];
+
+  SECTION_ORDER.forEach(section => {
+    const tasks = view.manual_sections[section];
+    if (tasks.length === 0) return;
+    blocks.push(...toSectionBlocks(`${SECTION_LABELS[section]} (${tasks.length})`, tasks.map(taskToSlack)));
+  });
+
+  const alertBlocks: SlackBlock[] = [];
+  AUTO_SECTIONS.forEach(({ key, title }) => {
+    const alerts = view.auto_sections[key];
+    if (alerts.length === 0) return;
+    alertBlocks.push(...toSectionBlocks(
+      `${title} (${alerts.length})`,
+      alerts.map(alert => `• *${escapeSlack(alert.client_name)}* - ${escapeSlack(alert.description)}${escapeSlack(getAlertMetric(alert))}`)
+    ));
+  });
+  if (alertBlocks.length > 0) {
+    blocks.push({ type: 'divider' }, ...alertBlocks);
+  }
+
+  blocks.push({ type: 'divider' });
+  blocks.push(completedYesterday.length > 0
+    ? {
+      type: 'context',
+      elements: [{
+        type: 'mrkdwn',
+        text: `:white_check_mark: *Completed yesterday (${completedYesterday.length}):* ${completedYesterday
+          .map(task => escapeSlack(getTaskName(task)))
+          .join(', ')}`.slice(0, SLACK_TEXT_LIMIT)
+      }]
+    }
+    : { type: 'context', elements: [{ type: 'mrkdwn', text: 'Nothing completed yesterday.' }] });
+
+  return blocks;
+}
+
+/**
+ * Renders the digest in the given format. Slack output is the JSON payload
+ * ({ blocks }) ready to paste into Block Kit Builder or post via a webhook.
+ */
+export function renderPriorityDigest(input: PriorityDigestInput, digestFormat: DigestFormat): string {
+  switch (digestFormat) {
+    case 'markdown':
+      return renderDigestMarkdown(input);
+    case 'html':
+      return renderDigestHtml(input);
+    case 'slack':
+      return JSON.stringify({ blocks: buildDigestSlackBlocks(input) }, null, 2);
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Schedule helpers for recurring daily priorities
+ *
+ * All dates are ISO date strings (YYYY-MM-DD) to match daily_priorities.active_date.
+ */
+
+import { format, parseISO, subDays, differenceInCalendarDays, isWeekend } from 'date-fns';
+import { RecurrenceRule } from '@/types/daily-priorities';
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Longest gap between two occurrences of any supported rule (monthly) plus slack
+const MAX_LOOKBACK_DAYS = 62;
+
+/**
+ * Returns true if the rule schedules an occurrence on the given date.
+ * No occurrences exist before startDate.
+ */
+export const isOccurrenceDate = (rule: RecurrenceRule, startDate: string, date: string): boolean => {
+  if (date < startDate) return false;
+
+  const day = parseISO(date);
+
+  switch (rule.type) {
+    case 'weekly':
+      return rule.weekdays.includes(day.getDay());
+    case 'monthly_first_business_day': {
+      if (isWeekend(day)) return false;
+      // First business day = no earlier weekday in the same month
+      for (let d = day.getDate() - 1; d >= 1; d--) {
+        if (!isWeekend(new Date(day.getFullYear(), day.getMonth(), d))) return false;
+      }
+      return true;
+    }
+    case 'every_n_days': {
+      if (rule.interval < 1) return false;
+      return differenceInCalendarDays(day, parseISO(startDate)) % rule.interval === 0;
+    }
+    default:
+      return false;
+  }
+};
+
+/**
+ * Finds the most recent scheduled occurrence on or before the given date.
+ * Used by the generator so an occurrence on a day nobody opened the page is
+ * still produced on the next day that is viewed.
+ */
+export const getLatestOccurrence = (
+  rule: RecurrenceRule,
+  startDate: string,
+  onOrBefore: string
+): string | null => {
+  let day = parseISO(onOrBefore);
+
+  for (let i = 0; i <= MAX_LOOKBACK_DAYS; i++) {
+    const dateString = format(day, 'yyyy-MM-dd');
+    if (dateString < startDate) return null;
+    if (isOccurrenceDate(rule, startDate, dateString)) return dateString;
+    day = subDays(day, 1);
+  }
+
+  return null;
+};
+
+/**
+ * Human-readable summary of a rule, e.g. "Every Mon, Thu"
+ */
+export const formatRecurrenceRule = (rule: RecurrenceRule): string => {
+  switch (rule.type) {
+    case 'weekly': {
+      const days = [...rule.weekdays].sort((a, b) => a - b).map(d => WEEKDAY_LABELS[d]);
+      return days.length > 0 ? `Every ${days.join(', ')}` : 'Weekly';
+    }
+    case 'monthly_first_business_day':
+      return 'First business day of the month';
+    case 'every_n_days':
+      return rule.interval === 1 ? 'Every day' : `Every ${rule.interval} days`;
+    default:
+      return 'Recurring';
+  }
+};
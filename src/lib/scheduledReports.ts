@@ -0,0 +1,150 @@
+/**
+ * Headless generation of saved report definitions
+ *
+ * Runs in the browser ("Run now") and in the run-scheduled-reports edge
+ * function, so nothing here may depend on React, the DOM or import.meta.env.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { format } from 'date-fns';
+import { ReportDefinition, ReportOutboxEntry, ReportRunTrigger } from '@/types/report-definitions';
+import { ReportDefinitionPdfGenerator } from '@/components/pdf/ReportDefinitionPdfGenerator';
+import { loadAgencyRegistry } from '@/contexts/agency-mapping';
+import { fetchCampaignRows } from '@/lib/campaignRows';
+import {
+  filterReportRows,
+  getNextRunAt,
+  getReportSchedule,
+  resolveRelativeDateRange,
+  toDateKey
+} from '@/utils/reportDefinitions';
+
+export const REPORT_OUTBOX_BUCKET = 'report-outbox';
+
+// A failed scheduled run is retried on the next hourly tick, up to this many
+// attempts in all, before the definition moves on to its next scheduled run
+export const MAX_REPORT_RUN_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 60 * 60 * 1000;
+
+const slugify = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'report';
+
+/**
+ * Renders one definition to PDF, uploads it to the outbox bucket and records
+ * it in report_outbox. Failures are recorded in the outbox too, so a broken
+ * definition shows up there instead of silently never arriving.
+ */
+export async function generateReportDefinition(
+  supabase: SupabaseClient,
+  definition: ReportDefinition,
+  triggeredBy: ReportRunTrigger,
+  now: Date = new Date()
+): Promise<ReportOutboxEntry> {
+  const dateRange = resolveRelativeDateRange(definition.date_range, now);
+  const dateStart = toDateKey(dateRange.from);
+  const dateEnd = toDateKey(dateRange.to);
+
+  const outboxEntry = {
+    definition_id: definition.id,
+    report_title: definition.report_title,
+    date_start: dateStart,
+    date_end: dateEnd,
+    recipients: definition.recipients,
+    triggered_by: triggeredBy
+  };
+
+  let result;
+  try {
+    const rows = filterReportRows(await fetchCampaignRows(supabase, dateStart, dateEnd), definition);
+    const pdf = new ReportDefinitionPdfGenerator()
+      .generate({ definition, rows, dateRange, generatedAt: now })
+      .getArrayBuffer();
+
+    const filePath = `${definition.id}/${format(now, 'yyyyMMdd-HHmmss')}-${slugify(definition.report_title)}.pdf`;
+    const { error: uploadError } = await supabase.storage
+      .from(REPORT_OUTBOX_BUCKET)
+      .upload(filePath, pdf, { contentType: 'application/pdf' });
+
+    if (uploadError) throw uploadError;
+
+    result = await supabase
+      .from('report_outbox')
+      .insert({ ...outboxEntry, file_path: filePath, row_count: rows.length, status: 'ready' })
+      .select()
+      .single();
+  } catch (error) {
+    console.error(`Error generating report "${definition.name}":`, error);
+    result = await supabase
+      .from('report_outbox')
+      .insert({
+        ...outboxEntry,
+        row_count: 0,
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error)
+      })
+      .select()
+      .single();
+  }
+
+  if (result.error) throw result.error;
+  return result.data as ReportOutboxEntry;
+}
+
+/**
+ * Generates every active definition whose next run is due. A successful run
+ * moves next_run_at on to the next scheduled time; a failed one is retried an
+ * hour later until MAX_REPORT_RUN_ATTEMPTS is reached. Meant to be called on a
+ * timer (see run-scheduled-reports).
+ */
+export async function runDueReportDefinitions(supabase: SupabaseClient, now: Date = new Date()): Promise<ReportOutboxEntry[]> {
+  const { data, error } = await supabase
+    .from('report_definitions')
+    .select('*')
+    .eq('is_active', true)
+    .not('schedule_frequency', 'is', null)
+    .lte('next_run_at', now.toISOString())
+    .order('next_run_at', { ascending: true });
+
+  if (error) throw error;
+
+  // Agency filters resolve through the registry - fall back to the built-in mapping if it can't load
+  if (data && data.length > 0) {
+    await loadAgencyRegistry(supabase).catch(registryError => {
+      console.error('Error loading agency registry:', registryError);
+    });
+  }
+
+  const entries: ReportOutboxEntry[] = [];
+  for (const definition of (data || []) as ReportDefinition[]) {
+    let succeeded = false;
+    try {
+      const entry = await generateReportDefinition(supabase, definition, 'schedule', now);
+      entries.push(entry);
+      succeeded = entry.status === 'ready';
+    } catch (generateError) {
+      console.error(`Error recording run of report "${definition.name}":`, generateError);
+    }
+
+    const attempts = succeeded ? 0 : (definition.failed_attempts || 0) + 1;
+    const retry = !succeeded && attempts < MAX_REPORT_RUN_ATTEMPTS;
+    const nextRunAt = retry
+      ? new Date(now.getTime() + RETRY_DELAY_MS)
+      : getNextRunAt(getReportSchedule(definition)!, now);
+
+    const { error: updateError } = await supabase
+      .from('report_definitions')
+      .update({
+        last_run_at: now.toISOString(),
+        last_run_status: succeeded ? 'succeeded' : 'failed',
+        // Reset once the retries are used up, so the next scheduled run gets its own
+        failed_attempts: retry ? attempts : 0,
+        next_run_at: nextRunAt.toISOString()
+      })
+      .eq('id', definition.id);
+
+    if (updateError) {
+      console.error(`Error scheduling next run of report "${definition.name}":`, updateError);
+    }
+  }
+
+  return entries;
+}
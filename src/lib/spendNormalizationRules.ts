@@ -0,0 +1,26 @@
+/**
+ * Loading agency spend normalization rules
+ *
+ * Shared by the app and the scheduled report generator, so nothing here may depend on React.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { SpendNormalizationRule } from '@/types/spend-normalization';
+
+/**
+ * Every rule, ordered by agency and start date
+ */
+export async function fetchSpendNormalizationRules(supabase: SupabaseClient): Promise<SpendNormalizationRule[]> {
+  const { data, error } = await supabase
+    .from('spend_normalization_rules')
+    .select('*')
+    .order('agency_abbreviation', { ascending: true })
+    .order('effective_from', { ascending: true, nullsFirst: true });
+
+  if (error) throw error;
+  // NUMERIC comes back as a string
+  return ((data || []) as SpendNormalizationRule[]).map(rule => ({
+    ...rule,
+    value: rule.value === null ? null : Number(rule.value)
+  }));
+}
@@ -1,4 +1,42 @@
-import { createClient } from '@supabase/supabase-js'
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import type { ActivityLogEntry, ActivityLogInsert } from '@/types/activity-log'
+import type { Announcement, AnnouncementInsert, AnnouncementUpdate } from '@/types/announcements'
+import type { AnomalyRule, AnomalyRuleUpsert } from '@/types/anomaly'
+import type { CsvImportProfile, CsvImportProfileUpsert } from '@/types/csv'
+import type {
+  AlertThresholdSetting,
+  AlertThresholdSettingUpsert,
+  CampaignRenewal,
+  CampaignRenewalInsert,
+  CampaignRenewalUpdate,
+  DailyPriority,
+  DailyPriorityInsert,
+  DailyPriorityUpdate,
+  PriorityComment,
+  PriorityCommentInsert,
+  RecurringPriority,
+  RecurringPriorityInsert,
+  RenewalStatusTracking,
+  RenewalStatusTrackingInsert,
+  RenewalStatusTrackingUpdate,
+  RoasAlertIgnore,
+  RoasAlertIgnoreInsert,
+  WorkflowTemplate,
+  WorkflowTemplateUpsert
+} from '@/types/daily-priorities'
+import type {
+  HealthProfileAssignment,
+  HealthProfileAssignmentUpsert,
+  HealthScoreSnapshot,
+  HealthScoreSnapshotInsert
+} from '@/types/health-scoring'
+import type { ReportDefinition, ReportDefinitionUpsert, ReportOutboxEntry } from '@/types/report-definitions'
+import type { Resource, ResourceInsert, ResourceUpdate } from '@/types/resources'
+import type { SavedView, SavedViewUpsert } from '@/types/saved-views'
+import type { SpendNormalizationRule, SpendNormalizationRuleUpsert } from '@/types/spend-normalization'
+import type { QuarantinedRow, UploadBatch, UploadBatchInsert, UploadBatchPreviousRow } from '@/types/upload-history'
+import type { Agency, AgencyUpsert } from '@/contexts/agency-mapping'
+import type { UserProfileRow } from '@/config/users'
 
 // Sanitize environment variables to prevent header issues
 const sanitizeEnvVar = (value: string | undefined): string | undefined => {
@@ -27,13 +65,14 @@ console.log('🔍 Supabase environment check:', {
 })
 
 // Create Supabase client with graceful fallback
-let supabase: ReturnType<typeof createClient> | null = null
+let supabase: SupabaseClient<Database> | null = null
 
 if (supabaseUrl && supabaseKey && supabaseUrl !== 'your_supabase_url_here' && supabaseKey !== 'your_supabase_anon_key_here') {
   try {
-    supabase = createClient(supabaseUrl, supabaseKey, {
+    supabase = createClient<Database>(supabaseUrl, supabaseKey, {
       auth: {
-        persistSession: false, // Disable session persistence to avoid potential header issues
+        persistSession: true, // Keep the Supabase Auth session across reloads
+        storageKey: 'campaign-trends-auth'
       }
     })
     console.log('✅ Supabase client initialized successfully')
@@ -76,16 +115,36 @@ export type CampaignData = {
   data_source: string
   user_session_id?: string | null
   uploaded_at: string
+  // Legacy - spend is now normalized at read time by spend_normalization_rules
   orangellow_corrected?: boolean
   original_spend?: number | null
   created_at?: string
   updated_at?: string
 }
 
+// One row per campaign in the campaigns dimension table - the parsed campaign order name
+export type CampaignDimensionData = {
+  id?: string
+  campaign_order_name: string
+  order_id: string | null
+  order_ids: string[]
+  agency_abbreviation: string | null
+  agency_name: string | null
+  advertiser: string | null
+  market: string | null
+  channel: string | null
+  flight_code: string | null
+  description: string | null
+  awaiting_io: boolean
+  is_test: boolean
+  created_at?: string
+  updated_at?: string
+}
+
 export type CampaignAnomalyData = {
   id?: string
   campaign_name: string
-  anomaly_type: 'impression_change' | 'transaction_drop' | 'transaction_zero' | 'suspected_bot_activity'
+  anomaly_type: 'impression_change' | 'transaction_drop' | 'transaction_zero' | 'suspected_bot_activity' | 'baseline_deviation' | 'level_shift'
   date_detected: string
   severity: 'high' | 'medium' | 'low'
   details: Record<string, unknown>
@@ -107,24 +166,89 @@ export type ContractTermsData = {
   updated_at?: string
 }
 
+// When each user last read a task's comments
+export type PriorityCommentReadData = {
+  id?: string
+  user_id: string
+  task_client_name: string | null
+  task_created_at: string
+  last_read_at?: string
+}
+
+// The view each user starts from
+export type SavedViewDefaultData = {
+  user_id: string
+  view_id: string
+  updated_at?: string
+}
+
+// Uploaded pacing sheets keep their CSV column names
+export type PacingData = Record<string, string | number | null>
+
+// Row types are mostly interfaces, which don't satisfy supabase-js's
+// Record<string, unknown> table constraint - mapping them to object types does
+type Columns<T> = { [K in keyof T]: T[K] }
+
+type Table<Row, Insert = Partial<Row>, Update = Partial<Insert>> = {
+  Row: Columns<Row>
+  Insert: Columns<Insert>
+  Update: Columns<Update>
+  Relationships: []
+}
+
+type DataTable<Row extends { id?: string; created_at?: string; updated_at?: string }> =
+  Table<Row, Omit<Row, 'id' | 'created_at' | 'updated_at'>>
+
 export type Database = {
   public: {
     Tables: {
-      campaign_data: {
-        Row: CampaignData
-        Insert: Omit<CampaignData, 'id' | 'created_at' | 'updated_at'>
-        Update: Partial<Omit<CampaignData, 'id' | 'created_at' | 'updated_at'>>
-      }
-      campaign_anomalies: {
-        Row: CampaignAnomalyData
-        Insert: Omit<CampaignAnomalyData, 'id' | 'created_at' | 'updated_at'>
-        Update: Partial<Omit<CampaignAnomalyData, 'id' | 'created_at' | 'updated_at'>>
-      }
-      contract_terms: {
-        Row: ContractTermsData
-        Insert: Omit<ContractTermsData, 'id' | 'created_at' | 'updated_at'>
-        Update: Partial<Omit<ContractTermsData, 'id' | 'created_at' | 'updated_at'>>
+      campaign_data: DataTable<CampaignData>
+      campaigns: DataTable<CampaignDimensionData>
+      campaign_anomalies: DataTable<CampaignAnomalyData>
+      contract_terms: DataTable<ContractTermsData>
+      pacing_data: Table<PacingData>
+      daily_priorities: Table<DailyPriority, DailyPriorityInsert, DailyPriorityUpdate>
+      recurring_priorities: Table<RecurringPriority, RecurringPriorityInsert, Partial<RecurringPriority>>
+      priority_comments: Table<PriorityComment, PriorityCommentInsert, Partial<PriorityComment>>
+      priority_comment_reads: Table<PriorityCommentReadData>
+      campaign_renewals: Table<CampaignRenewal, CampaignRenewalInsert, CampaignRenewalUpdate>
+      renewal_status_tracking: Table<RenewalStatusTracking, RenewalStatusTrackingInsert, RenewalStatusTrackingUpdate>
+      launch_status_tracking: Table<RenewalStatusTracking, RenewalStatusTrackingInsert, RenewalStatusTrackingUpdate>
+      workflow_templates: Table<WorkflowTemplate, WorkflowTemplateUpsert>
+      alert_threshold_settings: Table<AlertThresholdSetting, AlertThresholdSettingUpsert>
+      roas_alert_ignores: Table<RoasAlertIgnore, RoasAlertIgnoreInsert>
+      anomaly_detection_rules: Table<AnomalyRule, AnomalyRuleUpsert>
+      health_profile_assignments: Table<HealthProfileAssignment, HealthProfileAssignmentUpsert>
+      campaign_health_snapshots: Table<HealthScoreSnapshot, HealthScoreSnapshotInsert>
+      report_definitions: Table<ReportDefinition, ReportDefinitionUpsert, Partial<ReportDefinition>>
+      report_outbox: Table<ReportOutboxEntry>
+      upload_batches: Table<UploadBatch, UploadBatchInsert, Partial<UploadBatch>>
+      upload_batch_rows: Table<UploadBatchPreviousRow>
+      quarantined_rows: Table<QuarantinedRow>
+      csv_import_profiles: Table<CsvImportProfile, CsvImportProfileUpsert>
+      agencies: Table<Agency, AgencyUpsert, Partial<Agency>>
+      spend_normalization_rules: Table<SpendNormalizationRule, SpendNormalizationRuleUpsert>
+      saved_views: Table<SavedView, SavedViewUpsert & { owner_id?: string }>
+      saved_view_defaults: Table<SavedViewDefaultData>
+      activity_log: Table<ActivityLogEntry, ActivityLogInsert>
+      announcements: Table<Announcement, AnnouncementInsert, AnnouncementUpdate>
+      resources: Table<Resource, ResourceInsert, ResourceUpdate>
+      profiles: Table<UserProfileRow>
+    }
+    Views: { [_ in never]: never }
+    Functions: {
+      current_user_role: { Args: Record<string, never>; Returns: string | null }
+      get_task_comment_summaries: {
+        Args: Record<string, never>
+        Returns: {
+          task_client_name: string | null
+          task_created_at: string
+          comment_count: number
+          unread_count: number
+          unread_mention_count: number
+        }[]
       }
+      set_default_workflow_template: { Args: { p_template_id: string }; Returns: undefined }
     }
   }
 }
@@ -0,0 +1,375 @@
+/**
+ * AgenciesPage - The agency registry campaign names resolve through, the
+ * campaign names whose agency code matched none of it, and the per-agency
+ * spend normalization rules
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { useAgencies, useUnmatchedCampaignNames } from '@/hooks/useAgencies';
+import { useCampaignDimensions } from '@/hooks/useCampaignDimensions';
+import { Agency, AgencyUpsert } from '@/contexts/agency-mapping';
+import { getDisplayName } from '@/config/users';
+import { SpendNormalizationRulesCard } from '@/components/SpendNormalizationRulesCard';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ArrowLeft, Plus, RefreshCw } from 'lucide-react';
+
+// Example campaign names shown per unmatched code
+const UNMATCHED_EXAMPLES = 3;
+
+const EMPTY_AGENCY: AgencyUpsert = {
+  abbreviation: '',
+  display_name: '',
+  aliases: [],
+  is_active: true,
+  is_test: false
+};
+
+const parseAliases = (value: string) =>
+  value.split(/[,;\s]+/).map(alias => alias.trim()).filter(Boolean);
+
+export default function AgenciesPage() {
+  const navigate = useNavigate();
+  const { agencies, isLoading, saveAgency, deleteAgency, isSaving, canManage } = useAgencies();
+  const { unmatched, campaignCount, isLoading: isLoadingUnmatched } = useUnmatchedCampaignNames();
+  const { campaigns, rebuild, isRebuilding, canRebuild } = useCampaignDimensions();
+  const [editAgency, setEditAgency] = useState<AgencyUpsert | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<Agency | null>(null);
+
+  // Unmatched campaign names grouped by the code they carry
+  const unmatchedByCode = useMemo(() => {
+    const groups = new Map<string, string[]>();
+    unmatched.forEach(({ campaignName, code }) => {
+      groups.set(code, [...(groups.get(code) || []), campaignName]);
+    });
+    return [...groups.entries()]
+      .map(([code, campaignNames]) => ({ code, campaignNames }))
+      .sort((a, b) => b.campaignNames.length - a.campaignNames.length);
+  }, [unmatched]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 lg:p-6">
+      <div className="max-w-[1200px] mx-auto">
+        <Card className="shadow-sm">
+          <CardHeader className="border-b bg-white">
+            <div className="flex items-center gap-4">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => navigate('/')}
+                className="h-8 w-8 p-0"
+              >
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+              <div>
+                <CardTitle className="text-xl">Agencies</CardTitle>
+                <p className="text-sm text-muted-foreground mt-1">
+                  Agency codes recognized in campaign order names (e.g. "2001367: HRB: District Cannabis-241217")
+                </p>
+              </div>
+              {canManage && (
+                <Button className="ml-auto gap-2" onClick={() => setEditAgency(EMPTY_AGENCY)}>
+                  <Plus className="h-4 w-4" />
+                  Add Agency
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="p-0">
+            {isLoading ? (
+              <div className="p-6 text-sm text-muted-foreground">Loading agencies...</div>
+            ) : agencies.length === 0 ? (
+              <div className="p-6 text-sm text-muted-foreground">
+                No agencies in the registry yet - campaign names resolve through the built-in mapping until one is added.
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Code</TableHead>
+                    <TableHead>Display Name</TableHead>
+                    <TableHead>Aliases</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Last Updated</TableHead>
+                    {canManage && <TableHead className="text-right">Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {agencies.map(agency => (
+                    <TableRow key={agency.id} className={agency.is_active ? undefined : 'opacity-60'}>
+                      <TableCell className="font-mono font-medium">{agency.abbreviation}</TableCell>
+                      <TableCell>{agency.display_name}</TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {agency.aliases.length > 0 ? agency.aliases.join(', ') : <span className="text-muted-foreground">-</span>}
+                      </TableCell>
+                      <TableCell className="space-x-1 whitespace-nowrap">
+                        <Badge variant={agency.is_active ? 'outline' : 'secondary'}>
+                          {agency.is_active ? 'Active' : 'Inactive'}
+                        </Badge>
+                        {agency.is_test && <Badge className="bg-amber-100 text-amber-800">Test</Badge>}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap text-xs text-muted-foreground">
+                        {format(new Date(agency.updated_at), 'MMM d, yyyy')}
+                        {agency.updated_by && ` by ${getDisplayName(agency.updated_by)}`}
+                      </TableCell>
+                      {canManage && (
+                        <TableCell className="text-right whitespace-nowrap">
+                          <div className="flex justify-end gap-2">
+                            <Button variant="outline" size="sm" onClick={() => setEditAgency(agency)}>
+                              Edit
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="text-red-600 hover:text-red-700"
+                              onClick={() => setDeleteTarget(agency)}
+                            >
+                              Delete
+                            </Button>
+                          </div>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Unmatched campaign names */}
+        <Card className="shadow-sm mt-6">
+          <CardHeader className="border-b bg-white">
+            <div className="flex items-start gap-4">
+              <div>
+                <CardTitle className="text-lg">Unmatched Campaign Names</CardTitle>
+                <p className="text-sm text-muted-foreground mt-1">
+                  {isLoadingUnmatched
+                    ? 'Checking campaign names...'
+                    : `${unmatched.length} of ${campaignCount.toLocaleString()} campaign names matched no agency`}
+                </p>
+              </div>
+              {canRebuild && (
+                <Button
+                  variant="outline"
+                  className="ml-auto gap-2"
+                  onClick={() => rebuild()}
+                  disabled={isRebuilding}
+                  title={`Re-parse every campaign name into the campaigns table (${campaigns.length.toLocaleString()} parsed so far)`}
+                >
+                  <RefreshCw className={isRebuilding ? 'h-4 w-4 animate-spin' : 'h-4 w-4'} />
+                  {isRebuilding ? 'Re-parsing...' : 'Re-parse Campaigns'}
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="p-0">
+            {isLoadingUnmatched ? null : unmatchedByCode.length === 0 ? (
+              <div className="p-6 text-sm text-muted-foreground">Every campaign name resolves to an agency.</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Parsed Code</TableHead>
+                    <TableHead className="text-right">Campaigns</TableHead>
+                    <TableHead>Examples</TableHead>
+                    {canManage && <TableHead className="text-right">Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {unmatchedByCode.map(({ code, campaignNames }) => (
+                    <TableRow key={code || '(none)'}>
+                      <TableCell className="font-mono font-medium whitespace-nowrap">
+                        {code || <span className="font-sans font-normal italic text-muted-foreground">No code found</span>}
+                      </TableCell>
+                      <TableCell className="text-right">{campaignNames.length.toLocaleString()}</TableCell>
+                      <TableCell className="max-w-[520px] text-xs" title={campaignNames.join('\n')}>
+                        {campaignNames.slice(0, UNMATCHED_EXAMPLES).map(name => (
+                          <div key={name} className="truncate">{name}</div>
+                        ))}
+                        {campaignNames.length > UNMATCHED_EXAMPLES && (
+                          <div className="text-muted-foreground">and {campaignNames.length - UNMATCHED_EXAMPLES} more</div>
+                        )}
+                      </TableCell>
+                      {canManage && (
+                        <TableCell className="text-right">
+                          {code && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setEditAgency({ ...EMPTY_AGENCY, abbreviation: code })}
+                            >
+                              Add Agency
+                            </Button>
+                          )}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <SpendNormalizationRulesCard />
+      </div>
+
+      <AgencyDialog
+        agency={editAgency}
+        onClose={() => setEditAgency(null)}
+        onSave={(agency) => saveAgency(agency, { onSuccess: () => setEditAgency(null) })}
+        isSaving={isSaving}
+      />
+
+      <AlertDialog open={deleteTarget !== null} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Agency</AlertDialogTitle>
+            <AlertDialogDescription>
+              Campaigns coded "{deleteTarget?.abbreviation}" will no longer resolve to {deleteTarget?.display_name}.
+              To keep historical campaigns resolving, mark the agency inactive instead.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteTarget && deleteAgency(deleteTarget.id, { onSettled: () => setDeleteTarget(null) })}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+interface AgencyDialogProps {
+  agency: AgencyUpsert | null; // null when closed
+  onClose: () => void;
+  onSave: (agency: AgencyUpsert) => void;
+  isSaving: boolean;
+}
+
+function AgencyDialog({ agency, onClose, onSave, isSaving }: AgencyDialogProps) {
+  const [abbreviation, setAbbreviation] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [aliases, setAliases] = useState('');
+  const [isActive, setIsActive] = useState(true);
+  const [isTest, setIsTest] = useState(false);
+
+  useEffect(() => {
+    if (!agency) return;
+    setAbbreviation(agency.abbreviation);
+    setDisplayName(agency.display_name);
+    setAliases(agency.aliases.join(', '));
+    setIsActive(agency.is_active);
+    setIsTest(agency.is_test);
+  }, [agency]);
+
+  const handleSave = () => {
+    onSave({
+      ...(agency?.id ? { id: agency.id } : {}),
+      abbreviation,
+      display_name: displayName,
+      aliases: parseAliases(aliases),
+      is_active: isActive,
+      is_test: isTest
+    });
+  };
+
+  return (
+    <Dialog open={agency !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{agency?.id ? 'Edit Agency' : 'Add Agency'}</DialogTitle>
+          <DialogDescription>
+            The code is what appears after the IO number in campaign order names.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="agency-abbreviation">Code</Label>
+              <Input
+                id="agency-abbreviation"
+                value={abbreviation}
+                onChange={(e) => setAbbreviation(e.target.value.toUpperCase())}
+                placeholder="HRB"
+                className="font-mono"
+              />
+            </div>
+            <div className="col-span-2 space-y-1">
+              <Label htmlFor="agency-display-name">Display Name</Label>
+              <Input
+                id="agency-display-name"
+                value={displayName}
+                onChange={(e) => setDisplayName(e.target.value)}
+                placeholder="Herb.co"
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="agency-aliases">Aliases</Label>
+            <Input
+              id="agency-aliases"
+              value={aliases}
+              onChange={(e) => setAliases(e.target.value)}
+              placeholder="Other codes for this agency, comma separated"
+              className="font-mono"
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="agency-active">Active</Label>
+              <p className="text-xs text-muted-foreground">Inactive agencies still resolve but aren't offered in pickers</p>
+            </div>
+            <Switch id="agency-active" checked={isActive} onCheckedChange={setIsActive} />
+          </div>
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="agency-test">Test agency</Label>
+              <p className="text-xs text-muted-foreground">Campaigns under this code are filtered out as test campaigns</p>
+            </div>
+            <Switch id="agency-test" checked={isTest} onCheckedChange={setIsTest} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSave} disabled={!abbreviation.trim() || !displayName.trim() || isSaving}>
+            {isSaving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,6 @@
 import { CampaignDataRow } from '@/types/campaign';
 import { useState, useEffect, useMemo } from "react";
+import { format, parseISO } from "date-fns";
 import { useParams, useNavigate } from "react-router-dom";
 import { DateRange } from "react-day-picker";
 import DateRangePicker from "@/components/DateRangePicker";
@@ -13,7 +14,11 @@ import SidebarLayout from "@/components/SidebarLayout";
 import { useSupabase } from "@/contexts/use-supabase";
 import { CampaignFilterProvider } from "@/contexts/CampaignFilterContext";
 import { useCampaignFilter } from "@/contexts/use-campaign-filter";
-import { supabase } from "@/lib/supabase";
+import { useNormalizedCampaignData } from "@/hooks/useSpendNormalization";
+import { SpendModeToggle } from "@/components/SpendModeToggle";
+import { SavedViewsMenu } from "@/components/SavedViewsMenu";
+import { useViewStateUrlSync } from "@/hooks/useUrlState";
+import { supabase, type PacingData } from "@/lib/supabase";
 import { toast } from "sonner";
 
 const CampaignDetailPageContent = () => {
@@ -21,14 +26,25 @@ const CampaignDetailPageContent = () => {
   const decodedCampaignName = campaignName ? decodeURIComponent(campaignName) : "";
 
   const [data, setData] = useState<CampaignDataRow[]>([]);
-  const [pacingData, setPacingData] = useState<CampaignDataRow[]>([]);
+  const [pacingData, setPacingData] = useState<PacingData[]>([]);
   const [contractTermsData, setContractTermsData] = useState<CampaignDataRow[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState("dashboard");
-  const [dateRange, setDateRange] = useState<DateRange | undefined>(undefined);
 
   const { getCampaignData, getContractTerms } = useSupabase();
-  const { extractAdvertiserName, extractAgencyInfo, isTestCampaign } = useCampaignFilter();
+  const {
+    extractAdvertiserName,
+    extractAgencyInfo,
+    isTestCampaign,
+    activeTab: selectedTab,
+    setActiveTab: setSelectedTab,
+    dateFrom,
+    dateTo,
+    setDateBounds
+  } = useCampaignFilter();
+  // Tab and date range are kept in the query string (?tab=raw-data&from=...) so they can be linked
+  useViewStateUrlSync();
+  const activeTab = selectedTab || "dashboard";
+  const setActiveTab = (tab: string) => setSelectedTab(tab === "dashboard" ? null : tab);
   const navigate = useNavigate();
 
   // Handle navigation to main dashboard with specific tab
@@ -122,32 +138,33 @@ const CampaignDetailPageContent = () => {
     };
   }, [data]);
 
-  // Set initial date range when data loads - from first data date to today
+  // Date range from the query string, else from the first data date to today
   // This ensures charts show zeros from last data date to today if there's a delivery gap
-  useEffect(() => {
-    if (availableDateRange.min) {
-      const today = new Date();
-      const newRange = {
-        from: availableDateRange.min,
-        to: today // Extend to today to show delivery gaps
-      };
-      console.log('[CampaignDetailPage] Setting dateRange to:', {
-        from: newRange.from.toISOString(),
-        to: newRange.to.toISOString(),
-        dataMax: availableDateRange.max?.toISOString()
-      });
-      setDateRange(newRange);
+  const dateRange = useMemo<DateRange | undefined>(() => {
+    if (dateFrom || dateTo) {
+      return { from: dateFrom ? parseISO(dateFrom) : undefined, to: dateTo ? parseISO(dateTo) : undefined };
     }
-  }, [availableDateRange.min]); // Only depend on availableDateRange.min to reset when campaign changes
+    if (!availableDateRange.min) return undefined;
+    return { from: availableDateRange.min, to: new Date() }; // Extend to today to show delivery gaps
+  }, [dateFrom, dateTo, availableDateRange.min]);
+
+  const handleDateRangeChange = (range: DateRange | undefined) => {
+    setDateBounds(
+      range?.from ? format(range.from, "yyyy-MM-dd") : null,
+      range?.to ? format(range.to, "yyyy-MM-dd") : null
+    );
+  };
 
   // Log whenever dateRange changes
   useEffect(() => {
     console.log('[CampaignDetailPage] Current dateRange:', dateRange);
   }, [dateRange]);
 
+  const normalizedData = useNormalizedCampaignData(data);
+
   // Filter out test campaigns and process data
   const filteredData = useMemo(() => {
-    let filtered = data.filter(row =>
+    let filtered = normalizedData.filter(row =>
       row &&
       row.DATE !== 'Totals' &&
       !isTestCampaign(row["CAMPAIGN ORDER NAME"] || "")
@@ -169,7 +186,7 @@ const CampaignDetailPageContent = () => {
     }
 
     return filtered;
-  }, [data, isTestCampaign, dateRange]);
+  }, [normalizedData, isTestCampaign, dateRange]);
 
   // Calculate campaign summary metrics
   const campaignSummary = useMemo(() => {
@@ -263,6 +280,17 @@ const CampaignDetailPageContent = () => {
         <h2 className="text-xl font-semibold text-gray-900 truncate">
           {decodedCampaignName}
         </h2>
+        <div className="ml-auto flex items-center gap-4">
+          <SpendModeToggle />
+          <DateRangePicker
+            dateRange={dateRange}
+            onDateRangeChange={handleDateRangeChange}
+            displayDateRangeSummary={false}
+            minDate={availableDateRange.min}
+            maxDate={availableDateRange.max}
+          />
+          <SavedViewsMenu />
+        </div>
       </div>
 
       {/* Campaign summary metrics */}
@@ -1,81 +1,426 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useCallback } from "react";
+import { format, parseISO } from "date-fns";
+import { DateRange } from "react-day-picker";
+import { toast } from "sonner";
 import { useSupabase } from "@/contexts/use-supabase";
-import { getLastCampaignUpload, getLastContractUpload } from "@/lib/supabase";
+import { useAuth } from "@/contexts/use-auth";
+import { getLastCampaignUpload, getLastContractUpload, type ContractTermsData } from "@/lib/supabase";
+import { parseDateString } from "@/lib/utils";
+import { Tabs, TabsContent } from "@/components/ui/tabs";
 import DailyPrioritiesContent from "@/components/DailyPrioritiesContent";
+import SidebarLayout from "@/components/SidebarLayout";
+import GlobalFilters from "@/components/GlobalFilters";
+import DateRangePicker from "@/components/DateRangePicker";
+import DashboardWrapper from "@/components/DashboardWrapper";
+import CampaignSparkCharts from "@/components/CampaignSparkCharts";
+import CampaignManager from "@/components/CampaignManager";
+import CampaignHealthTab from "@/components/CampaignHealthTab";
+import { Pacing } from "@/components/Pacing";
+import { NotificationsTab } from "@/components/NotificationsTab";
+import CustomReportBuilder from "@/components/CustomReportBuilder";
+import StatusTab from "@/components/StatusTab";
+import RawDataTableImproved from "@/components/RawDataTableImproved";
+import { ChartToggle } from "@/components/ChartToggle";
+import { CampaignStatusToggle } from "@/components/CampaignStatusToggle";
+import { SpendModeToggle } from "@/components/SpendModeToggle";
+import { SavedViewsMenu } from "@/components/SavedViewsMenu";
+import { AggregatedSparkCharts } from "@/components/charts/AggregatedSparkCharts";
+import UnifiedUploadModal from "@/components/UnifiedUploadModal";
 import { CampaignDataRow } from "@/types/campaign";
+import { ContractTermsRow, CSVRow } from "@/types/dashboard";
+import { ContractTerms } from "@/types/pacing";
+import { GenericCSVRow } from "@/types/csv";
 import { CampaignFilterProvider } from "@/contexts/CampaignFilterContext";
+import { useCampaignFilter } from "@/contexts/use-campaign-filter";
+import { useGlobalFilters } from "@/hooks/useGlobalFilters";
+import { useNormalizedCampaignData } from "@/hooks/useSpendNormalization";
+import { useViewStateUrlSync } from "@/hooks/useUrlState";
+import { toCampaignDataRecord, toContractTermsRecord } from "@/utils/csvProcessing";
 
-const Index = () => {
-  const { getCampaignData } = useSupabase();
+const DEFAULT_TAB = "priorities";
+
+// Pacing sheets are only uploaded to the campaign detail views
+const NO_PACING_DATA: CSVRow[] = [];
+
+// Contract terms in the spreadsheet shape the status and health views read (M/D/YYYY dates)
+type ContractTermsSheetRow = ContractTerms & ContractTermsRow;
+
+const toContractTermsRow = (term: ContractTermsData): ContractTermsSheetRow => {
+  const formatDbDate = (dateString: string) => format(parseISO(dateString), "M/d/yyyy");
+
+  return {
+    Name: term.campaign_name,
+    "Start Date": formatDbDate(term.start_date),
+    "End Date": formatDbDate(term.end_date),
+    Budget: term.budget.toString(),
+    CPM: term.cpm.toString(),
+    "Impressions Goal": term.impressions_goal.toString()
+  };
+};
+
+const IndexContent = () => {
+  const { getCampaignData, getContractTerms, upsertCampaignData, upsertContractTerms } = useSupabase();
+  const { hasRole } = useAuth();
   const [data, setData] = useState<CampaignDataRow[]>([]);
+  const [contractTermsData, setContractTermsData] = useState<ContractTermsSheetRow[]>([]);
   const [lastCampaignUpload, setLastCampaignUpload] = useState<Date | null>(null);
   const [lastContractUpload, setLastContractUpload] = useState<Date | null>(null);
   const [screenshotMode, setScreenshotMode] = useState(false);
   const [isLoadingCampaignData, setIsLoadingCampaignData] = useState(true);
+  const [isAttributionChart, setIsAttributionChart] = useState(false);
+  const [isInCampaignDetailView, setIsInCampaignDetailView] = useState(false);
+  const [isUploadModalOpen, setIsUploadModalOpen] = useState(false);
 
-  // Load campaign data in background after initial render
-  useEffect(() => {
-    const loadDataFromSupabase = async () => {
+  // The sidebar tab and date range are part of the view state saved views capture, and
+  // are kept in the query string with the filters (/?tab=pacing&agencies=...&from=...)
+  const { activeTab: selectedTab, setActiveTab, dateFrom, dateTo, setDateBounds, showLiveOnly } = useCampaignFilter();
+  useViewStateUrlSync();
+  const activeTab = selectedTab || DEFAULT_TAB;
+  const handleTabChange = (tab: string) => setActiveTab(tab === DEFAULT_TAB ? null : tab);
+
+  // Load campaign data in background after initial render, and again after an upload
+  const loadDataFromSupabase = useCallback(async () => {
+    try {
+      console.log('🔄 Loading campaign data in background...');
+
+      // Load campaign data for auto-generated priorities
+      const campaignData = await getCampaignData(undefined, undefined, () => {}, false);
+
+      if (campaignData.length > 0) {
+        const transformedData = campaignData.map(row => ({
+          DATE: row.date,
+          "CAMPAIGN ORDER NAME": row.campaign_order_name,
+          IMPRESSIONS: row.impressions,
+          CLICKS: row.clicks,
+          REVENUE: row.revenue,
+          SPEND: row.spend,
+          TRANSACTIONS: row.transactions
+        }));
+        setData(transformedData);
+        console.log(`✅ Campaign data loaded: ${transformedData.length} rows`);
+      }
+
+      // Load contract terms for the status and health tabs
       try {
-        console.log('🔄 Loading campaign data in background...');
-
-        // Load campaign data for auto-generated priorities
-        const campaignData = await getCampaignData(undefined, undefined, () => {}, false);
-
-        if (campaignData.length > 0) {
-          const transformedData = campaignData.map(row => ({
-            DATE: row.date,
-            "CAMPAIGN ORDER NAME": row.campaign_order_name,
-            IMPRESSIONS: row.impressions,
-            CLICKS: row.clicks,
-            REVENUE: row.revenue,
-            SPEND: row.spend,
-            TRANSACTIONS: row.transactions
-          }));
-          setData(transformedData);
-          console.log(`✅ Campaign data loaded: ${transformedData.length} rows`);
-        }
-
-        // Load last upload timestamps
-        try {
-          const [campaignTimestamp, contractTimestamp] = await Promise.all([
-            getLastCampaignUpload(),
-            getLastContractUpload()
-          ]);
-          setLastCampaignUpload(campaignTimestamp);
-          setLastContractUpload(contractTimestamp);
-        } catch (timestampError) {
-          console.error("Failed to load upload timestamps:", timestampError);
-        }
-
-      } catch (error) {
-        console.error("Failed to load data from Supabase:", error);
-      } finally {
-        setIsLoadingCampaignData(false);
+        const contractTerms = await getContractTerms();
+        setContractTermsData(contractTerms.map(toContractTermsRow));
+      } catch (contractError) {
+        console.error("Failed to load contract terms:", contractError);
       }
-    };
 
+      // Load last upload timestamps
+      try {
+        const [campaignTimestamp, contractTimestamp] = await Promise.all([
+          getLastCampaignUpload(),
+          getLastContractUpload()
+        ]);
+        setLastCampaignUpload(campaignTimestamp);
+        setLastContractUpload(contractTimestamp);
+      } catch (timestampError) {
+        console.error("Failed to load upload timestamps:", timestampError);
+      }
+
+    } catch (error) {
+      console.error("Failed to load data from Supabase:", error);
+    } finally {
+      setIsLoadingCampaignData(false);
+    }
+  }, [getCampaignData, getContractTerms]);
+
+  useEffect(() => {
     loadDataFromSupabase();
-  }, [getCampaignData]);
+  }, [loadDataFromSupabase]);
 
-  return (
-    <CampaignFilterProvider>
-      <div className="min-h-screen bg-gray-50">
-        <div className={screenshotMode ? "min-h-screen" : "h-screen overflow-auto"}>
-          {/* Main Content */}
-          <div className="max-w-7xl mx-auto px-4 lg:px-6 pb-4 lg:pb-6 pt-6">
-            <DailyPrioritiesContent
-              dateRange={undefined}
-              campaignData={data}
-              screenshotMode={screenshotMode}
-              onScreenshotModeChange={setScreenshotMode}
-              lastCampaignUpload={lastCampaignUpload}
-              lastContractUpload={lastContractUpload}
-              isLoadingCampaignData={isLoadingCampaignData}
-            />
-          </div>
+  // Files uploaded from the sidebar arrive here after the modal's column mapping
+  // and (for delivery data) validation steps - quarantined rows are already set aside
+  const handleDeliveryDataLoaded = async (rows: GenericCSVRow[], fileName: string) => {
+    try {
+      await upsertCampaignData(rows.map(toCampaignDataRecord), undefined, fileName);
+      toast.success(`Uploaded ${rows.length.toLocaleString()} delivery rows from ${fileName}`);
+      await loadDataFromSupabase();
+    } catch (error) {
+      console.error("Failed to upload delivery data:", error);
+      toast.error(`Failed to upload ${fileName}`);
+    }
+  };
+
+  const handleContractTermsLoaded = async (rows: GenericCSVRow[]) => {
+    try {
+      // A contract terms file replaces the current terms
+      await upsertContractTerms(rows.map(toContractTermsRecord), true);
+      toast.success(`Uploaded ${rows.length.toLocaleString()} contract terms`);
+      await loadDataFromSupabase();
+    } catch (error) {
+      console.error("Failed to upload contract terms:", error);
+      toast.error("Failed to save contract terms to database");
+    }
+  };
+
+  // Calculate available date range from data to constrain date picker
+  const availableDateRange = useMemo(() => {
+    const dates = data
+      .map(row => parseDateString(row.DATE))
+      .filter(Boolean) as Date[];
+
+    if (dates.length === 0) {
+      return { min: undefined, max: undefined };
+    }
+
+    dates.sort((a, b) => a.getTime() - b.getTime());
+    return { min: dates[0], max: dates[dates.length - 1] };
+  }, [data]);
+
+  const dateRange = useMemo<DateRange | undefined>(() => {
+    if (!dateFrom && !dateTo) return undefined;
+    return { from: dateFrom ? parseISO(dateFrom) : undefined, to: dateTo ? parseISO(dateTo) : undefined };
+  }, [dateFrom, dateTo]);
+
+  const handleDateRangeChange = (range: DateRange | undefined) => {
+    setDateBounds(
+      range?.from ? format(range.from, "yyyy-MM-dd") : null,
+      range?.to ? format(range.to, "yyyy-MM-dd") : null
+    );
+  };
+
+  // Spend per the agency normalization rules (or raw, per the spend toggle).
+  // Daily priorities take the reported rows and normalize them itself.
+  const normalizedData = useNormalizedCampaignData(data);
+
+  const {
+    dateFilteredData,
+    liveData,
+    filteredData,
+    selectedData,
+    matchesSelections,
+    agencyOptions,
+    advertiserOptions,
+    campaignOptions,
+    selectedAgencies,
+    selectedAdvertisers,
+    selectedCampaigns,
+    onAgenciesChange,
+    onAdvertisersChange,
+    onCampaignsChange
+  } = useGlobalFilters(normalizedData, dateRange);
+
+  const filteredContractTermsData = useMemo(
+    () => contractTermsData.filter(contract => matchesSelections(contract.Name)),
+    [contractTermsData, matchesSelections]
+  );
+
+  const mostRecentDate = useMemo(() => {
+    const latest = filteredData.reduce((max, row) => Math.max(max, parseDateString(row.DATE)?.getTime() || 0), 0);
+    return latest > 0 ? new Date(latest) : new Date();
+  }, [filteredData]);
+
+  const showGlobalFilters = !(activeTab === "campaigns" && isInCampaignDetailView);
+
+  const headerContent = activeTab === DEFAULT_TAB ? null : (
+    <>
+      {/* Title and Date Picker */}
+      <div className="flex items-center justify-between h-16 px-4 lg:px-6">
+        <div className="flex items-center gap-2">
+          <h1 className="text-2xl font-bold">Display Campaign Monitor</h1>
+        </div>
+
+        <div className="flex items-center gap-2">
+          {showGlobalFilters && <CampaignStatusToggle />}
+          <SpendModeToggle />
+          <DateRangePicker
+            dateRange={dateRange}
+            onDateRangeChange={handleDateRangeChange}
+            displayDateRangeSummary={false}
+            minDate={availableDateRange.min}
+            maxDate={availableDateRange.max}
+          />
+          <SavedViewsMenu />
         </div>
       </div>
+
+      {/* Global filters section - hidden when viewing single campaign details */}
+      {showGlobalFilters && (
+        <div className="border-t border-gray-100">
+          <GlobalFilters
+            agencyOptions={agencyOptions}
+            advertiserOptions={advertiserOptions}
+            campaignOptions={campaignOptions}
+            selectedAgencies={selectedAgencies}
+            selectedAdvertisers={selectedAdvertisers}
+            selectedCampaigns={selectedCampaigns}
+            onAgenciesChange={onAgenciesChange}
+            onAdvertisersChange={onAdvertisersChange}
+            onCampaignsChange={onCampaignsChange}
+          />
+        </div>
+      )}
+    </>
+  );
+
+  return (
+    <SidebarLayout
+      activeTab={activeTab}
+      onTabChange={handleTabChange}
+      pacingDataLength={NO_PACING_DATA.length}
+      contractTermsDataLength={contractTermsData.length}
+      dataLength={data.length}
+      hasAllData={true}
+      header={headerContent}
+      className="animate-fade-in"
+      lastCampaignUpload={lastCampaignUpload}
+      lastContractUpload={lastContractUpload}
+      screenshotMode={screenshotMode}
+      onUploadCSV={hasRole('editor') ? () => setIsUploadModalOpen(true) : undefined}
+    >
+      <div className="px-4 lg:px-6 pb-4 lg:pb-6 pt-8">
+        <Tabs value={activeTab} onValueChange={handleTabChange} className="w-full">
+          <TabsContent value="dashboard" className="mt-0">
+            <div id="dashboard-metrics-section">
+              <AggregatedSparkCharts data={filteredData.filter(row => row.DATE !== 'Totals')} />
+
+              {/* Chart section with toggle instead of tabs */}
+              <div className="mt-6 mb-4" id="weekly-comparison-section">
+                <DashboardWrapper
+                  data={showLiveOnly ? liveData : dateFilteredData}
+                  metricsData={filteredData}
+                  revenueData={filteredData}
+                  selectedMetricsCampaigns={[]}
+                  selectedRevenueCampaigns={[]}
+                  selectedRevenueAdvertisers={[]}
+                  selectedRevenueAgencies={[]}
+                  onMetricsCampaignsChange={() => {}}
+                  onRevenueCampaignsChange={() => {}}
+                  onRevenueAdvertisersChange={() => {}}
+                  onRevenueAgenciesChange={() => {}}
+                  selectedWeeklyCampaigns={[]}
+                  onWeeklyCampaignsChange={() => {}}
+                  selectedMetricsAdvertisers={[]}
+                  selectedMetricsAgencies={[]}
+                  onMetricsAdvertisersChange={() => {}}
+                  onMetricsAgenciesChange={() => {}}
+                  useGlobalFilters={true}
+                  hideCharts={isAttributionChart ? ["metricsChart"] : ["revenueChart"]}
+                  chartToggleComponent={
+                    <ChartToggle
+                      isAttributionChart={isAttributionChart}
+                      setIsAttributionChart={setIsAttributionChart}
+                    />
+                  }
+                  showDailyTotalsTable={false}
+                  hideDashboardSparkCharts={true}
+                  dateRange={dateRange}
+                />
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="sparks" className="mt-0">
+            <div id="spark-charts-section">
+              <CampaignSparkCharts data={filteredData} dateRange={dateRange} useGlobalFilters={true} />
+            </div>
+          </TabsContent>
+
+          {data.length > 0 && (
+            <TabsContent value="campaigns" className="mt-0">
+              <div className="mb-4 animate-fade-in" id="campaigns-section">
+                <CampaignManager
+                  data={selectedData}
+                  pacingData={NO_PACING_DATA}
+                  contractTermsData={filteredContractTermsData}
+                  useGlobalFilters={true}
+                  globalDateRange={dateRange}
+                  onCampaignDetailViewChange={setIsInCampaignDetailView}
+                />
+              </div>
+            </TabsContent>
+          )}
+
+          {contractTermsData.length > 0 && (
+            <TabsContent value="health" className="mt-0">
+              <div id="health-scatter-section">
+                <CampaignHealthTab
+                  data={filteredData}
+                  pacingData={NO_PACING_DATA}
+                  contractTermsData={filteredContractTermsData}
+                  unfilteredData={normalizedData}
+                  dbContractTerms={[]}
+                />
+              </div>
+            </TabsContent>
+          )}
+
+          <TabsContent value="pacing" className="mt-0">
+            <div className="mb-4 animate-fade-in" id="pacing-section">
+              <Pacing data={filteredData} unfilteredData={normalizedData} />
+            </div>
+          </TabsContent>
+
+          {data.length > 0 && (
+            <TabsContent value="notifications" className="mt-0">
+              <div className="mb-4 animate-fade-in" id="notifications-section">
+                <NotificationsTab campaignData={filteredData} />
+              </div>
+            </TabsContent>
+          )}
+
+          <TabsContent value="custom-report" className="mt-0">
+            <div className="mb-4 animate-fade-in" id="custom-report-section">
+              <CustomReportBuilder
+                data={filteredData}
+                dateRange={dateRange}
+                contractTermsData={filteredContractTermsData}
+              />
+            </div>
+          </TabsContent>
+
+          {(contractTermsData.length > 0 || data.length > 0) && (
+            <TabsContent value="status" className="mt-0">
+              <div className="mb-4 animate-fade-in" id="status-section">
+                <StatusTab
+                  contractTermsData={filteredContractTermsData}
+                  deliveryData={filteredData}
+                  globalMostRecentDate={mostRecentDate}
+                />
+              </div>
+            </TabsContent>
+          )}
+
+          <TabsContent value="priorities" className="mt-0">
+            <div className="max-w-7xl mx-auto mb-4" id="priorities-section">
+              <DailyPrioritiesContent
+                dateRange={undefined}
+                campaignData={data}
+                screenshotMode={screenshotMode}
+                onScreenshotModeChange={setScreenshotMode}
+                lastCampaignUpload={lastCampaignUpload}
+                lastContractUpload={lastContractUpload}
+                isLoadingCampaignData={isLoadingCampaignData}
+              />
+            </div>
+          </TabsContent>
+
+          <TabsContent value="raw-data" className="mt-0">
+            <div className="mb-4 animate-fade-in" id="raw-data-table-section">
+              <h3 className="text-lg font-semibold mb-4">Campaign Data</h3>
+              <RawDataTableImproved data={filteredData} useGlobalFilters={true} />
+            </div>
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      <UnifiedUploadModal
+        isOpen={isUploadModalOpen}
+        onClose={() => setIsUploadModalOpen(false)}
+        onDeliveryDataLoaded={handleDeliveryDataLoaded}
+        onContractTermsLoaded={handleContractTermsLoaded}
+      />
+    </SidebarLayout>
+  );
+};
+
+const Index = () => {
+  return (
+    <CampaignFilterProvider>
+      <IndexContent />
     </CampaignFilterProvider>
   );
 };
@@ -6,8 +6,11 @@ import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { format } from 'date-fns';
 import { useLaunchStatusTracking } from '@/hooks/useLaunchStatusTracking';
-import { RenewalProcessStatus, RenewalStatusTrackingUpdate } from '@/types/daily-priorities';
+import { useWorkflowTemplates } from '@/hooks/useWorkflowTemplates';
+import { RenewalProcessStatus } from '@/types/daily-priorities';
 import { StatusTrackingCard } from '@/components/status-tracking/StatusTrackingCard';
+import { WorkflowTemplateEditor } from '@/components/status-tracking/WorkflowTemplateEditor';
+import { StatusTrackingBoard } from '@/components/status-tracking/StatusTrackingBoard';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -26,7 +29,7 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { toast } from 'sonner';
-import { Plus, ArrowLeft, CalendarIcon } from 'lucide-react';
+import { Plus, ArrowLeft, CalendarIcon, ListChecks } from 'lucide-react';
 import { ErrorBoundary } from 'react-error-boundary';
 
 function ErrorFallback({ error, resetErrorBoundary }: { error: Error; resetErrorBoundary: () => void }) {
@@ -55,11 +58,23 @@ export default function LaunchStatusPage() {
     createTrackingRecord,
     updateTrackingRecord,
     deleteTrackingRecord,
+    setStepCompleted,
+    moveTrackingRecord,
     hasTrackingRecord,
     isCreating,
     isDeleting
   } = useLaunchStatusTracking();
 
+  const {
+    templates: workflowTemplates,
+    getTemplate,
+    saveTemplate,
+    deleteTemplate,
+    isSaving: isSavingTemplate,
+    canEdit: canEditTemplates
+  } = useWorkflowTemplates('launch');
+  const [showTemplateEditor, setShowTemplateEditor] = useState(false);
+
   const [newCampaignName, setNewCampaignName] = useState('');
   const [newLaunchDate, setNewLaunchDate] = useState<Date | undefined>(undefined);
   const [showAddDialog, setShowAddDialog] = useState(false);
@@ -105,14 +120,18 @@ export default function LaunchStatusPage() {
     );
   };
 
-  const handleCheckboxChange = (
-    id: string,
-    field: keyof RenewalStatusTrackingUpdate,
-    checked: boolean
-  ) => {
+  const handleStepToggle = (id: string, stepId: string, completed: boolean, stepLabel: string) => {
+    setStepCompleted({ id, stepId, completed, stepLabel });
+  };
+
+  const handleMove = (id: string, status: RenewalProcessStatus) => {
+    moveTrackingRecord({ id, status });
+  };
+
+  const handleTemplateChange = (id: string, templateId: string) => {
     updateTrackingRecord({
       id,
-      updates: { [field]: checked }
+      updates: { workflow_template_id: templateId }
     });
   };
 
@@ -259,6 +278,16 @@ export default function LaunchStatusPage() {
                     </div>
                   </DialogContent>
                 </Dialog>
+
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="gap-1"
+                  onClick={() => setShowTemplateEditor(true)}
+                >
+                  <ListChecks className="h-4 w-4" />
+                  Workflow Templates
+                </Button>
               </div>
             </div>
           </CardHeader>
@@ -304,8 +333,28 @@ export default function LaunchStatusPage() {
                   >
                     Completed ({completedRecords.length})
                   </button>
+                  <button
+                    onClick={() => setActiveTab('board')}
+                    className={`pb-2 text-sm font-medium transition-colors ${
+                      activeTab === 'board'
+                        ? 'text-foreground border-b-2 border-foreground'
+                        : 'text-muted-foreground hover:text-foreground'
+                    }`}
+                  >
+                    Board
+                  </button>
                 </div>
 
+                {/* Board Tab */}
+                {activeTab === 'board' && (
+                  <StatusTrackingBoard
+                    records={trackingRecords}
+                    getTemplate={getTemplate}
+                    dateLabel="Launch"
+                    onMove={handleMove}
+                  />
+                )}
+
                 {/* Open Records Tab */}
                 {activeTab === 'open' && (
                   <>
@@ -321,8 +370,10 @@ export default function LaunchStatusPage() {
                             key={record.id}
                             record={record}
                             isCompleted={false}
-                            useLaunchLabels={true}
-                            onCheckboxChange={handleCheckboxChange}
+                            template={getTemplate(record.workflow_template_id)}
+                            templates={workflowTemplates}
+                            onStepToggle={handleStepToggle}
+                            onTemplateChange={handleTemplateChange}
                             onStatusChange={handleStatusChange}
                             onRenewalDateChange={handleRenewalDateChange}
                             onTaskUrlChange={handleTaskUrlChange}
@@ -350,8 +401,10 @@ export default function LaunchStatusPage() {
                             key={record.id}
                             record={record}
                             isCompleted={true}
-                            useLaunchLabels={true}
-                            onCheckboxChange={handleCheckboxChange}
+                            template={getTemplate(record.workflow_template_id)}
+                            templates={workflowTemplates}
+                            onStepToggle={handleStepToggle}
+                            onTemplateChange={handleTemplateChange}
                             onStatusChange={handleStatusChange}
                             onRenewalDateChange={handleRenewalDateChange}
                             onTaskUrlChange={handleTaskUrlChange}
@@ -411,6 +464,17 @@ export default function LaunchStatusPage() {
         </Dialog>
       ))}
 
+      <WorkflowTemplateEditor
+        isOpen={showTemplateEditor}
+        onClose={() => setShowTemplateEditor(false)}
+        kind="launch"
+        templates={workflowTemplates}
+        onSave={saveTemplate}
+        onDelete={deleteTemplate}
+        isSaving={isSavingTemplate}
+        canEdit={canEditTemplates}
+      />
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={deleteConfirmId !== null} onOpenChange={(open) => !open && setDeleteConfirmId(null)}>
         <AlertDialogContent>
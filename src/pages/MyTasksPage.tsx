@@ -0,0 +1,214 @@
+/**
+ * MyTasksPage - Everything assigned to the current user across sections:
+ * overdue, blocked and open tasks, plus what they completed this week
+ */
+
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { useMyTasks } from '@/hooks/useMyTasks';
+import { useAuth } from '@/contexts/use-auth';
+import { DailyPriority, DailyPriorityUpdate, PrioritySection, SECTION_LABELS, SECTION_ORDER } from '@/types/daily-priorities';
+import { getTaskAgeDays, MY_TASKS_OVERDUE_DAYS } from '@/utils/myTasks';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ArrowLeft, Ban, Check, Unlock } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+export default function MyTasksPage() {
+  const navigate = useNavigate();
+  const { currentUser } = useAuth();
+  const { open, overdue, blocked, completedThisWeek, openCount, isLoading, updatePriority } = useMyTasks();
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 lg:p-6">
+      <div className="max-w-[1200px] mx-auto">
+        <Card className="shadow-sm">
+          <CardHeader className="border-b bg-white">
+            <div className="flex items-center gap-4">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => navigate('/')}
+                className="h-8 w-8 p-0"
+              >
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+              <div>
+                <CardTitle className="text-xl">My Tasks</CardTitle>
+                <p className="text-sm text-muted-foreground mt-1">
+                  {currentUser ? `${openCount} open tasks assigned to ${currentUser.displayName}` : 'Tasks assigned to you'}
+                </p>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="p-4 space-y-6">
+            {isLoading ? (
+              <div className="text-sm text-muted-foreground">Loading your tasks...</div>
+            ) : (
+              <>
+                <MyTaskGroup
+                  title="Overdue"
+                  description={`Open ${MY_TASKS_OVERDUE_DAYS}+ days since they were created`}
+                  tasks={overdue}
+                  onUpdate={updatePriority}
+                  highlight="text-red-600"
+                />
+                <MyTaskGroup
+                  title="Blocked"
+                  description="Waiting on something before you can move them forward"
+                  tasks={blocked}
+                  onUpdate={updatePriority}
+                  highlight="text-orange-600"
+                />
+                <MyTaskGroup
+                  title="Open"
+                  tasks={open}
+                  onUpdate={updatePriority}
+                />
+                <CompletedGroup tasks={completedThisWeek} />
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+interface MyTaskGroupProps {
+  title: string;
+  description?: string;
+  tasks: DailyPriority[];
+  onUpdate: (id: string, updates: DailyPriorityUpdate) => void;
+  highlight?: string;
+}
+
+function MyTaskGroup({ title, description, tasks, onUpdate, highlight }: MyTaskGroupProps) {
+  return (
+    <section className="space-y-2">
+      <div>
+        <h2 className={cn('text-sm font-semibold', highlight)}>
+          {title} ({tasks.length})
+        </h2>
+        {description && <p className="text-xs text-muted-foreground">{description}</p>}
+      </div>
+      {tasks.length === 0 ? (
+        <p className="text-xs text-muted-foreground italic">Nothing here</p>
+      ) : (
+        <div className="divide-y rounded-md border bg-white">
+          {tasks.map(task => (
+            <MyTaskRow key={task.id} task={task} onUpdate={onUpdate} />
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
+
+function MyTaskRow({ task, onUpdate }: { task: DailyPriority; onUpdate: MyTaskGroupProps['onUpdate'] }) {
+  const ageDays = getTaskAgeDays(task);
+
+  const handleComplete = () => {
+    onUpdate(task.id, { completed: true, completed_at: new Date().toISOString() });
+  };
+
+  // Same as the block toggle on the main board
+  const handleToggleBlock = () => {
+    if (task.section === 'blocked') {
+      onUpdate(task.id, { section: task.original_section || 'partner_success', original_section: null });
+    } else {
+      onUpdate(task.id, { section: 'blocked', original_section: task.section });
+    }
+  };
+
+  const handleMove = (section: PrioritySection) => {
+    if (section !== task.section) {
+      onUpdate(task.id, { section, original_section: null });
+    }
+  };
+
+  return (
+    <div className="flex items-start gap-3 p-3">
+      <div className="flex-1 min-w-0 space-y-1">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm font-medium">{task.client_name || 'No client'}</span>
+          {task.agency_name && <span className="text-xs text-muted-foreground">{task.agency_name}</span>}
+          <Badge variant="outline" className="text-[10px] px-1.5 py-0">{SECTION_LABELS[task.section]}</Badge>
+          <span className={cn('text-[11px]', ageDays >= MY_TASKS_OVERDUE_DAYS ? 'text-red-600' : 'text-muted-foreground')}>
+            {ageDays === 0 ? 'Created today' : `Open ${ageDays} day${ageDays === 1 ? '' : 's'}`}
+          </span>
+        </div>
+        {task.description && (
+          <p className="text-xs text-muted-foreground whitespace-pre-wrap line-clamp-2">{task.description}</p>
+        )}
+      </div>
+      <div className="flex items-center gap-1 shrink-0">
+        <Select value={task.section} onValueChange={(value) => handleMove(value as PrioritySection)}>
+          <SelectTrigger className="h-7 w-[140px] text-xs" title="Move to another section">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SECTION_ORDER.map(section => (
+              <SelectItem key={section} value={section} className="text-xs">{SECTION_LABELS[section]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={handleToggleBlock}
+          title={task.section === 'blocked' ? 'Unblock task' : 'Block task'}
+          className="h-7 w-7"
+        >
+          {task.section === 'blocked' ? (
+            <Unlock className="h-4 w-4 text-blue-600" />
+          ) : (
+            <Ban className="h-4 w-4 text-orange-600" />
+          )}
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={handleComplete}
+          title="Mark as complete"
+          className="h-7 w-7"
+        >
+          <Check className="h-4 w-4 text-green-600" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function CompletedGroup({ tasks }: { tasks: DailyPriority[] }) {
+  return (
+    <section className="space-y-2">
+      <h2 className="text-sm font-semibold text-green-700">Completed this week ({tasks.length})</h2>
+      {tasks.length === 0 ? (
+        <p className="text-xs text-muted-foreground italic">Nothing completed yet this week</p>
+      ) : (
+        <div className="divide-y rounded-md border bg-white">
+          {tasks.map(task => (
+            <div key={task.id} className="flex items-center gap-3 p-3">
+              <span className="text-sm text-muted-foreground line-through">{task.client_name || 'No client'}</span>
+              <Badge variant="outline" className="text-[10px] px-1.5 py-0">{SECTION_LABELS[task.section]}</Badge>
+              {task.completed_at && (
+                <span className="ml-auto text-[11px] text-muted-foreground">
+                  {format(new Date(task.completed_at), 'EEE, MMM d')}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
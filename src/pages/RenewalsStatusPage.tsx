@@ -6,9 +6,14 @@ import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { format, parseISO, isValid } from 'date-fns';
 import { useRenewalStatusTracking } from '@/hooks/useRenewalStatusTracking';
+import { useWorkflowTemplates } from '@/hooks/useWorkflowTemplates';
 import { useAutoGeneratedPriorities } from '@/hooks/useAutoGeneratedPriorities';
-import { RenewalProcessStatus, RenewalType, RenewalStatusTrackingUpdate } from '@/types/daily-priorities';
+import { useAlertThresholds } from '@/hooks/useAlertThresholds';
+import { parseAgencyInfo } from '@/utils/campaignNameParsing';
+import { RenewalProcessStatus, RenewalType } from '@/types/daily-priorities';
 import { StatusTrackingCard } from '@/components/status-tracking/StatusTrackingCard';
+import { WorkflowTemplateEditor } from '@/components/status-tracking/WorkflowTemplateEditor';
+import { StatusTrackingBoard } from '@/components/status-tracking/StatusTrackingBoard';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -28,7 +33,7 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { toast } from 'sonner';
-import { Plus, ArrowLeft, CalendarIcon, ChevronDown } from 'lucide-react';
+import { Plus, ArrowLeft, CalendarIcon, ChevronDown, ListChecks } from 'lucide-react';
 import { ErrorBoundary } from 'react-error-boundary';
 
 function ErrorFallback({ error, resetErrorBoundary }: { error: Error; resetErrorBoundary: () => void }) {
@@ -47,6 +52,9 @@ function ErrorFallback({ error, resetErrorBoundary }: { error: Error; resetError
   );
 }
 
+// This page sits outside CampaignFilterProvider, so agency lookups use the parser directly
+const getAgencyAbbreviation = (campaignName: string) => parseAgencyInfo(campaignName).abbreviation;
+
 export default function RenewalsStatusPage() {
   const navigate = useNavigate();
   const {
@@ -57,11 +65,23 @@ export default function RenewalsStatusPage() {
     createTrackingRecord,
     updateTrackingRecord,
     deleteTrackingRecord,
+    setStepCompleted,
+    moveTrackingRecord,
     hasTrackingRecord,
     isCreating,
     isDeleting
   } = useRenewalStatusTracking();
 
+  const {
+    templates: workflowTemplates,
+    getTemplate,
+    saveTemplate,
+    deleteTemplate,
+    isSaving: isSavingTemplate,
+    canEdit: canEditTemplates
+  } = useWorkflowTemplates('renewal');
+  const [showTemplateEditor, setShowTemplateEditor] = useState(false);
+
   const { getCampaignData } = useSupabase();
   const [campaignData, setCampaignData] = useState<CampaignDataRow[]>([]);
 
@@ -90,7 +110,8 @@ export default function RenewalsStatusPage() {
     loadCampaignData();
   }, [getCampaignData]);
 
-  const autoSections = useAutoGeneratedPriorities(new Date(), campaignData);
+  const { resolveThresholds } = useAlertThresholds(getAgencyAbbreviation);
+  const autoSections = useAutoGeneratedPriorities(new Date(), campaignData, resolveThresholds);
   const upcomingRenewals = autoSections.renewals;
 
   const [newCampaignName, setNewCampaignName] = useState('');
@@ -172,14 +193,18 @@ export default function RenewalsStatusPage() {
     );
   };
 
-  const handleCheckboxChange = (
-    id: string,
-    field: keyof RenewalStatusTrackingUpdate,
-    checked: boolean
-  ) => {
+  const handleStepToggle = (id: string, stepId: string, completed: boolean, stepLabel: string) => {
+    setStepCompleted({ id, stepId, completed, stepLabel });
+  };
+
+  const handleMove = (id: string, status: RenewalProcessStatus) => {
+    moveTrackingRecord({ id, status });
+  };
+
+  const handleTemplateChange = (id: string, templateId: string) => {
     updateTrackingRecord({
       id,
-      updates: { [field]: checked }
+      updates: { workflow_template_id: templateId }
     });
   };
 
@@ -364,6 +389,16 @@ export default function RenewalsStatusPage() {
                     </div>
                   </DialogContent>
                 </Dialog>
+
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="gap-1"
+                  onClick={() => setShowTemplateEditor(true)}
+                >
+                  <ListChecks className="h-4 w-4" />
+                  Workflow Templates
+                </Button>
               </div>
             </div>
           </CardHeader>
@@ -409,8 +444,29 @@ export default function RenewalsStatusPage() {
                   >
                     Completed ({completedRecords.length})
                   </button>
+                  <button
+                    onClick={() => setActiveTab('board')}
+                    className={`pb-2 text-sm font-medium transition-colors ${
+                      activeTab === 'board'
+                        ? 'text-foreground border-b-2 border-foreground'
+                        : 'text-muted-foreground hover:text-foreground'
+                    }`}
+                  >
+                    Board
+                  </button>
                 </div>
 
+                {/* Board Tab */}
+                {activeTab === 'board' && (
+                  <StatusTrackingBoard
+                    records={trackingRecords}
+                    getTemplate={getTemplate}
+                    showRenewalType={true}
+                    dateLabel="Renewal"
+                    onMove={handleMove}
+                  />
+                )}
+
                 {/* Open Records Tab */}
                 {activeTab === 'open' && (
                   <>
@@ -428,7 +484,10 @@ export default function RenewalsStatusPage() {
                             isCompleted={false}
                             showRenewalType={true}
                             showNotes={false}
-                            onCheckboxChange={handleCheckboxChange}
+                            template={getTemplate(record.workflow_template_id)}
+                            templates={workflowTemplates}
+                            onStepToggle={handleStepToggle}
+                            onTemplateChange={handleTemplateChange}
                             onStatusChange={handleStatusChange}
                             onRenewalTypeChange={handleRenewalTypeChange}
                             onRenewalDateChange={handleRenewalDateChange}
@@ -458,7 +517,10 @@ export default function RenewalsStatusPage() {
                             isCompleted={true}
                             showRenewalType={true}
                             showNotes={false}
-                            onCheckboxChange={handleCheckboxChange}
+                            template={getTemplate(record.workflow_template_id)}
+                            templates={workflowTemplates}
+                            onStepToggle={handleStepToggle}
+                            onTemplateChange={handleTemplateChange}
                             onStatusChange={handleStatusChange}
                             onRenewalTypeChange={handleRenewalTypeChange}
                             onRenewalDateChange={handleRenewalDateChange}
@@ -477,6 +539,17 @@ export default function RenewalsStatusPage() {
         </Card>
       </div>
 
+      <WorkflowTemplateEditor
+        isOpen={showTemplateEditor}
+        onClose={() => setShowTemplateEditor(false)}
+        kind="renewal"
+        templates={workflowTemplates}
+        onSave={saveTemplate}
+        onDelete={deleteTemplate}
+        isSaving={isSavingTemplate}
+        canEdit={canEditTemplates}
+      />
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={deleteConfirmId !== null} onOpenChange={(open) => !open && setDeleteConfirmId(null)}>
         <AlertDialogContent>
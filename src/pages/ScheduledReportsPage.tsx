@@ -0,0 +1,296 @@
+/**
+ * ScheduledReportsPage - Saved report definitions, their schedules and the
+ * outbox of generated PDFs
+ */
+
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { useReportDefinitions } from '@/hooks/useReportDefinitions';
+import { ReportDefinition, ReportOutboxEntry } from '@/types/report-definitions';
+import {
+  describeReportSchedule,
+  getRelativeDateRangeLabel,
+  getReportSchedule
+} from '@/utils/reportDefinitions';
+import { CampaignFilterProvider } from '@/contexts/CampaignFilterContext';
+import { ReportDefinitionDialog } from '@/components/reports/ReportDefinitionDialog';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ArrowLeft, Download, Play } from 'lucide-react';
+
+const formatTimestamp = (timestamp: string) => format(new Date(timestamp), 'MMM d, yyyy h:mm a');
+const formatDay = (date: string) => format(parseISO(date), 'MMM d');
+
+const OUTBOX_STATUS_BADGES: Record<ReportOutboxEntry['status'], string> = {
+  ready: 'bg-blue-100 text-blue-800',
+  sent: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800'
+};
+
+function ScheduledReportsContent() {
+  const navigate = useNavigate();
+  const {
+    definitions,
+    isLoading,
+    outbox,
+    isLoadingOutbox,
+    saveDefinition,
+    deleteDefinition,
+    runNow,
+    downloadReport,
+    isSaving,
+    runningDefinitionId,
+    canEdit
+  } = useReportDefinitions();
+  const [editDefinition, setEditDefinition] = useState<ReportDefinition | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<ReportDefinition | null>(null);
+
+  const definitionNames = new Map(definitions.map(definition => [definition.id, definition.name]));
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 lg:p-6">
+      <div className="max-w-[1600px] mx-auto">
+        <Card className="shadow-sm">
+          <CardHeader className="border-b bg-white">
+            <div className="flex items-center gap-4">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => navigate('/')}
+                className="h-8 w-8 p-0"
+              >
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+              <div>
+                <CardTitle className="text-xl">Scheduled Reports</CardTitle>
+                <p className="text-sm text-muted-foreground mt-1">
+                  Reports saved from the report builder - scheduled ones are generated automatically into the outbox below
+                </p>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="p-0">
+            {isLoading ? (
+              <div className="p-6 text-sm text-muted-foreground">Loading saved reports...</div>
+            ) : definitions.length === 0 ? (
+              <div className="p-6 text-sm text-muted-foreground">
+                No saved reports yet. Build one in the Custom Report Builder and choose Save Report.
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Date Range</TableHead>
+                    <TableHead>Filters</TableHead>
+                    <TableHead>Schedule</TableHead>
+                    <TableHead>Next Run</TableHead>
+                    <TableHead>Last Run</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {definitions.map(definition => (
+                    <TableRow key={definition.id}>
+                      <TableCell>
+                        <div className="font-medium">{definition.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {definition.charts.length} chart{definition.charts.length === 1 ? '' : 's'}
+                          {definition.recipients.length > 0 && ` - ${definition.recipients.join(', ')}`}
+                        </div>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{getRelativeDateRangeLabel(definition.date_range)}</TableCell>
+                      <TableCell className="max-w-[260px] text-xs">
+                        {definition.agencies.length === 0 && definition.advertisers.length === 0
+                          ? <span className="text-muted-foreground">All campaigns</span>
+                          : [...definition.agencies, ...definition.advertisers].join(', ')}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {describeReportSchedule(getReportSchedule(definition))}
+                        {definition.schedule_frequency && !definition.is_active && (
+                          <Badge variant="secondary" className="ml-2">Paused</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {definition.next_run_at ? formatTimestamp(definition.next_run_at) : <span className="text-muted-foreground">-</span>}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {definition.last_run_at ? formatTimestamp(definition.last_run_at) : <span className="text-muted-foreground">Never</span>}
+                        {definition.last_run_status === 'failed' && (
+                          <Badge
+                            variant="destructive"
+                            className="ml-2"
+                            title={definition.failed_attempts > 0
+                              ? 'Generation failed - retrying at the next run time'
+                              : 'Generation failed after retrying - runs again at its next scheduled time'}
+                          >
+                            Failed
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="gap-1"
+                            onClick={() => runNow(definition)}
+                            disabled={runningDefinitionId === definition.id}
+                          >
+                            <Play className="h-3 w-3" />
+                            {runningDefinitionId === definition.id ? 'Generating...' : 'Run Now'}
+                          </Button>
+                          {canEdit && (
+                            <>
+                              <Button variant="outline" size="sm" onClick={() => setEditDefinition(definition)}>
+                                Edit
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="text-red-600 hover:text-red-700"
+                                onClick={() => setDeleteTarget(definition)}
+                              >
+                                Delete
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Outbox */}
+        <Card className="shadow-sm mt-6">
+          <CardHeader className="border-b bg-white">
+            <CardTitle className="text-lg">Outbox</CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">
+              Generated reports, newest first
+            </p>
+          </CardHeader>
+          <CardContent className="p-0">
+            {isLoadingOutbox ? (
+              <div className="p-6 text-sm text-muted-foreground">Loading outbox...</div>
+            ) : outbox.length === 0 ? (
+              <div className="p-6 text-sm text-muted-foreground">No reports generated yet.</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Generated</TableHead>
+                    <TableHead>Report</TableHead>
+                    <TableHead>Dates Covered</TableHead>
+                    <TableHead className="text-right">Rows</TableHead>
+                    <TableHead>Recipients</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">File</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {outbox.map(entry => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {formatTimestamp(entry.created_at)}
+                        <div className="text-xs text-muted-foreground">
+                          {entry.triggered_by === 'manual' ? 'Run manually' : 'Scheduled'}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {entry.report_title}
+                        {entry.definition_id && definitionNames.get(entry.definition_id) !== entry.report_title && (
+                          <div className="text-xs text-muted-foreground">{definitionNames.get(entry.definition_id) || 'Deleted report'}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {formatDay(entry.date_start)} - {formatDay(entry.date_end)}
+                      </TableCell>
+                      <TableCell className="text-right">{entry.row_count.toLocaleString()}</TableCell>
+                      <TableCell className="max-w-[220px] truncate text-xs" title={entry.recipients.join('\n')}>
+                        {entry.recipients.length > 0 ? entry.recipients.join(', ') : <span className="text-muted-foreground">-</span>}
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={OUTBOX_STATUS_BADGES[entry.status]} title={entry.error || undefined}>
+                          {entry.status === 'ready' ? 'Ready' : entry.status === 'sent' ? 'Sent' : 'Failed'}
+                        </Badge>
+                        {entry.error && <div className="text-xs text-red-700 mt-1 max-w-[240px] truncate">{entry.error}</div>}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {entry.file_path && (
+                          <Button variant="outline" size="sm" className="gap-1" onClick={() => downloadReport(entry)}>
+                            <Download className="h-3 w-3" />
+                            PDF
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <ReportDefinitionDialog
+        open={editDefinition !== null}
+        onOpenChange={(open) => !open && setEditDefinition(null)}
+        definition={editDefinition}
+        onSave={(definition) => saveDefinition(definition, { onSuccess: () => setEditDefinition(null) })}
+        isSaving={isSaving}
+      />
+
+      <AlertDialog open={deleteTarget !== null} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Saved Report</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{deleteTarget?.name}" will stop running. Reports it already generated stay in the outbox.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteTarget && deleteDefinition(deleteTarget.id, { onSettled: () => setDeleteTarget(null) })}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+export default function ScheduledReportsPage() {
+  return (
+    <CampaignFilterProvider>
+      <ScheduledReportsContent />
+    </CampaignFilterProvider>
+  );
+}
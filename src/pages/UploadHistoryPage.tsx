@@ -0,0 +1,262 @@
+/**
+ * UploadHistoryPage - Ledger of campaign data uploads with diff and rollback,
+ * plus the quarantine of import rows that failed validation
+ */
+
+import { useCallback, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { useUploadHistory } from '@/hooks/useUploadHistory';
+import { useQuarantinedRows } from '@/hooks/useQuarantinedRows';
+import { QuarantinedRow, UploadBatch } from '@/types/upload-history';
+import { getDisplayName } from '@/config/users';
+import { CampaignFilterProvider } from '@/contexts/CampaignFilterContext';
+import { useCampaignFilter } from '@/contexts/use-campaign-filter';
+import { UploadBatchDiffDialog } from '@/components/UploadBatchDiffDialog';
+import { QuarantineRowDialog } from '@/components/QuarantineRowDialog';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ArrowLeft, RotateCcw } from 'lucide-react';
+
+const formatDay = (date: string) => format(parseISO(date), 'MMM d, yyyy');
+
+function UploadHistoryContent() {
+  const navigate = useNavigate();
+  const { batches, isLoading, rollbackBatch, isRollingBack, canRollback } = useUploadHistory();
+  const { quarantinedRows, isLoading: isLoadingQuarantine, reimportRow, discardRow, isReimporting } = useQuarantinedRows();
+  const { extractAgencyInfo } = useCampaignFilter();
+  const getAgencyAbbreviation = useCallback(
+    (campaignName: string) => extractAgencyInfo(campaignName).abbreviation,
+    [extractAgencyInfo]
+  );
+  const [diffBatch, setDiffBatch] = useState<UploadBatch | null>(null);
+  const [rollbackTarget, setRollbackTarget] = useState<UploadBatch | null>(null);
+  const [fixRow, setFixRow] = useState<QuarantinedRow | null>(null);
+
+  const confirmRollback = () => {
+    if (!rollbackTarget) return;
+    rollbackBatch(rollbackTarget, {
+      onSettled: () => setRollbackTarget(null)
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 lg:p-6">
+      <div className="max-w-[1600px] mx-auto">
+        <Card className="shadow-sm">
+          <CardHeader className="border-b bg-white">
+            <div className="flex items-center gap-4">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => navigate('/')}
+                className="h-8 w-8 p-0"
+              >
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+              <div>
+                <CardTitle className="text-xl">Upload History</CardTitle>
+                <p className="text-sm text-muted-foreground mt-1">
+                  Campaign data uploads - review what each one changed and roll back a bad one
+                </p>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="p-0">
+            {isLoading ? (
+              <div className="p-6 text-sm text-muted-foreground">Loading upload history...</div>
+            ) : batches.length === 0 ? (
+              <div className="p-6 text-sm text-muted-foreground">No uploads recorded yet.</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Uploaded</TableHead>
+                    <TableHead>By</TableHead>
+                    <TableHead>File</TableHead>
+                    <TableHead className="text-right">Rows</TableHead>
+                    <TableHead>Dates Covered</TableHead>
+                    <TableHead className="text-right">Campaigns</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {batches.map(batch => (
+                    <TableRow key={batch.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {format(new Date(batch.created_at), 'MMM d, yyyy h:mm a')}
+                      </TableCell>
+                      <TableCell>{batch.uploaded_by ? getDisplayName(batch.uploaded_by) : 'Unknown User'}</TableCell>
+                      <TableCell className="max-w-[220px] truncate" title={batch.file_name || undefined}>
+                        {batch.file_name || <span className="text-muted-foreground">-</span>}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        {batch.row_count.toLocaleString()}
+                        <div className="text-xs text-muted-foreground">
+                          {batch.inserted_count.toLocaleString()} new / {batch.updated_count.toLocaleString()} replaced
+                        </div>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {batch.date_start === batch.date_end
+                          ? formatDay(batch.date_start)
+                          : `${formatDay(batch.date_start)} - ${formatDay(batch.date_end)}`}
+                      </TableCell>
+                      <TableCell className="text-right" title={batch.campaigns.join('\n')}>
+                        {batch.campaigns.length.toLocaleString()}
+                      </TableCell>
+                      <TableCell>
+                        {batch.status === 'rolled_back' ? (
+                          <Badge variant="secondary" title={batch.rolled_back_at ? `Rolled back ${format(new Date(batch.rolled_back_at), 'MMM d, yyyy h:mm a')} by ${getDisplayName(batch.rolled_back_by)}` : undefined}>
+                            Rolled back
+                          </Badge>
+                        ) : batch.status === 'incomplete' ? (
+                          <Badge className="bg-amber-100 text-amber-800" title="The rows this upload overwrote were not all recorded, so it cannot be rolled back">
+                            Incomplete
+                          </Badge>
+                        ) : (
+                          <Badge className="bg-green-100 text-green-800">Active</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <div className="flex justify-end gap-2">
+                          <Button variant="outline" size="sm" onClick={() => setDiffBatch(batch)}>
+                            View Changes
+                          </Button>
+                          {canRollback && batch.status === 'active' && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="gap-1 text-red-600 hover:text-red-700"
+                              onClick={() => setRollbackTarget(batch)}
+                            >
+                              <RotateCcw className="h-3 w-3" />
+                              Roll Back
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Quarantined rows */}
+        <Card className="shadow-sm mt-6">
+          <CardHeader className="border-b bg-white">
+            <div className="flex items-center gap-2">
+              <CardTitle className="text-lg">Quarantined Rows</CardTitle>
+              {quarantinedRows.length > 0 && (
+                <Badge className="bg-red-100 text-red-800">{quarantinedRows.length.toLocaleString()}</Badge>
+              )}
+            </div>
+            <p className="text-sm text-muted-foreground mt-1">
+              Rows held back from imports because they failed validation - fix and re-import, or discard
+            </p>
+          </CardHeader>
+          <CardContent className="p-0">
+            {isLoadingQuarantine ? (
+              <div className="p-6 text-sm text-muted-foreground">Loading quarantined rows...</div>
+            ) : quarantinedRows.length === 0 ? (
+              <div className="p-6 text-sm text-muted-foreground">Nothing in quarantine.</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>File</TableHead>
+                    <TableHead className="text-right">Row</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Campaign</TableHead>
+                    <TableHead>Issues</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {quarantinedRows.map(row => (
+                    <TableRow key={row.id}>
+                      <TableCell className="max-w-[200px] truncate" title={row.file_name || undefined}>
+                        {row.file_name || <span className="text-muted-foreground">-</span>}
+                      </TableCell>
+                      <TableCell className="text-right">{row.row_number ?? '-'}</TableCell>
+                      <TableCell className="whitespace-nowrap">{String(row.row_data.DATE ?? '')}</TableCell>
+                      <TableCell className="max-w-[260px] truncate" title={String(row.row_data['CAMPAIGN ORDER NAME'] ?? '')}>
+                        {String(row.row_data['CAMPAIGN ORDER NAME'] ?? '')}
+                      </TableCell>
+                      <TableCell className="text-xs text-red-700">
+                        {row.issues.map(issue => issue.message).join('; ')}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="outline" size="sm" onClick={() => setFixRow(row)}>
+                          Fix
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <UploadBatchDiffDialog batch={diffBatch} onClose={() => setDiffBatch(null)} />
+
+      <QuarantineRowDialog
+        row={fixRow}
+        onClose={() => setFixRow(null)}
+        onReimport={(row, fixedData) => reimportRow({ row, fixedData }, { onSuccess: () => setFixRow(null) })}
+        onDiscard={(row) => discardRow(row.id, { onSuccess: () => setFixRow(null) })}
+        getAgencyAbbreviation={getAgencyAbbreviation}
+        isSaving={isReimporting}
+      />
+
+      <AlertDialog open={rollbackTarget !== null} onOpenChange={(open) => !open && setRollbackTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Roll Back Upload</AlertDialogTitle>
+            <AlertDialogDescription>
+              This deletes the rows this upload wrote and restores the {rollbackTarget?.updated_count.toLocaleString()} rows
+              it replaced. Days that a later upload has written since are left as they are.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isRollingBack}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmRollback} className="bg-red-600 hover:bg-red-700" disabled={isRollingBack}>
+              {isRollingBack ? 'Rolling back...' : 'Roll Back'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+export default function UploadHistoryPage() {
+  return (
+    <CampaignFilterProvider>
+      <UploadHistoryContent />
+    </CampaignFilterProvider>
+  );
+}
@@ -14,11 +14,45 @@ export type ActivityAction =
   | 'reordered'
   | 'roas_ignored'
   | 'roas_unignored'
-  | 'renewal_status_updated';
+  | 'renewal_status_updated'
+  | 'alert_resolved'
+  | 'alert_reraised'
+  | 'renewal_tracking_moved'
+  | 'launch_tracking_moved';
+
+/**
+ * Kind of record an activity entry is about. entity_id identifies it within that kind
+ * (row id, or the campaign name for campaign-level actions like ROAS ignores).
+ */
+export type ActivityEntityType =
+  | 'priority'
+  | 'campaign'
+  | 'renewal_tracking'
+  | 'launch_tracking'
+  | 'announcement'
+  | 'resource'
+  | 'anomaly';
+
+export const ACTIVITY_ENTITY_LABELS: Record<ActivityEntityType, string> = {
+  priority: 'Tasks',
+  campaign: 'Campaigns',
+  renewal_tracking: 'Renewal tracking',
+  launch_tracking: 'Launch tracking',
+  announcement: 'Announcements',
+  resource: 'Resources',
+  anomaly: 'Anomalies'
+};
+
+/**
+ * Field-level diff stored in changes: { field: { before, after } }
+ */
+export type ActivityFieldChanges = Record<string, { before: unknown; after: unknown }>;
 
 export interface ActivityLogEntry {
   id: string;
-  priority_id: string | null;
+  entity_type: ActivityEntityType;
+  entity_id: string | null;
+  priority_id: string | null; // Set for task entries (kept alongside entity_id for older readers)
   user_id: string;
   action: ActivityAction;
   task_description: string;
@@ -27,6 +61,8 @@ export interface ActivityLogEntry {
 }
 
 export interface ActivityLogInsert {
+  entity_type?: ActivityEntityType; // Defaults to 'priority'
+  entity_id?: string | null; // Defaults to priority_id
   priority_id?: string | null;
   user_id: string;
   action: ActivityAction;
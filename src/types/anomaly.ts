@@ -28,6 +28,99 @@ export interface AnomalyDetectionResult {
   weekly: WeeklyAnomaly[];
 }
 
+// Anomaly Detection Rules (Notifications tab)
+
+export type AnomalyDetectorType =
+  | 'impression_change'
+  | 'transaction_drop'
+  | 'transaction_zero'
+  | 'suspected_bot_activity'
+  | 'baseline_deviation'
+  | 'level_shift';
+
+/**
+ * Daily metrics the statistical detectors (baseline_deviation, level_shift) track
+ */
+export type StatisticalMetric = 'impressions' | 'ctr' | 'spend' | 'roas';
+
+/**
+ * Severity cutoffs for a detector. A measured value at or above `medium`
+ * is medium severity, at or above `high` is high severity, otherwise low.
+ */
+export interface SeverityBands {
+  medium: number;
+  high: number;
+}
+
+/**
+ * Fully-resolved thresholds used by the detectors for one campaign.
+ */
+export interface AnomalyDetectionRules {
+  /** Minimum day-over-day impression change (%) to flag */
+  impressionThreshold: number;
+  /** Severity cutoffs for impression change (%) */
+  impressionSeverity: SeverityBands;
+  /** Minimum day-over-day transaction drop (%) to flag */
+  transactionDropThreshold: number;
+  /** Consecutive zero-transaction days before flagging */
+  zeroTransactionDays: number;
+  /** Severity cutoffs for consecutive zero-transaction days */
+  zeroTransactionSeverity: SeverityBands;
+  /** CTR (%) above which activity is flagged as suspected bots */
+  ctrThreshold: number;
+  /** Severity cutoffs for CTR (%) */
+  ctrSeverity: SeverityBands;
+  /** Standard deviations from the rolling baseline before a day is flagged */
+  zScoreThreshold: number;
+  /** Severity cutoffs for absolute z-score (statistical detectors) */
+  zScoreSeverity: SeverityBands;
+  /** Days of history in the rolling baseline */
+  baselineDays: number;
+  /** Scale the baseline by day-of-week factors so normal weekly patterns aren't flagged */
+  weekdayAdjustment: boolean;
+  /** Days a new level must persist before it is reported as a level shift */
+  levelShiftMinDays: number;
+  enabledDetectors: Record<AnomalyDetectorType, boolean>;
+}
+
+/**
+ * Partial rules stored per scope - only the fields a scope overrides.
+ */
+export type AnomalyRuleOverrides = Partial<Omit<AnomalyDetectionRules, 'impressionSeverity' | 'zeroTransactionSeverity' | 'ctrSeverity' | 'zScoreSeverity' | 'enabledDetectors'>> & {
+  impressionSeverity?: Partial<SeverityBands>;
+  zeroTransactionSeverity?: Partial<SeverityBands>;
+  ctrSeverity?: Partial<SeverityBands>;
+  zScoreSeverity?: Partial<SeverityBands>;
+  enabledDetectors?: Partial<Record<AnomalyDetectorType, boolean>>;
+};
+
+/**
+ * Scope a rule applies to. Precedence: campaign > agency > global > built-in defaults.
+ * - global: scope_value is ''
+ * - agency: scope_value is the agency abbreviation from the agency registry (e.g. '2RS')
+ * - campaign: scope_value is the full CAMPAIGN ORDER NAME
+ */
+export type AnomalyRuleScope = 'global' | 'agency' | 'campaign';
+
+export interface AnomalyRule {
+  id: string;
+  scope: AnomalyRuleScope;
+  scope_value: string;
+  settings: AnomalyRuleOverrides;
+  created_at: string;
+  updated_at: string;
+  updated_by: string | null;
+}
+
+export interface AnomalyRuleUpsert {
+  scope: AnomalyRuleScope;
+  scope_value: string;
+  settings: AnomalyRuleOverrides;
+  updated_by?: string | null;
+}
+
+export type AnomalyRulesResolver = (campaignName: string) => AnomalyDetectionRules;
+
 export interface AnomalyFilterOptions {
   metric?: string;
   campaign?: string;
@@ -7,6 +7,7 @@ export interface CampaignDataRow {
   REVENUE: number;
   SPEND: number;
   TRANSACTIONS?: number;
+  RAW_SPEND?: number; // Reported spend, set when SPEND was normalized by an agency rule
 }
 
 // Processed campaign data with calculated metrics
@@ -83,3 +83,77 @@ export interface RawPacingDataRow {
 export interface GenericCSVRow {
   [key: string]: string | number | undefined;
 }
+
+// Column mapping for CSV imports
+
+export type CsvImportKind = 'delivery' | 'contract-terms';
+
+export type CsvFieldType = 'text' | 'number' | 'date';
+
+/**
+ * A column the app expects. `key` is the canonical header the rest of the app
+ * reads (e.g. 'CAMPAIGN ORDER NAME', 'Start Date').
+ */
+export interface CsvImportField {
+  key: string;
+  label: string;
+  type: CsvFieldType;
+  required: boolean;
+  /** Other header names DSP exports use for this column */
+  synonyms: string[];
+}
+
+export type CsvDateFormat = 'MM/DD/YYYY' | 'DD/MM/YYYY' | 'YYYY-MM-DD';
+
+/** Canonical field key -> source header in the uploaded file (null = not mapped) */
+export type CsvColumnMapping = Record<string, string | null>;
+
+/**
+ * A saved mapping (csv_import_profiles row). Reused automatically when a file
+ * with the same header signature is uploaded again.
+ */
+export interface CsvImportProfile {
+  id: string;
+  name: string;
+  import_kind: CsvImportKind;
+  header_signature: string;
+  column_mapping: CsvColumnMapping;
+  date_format: CsvDateFormat;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CsvImportProfileUpsert = Pick<CsvImportProfile, 'name' | 'import_kind' | 'header_signature' | 'column_mapping' | 'date_format'>;
+
+// Row-level validation for CSV imports
+
+export type RowIssueCode =
+  | 'missing_campaign'
+  | 'invalid_date'
+  | 'invalid_number'
+  | 'negative_spend'
+  | 'clicks_exceed_impressions'
+  | 'unknown_agency'
+  | 'duplicate_key';
+
+export interface RowIssue {
+  code: RowIssueCode;
+  message: string;
+}
+
+export interface RowValidationResult {
+  /** Line in the source file (the header is line 1) */
+  rowNumber: number;
+  row: GenericCSVRow;
+  issues: RowIssue[];
+}
+
+export interface ImportValidationReport {
+  totalRows: number;
+  validRows: GenericCSVRow[];
+  invalidRows: RowValidationResult[];
+  /** Totals/summary lines that were dropped rather than flagged */
+  skippedRows: number;
+  issueCounts: Partial<Record<RowIssueCode, number>>;
+}
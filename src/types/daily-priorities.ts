@@ -10,6 +10,11 @@ export type PrioritySection =
   | 'ops'
   | 'blocked';
 
+/**
+ * Campaign alert lists a task can be claimed from (see useAutoGeneratedPriorities)
+ */
+export type AlertType = 'renewal' | 'pacing' | 'roas';
+
 export interface DailyPriority {
   id: string;
   active_date: string; // ISO date string (YYYY-MM-DD) - date task appears on
@@ -28,19 +33,80 @@ export interface DailyPriority {
   updated_at: string;
   created_by: string | null;
   updated_by: string | null;
+  recurring_priority_id: string | null; // Recurrence series this instance belongs to (null = one-off task)
+  occurrence_date: string | null; // ISO date (YYYY-MM-DD) of the scheduled occurrence this instance fulfils
+  alert_type: AlertType | null; // Alert this task was claimed from (null = not claimed from an alert)
+  alert_campaign_name: string | null; // Campaign the claimed alert was raised for
+  alert_resolved_at: string | null; // ISO timestamp - set when the alert condition cleared while the task was open
+}
+
+/**
+ * Schedule rule for a recurring priority.
+ * Weekdays use date-fns numbering (0 = Sunday ... 6 = Saturday).
+ */
+export type RecurrenceRule =
+  | { type: 'weekly'; weekdays: number[] }
+  | { type: 'monthly_first_business_day' }
+  | { type: 'every_n_days'; interval: number };
+
+/**
+ * Template for a recurring priority. The generator in useDailyPriorities creates
+ * a DailyPriority instance from this template on each scheduled occurrence.
+ */
+export interface RecurringPriority {
+  id: string;
+  section: PrioritySection;
+  agency_name: string | null;
+  client_name: string | null;
+  ticket_url: string | null;
+  description: string | null;
+  assignees: string[];
+  recurrence_rule: RecurrenceRule;
+  start_date: string; // ISO date - anchor for interval rules, no occurrences before this
+  end_date: string | null; // ISO date - no occurrences after this (null = open-ended)
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+  created_by: string | null;
 }
 
+export interface RecurringPriorityInsert {
+  section: PrioritySection;
+  agency_name?: string | null;
+  client_name?: string | null;
+  ticket_url?: string | null;
+  description?: string | null;
+  assignees?: string[];
+  recurrence_rule: RecurrenceRule;
+  start_date: string;
+  end_date?: string | null;
+  created_by?: string | null;
+}
+
+/**
+ * Comments belong to the task's stable identity (task_client_name + task_created_at),
+ * so they follow the task across carry-forward copies
+ */
 export interface PriorityComment {
   id: string;
-  priority_id: string;
+  priority_id: string | null; // Row the comment was posted from
+  task_client_name: string | null;
+  task_created_at: string;
+  parent_id: string | null; // Set on replies; threads are one level deep
   comment: string;
+  mentions: string[]; // Mentioned user ids
   created_at: string;
   created_by: string | null;
+  edited_at: string | null;
 }
 
 export interface PriorityCommentInsert {
   priority_id: string;
+  task_client_name: string | null;
+  task_created_at: string;
+  parent_id?: string | null;
   comment: string;
+  mentions?: string[];
   created_by?: string | null;
 }
 
@@ -57,8 +123,20 @@ export interface DailyPriorityInsert {
   completed?: boolean;
   created_by?: string | null;
   created_at?: string; // CRITICAL: Include to preserve task identity during carry-forward
+  recurring_priority_id?: string | null;
+  occurrence_date?: string | null;
+  alert_type?: AlertType | null;
+  alert_campaign_name?: string | null;
 }
 
+/**
+ * Input for adding a new task. When recurrence_rule is set, a recurring_priorities
+ * template is created first and the new task becomes its first occurrence.
+ */
+export type NewPriorityInput = DailyPriorityInsert & {
+  recurrence_rule?: RecurrenceRule | null;
+};
+
 export interface DailyPriorityUpdate {
   priority_order?: number;
   section?: PrioritySection;
@@ -71,6 +149,7 @@ export interface DailyPriorityUpdate {
   completed?: boolean;
   completed_at?: string | null;
   updated_by?: string | null;
+  alert_resolved_at?: string | null;
 }
 
 export type RenewalStatus =
@@ -128,6 +207,47 @@ export interface AutoGeneratedPriority {
   ignoreReason?: IgnoreReason;
 }
 
+/**
+ * Thresholds that decide which campaigns appear in the auto-generated alert sections
+ */
+export interface AlertThresholds {
+  renewalLeadDays: number;       // Campaigns ending within this many days are listed as upcoming renewals
+  renewalHighDays: number;       // Ending within this many days = high severity
+  renewalMediumDays: number;     // Ending within this many days = medium severity
+  pacingUnderThreshold: number;  // Pacing % below this raises an under-pacing alert
+  pacingOverThreshold: number;   // Pacing % above this raises an over-pacing alert
+  roasFloor: number;             // ROAS below this raises a ROAS alert
+  roasMinSpend: number;          // Campaign spend ($) needed before a ROAS alert can fire
+}
+
+export type AlertThresholdOverrides = Partial<AlertThresholds>;
+
+/**
+ * Scope a threshold setting applies to. Precedence: agency > global > built-in defaults.
+ * - global: scope_value is ''
+ * - agency: scope_value is the agency abbreviation from the agency registry (e.g. '2RS')
+ */
+export type AlertThresholdScope = 'global' | 'agency';
+
+export interface AlertThresholdSetting {
+  id: string;
+  scope: AlertThresholdScope;
+  scope_value: string;
+  settings: AlertThresholdOverrides;
+  created_at: string;
+  updated_at: string;
+  updated_by: string | null;
+}
+
+export interface AlertThresholdSettingUpsert {
+  scope: AlertThresholdScope;
+  scope_value: string;
+  settings: AlertThresholdOverrides;
+  updated_by?: string | null;
+}
+
+export type AlertThresholdsResolver = (campaignName: string) => AlertThresholds;
+
 export interface RoasAlertIgnore {
   id: string;
   campaign_order_name: string;
@@ -156,6 +276,7 @@ export interface DailyPrioritiesView {
   };
   auto_sections: {
     renewals: AutoGeneratedPriority[];
+    at_risk: AutoGeneratedPriority[];
     pacing: AutoGeneratedPriority[];
     roas: AutoGeneratedPriority[];
   };
@@ -170,6 +291,12 @@ export const SECTION_LABELS: Record<PrioritySection, string> = {
   blocked: 'Blocked'
 };
 
+export const ALERT_TYPE_LABELS: Record<AlertType, string> = {
+  renewal: 'Renewal',
+  pacing: 'Pacing',
+  roas: 'ROAS'
+};
+
 export const SECTION_ORDER: PrioritySection[] = [
   'partner_success',
   'engineering',
@@ -207,29 +334,68 @@ export type RenewalType =
   | 'Relaunch'
   | 'NOT Renewing';
 
+/**
+ * Which tracking process a workflow template belongs to
+ */
+export type WorkflowKind = 'renewal' | 'launch';
+
+export const WORKFLOW_KIND_LABELS: Record<WorkflowKind, string> = {
+  renewal: 'Renewal',
+  launch: 'Launch'
+};
+
+/**
+ * One step of a workflow template
+ */
+export interface WorkflowStep {
+  /** Stable identifier - step_completion is keyed by this, so it never changes once saved */
+  id: string;
+  label: string;
+  /** Person or team responsible (free text) */
+  owner: string | null;
+  /** Days from the renewal/launch date the step is due (negative = before); null = no due date */
+  due_offset_days: number | null;
+}
+
+/**
+ * User-defined, ordered checklist for renewal or launch tracking (workflow_templates row)
+ */
+export interface WorkflowTemplate {
+  id: string;
+  kind: WorkflowKind;
+  name: string;
+  steps: WorkflowStep[];
+  /** New tracking records of this kind start on the default template */
+  is_default: boolean;
+  created_at: string;
+  updated_at: string;
+  updated_by: string | null;
+}
+
+export interface WorkflowTemplateUpsert {
+  id?: string;
+  kind: WorkflowKind;
+  name: string;
+  steps: WorkflowStep[];
+  is_default: boolean;
+}
+
+/**
+ * Completed steps of a tracking record: WorkflowStep.id -> ISO completion timestamp
+ */
+export type WorkflowStepCompletion = Record<string, string>;
+
 /**
  * Represents a renewal/launch status tracking record.
- * Tracks the progress of a campaign through various workflow steps.
+ * Workflow progress is stored in step_completion against the record's workflow template.
  */
 export interface RenewalStatusTracking {
   id: string;
   campaign_name: string;
   renewal_date: string | null;
   task_url: string | null;
-  /** Project and kickoff ticket has been created */
-  project_kickoff_ticket_creation: boolean;
-  /** BT (Business Terms) have been updated/submitted */
-  bt_approval: boolean;
-  /** BT (Business Terms) have been approved by the approver */
-  bt_approved: boolean;
-  /** Coda strategy document has been completed */
-  coda_strategy: boolean;
-  dashboard_update: boolean;
-  /** DSP creative assets have been set up */
-  dsp_creative_setup: boolean;
-  dsp_update: boolean;
-  pre_qa: boolean;
-  post_qa: boolean;
+  workflow_template_id: string | null; // null = default template for the record's kind
+  step_completion: WorkflowStepCompletion;
   status: RenewalProcessStatus;
   renewal_type: RenewalType;
   notes: string | null;
@@ -244,23 +410,12 @@ export interface RenewalStatusTracking {
 
 /**
  * Data for creating a new renewal/launch status tracking record.
- * All workflow step fields default to false if not provided.
+ * Without a workflow_template_id the record starts on the default template.
  */
 export interface RenewalStatusTrackingInsert {
   campaign_name: string;
   renewal_date?: string | null;
-  project_kickoff_ticket_creation?: boolean;
-  /** BT (Business Terms) have been updated/submitted */
-  bt_approval?: boolean;
-  /** BT (Business Terms) have been approved by the approver */
-  bt_approved?: boolean;
-  coda_strategy?: boolean;
-  dashboard_update?: boolean;
-  /** DSP creative assets have been set up */
-  dsp_creative_setup?: boolean;
-  dsp_update?: boolean;
-  pre_qa?: boolean;
-  post_qa?: boolean;
+  workflow_template_id?: string | null;
   status?: RenewalProcessStatus;
   renewal_type?: RenewalType;
   created_by?: string | null;
@@ -273,18 +428,8 @@ export interface RenewalStatusTrackingInsert {
 export interface RenewalStatusTrackingUpdate {
   renewal_date?: string | null;
   task_url?: string | null;
-  project_kickoff_ticket_creation?: boolean;
-  /** BT (Business Terms) have been updated/submitted */
-  bt_approval?: boolean;
-  /** BT (Business Terms) have been approved by the approver */
-  bt_approved?: boolean;
-  coda_strategy?: boolean;
-  dashboard_update?: boolean;
-  /** DSP creative assets have been set up */
-  dsp_creative_setup?: boolean;
-  dsp_update?: boolean;
-  pre_qa?: boolean;
-  post_qa?: boolean;
+  workflow_template_id?: string | null;
+  step_completion?: WorkflowStepCompletion;
   status?: RenewalProcessStatus;
   renewal_type?: RenewalType;
   notes?: string | null;
@@ -0,0 +1,87 @@
+/**
+ * Types for campaign health scoring profiles
+ */
+
+export type HealthComponent = 'roas' | 'deliveryPacing' | 'burnRate' | 'ctr' | 'overspend';
+
+export interface HealthScoringBenchmarks {
+  /** ROAS that earns a full 10 - lower tiers scale from this (default 4.0x) */
+  roasTarget: number;
+  /** CTR (%) that earns a full 10 */
+  ctr: number;
+}
+
+/**
+ * A named way of scoring campaign health. Only components listed in
+ * `components` count towards the score; their weights are normalized so
+ * a profile doesn't have to add up to exactly 1.
+ */
+export interface HealthScoringProfile {
+  id: string;
+  name: string;
+  description: string;
+  components: HealthComponent[];
+  weights: Record<HealthComponent, number>;
+  benchmarks: HealthScoringBenchmarks;
+}
+
+/**
+ * Profile assignment scope. Precedence: campaign > agency > default profile.
+ * - agency: scope_value is the agency abbreviation from the agency registry (e.g. '2RS')
+ * - campaign: scope_value is the full CAMPAIGN ORDER NAME
+ */
+export type HealthProfileScope = 'agency' | 'campaign';
+
+export interface HealthProfileAssignment {
+  id: string;
+  scope: HealthProfileScope;
+  scope_value: string;
+  profile_id: string;
+  created_at: string;
+  updated_at: string;
+  updated_by: string | null;
+}
+
+export interface HealthProfileAssignmentUpsert {
+  scope: HealthProfileScope;
+  scope_value: string;
+  profile_id: string;
+  updated_by?: string | null;
+}
+
+export type HealthProfileResolver = (campaignName: string) => HealthScoringProfile;
+
+/**
+ * One campaign's health on one day (campaign_health_snapshots row)
+ */
+export interface HealthScoreSnapshot {
+  id: string;
+  campaign_name: string;
+  snapshot_date: string; // YYYY-MM-DD
+  profile_id: string;
+  health_score: number;
+  roas_score: number;
+  delivery_pacing_score: number;
+  burn_rate_score: number;
+  ctr_score: number;
+  overspend_score: number;
+  roas: number;
+  ctr: number;
+  delivery_pacing: number;
+  burn_rate_percentage: number;
+  overspend: number;
+  completion_percentage: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type HealthScoreSnapshotInsert = Omit<HealthScoreSnapshot, 'id' | 'created_at' | 'updated_at'>;
+
+export interface HealthScoreChange {
+  campaignName: string;
+  currentScore: number;
+  currentDate: string;
+  previousScore: number;
+  previousDate: string;
+  change: number;
+}
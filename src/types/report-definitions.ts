@@ -0,0 +1,94 @@
+/**
+ * Types for saved report definitions and the scheduled report outbox
+ */
+
+export type ReportChartCategory = 'spark-charts' | 'campaign-performance' | 'weekly-comparison';
+
+/**
+ * A chart in a saved report. Unlike the builder's ChartConfig it has no fixed
+ * date range - every chart uses the definition's relative range.
+ */
+export interface SavedReportChart {
+  id: string;
+  category: ReportChartCategory;
+  type: string;
+  subOptions?: Record<string, string>;
+  title: string;
+}
+
+/**
+ * Date ranges resolved against the run date. All of them end yesterday,
+ * the last day with complete delivery data.
+ */
+export type RelativeDateRange =
+  | 'last-7-days'
+  | 'last-14-days'
+  | 'last-30-days'
+  | 'week-to-date'
+  | 'month-to-date'
+  | 'last-month';
+
+export type ReportFrequency = 'daily' | 'weekly' | 'monthly';
+
+export type ReportRunStatus = 'succeeded' | 'failed';
+
+export interface ReportSchedule {
+  frequency: ReportFrequency;
+  day_of_week: number | null;  // 0 = Sunday, weekly only
+  day_of_month: number | null; // 1-28, monthly only
+  hour_utc: number;
+}
+
+/**
+ * A saved report (report_definitions row)
+ */
+export interface ReportDefinition {
+  id: string;
+  name: string;
+  report_title: string;
+  charts: SavedReportChart[];
+  date_range: RelativeDateRange;
+  agencies: string[];    // agency display names, empty = all
+  advertisers: string[]; // advertiser names, empty = all
+  schedule_frequency: ReportFrequency | null; // null = saved but not scheduled
+  schedule_day_of_week: number | null;
+  schedule_day_of_month: number | null;
+  schedule_hour_utc: number;
+  recipients: string[];
+  is_active: boolean;
+  next_run_at: string | null;
+  last_run_at: string | null;
+  last_run_status: ReportRunStatus | null;
+  failed_attempts: number; // failed runs since the last success, while being retried
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ReportDefinitionUpsert = Omit<ReportDefinition, 'id' | 'created_at' | 'updated_at' | 'next_run_at' | 'last_run_at' | 'last_run_status' | 'failed_attempts' | 'created_by'> & {
+  id?: string;
+};
+
+export type ReportOutboxStatus = 'ready' | 'failed' | 'sent';
+
+export type ReportRunTrigger = 'schedule' | 'manual';
+
+/**
+ * A generated report waiting to be delivered (report_outbox row).
+ * file_path points into the report-outbox storage bucket.
+ */
+export interface ReportOutboxEntry {
+  id: string;
+  definition_id: string | null;
+  report_title: string;
+  file_path: string | null;
+  date_start: string; // YYYY-MM-DD
+  date_end: string;   // YYYY-MM-DD
+  row_count: number;
+  recipients: string[];
+  status: ReportOutboxStatus;
+  error: string | null;
+  triggered_by: ReportRunTrigger;
+  sent_at: string | null;
+  created_at: string;
+}
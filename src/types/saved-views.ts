@@ -0,0 +1,49 @@
+/**
+ * Types for saved dashboard views
+ */
+
+import type { AnomalyPeriod, ChartMode, ChartViewMode, ComparisonPeriod } from '@/hooks/useDashboardState';
+import type { SpendMode } from '@/types/spend-normalization';
+
+export type SavedViewVisibility = 'personal' | 'shared';
+
+/**
+ * Per-chart settings. Unset fields fall back to each chart's own default.
+ */
+export interface DashboardChartSettings {
+  chartMode?: ChartMode;    // combined metrics chart tab
+  viewMode?: ChartViewMode; // by date or by day of week
+  anomalyPeriod?: AnomalyPeriod;
+  comparisonPeriod?: ComparisonPeriod;
+}
+
+/**
+ * Everything a view restores
+ */
+export interface SavedViewState {
+  agencies: string[];    // agency display names, empty = all
+  advertisers: string[]; // advertiser names, empty = all
+  campaigns: string[];   // campaign order names, empty = all
+  dateFrom: string | null; // YYYY-MM-DD, null = open-ended
+  dateTo: string | null;   // YYYY-MM-DD, null = open-ended
+  activeTab: string | null; // sidebar tab, null = the page's default
+  showLiveOnly: boolean;
+  showAggregatedSparkCharts: boolean;
+  spendMode: SpendMode;
+  charts: DashboardChartSettings;
+}
+
+/**
+ * A saved view (saved_views row)
+ */
+export interface SavedView {
+  id: string;
+  name: string;
+  visibility: SavedViewVisibility;
+  state: SavedViewState;
+  owner_id: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type SavedViewUpsert = Pick<SavedView, 'name' | 'visibility' | 'state'> & { id?: string };
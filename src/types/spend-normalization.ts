@@ -0,0 +1,41 @@
+/**
+ * Types for agency spend normalization rules
+ */
+
+/**
+ * How an agency's reported spend is turned into the spend we compare across partners
+ * - effective_cpm: spend is recomputed from impressions at `value` dollars CPM
+ * - markup: reported spend plus `value` percent
+ * - pass_through: reported spend as-is
+ */
+export type SpendNormalizationMethod = 'effective_cpm' | 'markup' | 'pass_through';
+
+export const SPEND_NORMALIZATION_METHOD_LABELS: Record<SpendNormalizationMethod, string> = {
+  effective_cpm: 'Effective CPM',
+  markup: 'Markup %',
+  pass_through: 'Pass-through'
+};
+
+/**
+ * One rule for one agency. Date bounds are inclusive; null means open-ended.
+ * When several rules cover the same day, the one that started latest wins.
+ */
+export interface SpendNormalizationRule {
+  id: string;
+  agency_abbreviation: string;
+  method: SpendNormalizationMethod;
+  value: number | null; // Dollars CPM for effective_cpm, percent for markup, unused for pass_through
+  effective_from: string | null; // YYYY-MM-DD
+  effective_to: string | null; // YYYY-MM-DD
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+  updated_by: string | null;
+}
+
+export type SpendNormalizationRuleUpsert = Omit<SpendNormalizationRule, 'id' | 'created_at' | 'updated_at' | 'updated_by'> & {
+  id?: string;
+};
+
+/** Which spend the views show: normalized by the rules, or as reported */
+export type SpendMode = 'normalized' | 'raw';
@@ -0,0 +1,86 @@
+/**
+ * Types for the campaign data upload ledger
+ */
+
+import type { CampaignData } from '@/lib/supabase';
+import type { CsvImportKind, GenericCSVRow, RowIssue } from '@/types/csv';
+
+// incomplete: the overwritten rows were not all recorded, so it can't be rolled back
+export type UploadBatchStatus = 'active' | 'incomplete' | 'rolled_back';
+
+/**
+ * One call to upsertCampaignData (upload_batches row).
+ * session_id matches campaign_data.user_session_id for every row the batch wrote.
+ */
+export interface UploadBatch {
+  id: string;
+  session_id: string;
+  file_name: string | null;
+  uploaded_by: string | null;
+  row_count: number;
+  inserted_count: number;
+  updated_count: number;
+  date_start: string; // YYYY-MM-DD
+  date_end: string;   // YYYY-MM-DD
+  campaigns: string[];
+  status: UploadBatchStatus;
+  rolled_back_at: string | null;
+  rolled_back_by: string | null;
+  created_at: string;
+}
+
+export type UploadBatchInsert = Omit<UploadBatch, 'id' | 'created_at' | 'status' | 'rolled_back_at' | 'rolled_back_by'> &
+  Partial<Pick<UploadBatch, 'status'>>;
+
+/**
+ * A campaign_data row as it was before a batch overwrote it (upload_batch_rows row)
+ */
+export interface UploadBatchPreviousRow {
+  id: string;
+  batch_id: string;
+  date: string;
+  campaign_order_name: string;
+  previous: CampaignData;
+  created_at: string;
+}
+
+export type UploadDiffMetric = 'impressions' | 'clicks' | 'revenue' | 'spend' | 'transactions';
+
+export type UploadRowChangeType = 'added' | 'changed' | 'unchanged';
+
+export interface UploadRowDiff {
+  date: string;
+  campaign_order_name: string;
+  change: UploadRowChangeType;
+  before: Partial<Record<UploadDiffMetric, number>> | null;
+  after: Partial<Record<UploadDiffMetric, number>>;
+}
+
+export interface UploadBatchDiff {
+  rows: UploadRowDiff[];
+  added: number;
+  changed: number;
+  unchanged: number;
+  /** Rows this batch wrote that a later upload has since overwritten */
+  superseded: number;
+}
+
+export type QuarantineStatus = 'pending' | 'reimported' | 'discarded';
+
+/**
+ * An import row held back because it failed validation (quarantined_rows row)
+ */
+export interface QuarantinedRow {
+  id: string;
+  import_kind: CsvImportKind;
+  file_name: string | null;
+  row_number: number | null;
+  row_data: GenericCSVRow;
+  issues: RowIssue[];
+  status: QuarantineStatus;
+  created_by: string | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
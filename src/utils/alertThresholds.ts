@@ -0,0 +1,94 @@
+import {
+  AlertThresholdOverrides,
+  AlertThresholds,
+  AlertThresholdSetting,
+  AlertThresholdsResolver
+} from '@/types/daily-priorities';
+
+/**
+ * Built-in defaults - match the thresholds the alert sections used before they were configurable
+ */
+export const DEFAULT_ALERT_THRESHOLDS: AlertThresholds = {
+  renewalLeadDays: 15,
+  renewalHighDays: 7,
+  renewalMediumDays: 10,
+  pacingUnderThreshold: 95,
+  pacingOverThreshold: 105,
+  roasFloor: 2.0,
+  roasMinSpend: 100
+};
+
+/**
+ * Pacing severity grows with distance outside the band:
+ * medium once 5 points past a threshold, high once 10 points past it
+ */
+export function getPacingSeverity(pacingPercent: number, thresholds: AlertThresholds): 'high' | 'medium' | 'low' {
+  const distance = Math.max(
+    thresholds.pacingUnderThreshold - pacingPercent,
+    pacingPercent - thresholds.pacingOverThreshold
+  );
+  if (distance > 10) return 'high';
+  if (distance > 5) return 'medium';
+  return 'low';
+}
+
+/**
+ * ROAS severity relative to the floor: high below half of it, medium below three quarters
+ */
+export function getRoasSeverity(roas: number, thresholds: AlertThresholds): 'high' | 'medium' | 'low' {
+  if (roas < thresholds.roasFloor * 0.5) return 'high';
+  if (roas < thresholds.roasFloor * 0.75) return 'medium';
+  return 'low';
+}
+
+export function getRenewalSeverity(daysUntilEnd: number, thresholds: AlertThresholds): 'high' | 'medium' | 'low' {
+  if (daysUntilEnd <= thresholds.renewalHighDays) return 'high';
+  if (daysUntilEnd <= thresholds.renewalMediumDays) return 'medium';
+  return 'low';
+}
+
+/**
+ * Builds a per-campaign thresholds resolver from stored setting rows.
+ * Precedence: agency > global > DEFAULT_ALERT_THRESHOLDS.
+ *
+ * @param settings - Rows from alert_threshold_settings
+ * @param getAgencyAbbreviation - Resolves a campaign name to its agency abbreviation (agency registry code)
+ */
+export function createAlertThresholdsResolver(
+  settings: AlertThresholdSetting[],
+  getAgencyAbbreviation: (campaignName: string) => string
+): AlertThresholdsResolver {
+  const globalSetting = settings.find(s => s.scope === 'global');
+  const agencySettings = new Map(settings.filter(s => s.scope === 'agency').map(s => [s.scope_value, s]));
+
+  const globalThresholds = { ...DEFAULT_ALERT_THRESHOLDS, ...globalSetting?.settings };
+  const cache = new Map<string, AlertThresholds>();
+
+  return (campaignName: string) => {
+    const cached = cache.get(campaignName);
+    if (cached) return cached;
+
+    const agencySetting = agencySettings.get(getAgencyAbbreviation(campaignName));
+    const resolved = agencySetting ? { ...globalThresholds, ...agencySetting.settings } : globalThresholds;
+
+    cache.set(campaignName, resolved);
+    return resolved;
+  };
+}
+
+/**
+ * Returns only the fields of `values` that differ from `parent`, so a scope
+ * stores just what it overrides and keeps inheriting everything else.
+ */
+export function diffThresholdOverrides(
+  parent: AlertThresholds,
+  values: AlertThresholds
+): AlertThresholdOverrides {
+  const overrides: AlertThresholdOverrides = {};
+
+  (Object.keys(values) as (keyof AlertThresholds)[]).forEach(key => {
+    if (values[key] !== parent[key]) overrides[key] = values[key];
+  });
+
+  return overrides;
+}
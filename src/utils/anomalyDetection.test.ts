@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { CampaignAnomaly, planAnomalyRescore } from '@/utils/anomalyDetection';
+
+const anomaly = (
+  campaign_name: string,
+  anomaly_type: CampaignAnomaly['anomaly_type'],
+  overrides: Partial<CampaignAnomaly> = {}
+): CampaignAnomaly => ({
+  campaign_name,
+  anomaly_type,
+  date_detected: '2026-10-18',
+  severity: 'medium',
+  details: {},
+  is_ignored: false,
+  ...overrides
+});
+
+describe('planAnomalyRescore', () => {
+  const stored = [
+    anomaly('Acme', 'transaction_drop', { id: 'acme-drop' }),
+    anomaly('Acme', 'baseline_deviation', { id: 'acme-ctr', is_ignored: true, details: { metric: 'ctr' } }),
+    anomaly('Sunny Farms', 'transaction_zero', { id: 'sunny-zero' })
+  ];
+  const isInScope = (campaignName: string) => campaignName === 'Acme';
+
+  it('replaces the anomalies in scope that are not ignored', () => {
+    const detected = [
+      anomaly('Acme', 'impression_change'),
+      anomaly('Sunny Farms', 'impression_change')
+    ];
+
+    expect(planAnomalyRescore(stored, detected, isInScope)).toEqual({
+      staleIds: ['acme-drop'],
+      newAnomalies: [detected[0]]
+    });
+  });
+
+  it('does not raise an ignored anomaly again for the same metric', () => {
+    const detected = [
+      anomaly('Acme', 'baseline_deviation', { details: { metric: 'ctr' } }),
+      anomaly('Acme', 'baseline_deviation', { details: { metric: 'impressions' } })
+    ];
+
+    expect(planAnomalyRescore(stored, detected, isInScope).newAnomalies).toEqual([detected[1]]);
+  });
+});
@@ -1,7 +1,13 @@
+import { AnomalyDetectionRules, AnomalyRulesResolver, StatisticalMetric } from '@/types/anomaly';
+import { DEFAULT_ANOMALY_RULES, getSeverityFromBands } from '@/utils/anomalyRules';
+import { parseDateString } from '@/lib/utils';
+
+const defaultRulesResolver: AnomalyRulesResolver = () => DEFAULT_ANOMALY_RULES;
+
 export interface CampaignAnomaly {
   id?: string;
   campaign_name: string;
-  anomaly_type: 'impression_change' | 'transaction_drop' | 'transaction_zero' | 'suspected_bot_activity';
+  anomaly_type: 'impression_change' | 'transaction_drop' | 'transaction_zero' | 'suspected_bot_activity' | 'baseline_deviation' | 'level_shift';
   date_detected: string; // YYYY-MM-DD format
   severity: 'high' | 'medium' | 'low';
   details: {
@@ -13,6 +19,14 @@ export interface CampaignAnomaly {
     ctr_percentage?: number;
     clicks?: number;
     impressions?: number;
+    // Statistical detectors (baseline_deviation, level_shift)
+    metric?: StatisticalMetric;
+    expected_value?: number;
+    expected_lower?: number;
+    expected_upper?: number;
+    z_score?: number;
+    baseline_days?: number;
+    weekday_adjusted?: boolean;
   };
   is_ignored: boolean;
   custom_duration?: number;
@@ -31,11 +45,11 @@ export interface CampaignDataRow {
 }
 
 /**
- * Detects day-over-day impression changes of 20% or more
+ * Detects day-over-day impression changes at or above the campaign's impression threshold
  */
 export function detectImpressionAnomalies(
   data: CampaignDataRow[],
-  thresholdPercentage: number = 20
+  resolveRules: AnomalyRulesResolver = defaultRulesResolver
 ): CampaignAnomaly[] {
   const anomalies: CampaignAnomaly[] = [];
 
@@ -59,6 +73,9 @@ export function detectImpressionAnomalies(
 
   // Check each campaign for impression anomalies
   Object.entries(campaignGroups).forEach(([campaignName, campaignData]) => {
+    const rules = resolveRules(campaignName);
+    if (!rules.enabledDetectors.impression_change) return;
+
     // Sort by date and exclude most recent day's data (likely incomplete)
     const sortedData = campaignData
       .filter(row => row.DATE !== 'Totals' && row.DATE !== mostRecentDate)
@@ -78,11 +95,9 @@ export function detectImpressionAnomalies(
       const percentageChange = ((currentImpressions - previousImpressions) / previousImpressions) * 100;
       const absoluteChange = Math.abs(percentageChange);
 
-      if (absoluteChange >= thresholdPercentage) {
+      if (absoluteChange >= rules.impressionThreshold) {
         // Determine severity based on percentage change
-        let severity: 'high' | 'medium' | 'low' = 'low';
-        if (absoluteChange >= 50) severity = 'high';
-        else if (absoluteChange >= 35) severity = 'medium';
+        const severity = getSeverityFromBands(absoluteChange, rules.impressionSeverity);
 
         anomalies.push({
           campaign_name: campaignName,
@@ -105,11 +120,11 @@ export function detectImpressionAnomalies(
 }
 
 /**
- * Detects transaction drops of 90% or more
+ * Detects transaction drops at or above the campaign's transaction drop threshold
  */
 export function detectTransactionDropAnomalies(
   data: CampaignDataRow[],
-  thresholdPercentage: number = 90
+  resolveRules: AnomalyRulesResolver = defaultRulesResolver
 ): CampaignAnomaly[] {
   const anomalies: CampaignAnomaly[] = [];
 
@@ -133,6 +148,9 @@ export function detectTransactionDropAnomalies(
 
   // Check each campaign for transaction drop anomalies
   Object.entries(campaignGroups).forEach(([campaignName, campaignData]) => {
+    const rules = resolveRules(campaignName);
+    if (!rules.enabledDetectors.transaction_drop) return;
+
     // Sort by date and exclude most recent day's data (likely incomplete)
     const sortedData = campaignData
       .filter(row => row.DATE !== 'Totals' && row.DATE !== mostRecentDate)
@@ -153,7 +171,7 @@ export function detectTransactionDropAnomalies(
       const percentageDrop = Math.abs(percentageChange);
 
       // Only flag drops (negative percentage change)
-      if (percentageChange < 0 && percentageDrop >= thresholdPercentage) {
+      if (percentageChange < 0 && percentageDrop >= rules.transactionDropThreshold) {
         anomalies.push({
           campaign_name: campaignName,
           anomaly_type: 'transaction_drop',
@@ -179,7 +197,7 @@ export function detectTransactionDropAnomalies(
  */
 export function detectZeroTransactionAnomalies(
   data: CampaignDataRow[],
-  consecutiveDaysThreshold: number = 2
+  resolveRules: AnomalyRulesResolver = defaultRulesResolver
 ): CampaignAnomaly[] {
   const anomalies: CampaignAnomaly[] = [];
 
@@ -203,6 +221,9 @@ export function detectZeroTransactionAnomalies(
 
   // Check each campaign for consecutive zero transaction days
   Object.entries(campaignGroups).forEach(([campaignName, campaignData]) => {
+    const rules = resolveRules(campaignName);
+    if (!rules.enabledDetectors.transaction_zero) return;
+
     // Sort by date and exclude most recent day's data (likely incomplete)
     const sortedData = campaignData
       .filter(row => row.DATE !== 'Totals' && row.DATE !== mostRecentDate)
@@ -224,12 +245,9 @@ export function detectZeroTransactionAnomalies(
         const isEndOfData = index === sortedData.length - 1;
         const nextDayHasTransactions = !isEndOfData && (Number(sortedData[index + 1].TRANSACTIONS) || 0) > 0;
 
-        if (consecutiveZeroDays >= consecutiveDaysThreshold && (isEndOfData || nextDayHasTransactions)) {
+        if (consecutiveZeroDays >= rules.zeroTransactionDays && (isEndOfData || nextDayHasTransactions)) {
           // Determine severity based on consecutive days
-          let severity: 'high' | 'medium' | 'low' = 'medium';
-          if (consecutiveZeroDays >= 7) severity = 'high';
-          else if (consecutiveZeroDays >= 4) severity = 'medium';
-          else severity = 'low';
+          const severity = getSeverityFromBands(consecutiveZeroDays, rules.zeroTransactionSeverity);
 
           anomalies.push({
             campaign_name: campaignName,
@@ -255,11 +273,11 @@ export function detectZeroTransactionAnomalies(
 }
 
 /**
- * Detects suspected bot activity based on CTR over 1%
+ * Detects suspected bot activity based on CTR over the campaign's CTR threshold
  */
 export function detectBotActivityAnomalies(
   data: CampaignDataRow[],
-  ctrThresholdPercentage: number = 1.0
+  resolveRules: AnomalyRulesResolver = defaultRulesResolver
 ): CampaignAnomaly[] {
   const anomalies: CampaignAnomaly[] = [];
 
@@ -275,6 +293,9 @@ export function detectBotActivityAnomalies(
 
   // Check each campaign for suspicious CTR
   Object.entries(campaignGroups).forEach(([campaignName, campaignData]) => {
+    const rules = resolveRules(campaignName);
+    if (!rules.enabledDetectors.suspected_bot_activity) return;
+
     // Sort by date - include all data including most recent (CTR can be calculated even for incomplete days)
     const sortedData = campaignData
       .filter(row => row.DATE !== 'Totals' && row.DATE)
@@ -290,12 +311,9 @@ export function detectBotActivityAnomalies(
 
       const ctrPercentage = (clicks / impressions) * 100;
 
-      if (ctrPercentage > ctrThresholdPercentage) {
+      if (ctrPercentage > rules.ctrThreshold) {
         // Determine severity based on CTR level
-        let severity: 'high' | 'medium' | 'low' = 'medium';
-        if (ctrPercentage >= 5.0) severity = 'high'; // 5%+ CTR is extremely suspicious
-        else if (ctrPercentage >= 2.0) severity = 'high'; // 2%+ CTR is very suspicious
-        else if (ctrPercentage >= 1.5) severity = 'medium'; // 1.5%+ CTR is suspicious
+        const severity = getSeverityFromBands(ctrPercentage, rules.ctrSeverity);
 
         anomalies.push({
           campaign_name: campaignName,
@@ -317,41 +335,388 @@ export function detectBotActivityAnomalies(
   return anomalies;
 }
 
+// Statistical detectors
+
+// Fewest baseline days needed before a day can be scored
+const MIN_BASELINE_POINTS = 7;
+// Day-of-week factors need at least two of each weekday to be meaningful
+const MIN_WEEKDAY_ADJUSTED_POINTS = 14;
+// Share of days after a level shift that must stay on the shifted side
+const LEVEL_SHIFT_CONSISTENCY = 0.8;
+// CTR on tiny delivery is noise
+const MIN_IMPRESSIONS_FOR_CTR = 100;
+
+const STATISTICAL_METRICS: StatisticalMetric[] = ['impressions', 'ctr', 'spend', 'roas'];
+
+interface MetricPoint {
+  date: string;
+  weekday: number;
+  value: number;
+}
+
+interface BaselineStats {
+  center: number;
+  spread: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+/**
+ * Robust baseline: median and MAD scaled to a standard deviation (x1.4826), so one
+ * earlier spike doesn't widen the expected band for the whole window
+ */
+const getBaselineStats = (values: number[]): BaselineStats => {
+  const center = median(values);
+  const mad = median(values.map(v => Math.abs(v - center)));
+  // Floor at 1% of the center so a perfectly flat baseline doesn't divide by zero
+  const spread = Math.max(mad * 1.4826, Math.abs(center) * 0.01);
+  return { center, spread };
+};
+
+const getMetricValue = (row: CampaignDataRow, metric: StatisticalMetric): number | null => {
+  const impressions = Number(row.IMPRESSIONS) || 0;
+  const spend = Number(row.SPEND) || 0;
+
+  switch (metric) {
+    case 'impressions':
+      return impressions;
+    case 'spend':
+      return spend;
+    case 'ctr':
+      return impressions >= MIN_IMPRESSIONS_FOR_CTR ? ((Number(row.CLICKS) || 0) / impressions) * 100 : null;
+    case 'roas':
+      return spend > 0 ? (Number(row.REVENUE) || 0) / spend : null;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Builds one daily series per campaign (rows for the same day are summed),
+ * excluding Totals rows and the most recent day (likely incomplete)
+ */
+const buildDailySeries = (data: CampaignDataRow[]): Record<string, CampaignDataRow[]> => {
+  const validDates = data
+    .filter(row => row.DATE !== 'Totals' && row.DATE)
+    .map(row => row.DATE)
+    .sort((a, b) => new Date(b).getTime() - new Date(a).getTime());
+
+  const mostRecentDate = validDates.length > 0 ? validDates[0] : null;
+
+  const byCampaign: Record<string, Record<string, CampaignDataRow>> = {};
+
+  data.forEach(row => {
+    if (!row.DATE || row.DATE === 'Totals' || row.DATE === mostRecentDate) return;
+
+    const campaignName = row["CAMPAIGN ORDER NAME"];
+    if (!byCampaign[campaignName]) byCampaign[campaignName] = {};
+
+    const existing = byCampaign[campaignName][row.DATE];
+    byCampaign[campaignName][row.DATE] = existing
+      ? {
+          ...existing,
+          IMPRESSIONS: (Number(existing.IMPRESSIONS) || 0) + (Number(row.IMPRESSIONS) || 0),
+          CLICKS: (Number(existing.CLICKS) || 0) + (Number(row.CLICKS) || 0),
+          REVENUE: (Number(existing.REVENUE) || 0) + (Number(row.REVENUE) || 0),
+          SPEND: (Number(existing.SPEND) || 0) + (Number(row.SPEND) || 0)
+        }
+      : row;
+  });
+
+  return Object.fromEntries(
+    Object.entries(byCampaign).map(([campaignName, days]) => [
+      campaignName,
+      Object.values(days).sort((a, b) => new Date(a.DATE).getTime() - new Date(b.DATE).getTime())
+    ])
+  );
+};
+
+const getMetricPoints = (rows: CampaignDataRow[], metric: StatisticalMetric): MetricPoint[] =>
+  rows.reduce((points, row) => {
+    const value = getMetricValue(row, metric);
+    // Parsed as a local date - new Date('YYYY-MM-DD') is UTC midnight, a day early west of UTC
+    const date = parseDateString(row.DATE);
+    if (value !== null && date) {
+      points.push({ date: row.DATE, weekday: date.getDay(), value });
+    }
+    return points;
+  }, [] as MetricPoint[]);
+
+/**
+ * Day-of-week multipliers relative to the baseline median (1 = a typical day)
+ */
+const getWeekdayFactors = (baseline: MetricPoint[]): number[] => {
+  const overall = median(baseline.map(p => p.value));
+  const factors = Array(7).fill(1);
+  if (overall <= 0) return factors;
+
+  for (let weekday = 0; weekday < 7; weekday++) {
+    const values = baseline.filter(p => p.weekday === weekday).map(p => p.value);
+    if (values.length > 0) {
+      factors[weekday] = median(values) / overall;
+    }
+  }
+
+  return factors;
+};
+
+/**
+ * Removes the day-of-week pattern from a series (days whose weekday never delivers are dropped)
+ */
+const deseasonalize = (points: MetricPoint[], factors: number[]): number[] =>
+  points.filter(p => factors[p.weekday] > 0).map(p => p.value / factors[p.weekday]);
+
+// Weekday factors need two full weeks of history; without them one week is enough
+const getMinBaselinePoints = (rules: AnomalyDetectionRules): number =>
+  rules.weekdayAdjustment ? MIN_WEEKDAY_ADJUSTED_POINTS : MIN_BASELINE_POINTS;
+
+/**
+ * Detects days that fall outside the rolling baseline for impressions, CTR, spend and ROAS.
+ *
+ * Each day is scored against the previous `baselineDays` days. With weekday adjustment on,
+ * the baseline is scaled by day-of-week factors so a normal weekend dip isn't flagged.
+ * Severity comes from the absolute z-score.
+ */
+export function detectBaselineDeviationAnomalies(
+  data: CampaignDataRow[],
+  resolveRules: AnomalyRulesResolver = defaultRulesResolver
+): CampaignAnomaly[] {
+  const anomalies: CampaignAnomaly[] = [];
+
+  Object.entries(buildDailySeries(data)).forEach(([campaignName, rows]) => {
+    const rules = resolveRules(campaignName);
+    if (!rules.enabledDetectors.baseline_deviation) return;
+
+    STATISTICAL_METRICS.forEach(metric => {
+      const points = getMetricPoints(rows, metric);
+
+      for (let i = getMinBaselinePoints(rules); i < points.length; i++) {
+        const current = points[i];
+        const baseline = points.slice(Math.max(0, i - rules.baselineDays), i);
+        if (baseline.length < getMinBaselinePoints(rules)) continue;
+
+        const factors = rules.weekdayAdjustment ? getWeekdayFactors(baseline) : Array(7).fill(1);
+        const factor = factors[current.weekday];
+
+        // This weekday normally has no delivery at all - nothing to compare against
+        if (factor === 0) continue;
+
+        const { center, spread } = getBaselineStats(deseasonalize(baseline, factors));
+        if (spread === 0) continue;
+
+        const zScore = (current.value / factor - center) / spread;
+        if (Math.abs(zScore) < rules.zScoreThreshold) continue;
+
+        const expected = center * factor;
+
+        anomalies.push({
+          campaign_name: campaignName,
+          anomaly_type: 'baseline_deviation',
+          date_detected: current.date,
+          severity: getSeverityFromBands(Math.abs(zScore), rules.zScoreSeverity),
+          details: {
+            metric,
+            current_value: round2(current.value),
+            expected_value: round2(expected),
+            expected_lower: round2(Math.max(0, (center - rules.zScoreThreshold * spread) * factor)),
+            expected_upper: round2((center + rules.zScoreThreshold * spread) * factor),
+            percentage_change: expected !== 0 ? round2(((current.value - expected) / expected) * 100) : undefined,
+            z_score: round2(zScore),
+            baseline_days: baseline.length,
+            weekday_adjusted: rules.weekdayAdjustment,
+            threshold_exceeded: Math.abs(zScore)
+          },
+          is_ignored: false
+        });
+      }
+    });
+  });
+
+  return anomalies;
+}
+
+/**
+ * Per-weekday prefix sums and counts: sums[w][i] is the total of weekday-w values in points[0..i)
+ */
+const getWeekdayPrefixSums = (points: MetricPoint[]) => {
+  const sums = Array.from({ length: 7 }, () => [0]);
+  const counts = Array.from({ length: 7 }, () => [0]);
+
+  points.forEach((point, i) => {
+    for (let weekday = 0; weekday < 7; weekday++) {
+      const matches = point.weekday === weekday;
+      sums[weekday].push(sums[weekday][i] + (matches ? point.value : 0));
+      counts[weekday].push(counts[weekday][i] + (matches ? 1 : 0));
+    }
+  });
+
+  return { sums, counts };
+};
+
+/**
+ * Finds the strongest sustained change in level that is still in effect, or null.
+ * Every split point leaving at least `levelShiftMinDays` after it is tested; the
+ * days after the split are compared with the `baselineDays` before it (both
+ * weekday-adjusted when enabled).
+ *
+ * The level after each split comes from per-weekday prefix sums, so testing a split
+ * costs O(baselineDays) rather than a pass over the rest of the series. Only a split
+ * that would become the strongest so far is checked for consistency.
+ */
+const findLevelShift = (points: MetricPoint[], rules: AnomalyDetectionRules) => {
+  let best: { index: number; before: BaselineStats; afterLevel: number; afterDays: number; tScore: number } | null = null;
+  const { sums, counts } = getWeekdayPrefixSums(points);
+  const end = points.length;
+
+  for (let s = getMinBaselinePoints(rules); s <= end - rules.levelShiftMinDays; s++) {
+    const beforePoints = points.slice(Math.max(0, s - rules.baselineDays), s);
+    const factors = rules.weekdayAdjustment ? getWeekdayFactors(beforePoints) : Array(7).fill(1);
+    const beforeValues = deseasonalize(beforePoints, factors);
+
+    // Deseasonalized total and count of the days after the split (weekdays that never deliver are dropped)
+    let afterTotal = 0;
+    let afterDays = 0;
+    for (let weekday = 0; weekday < 7; weekday++) {
+      if (factors[weekday] <= 0) continue;
+      afterTotal += (sums[weekday][end] - sums[weekday][s]) / factors[weekday];
+      afterDays += counts[weekday][end] - counts[weekday][s];
+    }
+    if (beforeValues.length === 0 || afterDays < rules.levelShiftMinDays) continue;
+
+    const before = getBaselineStats(beforeValues);
+    if (before.spread === 0) continue;
+
+    // Mean rather than median so a split placed too early is diluted by the unshifted days
+    const afterLevel = afterTotal / afterDays;
+    const shift = afterLevel - before.center;
+
+    // Require at least a one standard deviation move so long tails don't make tiny drifts significant
+    if (Math.abs(shift) < before.spread) continue;
+
+    const tScore = shift / (before.spread / Math.sqrt(afterDays));
+    if (best && Math.abs(tScore) <= Math.abs(best.tScore)) continue;
+
+    // Sustained: most days after the split sit more than one spread away from the old level, in the shift's direction
+    const afterValues = deseasonalize(points.slice(s), factors);
+    const consistentDays = afterValues.filter(v => (v - before.center) * Math.sign(shift) > before.spread).length;
+    if (consistentDays / afterDays < LEVEL_SHIFT_CONSISTENCY) continue;
+
+    best = { index: s, before, afterLevel, afterDays, tScore };
+  }
+
+  return best;
+};
+
+/**
+ * Detects sustained level shifts (changepoints) in impressions, CTR, spend and ROAS.
+ * At most one shift is reported per campaign and metric, dated to the day the new level began.
+ */
+export function detectLevelShiftAnomalies(
+  data: CampaignDataRow[],
+  resolveRules: AnomalyRulesResolver = defaultRulesResolver
+): CampaignAnomaly[] {
+  const anomalies: CampaignAnomaly[] = [];
+
+  Object.entries(buildDailySeries(data)).forEach(([campaignName, rows]) => {
+    const rules = resolveRules(campaignName);
+    if (!rules.enabledDetectors.level_shift) return;
+
+    STATISTICAL_METRICS.forEach(metric => {
+      const points = getMetricPoints(rows, metric);
+      const shift = findLevelShift(points, rules);
+      if (!shift || Math.abs(shift.tScore) < rules.zScoreThreshold) return;
+
+      const { center, spread } = shift.before;
+
+      anomalies.push({
+        campaign_name: campaignName,
+        anomaly_type: 'level_shift',
+        date_detected: points[shift.index].date,
+        severity: getSeverityFromBands(Math.abs(shift.tScore), rules.zScoreSeverity),
+        details: {
+          metric,
+          previous_value: round2(center),
+          current_value: round2(shift.afterLevel),
+          expected_value: round2(center),
+          expected_lower: round2(Math.max(0, center - rules.zScoreThreshold * spread)),
+          expected_upper: round2(center + rules.zScoreThreshold * spread),
+          percentage_change: center !== 0 ? round2(((shift.afterLevel - center) / center) * 100) : undefined,
+          consecutive_days: shift.afterDays,
+          z_score: round2(shift.tScore),
+          baseline_days: Math.min(shift.index, rules.baselineDays),
+          weekday_adjusted: rules.weekdayAdjustment,
+          threshold_exceeded: Math.abs(shift.tScore)
+        },
+        is_ignored: false
+      });
+    });
+  });
+
+  return anomalies;
+}
+
 /**
  * Main function to detect all types of anomalies
+ *
+ * @param resolveRules - Returns the thresholds for a campaign (see createAnomalyRulesResolver).
+ *                       Defaults to DEFAULT_ANOMALY_RULES for every campaign.
  */
 export function detectAllAnomalies(
   data: CampaignDataRow[],
-  options: {
-    impressionThreshold?: number;
-    transactionDropThreshold?: number;
-    zeroTransactionDays?: number;
-    ctrThreshold?: number;
-  } = {}
+  resolveRules: AnomalyRulesResolver = defaultRulesResolver
 ): CampaignAnomaly[] {
-  const {
-    impressionThreshold = 20,
-    transactionDropThreshold = 90,
-    zeroTransactionDays = 2,
-    ctrThreshold = 1.0
-  } = options;
-
-  const impressionAnomalies = detectImpressionAnomalies(data, impressionThreshold);
-  const transactionDropAnomalies = detectTransactionDropAnomalies(data, transactionDropThreshold);
-  const zeroTransactionAnomalies = detectZeroTransactionAnomalies(data, zeroTransactionDays);
-  const botActivityAnomalies = detectBotActivityAnomalies(data, ctrThreshold);
+  const impressionAnomalies = detectImpressionAnomalies(data, resolveRules);
+  const transactionDropAnomalies = detectTransactionDropAnomalies(data, resolveRules);
+  const zeroTransactionAnomalies = detectZeroTransactionAnomalies(data, resolveRules);
+  const botActivityAnomalies = detectBotActivityAnomalies(data, resolveRules);
+  const baselineDeviationAnomalies = detectBaselineDeviationAnomalies(data, resolveRules);
+  const levelShiftAnomalies = detectLevelShiftAnomalies(data, resolveRules);
 
   // Combine all anomalies and sort by date (most recent first)
   const allAnomalies = [
     ...impressionAnomalies,
     ...transactionDropAnomalies,
     ...zeroTransactionAnomalies,
-    ...botActivityAnomalies
+    ...botActivityAnomalies,
+    ...baselineDeviationAnomalies,
+    ...levelShiftAnomalies
   ].sort((a, b) => new Date(b.date_detected).getTime() - new Date(a.date_detected).getTime());
 
   return allAnomalies;
 }
 
+// Stored anomalies are kept one per campaign, type and (for the statistical detectors) metric
+export const getAnomalyKey = (anomaly: Pick<CampaignAnomaly, 'campaign_name' | 'anomaly_type' | 'details'>): string =>
+  `${anomaly.campaign_name}|${anomaly.anomaly_type}|${anomaly.details?.metric || ''}`;
+
+/**
+ * Changes to the stored anomalies after detection re-ran for some campaigns (a
+ * scan, or a rule change in one scope): their anomalies that aren't ignored are
+ * replaced by the fresh results, and ignored ones stay ignored without being raised again.
+ *
+ * @param isInScope - Whether detection re-ran for a campaign
+ */
+export function planAnomalyRescore(
+  stored: CampaignAnomaly[],
+  detected: CampaignAnomaly[],
+  isInScope: (campaignName: string) => boolean
+): { staleIds: string[]; newAnomalies: CampaignAnomaly[] } {
+  const ignoredKeys = new Set(stored.filter(anomaly => anomaly.is_ignored).map(getAnomalyKey));
+
+  return {
+    staleIds: stored
+      .filter(anomaly => !anomaly.is_ignored && anomaly.id && isInScope(anomaly.campaign_name))
+      .map(anomaly => anomaly.id as string),
+    newAnomalies: detected.filter(anomaly => isInScope(anomaly.campaign_name) && !ignoredKeys.has(getAnomalyKey(anomaly)))
+  };
+}
+
 /**
  * Helper function to format anomaly details for display
  */
@@ -370,6 +735,18 @@ export function formatAnomalyMessage(anomaly: CampaignAnomaly): string {
     case 'suspected_bot_activity':
       return `CTR of ${anomaly.details.ctr_percentage}% detected (${anomaly.details.clicks?.toLocaleString()} clicks / ${anomaly.details.impressions?.toLocaleString()} impressions)`;
 
+    case 'baseline_deviation': {
+      const metric = anomaly.details.metric || 'impressions';
+      const direction = (anomaly.details.z_score || 0) > 0 ? 'above' : 'below';
+      return `${getMetricDisplayName(metric)} ${formatMetricValue(metric, anomaly.details.current_value)} is ${direction} the expected ${formatExpectedBand(anomaly)}`;
+    }
+
+    case 'level_shift': {
+      const metric = anomaly.details.metric || 'impressions';
+      const direction = (anomaly.details.z_score || 0) > 0 ? 'up' : 'down';
+      return `${getMetricDisplayName(metric)} shifted ${direction} to ${formatMetricValue(metric, anomaly.details.current_value)} for ${anomaly.details.consecutive_days} days (was ${formatExpectedBand(anomaly)})`;
+    }
+
     default:
       return 'Unknown anomaly type';
   }
@@ -388,6 +765,10 @@ export function getAnomalyTypeDisplayName(type: CampaignAnomaly['anomaly_type'])
       return 'Zero Transactions';
     case 'suspected_bot_activity':
       return 'Suspected Bot Activity';
+    case 'baseline_deviation':
+      return 'Baseline Deviation';
+    case 'level_shift':
+      return 'Level Shift';
     default:
       return 'Unknown';
   }
@@ -407,4 +788,50 @@ export function getSeverityColor(severity: CampaignAnomaly['severity']): string
     default:
       return 'text-gray-600 bg-gray-50';
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Helper function to get a statistical metric's display name
+ */
+export function getMetricDisplayName(metric: StatisticalMetric): string {
+  switch (metric) {
+    case 'impressions':
+      return 'Impressions';
+    case 'ctr':
+      return 'CTR';
+    case 'spend':
+      return 'Spend';
+    case 'roas':
+      return 'ROAS';
+    default:
+      return 'Value';
+  }
+}
+
+/**
+ * Helper function to format a statistical metric value for display
+ */
+export function formatMetricValue(metric: StatisticalMetric, value: number | undefined): string {
+  if (value === undefined || value === null) return '-';
+
+  switch (metric) {
+    case 'impressions':
+      return Math.round(value).toLocaleString();
+    case 'ctr':
+      return `${value.toFixed(2)}%`;
+    case 'spend':
+      return `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+    case 'roas':
+      return `${value.toFixed(2)}x`;
+    default:
+      return value.toLocaleString();
+  }
+}
+
+/**
+ * Helper function to format the expected band of a statistical anomaly, e.g. "1,200 – 1,800"
+ */
+export function formatExpectedBand(anomaly: CampaignAnomaly): string {
+  const metric = anomaly.details.metric || 'impressions';
+  return `${formatMetricValue(metric, anomaly.details.expected_lower)} – ${formatMetricValue(metric, anomaly.details.expected_upper)}`;
+}
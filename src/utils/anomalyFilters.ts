@@ -2,7 +2,7 @@ import { CampaignAnomaly } from "./anomalyDetection";
 
 export interface AnomalyFilters {
   severity?: 'high' | 'medium' | 'low';
-  anomalyType?: 'impression_change' | 'transaction_drop' | 'transaction_zero' | 'suspected_bot_activity';
+  anomalyType?: CampaignAnomaly['anomaly_type'];
   recency?: '3' | '7' | '10' | '14' | '30';
 }
 
@@ -0,0 +1,170 @@
+import {
+  AnomalyDetectionRules,
+  AnomalyDetectorType,
+  AnomalyRule,
+  AnomalyRuleOverrides,
+  AnomalyRuleScope,
+  AnomalyRulesResolver,
+  SeverityBands
+} from '@/types/anomaly';
+
+// The parts of a stored rule that resolution reads
+type RuleOverridesRow = Pick<AnomalyRule, 'scope' | 'scope_value' | 'settings'>;
+
+/**
+ * Built-in defaults - match the thresholds detection used before rules were configurable
+ */
+export const DEFAULT_ANOMALY_RULES: AnomalyDetectionRules = {
+  impressionThreshold: 20,
+  impressionSeverity: { medium: 35, high: 50 },
+  transactionDropThreshold: 90,
+  zeroTransactionDays: 2,
+  zeroTransactionSeverity: { medium: 4, high: 7 },
+  ctrThreshold: 1.0,
+  ctrSeverity: { medium: 1.0, high: 2.0 },
+  zScoreThreshold: 3,
+  zScoreSeverity: { medium: 4, high: 5 },
+  baselineDays: 28,
+  weekdayAdjustment: true,
+  levelShiftMinDays: 5,
+  enabledDetectors: {
+    impression_change: true,
+    transaction_drop: true,
+    transaction_zero: true,
+    suspected_bot_activity: true,
+    baseline_deviation: true,
+    level_shift: true
+  }
+};
+
+export const ANOMALY_DETECTOR_LABELS: Record<AnomalyDetectorType, string> = {
+  impression_change: 'Impression Change',
+  transaction_drop: 'Transaction Drop',
+  transaction_zero: 'Zero Transactions',
+  suspected_bot_activity: 'Suspected Bot Activity',
+  baseline_deviation: 'Baseline Deviation',
+  level_shift: 'Level Shift'
+};
+
+/**
+ * Maps a measured value onto low/medium/high using a detector's severity bands
+ */
+export function getSeverityFromBands(value: number, bands: SeverityBands): 'high' | 'medium' | 'low' {
+  if (value >= bands.high) return 'high';
+  if (value >= bands.medium) return 'medium';
+  return 'low';
+}
+
+/**
+ * Applies a scope's overrides on top of already-resolved rules
+ */
+export function applyRuleOverrides(
+  base: AnomalyDetectionRules,
+  overrides: AnomalyRuleOverrides | null | undefined
+): AnomalyDetectionRules {
+  if (!overrides) return base;
+
+  return {
+    ...base,
+    ...overrides,
+    impressionSeverity: { ...base.impressionSeverity, ...overrides.impressionSeverity },
+    zeroTransactionSeverity: { ...base.zeroTransactionSeverity, ...overrides.zeroTransactionSeverity },
+    ctrSeverity: { ...base.ctrSeverity, ...overrides.ctrSeverity },
+    zScoreSeverity: { ...base.zScoreSeverity, ...overrides.zScoreSeverity },
+    enabledDetectors: { ...base.enabledDetectors, ...overrides.enabledDetectors }
+  };
+}
+
+/**
+ * Builds a per-campaign rules resolver from stored rule rows.
+ * Precedence: campaign > agency > global > DEFAULT_ANOMALY_RULES.
+ *
+ * @param rules - Rows from anomaly_detection_rules
+ * @param getAgencyAbbreviation - Resolves a campaign name to its agency abbreviation (agency registry code)
+ */
+export function createAnomalyRulesResolver(
+  rules: RuleOverridesRow[],
+  getAgencyAbbreviation: (campaignName: string) => string
+): AnomalyRulesResolver {
+  const globalRule = rules.find(r => r.scope === 'global');
+  const agencyRules = new Map(rules.filter(r => r.scope === 'agency').map(r => [r.scope_value, r]));
+  const campaignRules = new Map(rules.filter(r => r.scope === 'campaign').map(r => [r.scope_value, r]));
+
+  const globalRules = applyRuleOverrides(DEFAULT_ANOMALY_RULES, globalRule?.settings);
+  const cache = new Map<string, AnomalyDetectionRules>();
+
+  return (campaignName: string) => {
+    const cached = cache.get(campaignName);
+    if (cached) return cached;
+
+    const abbreviation = getAgencyAbbreviation(campaignName);
+    let resolved = applyRuleOverrides(globalRules, agencyRules.get(abbreviation)?.settings);
+    resolved = applyRuleOverrides(resolved, campaignRules.get(campaignName)?.settings);
+
+    cache.set(campaignName, resolved);
+    return resolved;
+  };
+}
+
+/**
+ * Returns only the fields of `values` that differ from `parent`, so a scope
+ * stores just what it overrides and keeps inheriting everything else.
+ */
+export function diffRuleOverrides(
+  parent: AnomalyDetectionRules,
+  values: AnomalyDetectionRules
+): AnomalyRuleOverrides {
+  const overrides: AnomalyRuleOverrides = {};
+
+  (['impressionThreshold', 'transactionDropThreshold', 'zeroTransactionDays', 'ctrThreshold', 'zScoreThreshold', 'baselineDays', 'levelShiftMinDays'] as const).forEach(key => {
+    if (values[key] !== parent[key]) overrides[key] = values[key];
+  });
+
+  if (values.weekdayAdjustment !== parent.weekdayAdjustment) {
+    overrides.weekdayAdjustment = values.weekdayAdjustment;
+  }
+
+  (['impressionSeverity', 'zeroTransactionSeverity', 'ctrSeverity', 'zScoreSeverity'] as const).forEach(key => {
+    const bands: Partial<SeverityBands> = {};
+    if (values[key].medium !== parent[key].medium) bands.medium = values[key].medium;
+    if (values[key].high !== parent[key].high) bands.high = values[key].high;
+    if (Object.keys(bands).length > 0) overrides[key] = bands;
+  });
+
+  const detectors: Partial<Record<AnomalyDetectorType, boolean>> = {};
+  (Object.keys(values.enabledDetectors) as AnomalyDetectorType[]).forEach(type => {
+    if (values.enabledDetectors[type] !== parent.enabledDetectors[type]) {
+      detectors[type] = values.enabledDetectors[type];
+    }
+  });
+  if (Object.keys(detectors).length > 0) overrides.enabledDetectors = detectors;
+
+  return overrides;
+}
+
+/**
+ * The rule rows with one scope's overrides saved, or removed when settings is null
+ */
+export function withRuleOverrides<T extends RuleOverridesRow>(
+  rules: T[],
+  scope: AnomalyRuleScope,
+  scopeValue: string,
+  settings: AnomalyRuleOverrides | null
+): RuleOverridesRow[] {
+  const others: RuleOverridesRow[] = rules.filter(r => r.scope !== scope || r.scope_value !== scopeValue);
+  return settings ? [...others, { scope, scope_value: scopeValue, settings }] : others;
+}
+
+/**
+ * Whether a change to a scope's rules can change what a campaign resolves to
+ */
+export function isInRuleScope(
+  scope: AnomalyRuleScope,
+  scopeValue: string,
+  campaignName: string,
+  getAgencyAbbreviation: (campaignName: string) => string
+): boolean {
+  if (scope === 'global') return true;
+  if (scope === 'agency') return getAgencyAbbreviation(campaignName) === scopeValue;
+  return campaignName === scopeValue;
+}
@@ -2,6 +2,8 @@ import { parseCampaignDate } from '@/lib/pacingCalculations';
 import { differenceInDays } from 'date-fns';
 import { CampaignDataRow } from '@/types/campaign';
 import { ContractTermsRow } from '@/types/dashboard';
+import { HealthComponent, HealthScoringProfile } from '@/types/health-scoring';
+import { DEFAULT_HEALTH_PROFILE, getNormalizedWeight } from '@/utils/healthScoringProfiles';
 
 export interface CampaignHealthData {
   campaignName: string;
@@ -30,6 +32,9 @@ export interface CampaignHealthData {
   burnRateData: BurnRateData;
   requiredDailyImpressions: number;
   burnRatePercentage: number;
+  /** Scoring profile that produced healthScore */
+  profileId: string;
+  profileName: string;
 }
 
 export interface BurnRateData {
@@ -42,14 +47,16 @@ export interface BurnRateData {
   sevenDayPercentage: number;
 }
 
-// CTR Benchmark - can be made configurable later
-const CTR_BENCHMARK = 0.5; // 0.5% default benchmark
+// Benchmarks of the default profile - override per campaign via scoring profiles
+const CTR_BENCHMARK = DEFAULT_HEALTH_PROFILE.benchmarks.ctr;
+const ROAS_TARGET = DEFAULT_HEALTH_PROFILE.benchmarks.roasTarget;
 
-export function calculateROASScore(roas: number): number {
-  if (roas >= 4.0) return 10;
-  if (roas >= 3.0) return 7.5;
-  if (roas >= 2.0) return 5;
-  if (roas >= 1.0) return 2.5;
+export function calculateROASScore(roas: number, target: number = ROAS_TARGET): number {
+  // Tiers at 100/75/50/25% of target (4.0x/3.0x/2.0x/1.0x for the default target)
+  if (roas >= target) return 10;
+  if (roas >= target * 0.75) return 7.5;
+  if (roas >= target * 0.5) return 5;
+  if (roas >= target * 0.25) return 2.5;
   if (roas > 0) return 1;
   return 0;
 }
@@ -786,7 +793,7 @@ interface RealPacingMetrics {
   budget?: number;
 }
 
-export function calculateCampaignHealth(data: CampaignDataRow[], campaignName: string, pacingData: PacingDataRow[] = [], contractTermsData: ContractTermsRow[] = [], realPacingMetrics: RealPacingMetrics | null = null): CampaignHealthData {
+export function calculateCampaignHealth(data: CampaignDataRow[], campaignName: string, pacingData: PacingDataRow[] = [], contractTermsData: ContractTermsRow[] = [], realPacingMetrics: RealPacingMetrics | null = null, profile: HealthScoringProfile = DEFAULT_HEALTH_PROFILE): CampaignHealthData {
   const isTargetCampaign = campaignName === "2001987: MJ: Union Chill-NJ-Garden Greens Brand-DIS-250514";
   
   if (isTargetCampaign) {
@@ -832,7 +839,9 @@ export function calculateCampaignHealth(data: CampaignDataRow[], campaignName: s
         sevenDayPercentage: 0
       },
       requiredDailyImpressions: 0,
-      burnRatePercentage: 0
+      burnRatePercentage: 0,
+      profileId: profile.id,
+      profileName: profile.name
     };
   }
   
@@ -862,8 +871,8 @@ export function calculateCampaignHealth(data: CampaignDataRow[], campaignName: s
   const ctr = totals.impressions > 0 ? (totals.clicks / totals.impressions) * 100 : 0;
   
   // Calculate scores
-  const roasScore = calculateROASScore(roas);
-  const ctrScore = calculateCTRScore(ctr);
+  const roasScore = calculateROASScore(roas, profile.benchmarks.roasTarget);
+  const ctrScore = calculateCTRScore(ctr, profile.benchmarks.ctr);
   
   // Use real pacing data if available, otherwise fall back to simplified calculation
   let expectedImpressions, deliveryPacingScore, actualPacingPercent;
@@ -1016,7 +1025,9 @@ export function calculateCampaignHealth(data: CampaignDataRow[], campaignName: s
         sevenDayPercentage: 0
       },
       requiredDailyImpressions: 0,
-      burnRatePercentage: 0
+      burnRatePercentage: 0,
+      profileId: profile.id,
+      profileName: profile.name
     };
   }
   
@@ -1070,12 +1081,18 @@ export function calculateCampaignHealth(data: CampaignDataRow[], campaignName: s
     console.log(`Overspend score: ${overspendScore}`);
   }
   
-  // Calculate final health score with weights (CTR removed, overspend increased from 5% to 15%)
-  const healthScore = 
-    (roasScore * 0.40) +
-    (deliveryPacingScore * 0.30) +
-    (burnRateScore * 0.15) +
-    (overspendScore * 0.15);
+  // Calculate final health score using the profile's weights (components that don't apply weigh 0)
+  const componentScores: Record<HealthComponent, number> = {
+    roas: roasScore,
+    deliveryPacing: deliveryPacingScore,
+    burnRate: burnRateScore,
+    ctr: ctrScore,
+    overspend: overspendScore
+  };
+  const healthScore = (Object.keys(componentScores) as HealthComponent[]).reduce(
+    (sum, component) => sum + componentScores[component] * getNormalizedWeight(profile, component),
+    0
+  );
   
   // Calculate the actual values for display using real pacing if available
   const deliveryPacing = actualPacingPercent || 0;
@@ -1089,7 +1106,7 @@ export function calculateCampaignHealth(data: CampaignDataRow[], campaignName: s
     console.log(`🚀 ===============================\n`);
   } else {
     console.log(`=== FINAL RESULTS FOR "${campaignName}" ===`);
-    console.log(`Health Score: ${Math.round(healthScore * 10) / 10}`);
+    console.log(`Health Score: ${Math.round(healthScore * 10) / 10} (${profile.name} profile)`);
     console.log(`Overspend: $${Math.round(overspendAmount * 100) / 100}`);
     console.log(`===============================\n`);
   }
@@ -1120,6 +1137,8 @@ export function calculateCampaignHealth(data: CampaignDataRow[], campaignName: s
     overspend: Math.round(overspendAmount * 100) / 100, // Now shows projected overspend amount with improved calculation
     burnRateData,
     requiredDailyImpressions: Math.round(requiredDailyImpressions),
-    burnRatePercentage: Math.round(burnRatePercentage * 10) / 10
+    burnRatePercentage: Math.round(burnRatePercentage * 10) / 10,
+    profileId: profile.id,
+    profileName: profile.name
   };
 }
@@ -0,0 +1,181 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { AgencyEntry, getAgencies, setAgencyRegistry } from '@/contexts/agency-mapping';
+import {
+  findUnmatchedCampaignNames,
+  parseAdvertiserName,
+  parseAgencyInfo,
+  parseCampaignName,
+  ParsedCampaignName
+} from '@/utils/campaignNameParsing';
+
+const agency = (abbreviation: string, display_name: string, aliases: string[] = []): AgencyEntry => ({
+  abbreviation,
+  display_name,
+  aliases,
+  is_active: true,
+  is_test: false
+});
+
+describe('agency registry', () => {
+  afterEach(() => setAgencyRegistry([]));
+
+  it('resolves codes through the built-in mapping until the registry loads', () => {
+    expect(parseAgencyInfo('2001367: HRB: District Cannabis-241217')).toEqual({ agency: 'Herb.co', abbreviation: 'HRB' });
+  });
+
+  it('resolves aliases to their agency once the registry is replaced', () => {
+    setAgencyRegistry([agency('OG', 'Orangellow', ['SM']), agency('NEW', 'New Agency')]);
+
+    expect(parseAgencyInfo('2001234: SM: Sunny Farms-DIS-250101')).toEqual({ agency: 'Orangellow', abbreviation: 'OG' });
+    expect(parseAgencyInfo('2001234: NEW: Sunny Farms-DIS-250101')).toEqual({ agency: 'New Agency', abbreviation: 'NEW' });
+    expect(parseAgencyInfo('2001234: HRB: Sunny Farms-DIS-250101')).toEqual({ agency: 'HRB', abbreviation: 'HRB' });
+  });
+
+  it('lists campaign names whose code is in the given registry snapshot', () => {
+    const names = ['2001234: NEW: Sunny Farms-DIS-250101', '2001235: OG: Acme-DIS-250101', 'No agency here'];
+
+    expect(findUnmatchedCampaignNames(names, getAgencies()).map(row => row.code)).toEqual(['', 'NEW']);
+    expect(findUnmatchedCampaignNames(names, [agency('OG', 'Orangellow'), agency('NEW', 'New Agency')])).toEqual([
+      { campaignName: 'No agency here', code: '' }
+    ]);
+  });
+});
+
+describe('parseAdvertiserName', () => {
+  afterEach(() => setAgencyRegistry([]));
+
+  // The registry prefix pattern used to be built with "\\\\s+", which matched a
+  // literal backslash instead of whitespace, so names with text before the agency
+  // code never matched it and fell through to ""
+  it('matches an agency code with whitespace after the colon anywhere in the name', () => {
+    expect(parseAdvertiserName('Renewal HRB: Sunny Farms-DIS-250101')).toBe('Sunny Farms');
+    expect(parseAdvertiserName('Renewal hrb:   Sunny Farms-DIS-250101')).toBe('Sunny Farms');
+  });
+
+  it('picks up codes added to the registry', () => {
+    expect(parseAdvertiserName('Renewal NEW: Sunny Farms-DIS-250101')).toBe('');
+
+    setAgencyRegistry([agency('NEW', 'New Agency')]);
+    expect(parseAdvertiserName('Renewal NEW: Sunny Farms-DIS-250101')).toBe('Sunny Farms');
+  });
+});
+
+describe('parseCampaignName', () => {
+  const parsed = (fields: Partial<ParsedCampaignName>): ParsedCampaignName => ({
+    orderId: null,
+    orderIds: [],
+    agency: '',
+    abbreviation: '',
+    advertiser: '',
+    market: null,
+    channel: null,
+    flightCode: null,
+    description: null,
+    awaitingIo: false,
+    isTest: false,
+    ...fields
+  });
+
+  it.each<[string, string, ParsedCampaignName]>([
+    [
+      'standard',
+      '2001987: MJ: Union Chill-NJ-Garden Greens Brand-DIS-250514',
+      parsed({
+        orderId: '2001987', orderIds: ['2001987'], agency: 'MediaJel Direct', abbreviation: 'MJ', advertiser: 'Union Chill',
+        market: 'NJ', channel: 'DIS', flightCode: '250514', description: 'Garden Greens Brand'
+      })
+    ],
+    [
+      'no spaces after the colons',
+      '2002057:MJ:Kamu Karaoke-AIDA Models-DIS-250820',
+      parsed({
+        orderId: '2002057', orderIds: ['2002057'], agency: 'MediaJel Direct', abbreviation: 'MJ', advertiser: 'Kamu Karaoke',
+        channel: 'DIS', flightCode: '250820', description: 'AIDA Models'
+      })
+    ],
+    [
+      'renewal with two IO numbers',
+      '2001216/2001505: HRB: District Cannabis-CA-OLV-241217',
+      parsed({
+        orderId: '2001216', orderIds: ['2001216', '2001505'], agency: 'Herb.co', abbreviation: 'HRB', advertiser: 'District Cannabis',
+        market: 'CA', channel: 'OLV', flightCode: '241217'
+      })
+    ],
+    [
+      'renewal with spaces around the slash',
+      '2001216 / 2001505: HRB: District Cannabis-241217',
+      parsed({
+        orderId: '2001216', orderIds: ['2001216', '2001505'], agency: 'Herb.co', abbreviation: 'HRB', advertiser: 'District Cannabis',
+        flightCode: '241217'
+      })
+    ],
+    [
+      'awaiting IO',
+      'Awaiting IO: OG: Sunny Farms-MI-CTV-250101',
+      parsed({
+        agency: 'Orangellow', abbreviation: 'OG', advertiser: 'Sunny Farms', market: 'MI', channel: 'CTV', flightCode: '250101',
+        awaitingIo: true
+      })
+    ],
+    [
+      'WWX after the IO number',
+      '2001234:WWX-Green Leaf-WA-DIS-250301',
+      parsed({
+        orderId: '2001234', orderIds: ['2001234'], agency: 'Wunderworx', abbreviation: 'WWX', advertiser: 'Green Leaf',
+        market: 'WA', channel: 'DIS', flightCode: '250301'
+      })
+    ],
+    [
+      'WWX inside the name',
+      '2001234: Promo-WWX-Green Leaf-250301',
+      parsed({
+        orderId: '2001234', orderIds: ['2001234'], agency: 'Wunderworx', abbreviation: 'WWX', advertiser: 'Green Leaf',
+        flightCode: '250301'
+      })
+    ],
+    [
+      'Partner-PRP',
+      '2001943:Partner-PRP-Pend Oreille-DIS',
+      parsed({
+        orderId: '2001943', orderIds: ['2001943'], agency: 'Propaganda Creative', abbreviation: 'PRP', advertiser: 'Pend Oreille',
+        channel: 'DIS'
+      })
+    ],
+    [
+      'PRP-Pend Oreille',
+      '2001943: PRP-Pend Oreille-WA-DIS-250401',
+      parsed({
+        orderId: '2001943', orderIds: ['2001943'], agency: 'Propaganda Creative', abbreviation: 'PRP', advertiser: 'Pend Oreille',
+        market: 'WA', channel: 'DIS', flightCode: '250401'
+      })
+    ],
+    [
+      'original format without an IO number',
+      'SM: Local Shop-OR-SOC-250115',
+      parsed({
+        agency: 'Orangellow', abbreviation: 'SM', advertiser: 'Local Shop', market: 'OR', channel: 'SOC', flightCode: '250115'
+      })
+    ],
+    [
+      'test agency, lower case code',
+      '2001111: tst: Internal Check-DIS-250101',
+      parsed({
+        orderId: '2001111', orderIds: ['2001111'], agency: 'Test', abbreviation: 'TST', advertiser: 'Internal Check',
+        channel: 'DIS', flightCode: '250101', isTest: true
+      })
+    ],
+    [
+      'unknown agency code',
+      '2001111: XYZ: Unknown Agency-DIS-250101',
+      parsed({
+        orderId: '2001111', orderIds: ['2001111'], agency: 'XYZ', abbreviation: 'XYZ', advertiser: 'Unknown Agency',
+        channel: 'DIS', flightCode: '250101'
+      })
+    ],
+    ['Sol Flower', 'Sol Flower - Tempe-AZ-DIS', parsed({ advertiser: 'Sol Flower' })],
+    ['no convention', 'Holiday promo draft', parsed({ isTest: true })],
+    ['empty', '', parsed({})]
+  ])('parses the %s format', (_, campaignName, expected) => {
+    expect(parseCampaignName(campaignName)).toEqual(expected);
+  });
+});
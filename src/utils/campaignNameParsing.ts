@@ -0,0 +1,296 @@
+import {
+  AgencyEntry,
+  findAgencyByCode,
+  getAgencies,
+  getAgencyCodes,
+  getAgencyRegistryVersion,
+  normalizeAgencyCode
+} from '@/contexts/agency-mapping';
+
+/**
+ * Campaign order name parsing, shared by CampaignFilterContext and code that
+ * runs outside React (e.g. the scheduled report generator). Agency codes
+ * resolve through the agency registry.
+ */
+
+export interface CampaignAgencyInfo {
+  agency: string;
+  abbreviation: string;
+}
+
+const CAMPAIGN_NAME_PATTERNS = {
+  slashFormat: /^\d+\s*\/\s*\d+:\s*([^:]+):/,
+  agencyMatch: /^\d+:\s*([^:]+):/,
+  agencyMatchNoSpace: /^\d+:([^:]+):/,  // Handle cases without space after colon
+  originalAgencyMatch: /^([^:]+):/,
+  awaitingIO: /^Awaiting IO:\s*([^:]+):/,
+  wwxFormat: /^\d+:?\s*WWX-/,
+  wwxDash: /-WWX-/,
+  newFormat: /^\d+(?:\/\d+)?:\s*[^:]+:\s*([^-]+)/,
+  newFormatNoSpace: /^\d+(?:\/\d+)?:[^:]+:([^-]+)/  // Handle cases without spaces
+};
+
+/**
+ * Everything a campaign order name encodes, e.g.
+ * "2001987: MJ: Union Chill-NJ-Garden Greens Brand-DIS-250514"
+ */
+export interface ParsedCampaignName {
+  orderId: string | null; // First IO number
+  orderIds: string[]; // Every IO number - renewals carry two, e.g. "2001216/2001505"
+  agency: string;
+  abbreviation: string;
+  advertiser: string;
+  market: string | null; // US state code, e.g. "NJ"
+  channel: string | null; // Channel code, e.g. "DIS" (see CAMPAIGN_CHANNELS)
+  flightCode: string | null; // Trailing YYMMDD flight code, e.g. "250514"
+  description: string | null; // Remaining segments, e.g. "Garden Greens Brand"
+  awaitingIo: boolean; // Booked before the IO was signed ("Awaiting IO: ...")
+  isTest: boolean;
+}
+
+export const CAMPAIGN_CHANNELS: Record<string, string> = {
+  AUD: 'Audio',
+  CTV: 'Connected TV',
+  DIS: 'Display',
+  DOOH: 'Digital Out-of-Home',
+  NAT: 'Native',
+  OLV: 'Online Video',
+  OTT: 'OTT',
+  SEM: 'Search',
+  SOC: 'Social',
+  VID: 'Video'
+};
+
+const US_STATE_CODES = new Set([
+  'AK', 'AL', 'AR', 'AZ', 'CA', 'CO', 'CT', 'DC', 'DE', 'FL', 'GA', 'HI', 'IA', 'ID', 'IL', 'IN', 'KS',
+  'KY', 'LA', 'MA', 'MD', 'ME', 'MI', 'MN', 'MO', 'MS', 'MT', 'NC', 'ND', 'NE', 'NH', 'NJ', 'NM', 'NV',
+  'NY', 'OH', 'OK', 'OR', 'PA', 'RI', 'SC', 'SD', 'TN', 'TX', 'UT', 'VA', 'VT', 'WA', 'WI', 'WV', 'WY'
+]);
+
+const ORDER_ID_PREFIX = /^(\d+(?:\s*\/\s*\d+)*)\s*:?\s*/;
+const FLIGHT_CODE = /^\d{6}$/;
+
+export interface UnmatchedCampaignName {
+  campaignName: string;
+  code: string; // What was parsed as the agency code, "" when nothing was
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Agency prefix patterns built from the registry codes, rebuilt when the registry changes
+let agencyPrefixPatterns: { version: number; prefixed: RegExp; leading: RegExp } | null = null;
+
+const getAgencyPrefixPatterns = () => {
+  const version = getAgencyRegistryVersion();
+  if (agencyPrefixPatterns?.version !== version) {
+    // Longest first so e.g. HRB isn't read as HR
+    const codes = getAgencyCodes()
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegExp)
+      .join('|');
+    agencyPrefixPatterns = {
+      version,
+      prefixed: new RegExp(`(${codes}):\\s+(.*?)(?=-)`, 'i'),
+      leading: new RegExp(`^(${codes}):`, 'i')
+    };
+  }
+  return agencyPrefixPatterns;
+};
+
+const toAgencyInfo = (code: string): CampaignAgencyInfo => {
+  const agency = findAgencyByCode(code);
+  return agency
+    ? { agency: agency.display_name, abbreviation: agency.abbreviation }
+    : { agency: code, abbreviation: code };
+};
+
+/**
+ * Agency name and abbreviation from a campaign order name
+ */
+export function parseAgencyInfo(campaignName: string): CampaignAgencyInfo {
+  if (!campaignName) return { agency: "", abbreviation: "" };
+
+  // Special case for the campaigns with Partner-PRP or PRP-Pend Oreille
+  if (campaignName.includes('2001943:Partner-PRP') || campaignName.includes('2001943: PRP-Pend Oreille')) {
+    return toAgencyInfo('PRP');
+  }
+
+  // Handle campaign names with "Awaiting IO"
+  if (campaignName.startsWith('Awaiting IO:')) {
+    const awaitingIOMatch = campaignName.match(CAMPAIGN_NAME_PATTERNS.awaitingIO);
+    if (awaitingIOMatch?.[1]) {
+      return toAgencyInfo(awaitingIOMatch[1].trim());
+    }
+  }
+
+  // Special case for campaigns starting with numeric IDs and containing WWX-
+  if (campaignName.match(CAMPAIGN_NAME_PATTERNS.wwxFormat) || campaignName.includes('-WWX-')) {
+    return toAgencyInfo('WWX');
+  }
+
+  // Slashes in the IO number, then the standard format with and without a
+  // space after the colon, then the original format for backward compatibility
+  const match = campaignName.match(CAMPAIGN_NAME_PATTERNS.slashFormat)
+    || campaignName.match(CAMPAIGN_NAME_PATTERNS.agencyMatch)
+    || campaignName.match(CAMPAIGN_NAME_PATTERNS.agencyMatchNoSpace)
+    || campaignName.match(CAMPAIGN_NAME_PATTERNS.originalAgencyMatch);
+  if (match?.[1]) {
+    return toAgencyInfo(match[1].trim());
+  }
+
+  return { agency: "", abbreviation: "" };
+}
+
+/**
+ * Advertiser name from a campaign order name, or "" when it can't be found
+ */
+export function parseAdvertiserName(campaignName: string): string {
+  if (!campaignName) return "";
+
+  // Special case for Sol Flower
+  if (campaignName.includes('Sol Flower')) {
+    return "Sol Flower";
+  }
+
+  // Handle "Awaiting IO" format
+  if (campaignName.startsWith('Awaiting IO:')) {
+    const awaitingIOMatch = campaignName.match(/^Awaiting IO:\s*[^:]+:\s*([^-]+)/);
+    if (awaitingIOMatch?.[1]) {
+      return awaitingIOMatch[1].trim();
+    }
+  }
+
+  // For the new format "2001367: HRB: District Cannabis-241217"
+  const newFormatMatch = campaignName.match(CAMPAIGN_NAME_PATTERNS.newFormat);
+  if (newFormatMatch?.[1]) {
+    return newFormatMatch[1].trim();
+  }
+
+  // For the new format without spaces "2002057:MJ:Kamu Karaoke-AIDA Models-DIS-250820"
+  const newFormatNoSpaceMatch = campaignName.match(CAMPAIGN_NAME_PATTERNS.newFormatNoSpace);
+  if (newFormatNoSpaceMatch?.[1]) {
+    return newFormatNoSpaceMatch[1].trim();
+  }
+
+  // Try with the registry's agency prefixes
+  const { prefixed, leading } = getAgencyPrefixPatterns();
+  const match = campaignName.match(prefixed);
+  if (match?.[2]) {
+    return match[2].trim();
+  }
+
+  // Fallback to splitting by hyphen if the regex fails
+  if (leading.test(campaignName) && campaignName.includes('-')) {
+    const firstPart = campaignName.split('-')[0].trim();
+    const colonIndex = firstPart.indexOf(':');
+    if (colonIndex !== -1) {
+      return firstPart.substring(colonIndex + 1).trim();
+    }
+  }
+
+  return "";
+}
+
+/**
+ * Test/demo/draft campaigns, including anything booked under an agency flagged as test
+ */
+export function isTestCampaignName(campaignName: string): boolean {
+  if (!campaignName) return false;
+
+  const lowerCaseName = campaignName.toLowerCase();
+  if (lowerCaseName.includes('test') ||
+      lowerCaseName.includes('demo') ||
+      lowerCaseName.includes('draft')) {
+    return true;
+  }
+
+  return !!findAgencyByCode(parseAgencyInfo(campaignName).abbreviation)?.is_test;
+}
+
+/**
+ * Structured fields from a campaign order name. Names that don't follow the
+ * convention still get whatever could be read (agency, advertiser, test flag).
+ */
+export function parseCampaignName(campaignName: string): ParsedCampaignName {
+  const name = (campaignName || '').trim();
+  const awaitingIo = name.startsWith('Awaiting IO:');
+  const { agency, abbreviation } = parseAgencyInfo(name);
+
+  const parsed: ParsedCampaignName = {
+    orderId: null,
+    orderIds: [],
+    agency,
+    abbreviation,
+    advertiser: parseAdvertiserName(name),
+    market: null,
+    channel: null,
+    flightCode: null,
+    description: null,
+    awaitingIo,
+    isTest: isTestCampaignName(name)
+  };
+  if (!abbreviation) return parsed;
+
+  let rest = awaitingIo ? name.slice('Awaiting IO:'.length).trim() : name;
+  const orderMatch = rest.match(ORDER_ID_PREFIX);
+  if (orderMatch) {
+    parsed.orderIds = orderMatch[1].split('/').map(id => id.trim());
+    parsed.orderId = parsed.orderIds[0];
+    rest = rest.slice(orderMatch[0].length);
+  }
+
+  // Segments after the agency code - "CODE: Advertiser-..." or, for names
+  // like "2001234:WWX-Advertiser-..." and "2001943:Partner-PRP-Advertiser-...",
+  // "...-CODE-Advertiser-..."
+  const toSegments = (text: string) => text.split('-').map(segment => segment.trim()).filter(Boolean);
+  const colonIndex = rest.indexOf(':');
+  const dashIndex = rest.indexOf('-');
+  let segments: string[];
+  if (colonIndex !== -1 && (dashIndex === -1 || colonIndex < dashIndex)) {
+    segments = toSegments(rest.slice(colonIndex + 1));
+  } else {
+    const dashSegments = toSegments(rest);
+    const codeIndex = dashSegments.findIndex(segment => findAgencyByCode(segment)?.abbreviation === abbreviation);
+    segments = dashSegments.slice(codeIndex === -1 ? 1 : codeIndex + 1);
+  }
+
+  if (!parsed.advertiser) parsed.advertiser = segments[0] || '';
+  const trailing = segments.slice(1);
+
+  if (trailing.length > 0 && FLIGHT_CODE.test(trailing[trailing.length - 1])) {
+    parsed.flightCode = trailing.pop()!;
+  }
+
+  const description: string[] = [];
+  trailing.forEach(segment => {
+    if (!parsed.channel && CAMPAIGN_CHANNELS[segment]) {
+      parsed.channel = segment;
+    } else if (!parsed.market && US_STATE_CODES.has(segment)) {
+      parsed.market = segment;
+    } else {
+      description.push(segment);
+    }
+  });
+  parsed.description = description.length > 0 ? description.join('-') : null;
+
+  return parsed;
+}
+
+/**
+ * Campaign names whose agency code isn't in the registry, sorted by code then name
+ */
+export function findUnmatchedCampaignNames(
+  campaignNames: Iterable<string>,
+  agencies: AgencyEntry[] = getAgencies()
+): UnmatchedCampaignName[] {
+  const codes = new Set(agencies.flatMap(agency => [agency.abbreviation, ...agency.aliases]).map(normalizeAgencyCode));
+  const unmatched: UnmatchedCampaignName[] = [];
+  for (const campaignName of campaignNames) {
+    if (!campaignName) continue;
+    const { abbreviation } = parseAgencyInfo(campaignName);
+    if (!codes.has(normalizeAgencyCode(abbreviation))) {
+      unmatched.push({ campaignName, code: abbreviation });
+    }
+  }
+  return unmatched.sort((a, b) => a.code.localeCompare(b.code) || a.campaignName.localeCompare(b.campaignName));
+}
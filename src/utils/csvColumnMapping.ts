@@ -0,0 +1,180 @@
+import {
+  CsvColumnMapping,
+  CsvDateFormat,
+  CsvImportField,
+  CsvImportKind,
+  GenericCSVRow
+} from "@/types/csv";
+
+/**
+ * Columns each import expects, keyed by the canonical header the rest of the app reads
+ */
+export const CSV_IMPORT_FIELDS: Record<CsvImportKind, CsvImportField[]> = {
+  delivery: [
+    { key: 'DATE', label: 'Date', type: 'date', required: true, synonyms: ['Day', 'Report Date', 'Event Date', 'Date (UTC)'] },
+    { key: 'CAMPAIGN ORDER NAME', label: 'Campaign Order Name', type: 'text', required: true, synonyms: ['Campaign', 'Campaign Name', 'Order Name', 'Insertion Order', 'IO Name', 'Line Item', 'Line Item Name'] },
+    { key: 'IMPRESSIONS', label: 'Impressions', type: 'number', required: true, synonyms: ['Imps', 'Impr', 'Impressions Delivered', 'Total Impressions'] },
+    { key: 'CLICKS', label: 'Clicks', type: 'number', required: true, synonyms: ['Total Clicks', 'Link Clicks'] },
+    { key: 'REVENUE', label: 'Revenue', type: 'number', required: true, synonyms: ['Attributed Sales', 'Sales', 'Conversion Value', 'Total Revenue', 'Attributed Revenue'] },
+    { key: 'SPEND', label: 'Spend', type: 'number', required: true, synonyms: ['Cost', 'Media Cost', 'Total Cost', 'Amount Spent', 'Advertiser Cost', 'Total Spend'] },
+    { key: 'TRANSACTIONS', label: 'Transactions', type: 'number', required: false, synonyms: ['Conversions', 'Orders', 'Purchases', 'Total Conversions'] }
+  ],
+  'contract-terms': [
+    { key: 'Name', label: 'Campaign Name', type: 'text', required: true, synonyms: ['Campaign', 'Campaign Name', 'Campaign Order Name', 'Order Name'] },
+    { key: 'Start Date', label: 'Start Date', type: 'date', required: true, synonyms: ['Start', 'Flight Start', 'Start Date (Flight)'] },
+    { key: 'End Date', label: 'End Date', type: 'date', required: true, synonyms: ['End', 'Flight End', 'End Date (Flight)'] },
+    { key: 'Budget', label: 'Budget', type: 'number', required: true, synonyms: ['Total Budget', 'Media Budget', 'Contract Budget'] },
+    { key: 'CPM', label: 'CPM', type: 'number', required: true, synonyms: ['CPM Rate', 'Rate', 'Contracted CPM'] },
+    { key: 'Impressions Goal', label: 'Impressions Goal', type: 'number', required: true, synonyms: ['Impression Goal', 'Goal Impressions', 'Contracted Impressions', 'Impressions'] }
+  ]
+};
+
+export const CSV_DATE_FORMATS: CsvDateFormat[] = ['MM/DD/YYYY', 'DD/MM/YYYY', 'YYYY-MM-DD'];
+
+// Case, spacing and punctuation don't matter when matching headers
+export const normalizeHeader = (header: string): string =>
+  header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Identifies a file layout regardless of column order or header casing
+ */
+export const getHeaderSignature = (headers: string[]): string =>
+  headers.map(normalizeHeader).filter(Boolean).sort().join('|');
+
+/**
+ * Guess which file column feeds each field.
+ * Exact header matches win, then known synonyms, then partial matches.
+ */
+export const suggestColumnMapping = (kind: CsvImportKind, headers: string[]): CsvColumnMapping => {
+  const fields = CSV_IMPORT_FIELDS[kind];
+  const mapping: CsvColumnMapping = Object.fromEntries(fields.map(field => [field.key, null]));
+  const used = new Set<string>();
+
+  const assign = (matches: (field: CsvImportField, normalized: string) => boolean) => {
+    fields.forEach(field => {
+      if (mapping[field.key]) return;
+      const header = headers.find(h => !used.has(h) && matches(field, normalizeHeader(h)));
+      if (header) {
+        mapping[field.key] = header;
+        used.add(header);
+      }
+    });
+  };
+
+  assign((field, normalized) => normalized === normalizeHeader(field.key));
+  assign((field, normalized) => field.synonyms.some(synonym => normalized === normalizeHeader(synonym)));
+  assign((field, normalized) => normalized.includes(normalizeHeader(field.key)));
+
+  return mapping;
+};
+
+/**
+ * Keep only the parts of a saved mapping that still point at columns in this file
+ */
+export const reconcileColumnMapping = (
+  kind: CsvImportKind,
+  savedMapping: CsvColumnMapping,
+  headers: string[]
+): CsvColumnMapping => {
+  const suggested = suggestColumnMapping(kind, headers);
+
+  return Object.fromEntries(
+    CSV_IMPORT_FIELDS[kind].map(field => {
+      const saved = savedMapping[field.key];
+      return [field.key, saved && headers.includes(saved) ? saved : suggested[field.key]];
+    })
+  );
+};
+
+export const getUnmappedRequiredFields = (kind: CsvImportKind, mapping: CsvColumnMapping): CsvImportField[] =>
+  CSV_IMPORT_FIELDS[kind].filter(field => field.required && !mapping[field.key]);
+
+const splitDateParts = (value: string): string[] | null => {
+  // Drop any time component ("2025-01-31 00:00:00", "1/31/2025 12:00 AM")
+  const datePart = value.trim().split(/[ T]/)[0];
+  const parts = datePart.split(/[/\-.]/);
+  return parts.length === 3 && parts.every(part => /^\d+$/.test(part)) ? parts : null;
+};
+
+/**
+ * Guess the date format from sample values. Defaults to US month-first.
+ */
+export const detectDateFormat = (values: string[]): CsvDateFormat => {
+  const samples = values.map(splitDateParts).filter((parts): parts is string[] => parts !== null);
+
+  if (samples.some(parts => parts[0].length === 4)) return 'YYYY-MM-DD';
+  if (samples.some(parts => Number(parts[0]) > 12 && Number(parts[1]) <= 12)) return 'DD/MM/YYYY';
+  return 'MM/DD/YYYY';
+};
+
+/**
+ * Convert a date in the given format to MM/DD/YYYY, which the rest of the app parses.
+ * Values that can't be read are returned unchanged so validation can flag them.
+ */
+export const formatDateValue = (value: string, format: CsvDateFormat): string => {
+  const parts = splitDateParts(String(value));
+  if (!parts) return String(value).trim();
+
+  let [year, month, day] = format === 'YYYY-MM-DD'
+    ? parts
+    : format === 'DD/MM/YYYY'
+      ? [parts[2], parts[1], parts[0]]
+      : [parts[2], parts[0], parts[1]];
+
+  if (year.length === 2) year = `20${year}`;
+  month = month.padStart(2, '0');
+  day = day.padStart(2, '0');
+
+  return `${month}/${day}/${year}`;
+};
+
+/**
+ * Read "$1,234.50", "12%" or "(250)" as numbers. Unreadable values are returned unchanged.
+ */
+export const parseNumberValue = (value: string | number | undefined): string | number => {
+  if (typeof value === 'number') return value;
+  if (value === undefined) return '';
+
+  const trimmed = value.trim();
+  if (trimmed === '') return '';
+
+  const negative = /^\(.*\)$/.test(trimmed);
+  const cleaned = trimmed.replace(/[$,%\s()]/g, '');
+  const parsed = Number(cleaned);
+
+  if (cleaned === '' || isNaN(parsed)) return trimmed;
+  return negative ? -parsed : parsed;
+};
+
+/**
+ * Rewrite rows to the canonical headers, converting dates and numbers on the way.
+ * Unmapped columns are dropped; rows with no mapped values are skipped.
+ */
+export const applyColumnMapping = (
+  kind: CsvImportKind,
+  rows: GenericCSVRow[],
+  mapping: CsvColumnMapping,
+  dateFormat: CsvDateFormat
+): GenericCSVRow[] => {
+  const fields = CSV_IMPORT_FIELDS[kind].filter(field => mapping[field.key]);
+
+  return rows
+    .map(row => {
+      const mapped: GenericCSVRow = {};
+
+      fields.forEach(field => {
+        const raw = row[mapping[field.key] as string];
+
+        if (field.type === 'date') {
+          mapped[field.key] = raw === undefined || raw === '' ? '' : formatDateValue(String(raw), dateFormat);
+        } else if (field.type === 'number') {
+          mapped[field.key] = parseNumberValue(raw);
+        } else {
+          mapped[field.key] = raw === undefined ? '' : String(raw).trim();
+        }
+      });
+
+      return mapped;
+    })
+    .filter(row => Object.values(row).some(value => value !== ''));
+};
@@ -1,5 +1,16 @@
 import Papa from "papaparse";
+import { format, isValid, parse } from "date-fns";
 import { CampaignDataRow } from "@/types/campaign";
+import type { CampaignData, ContractTermsData } from "@/lib/supabase";
+import { findAgencyByCode } from "@/contexts/agency-mapping";
+import {
+  GenericCSVRow,
+  ImportValidationReport,
+  RowIssue,
+  RowIssueCode,
+  RowValidationResult
+} from "@/types/csv";
+import { applyColumnMapping, detectDateFormat, suggestColumnMapping } from "@/utils/csvColumnMapping";
 
 /**
  * Required columns for campaign data CSV files
@@ -22,16 +33,14 @@ export const OPTIONAL_COLUMNS = [
 
 /**
  * Validate that a CSV file contains all required columns
+ * (under their own name or a known DSP synonym - see csvColumnMapping)
  */
 export const validateCsvColumns = (headers: string[]): {
   isValid: boolean;
   missingColumns: string[]
 } => {
-  const missingColumns = REQUIRED_COLUMNS.filter(
-    requiredCol => !headers.some(header =>
-      header.trim().toLowerCase() === requiredCol.toLowerCase()
-    )
-  );
+  const mapping = suggestColumnMapping('delivery', headers);
+  const missingColumns = REQUIRED_COLUMNS.filter(requiredCol => !mapping[requiredCol]);
 
   return {
     isValid: missingColumns.length === 0,
@@ -93,8 +102,14 @@ export const parseCsvFile = (
             return;
           }
 
+          // Rename columns to the canonical headers and normalize dates before cleaning
+          const rawRows = results.data as GenericCSVRow[];
+          const mapping = suggestColumnMapping('delivery', results.meta.fields || []);
+          const dateFormat = detectDateFormat(rawRows.slice(0, 50).map(row => String(row[mapping.DATE as string] ?? '')));
+          const mappedRows = applyColumnMapping('delivery', rawRows, mapping, dateFormat);
+
           // Clean and process data
-          const cleanedData = cleanCsvData(results.data as Record<string, unknown>[]);
+          const cleanedData = cleanCsvData(mappedRows as Record<string, unknown>[]);
 
           // Add warnings for data quality issues
           if (cleanedData.length === 0) {
@@ -194,6 +209,145 @@ export const validateDataRow = (row: CampaignDataRow): {
   };
 };
 
+export const ROW_ISSUE_LABELS: Record<RowIssueCode, string> = {
+  missing_campaign: 'Missing campaign name',
+  invalid_date: 'Unparseable date',
+  invalid_number: 'Non-numeric value',
+  negative_spend: 'Negative spend',
+  clicks_exceed_impressions: 'Clicks exceed impressions',
+  unknown_agency: 'Unknown agency prefix',
+  duplicate_key: 'Duplicate date + campaign'
+};
+
+const NUMERIC_IMPORT_COLUMNS = ['IMPRESSIONS', 'CLICKS', 'REVENUE', 'SPEND', 'TRANSACTIONS'] as const;
+
+// Totals/summary lines DSP exports append - dropped rather than reported
+const isSummaryRow = (row: GenericCSVRow): boolean =>
+  ['total', 'totals', 'grand total'].includes(String(row.DATE ?? '').trim().toLowerCase());
+
+/**
+ * Check one mapped delivery row (canonical headers, dates already MM/DD/YYYY)
+ */
+export const validateImportRow = (
+  row: GenericCSVRow,
+  getAgencyAbbreviation: (campaignName: string) => string
+): RowIssue[] => {
+  const issues: RowIssue[] = [];
+  const campaignName = String(row['CAMPAIGN ORDER NAME'] ?? '').trim();
+  const date = String(row.DATE ?? '').trim();
+
+  if (!campaignName) {
+    issues.push({ code: 'missing_campaign', message: ROW_ISSUE_LABELS.missing_campaign });
+  } else if (!findAgencyByCode(getAgencyAbbreviation(campaignName))) {
+    issues.push({ code: 'unknown_agency', message: `No known agency prefix in "${campaignName}"` });
+  }
+
+  if (!date || !isValid(parse(date, 'MM/dd/yyyy', new Date()))) {
+    issues.push({ code: 'invalid_date', message: date ? `Can't read date "${date}"` : 'Date is empty' });
+  }
+
+  NUMERIC_IMPORT_COLUMNS.forEach(column => {
+    const value = row[column];
+    if (value !== undefined && value !== '' && typeof value !== 'number') {
+      issues.push({ code: 'invalid_number', message: `${column} is not a number ("${value}")` });
+    }
+  });
+
+  const spend = Number(row.SPEND);
+  const clicks = Number(row.CLICKS);
+  const impressions = Number(row.IMPRESSIONS);
+
+  if (spend < 0) {
+    issues.push({ code: 'negative_spend', message: `Spend is negative (${spend})` });
+  }
+  if (clicks > impressions) {
+    issues.push({ code: 'clicks_exceed_impressions', message: `${clicks} clicks on ${impressions} impressions` });
+  }
+
+  return issues;
+};
+
+/**
+ * Per-row report for a mapped delivery import. Only the first row for a
+ * (date, campaign) key is kept - later ones are flagged as duplicates.
+ */
+export const validateImportRows = (
+  rows: GenericCSVRow[],
+  getAgencyAbbreviation: (campaignName: string) => string
+): ImportValidationReport => {
+  const validRows: GenericCSVRow[] = [];
+  const invalidRows: RowValidationResult[] = [];
+  const issueCounts: Partial<Record<RowIssueCode, number>> = {};
+  const seenKeys = new Set<string>();
+  let skippedRows = 0;
+
+  rows.forEach((row, index) => {
+    if (isSummaryRow(row)) {
+      skippedRows++;
+      return;
+    }
+
+    const issues = validateImportRow(row, getAgencyAbbreviation);
+    const key = `${String(row.DATE ?? '').trim()}|${String(row['CAMPAIGN ORDER NAME'] ?? '').trim()}`;
+
+    if (seenKeys.has(key)) {
+      issues.push({ code: 'duplicate_key', message: 'Same date and campaign as an earlier row' });
+    }
+    seenKeys.add(key);
+
+    if (issues.length === 0) {
+      validRows.push(row);
+      return;
+    }
+
+    issues.forEach(issue => {
+      issueCounts[issue.code] = (issueCounts[issue.code] || 0) + 1;
+    });
+    invalidRows.push({ rowNumber: index + 2, row, issues });
+  });
+
+  return {
+    totalRows: rows.length,
+    validRows,
+    invalidRows,
+    skippedRows,
+    issueCounts
+  };
+};
+
+/**
+ * Mapped delivery row -> campaign_data record for upsertCampaignData
+ */
+export const toCampaignDataRecord = (row: GenericCSVRow): Omit<CampaignData, 'id' | 'created_at' | 'updated_at'> => ({
+  date: String(row.DATE).trim(),
+  campaign_order_name: String(row['CAMPAIGN ORDER NAME']).trim(),
+  impressions: Number(row.IMPRESSIONS) || 0,
+  clicks: Number(row.CLICKS) || 0,
+  revenue: Number(row.REVENUE) || 0,
+  spend: Number(row.SPEND) || 0,
+  transactions: Number(row.TRANSACTIONS) || 0,
+  data_source: 'csv_upload',
+  uploaded_at: new Date().toISOString()
+});
+
+// MM/DD/YYYY, as the mapping step writes dates -> YYYY-MM-DD
+const toISODate = (value: unknown): string => {
+  const date = parse(String(value ?? '').trim(), 'MM/dd/yyyy', new Date());
+  return isValid(date) ? format(date, 'yyyy-MM-dd') : '';
+};
+
+/**
+ * Mapped contract terms row -> contract_terms record for upsertContractTerms
+ */
+export const toContractTermsRecord = (row: GenericCSVRow): Omit<ContractTermsData, 'id' | 'created_at' | 'updated_at'> => ({
+  campaign_name: String(row.Name).trim(),
+  start_date: toISODate(row['Start Date']),
+  end_date: toISODate(row['End Date']),
+  budget: Math.round(Number(row.Budget) || 0),
+  cpm: Number(row.CPM) || 0,
+  impressions_goal: Math.round(Number(row['Impressions Goal']) || 0)
+});
+
 /**
  * Get data quality report for a dataset
  */
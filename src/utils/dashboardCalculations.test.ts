@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { CampaignDataRow } from '@/types/campaign';
+import { SpendNormalizationRule } from '@/types/spend-normalization';
+import { getSpendByPartner } from '@/utils/dashboardCalculations';
+import { applySpendNormalization } from '@/utils/spendNormalization';
+import { parseAgencyInfo } from '@/utils/campaignNameParsing';
+
+const row = (DATE: string, campaignName: string, IMPRESSIONS: number, SPEND: number): CampaignDataRow => ({
+  DATE,
+  'CAMPAIGN ORDER NAME': campaignName,
+  IMPRESSIONS,
+  CLICKS: 0,
+  REVENUE: 0,
+  SPEND
+});
+
+// Seeded by the spend normalization migration
+const ogEffectiveCpm: SpendNormalizationRule = {
+  id: 'og',
+  agency_abbreviation: 'OG',
+  method: 'effective_cpm',
+  value: 7,
+  effective_from: null,
+  effective_to: null,
+  notes: null,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+  updated_by: null
+};
+
+const getAgency = (campaignName: string) => parseAgencyInfo(campaignName).agency;
+const getAbbreviation = (campaignName: string) => parseAgencyInfo(campaignName).abbreviation;
+
+describe('getSpendByPartner', () => {
+  const rows = [
+    row('2026-10-02', '2001235: OG: Acme-DIS-250101', 20000, 300),
+    row('2026-10-01', '2001235: OG: Acme-DIS-250101', 10000, 150),
+    row('2026-10-01', '2001236: MJ: Sunny Farms-DIS-250101', 5000, 40),
+    row('Totals', '', 35000, 490)
+  ];
+
+  it('splits spend by date between MediaJel Direct and channel partners', () => {
+    expect(getSpendByPartner(rows, getAgency)).toEqual([
+      { date: '2026-10-01', MediaJelDirect: 40, ChannelPartners: 150 },
+      { date: '2026-10-02', MediaJelDirect: 0, ChannelPartners: 300 }
+    ]);
+  });
+
+  it('shows OG spend at the $7 effective CPM once the rows are normalized', () => {
+    const normalized = applySpendNormalization(rows, [ogEffectiveCpm], getAbbreviation);
+
+    expect(getSpendByPartner(normalized, getAgency)).toEqual([
+      { date: '2026-10-01', MediaJelDirect: 40, ChannelPartners: 70 },
+      { date: '2026-10-02', MediaJelDirect: 0, ChannelPartners: 140 }
+    ]);
+  });
+
+  it('buckets by weekday in day of week mode', () => {
+    expect(getSpendByPartner(rows, getAgency, true)).toEqual([
+      { date: 'Friday', MediaJelDirect: 0, ChannelPartners: 300 },
+      { date: 'Thursday', MediaJelDirect: 40, ChannelPartners: 150 }
+    ]);
+  });
+});
@@ -1,5 +1,5 @@
 import { CampaignDataRow } from "@/types/campaign";
-import { normalizeDate } from "@/lib/utils";
+import { normalizeDate, parseDateString } from "@/lib/utils";
 
 /**
  * Dashboard-specific calculation utilities
@@ -195,6 +195,61 @@ export const getAggregatedDataByDayOfWeek = (data: CampaignDataRow[]): DayOfWeek
   }
 };
 
+// Spend split between MediaJel Direct and channel partners
+export interface PartnerSpendDataPoint {
+  date: string;
+  MediaJelDirect: number;
+  ChannelPartners: number;
+}
+
+/**
+ * Spend per date - or per weekday when byDayOfWeek is set - split between
+ * MediaJel Direct and every other agency. Spend is summed as it arrives, so
+ * normalize the rows first (see applySpendNormalization).
+ */
+export const getSpendByPartner = (
+  data: CampaignDataRow[],
+  getAgency: (campaignName: string) => string,
+  byDayOfWeek = false
+): PartnerSpendDataPoint[] => {
+  const spendByDate = new Map<string, PartnerSpendDataPoint>();
+  const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+  data.forEach(row => {
+    if (!row.DATE || row.DATE === 'Totals') return;
+
+    let date = row.DATE;
+    if (byDayOfWeek) {
+      const parsedDate = parseDateString(date);
+      if (!parsedDate) return;
+      date = dayNames[parsedDate.getDay()];
+    }
+
+    const campaignName = row["CAMPAIGN ORDER NAME"] || "";
+    const spend = Number(row.SPEND) || 0;
+
+    if (!spendByDate.has(date)) {
+      spendByDate.set(date, { date, MediaJelDirect: 0, ChannelPartners: 0 });
+    }
+
+    const dayData = spendByDate.get(date)!;
+    if (getAgency(campaignName) === 'MediaJel Direct') {
+      dayData.MediaJelDirect += spend;
+    } else {
+      dayData.ChannelPartners += spend;
+    }
+  });
+
+  const result = Array.from(spendByDate.values());
+  if (byDayOfWeek) return result;
+
+  return result.sort((a, b) => {
+    const dateA = parseDateString(a.date);
+    const dateB = parseDateString(b.date);
+    return dateA && dateB ? dateA.getTime() - dateB.getTime() : 0;
+  });
+};
+
 // Weekly data aggregation
 export interface WeeklyDataPoint {
   weekStart: string;
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { HealthScoreSnapshot } from '@/types/health-scoring';
+import { findBiggestDecliners, getScoreChange } from '@/utils/healthScoreHistory';
+
+const snapshot = (campaign_name: string, snapshot_date: string, health_score: number): HealthScoreSnapshot => ({
+  id: `${campaign_name}-${snapshot_date}`,
+  campaign_name,
+  snapshot_date,
+  profile_id: 'performance',
+  health_score,
+  roas_score: 0,
+  delivery_pacing_score: 0,
+  burn_rate_score: 0,
+  ctr_score: 0,
+  overspend_score: 0,
+  roas: 0,
+  ctr: 0,
+  delivery_pacing: 0,
+  burn_rate_percentage: 0,
+  overspend: 0,
+  completion_percentage: 0,
+  created_at: `${snapshot_date}T06:00:00Z`,
+  updated_at: `${snapshot_date}T06:00:00Z`
+});
+
+describe('getScoreChange', () => {
+  it('compares the latest snapshot with the latest one a week or more before it', () => {
+    const history = [
+      snapshot('Acme', '2026-10-18', 70),
+      snapshot('Acme', '2026-10-10', 90),
+      snapshot('Acme', '2026-10-11', 80),
+      snapshot('Acme', '2026-10-15', 60)
+    ];
+
+    expect(getScoreChange('Acme', history)).toEqual({
+      campaignName: 'Acme',
+      currentScore: 70,
+      currentDate: '2026-10-18',
+      previousScore: 80,
+      previousDate: '2026-10-11',
+      change: -10
+    });
+  });
+
+  it('is null without a snapshot a week older than the latest', () => {
+    expect(getScoreChange('Acme', [snapshot('Acme', '2026-10-18', 70), snapshot('Acme', '2026-10-12', 80)])).toBeNull();
+    expect(getScoreChange('Acme', [])).toBeNull();
+  });
+});
+
+describe('findBiggestDecliners', () => {
+  it('lists only the given campaigns that declined, largest drop first', () => {
+    const snapshots = [
+      snapshot('Acme', '2026-10-11', 80),
+      snapshot('Acme', '2026-10-18', 75),
+      snapshot('Sunny Farms', '2026-10-11', 90),
+      snapshot('Sunny Farms', '2026-10-18', 60),
+      snapshot('Filtered Out', '2026-10-11', 90),
+      snapshot('Filtered Out', '2026-10-18', 10),
+      snapshot('Improving', '2026-10-11', 50),
+      snapshot('Improving', '2026-10-18', 70)
+    ];
+
+    expect(findBiggestDecliners(['Acme', 'Sunny Farms', 'Improving'], snapshots).map(change => change.campaignName))
+      .toEqual(['Sunny Farms', 'Acme']);
+  });
+});
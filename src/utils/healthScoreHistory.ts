@@ -0,0 +1,102 @@
+import { format, parseISO, subDays } from 'date-fns';
+import { CampaignHealthData } from '@/utils/campaignHealthScoring';
+import {
+  HealthScoreChange,
+  HealthScoreSnapshot,
+  HealthScoreSnapshotInsert
+} from '@/types/health-scoring';
+
+// "Since last week" compares the latest snapshot against the latest one at least this many days older
+export const WEEK_OVER_WEEK_DAYS = 7;
+
+/**
+ * Maps a computed health result onto a snapshot row for the given day
+ */
+export function toHealthSnapshot(health: CampaignHealthData, snapshotDate: string): HealthScoreSnapshotInsert {
+  return {
+    campaign_name: health.campaignName,
+    snapshot_date: snapshotDate,
+    profile_id: health.profileId,
+    health_score: health.healthScore,
+    roas_score: health.roasScore,
+    delivery_pacing_score: health.deliveryPacingScore,
+    burn_rate_score: health.burnRateScore,
+    ctr_score: health.ctrScore,
+    overspend_score: health.overspendScore,
+    roas: health.roas,
+    ctr: health.ctr,
+    delivery_pacing: health.deliveryPacing,
+    burn_rate_percentage: health.burnRatePercentage,
+    overspend: health.overspend,
+    completion_percentage: health.completionPercentage
+  };
+}
+
+/**
+ * Groups snapshots by campaign, each list sorted oldest first
+ */
+export function groupSnapshotsByCampaign(snapshots: HealthScoreSnapshot[]): Map<string, HealthScoreSnapshot[]> {
+  const grouped = new Map<string, HealthScoreSnapshot[]>();
+
+  snapshots.forEach(snapshot => {
+    const list = grouped.get(snapshot.campaign_name) || [];
+    list.push(snapshot);
+    grouped.set(snapshot.campaign_name, list);
+  });
+
+  grouped.forEach(list => list.sort((a, b) => a.snapshot_date.localeCompare(b.snapshot_date)));
+
+  return grouped;
+}
+
+/**
+ * Score change between a campaign's latest snapshot and the most recent one
+ * taken at least `days` before it. Both sides come from the snapshots, which
+ * the job scores from the full, unfiltered data - comparing a live score
+ * computed under the dashboard filters against them would mix the two.
+ * Null when there's no history that old.
+ * @param history - The campaign's snapshots
+ */
+export function getScoreChange(
+  campaignName: string,
+  history: HealthScoreSnapshot[],
+  days: number = WEEK_OVER_WEEK_DAYS
+): HealthScoreChange | null {
+  const newestFirst = [...history].sort((a, b) => b.snapshot_date.localeCompare(a.snapshot_date));
+  const latest = newestFirst[0];
+  if (!latest) return null;
+
+  const cutoff = format(subDays(parseISO(latest.snapshot_date), days), 'yyyy-MM-dd');
+  const previous = newestFirst.find(s => s.snapshot_date <= cutoff);
+  if (!previous) return null;
+
+  const currentScore = Number(latest.health_score);
+  const previousScore = Number(previous.health_score);
+
+  return {
+    campaignName,
+    currentScore,
+    currentDate: latest.snapshot_date,
+    previousScore,
+    previousDate: previous.snapshot_date,
+    change: Math.round((currentScore - previousScore) * 10) / 10
+  };
+}
+
+/**
+ * Campaigns whose score fell the most since last week, largest drop first
+ * @param campaignNames - The campaigns to consider, e.g. the ones passing the filters
+ */
+export function findBiggestDecliners(
+  campaignNames: string[],
+  snapshots: HealthScoreSnapshot[],
+  limit: number = 10
+): HealthScoreChange[] {
+  const history = groupSnapshotsByCampaign(snapshots);
+
+  return campaignNames
+    .map(campaignName => getScoreChange(campaignName, history.get(campaignName) || []))
+    .filter((change): change is HealthScoreChange => change !== null && change.change < 0)
+    .sort((a, b) => a.change - b.change)
+    .slice(0, limit);
+}
@@ -0,0 +1,93 @@
+import {
+  HealthComponent,
+  HealthProfileAssignment,
+  HealthProfileResolver,
+  HealthScoringProfile
+} from '@/types/health-scoring';
+
+export const HEALTH_COMPONENT_LABELS: Record<HealthComponent, string> = {
+  roas: 'ROAS',
+  deliveryPacing: 'Delivery Pacing',
+  burnRate: 'Burn Rate',
+  ctr: 'CTR',
+  overspend: 'Overspend Risk'
+};
+
+/**
+ * Performance - the original scoring (ROAS 40%, pacing 30%, burn rate 15%, overspend 15%)
+ */
+export const PERFORMANCE_PROFILE: HealthScoringProfile = {
+  id: 'performance',
+  name: 'Performance',
+  description: 'Direct-response campaigns judged on return as well as delivery',
+  components: ['roas', 'deliveryPacing', 'burnRate', 'overspend'],
+  weights: { roas: 0.40, deliveryPacing: 0.30, burnRate: 0.15, ctr: 0, overspend: 0.15 },
+  benchmarks: { roasTarget: 4.0, ctr: 0.5 }
+};
+
+/**
+ * Awareness - reach campaigns aren't expected to drive attributed sales, so ROAS is dropped
+ */
+export const AWARENESS_PROFILE: HealthScoringProfile = {
+  id: 'awareness',
+  name: 'Awareness',
+  description: 'Reach campaigns scored on delivery and engagement, not ROAS',
+  components: ['deliveryPacing', 'burnRate', 'ctr', 'overspend'],
+  weights: { roas: 0, deliveryPacing: 0.45, burnRate: 0.20, ctr: 0.20, overspend: 0.15 },
+  benchmarks: { roasTarget: 4.0, ctr: 0.1 }
+};
+
+/**
+ * DOOH - screens don't produce clicks or attributed sales, so only delivery and budget count
+ */
+export const DOOH_PROFILE: HealthScoringProfile = {
+  id: 'dooh',
+  name: 'DOOH',
+  description: 'Digital out-of-home scored purely on delivery and budget',
+  components: ['deliveryPacing', 'burnRate', 'overspend'],
+  weights: { roas: 0, deliveryPacing: 0.50, burnRate: 0.25, ctr: 0, overspend: 0.25 },
+  benchmarks: { roasTarget: 4.0, ctr: 0.5 }
+};
+
+export const HEALTH_SCORING_PROFILES: HealthScoringProfile[] = [
+  PERFORMANCE_PROFILE,
+  AWARENESS_PROFILE,
+  DOOH_PROFILE
+];
+
+export const DEFAULT_HEALTH_PROFILE = PERFORMANCE_PROFILE;
+
+export function getHealthProfile(id: string | null | undefined): HealthScoringProfile {
+  return HEALTH_SCORING_PROFILES.find(p => p.id === id) || DEFAULT_HEALTH_PROFILE;
+}
+
+/**
+ * Weight of a component as a share of the profile's applicable weights (0 if it doesn't apply)
+ */
+export function getNormalizedWeight(profile: HealthScoringProfile, component: HealthComponent): number {
+  if (!profile.components.includes(component)) return 0;
+
+  const total = profile.components.reduce((sum, c) => sum + profile.weights[c], 0);
+  return total > 0 ? profile.weights[component] / total : 0;
+}
+
+/**
+ * Builds a per-campaign profile resolver from stored assignments.
+ * Precedence: campaign > agency > DEFAULT_HEALTH_PROFILE.
+ *
+ * @param assignments - Rows from health_profile_assignments
+ * @param getAgencyAbbreviation - Resolves a campaign name to its agency abbreviation (agency registry code)
+ */
+export function createHealthProfileResolver(
+  assignments: HealthProfileAssignment[],
+  getAgencyAbbreviation: (campaignName: string) => string
+): HealthProfileResolver {
+  const agencyAssignments = new Map(assignments.filter(a => a.scope === 'agency').map(a => [a.scope_value, a.profile_id]));
+  const campaignAssignments = new Map(assignments.filter(a => a.scope === 'campaign').map(a => [a.scope_value, a.profile_id]));
+
+  return (campaignName: string) => {
+    const profileId = campaignAssignments.get(campaignName)
+      ?? agencyAssignments.get(getAgencyAbbreviation(campaignName));
+    return getHealthProfile(profileId);
+  };
+}
@@ -0,0 +1,57 @@
+import { User } from '@/config/users';
+
+// @username - usernames are matched case-insensitively against the user directory
+const MENTION_PATTERN = /@([\w.-]+)/g;
+
+export interface MentionPart {
+  text: string;
+  userId: string | null; // Set when the part is a mention of a known user
+}
+
+const findUser = (username: string, users: User[]) =>
+  users.find(u => u.username.toLowerCase() === username.toLowerCase());
+
+/**
+ * Ids of the known users mentioned in a comment, without duplicates
+ */
+export function extractMentions(text: string, users: User[]): string[] {
+  const ids = new Set<string>();
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const user = findUser(match[1], users);
+    if (user) ids.add(user.id);
+  }
+  return Array.from(ids);
+}
+
+/**
+ * Splits a comment into plain text and mention parts for highlighting.
+ * @words that don't match a known user stay plain text.
+ */
+export function splitMentions(text: string, users: User[]): MentionPart[] {
+  const parts: MentionPart[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const user = findUser(match[1], users);
+    if (!user) continue;
+
+    if (match.index! > lastIndex) {
+      parts.push({ text: text.slice(lastIndex, match.index), userId: null });
+    }
+    parts.push({ text: match[0], userId: user.id });
+    lastIndex = match.index! + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    parts.push({ text: text.slice(lastIndex), userId: null });
+  }
+  return parts;
+}
+
+/**
+ * The partial @mention being typed just before the cursor, if any
+ */
+export function getMentionQuery(text: string, cursor: number): string | null {
+  const match = text.slice(0, cursor).match(/(?:^|\s)@([\w.-]*)$/);
+  return match ? match[1] : null;
+}
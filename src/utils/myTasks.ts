@@ -0,0 +1,54 @@
+import { differenceInCalendarDays, startOfDay } from 'date-fns';
+import { User } from '@/config/users';
+import { DailyPriority } from '@/types/daily-priorities';
+
+// Open this many days since creation and a task counts as overdue
+export const MY_TASKS_OVERDUE_DAYS = 7;
+
+export interface MyTaskGroups {
+  open: DailyPriority[];
+  overdue: DailyPriority[];
+  blocked: DailyPriority[];
+}
+
+/**
+ * Assignees are free text, so match the user's display name, first name or username
+ * (case-insensitive)
+ */
+export function isAssignedTo(assignees: string[] | null | undefined, user: User | null): boolean {
+  if (!user || !assignees || assignees.length === 0) return false;
+
+  const names = new Set(
+    [user.displayName, user.displayName.split(' ')[0], user.username]
+      .filter(Boolean)
+      .map(name => name.trim().toLowerCase())
+  );
+  return assignees.some(assignee => names.has(assignee.trim().toLowerCase()));
+}
+
+export function getTaskAgeDays(task: DailyPriority, today: Date = new Date()): number {
+  return differenceInCalendarDays(startOfDay(today), new Date(task.created_at));
+}
+
+/**
+ * Splits open tasks into blocked, overdue (open MY_TASKS_OVERDUE_DAYS or longer)
+ * and the rest. Each group is oldest first.
+ */
+export function groupMyTasks(tasks: DailyPriority[], today: Date = new Date()): MyTaskGroups {
+  const groups: MyTaskGroups = { open: [], overdue: [], blocked: [] };
+
+  [...tasks]
+    .filter(task => !task.completed)
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+    .forEach(task => {
+      if (task.section === 'blocked') {
+        groups.blocked.push(task);
+      } else if (getTaskAgeDays(task, today) >= MY_TASKS_OVERDUE_DAYS) {
+        groups.overdue.push(task);
+      } else {
+        groups.open.push(task);
+      }
+    });
+
+  return groups;
+}
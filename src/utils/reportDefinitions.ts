@@ -0,0 +1,132 @@
+import {
+  endOfMonth,
+  format,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+  subDays,
+  subMonths
+} from 'date-fns';
+import type { CampaignDataRow } from '@/types/campaign';
+import {
+  RelativeDateRange,
+  ReportDefinition,
+  ReportFrequency,
+  ReportSchedule
+} from '@/types/report-definitions';
+import { isTestCampaignName, parseAdvertiserName, parseAgencyInfo } from '@/utils/campaignNameParsing';
+
+export const RELATIVE_DATE_RANGE_OPTIONS: { value: RelativeDateRange; label: string }[] = [
+  { value: 'last-7-days', label: 'Last 7 days' },
+  { value: 'last-14-days', label: 'Last 14 days' },
+  { value: 'last-30-days', label: 'Last 30 days' },
+  { value: 'week-to-date', label: 'Week to date' },
+  { value: 'month-to-date', label: 'Month to date' },
+  { value: 'last-month', label: 'Last month' }
+];
+
+export const REPORT_FREQUENCY_LABELS: Record<ReportFrequency, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly'
+};
+
+export const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Concrete dates for a relative range as of `now`.
+ * Ranges end yesterday since today's delivery data is never complete;
+ * on the 1st, "month to date" therefore covers the whole previous month.
+ */
+export function resolveRelativeDateRange(range: RelativeDateRange, now: Date = new Date()): { from: Date; to: Date } {
+  const today = startOfDay(now);
+  const yesterday = subDays(today, 1);
+
+  switch (range) {
+    case 'last-7-days':
+      return { from: subDays(yesterday, 6), to: yesterday };
+    case 'last-14-days':
+      return { from: subDays(yesterday, 13), to: yesterday };
+    case 'last-30-days':
+      return { from: subDays(yesterday, 29), to: yesterday };
+    case 'week-to-date':
+      return { from: startOfWeek(yesterday, { weekStartsOn: 1 }), to: yesterday };
+    case 'month-to-date':
+      return { from: startOfMonth(yesterday), to: yesterday };
+    case 'last-month': {
+      const lastMonth = subMonths(today, 1);
+      return { from: startOfMonth(lastMonth), to: startOfDay(endOfMonth(lastMonth)) };
+    }
+  }
+}
+
+export const getRelativeDateRangeLabel = (range: RelativeDateRange) =>
+  RELATIVE_DATE_RANGE_OPTIONS.find(option => option.value === range)?.label || range;
+
+export function getReportSchedule(definition: Pick<ReportDefinition, 'schedule_frequency' | 'schedule_day_of_week' | 'schedule_day_of_month' | 'schedule_hour_utc'>): ReportSchedule | null {
+  if (!definition.schedule_frequency) return null;
+  return {
+    frequency: definition.schedule_frequency,
+    day_of_week: definition.schedule_day_of_week,
+    day_of_month: definition.schedule_day_of_month,
+    hour_utc: definition.schedule_hour_utc
+  };
+}
+
+/**
+ * First run strictly after `after`. Schedules are in UTC so the result
+ * doesn't depend on where the generator runs.
+ */
+export function getNextRunAt(schedule: ReportSchedule, after: Date): Date {
+  const hour = Math.min(Math.max(schedule.hour_utc, 0), 23);
+  const dayOfWeek = schedule.day_of_week ?? 1;
+  const dayOfMonth = Math.min(Math.max(schedule.day_of_month ?? 1, 1), 28);
+
+  // Monthly is the longest cycle - two months of candidates always contain a match
+  for (let offset = 0; offset <= 62; offset++) {
+    const candidate = new Date(Date.UTC(after.getUTCFullYear(), after.getUTCMonth(), after.getUTCDate() + offset, hour));
+    if (candidate <= after) continue;
+
+    if (schedule.frequency === 'daily') return candidate;
+    if (schedule.frequency === 'weekly' && candidate.getUTCDay() === dayOfWeek) return candidate;
+    if (schedule.frequency === 'monthly' && candidate.getUTCDate() === dayOfMonth) return candidate;
+  }
+
+  throw new Error(`No run time found for ${schedule.frequency} schedule`);
+}
+
+export function describeReportSchedule(schedule: ReportSchedule | null): string {
+  if (!schedule) return 'Not scheduled';
+
+  const time = `${String(schedule.hour_utc).padStart(2, '0')}:00 UTC`;
+  switch (schedule.frequency) {
+    case 'daily':
+      return `Daily at ${time}`;
+    case 'weekly':
+      return `Weekly on ${WEEKDAY_LABELS[schedule.day_of_week ?? 1]} at ${time}`;
+    case 'monthly':
+      return `Monthly on day ${schedule.day_of_month ?? 1} at ${time}`;
+  }
+}
+
+export const toDateKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+/**
+ * Applies a definition's agency/advertiser filters. Test campaigns are always
+ * left out, matching the dashboard.
+ */
+export function filterReportRows(
+  rows: CampaignDataRow[],
+  filters: Pick<ReportDefinition, 'agencies' | 'advertisers'>
+): CampaignDataRow[] {
+  const agencies = new Set(filters.agencies);
+  const advertisers = new Set(filters.advertisers);
+
+  return rows.filter(row => {
+    const campaignName = row['CAMPAIGN ORDER NAME'];
+    if (!campaignName || isTestCampaignName(campaignName)) return false;
+    if (agencies.size > 0 && !agencies.has(parseAgencyInfo(campaignName).agency)) return false;
+    if (advertisers.size > 0 && !advertisers.has(parseAdvertiserName(campaignName))) return false;
+    return true;
+  });
+}
@@ -0,0 +1,162 @@
+/**
+ * Saved view state and its URL query string form
+ *
+ * A shared link carries the whole state (?agencies=...&from=...&by=dayOfWeek),
+ * or a saved view's ID (?view=<id>) to open that view as it is currently saved.
+ */
+
+import type { DashboardChartSettings, SavedViewState } from '@/types/saved-views';
+
+export const DEFAULT_VIEW_STATE: SavedViewState = {
+  agencies: [],
+  advertisers: [],
+  campaigns: [],
+  dateFrom: null,
+  dateTo: null,
+  activeTab: null,
+  showLiveOnly: true,
+  showAggregatedSparkCharts: true,
+  spendMode: 'normalized',
+  charts: {}
+};
+
+export const VIEW_ID_PARAM = 'view';
+
+// Query parameter for each state field. 'tab' is the one the sidebar already links with.
+const PARAMS = {
+  agencies: 'agencies',
+  advertisers: 'advertisers',
+  campaigns: 'campaigns',
+  dateFrom: 'from',
+  dateTo: 'to',
+  activeTab: 'tab',
+  showLiveOnly: 'live',
+  showAggregatedSparkCharts: 'aggregate',
+  spendMode: 'spend'
+} as const;
+
+const CHART_PARAMS: Record<keyof DashboardChartSettings, string> = {
+  chartMode: 'chart',
+  viewMode: 'by',
+  anomalyPeriod: 'anomalies',
+  comparisonPeriod: 'compare'
+};
+
+const CHART_VALUES: Record<keyof DashboardChartSettings, readonly string[]> = {
+  chartMode: ['display', 'attribution', 'custom', 'spend'],
+  viewMode: ['date', 'dayOfWeek'],
+  anomalyPeriod: ['daily', 'weekly'],
+  comparisonPeriod: ['7', '14', '30']
+};
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item !== '') : [];
+
+const toDateKey = (value: unknown): string | null =>
+  typeof value === 'string' && DATE_KEY.test(value) ? value : null;
+
+const toChartSettings = (value: unknown): DashboardChartSettings => {
+  const settings: DashboardChartSettings = {};
+  if (!value || typeof value !== 'object') return settings;
+
+  (Object.keys(CHART_VALUES) as (keyof DashboardChartSettings)[]).forEach(key => {
+    const setting = (value as Record<string, unknown>)[key];
+    if (CHART_VALUES[key].includes(setting as string)) {
+      (settings as Record<string, unknown>)[key] = setting;
+    }
+  });
+  return settings;
+};
+
+/**
+ * A complete, valid state from stored JSON - fields that are missing or
+ * malformed (e.g. saved before the field existed) take their defaults
+ */
+export function normalizeViewState(value: unknown): SavedViewState {
+  const state = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  return {
+    agencies: toStringList(state.agencies),
+    advertisers: toStringList(state.advertisers),
+    campaigns: toStringList(state.campaigns),
+    dateFrom: toDateKey(state.dateFrom),
+    dateTo: toDateKey(state.dateTo),
+    activeTab: typeof state.activeTab === 'string' && state.activeTab ? state.activeTab : null,
+    showLiveOnly: typeof state.showLiveOnly === 'boolean' ? state.showLiveOnly : DEFAULT_VIEW_STATE.showLiveOnly,
+    showAggregatedSparkCharts: typeof state.showAggregatedSparkCharts === 'boolean'
+      ? state.showAggregatedSparkCharts
+      : DEFAULT_VIEW_STATE.showAggregatedSparkCharts,
+    spendMode: state.spendMode === 'raw' ? 'raw' : 'normalized',
+    charts: toChartSettings(state.charts)
+  };
+}
+
+/**
+ * Query parameters for a state. Only fields that differ from the defaults are
+ * written, so parsing them back gives the same state.
+ */
+export function serializeViewState(state: SavedViewState): URLSearchParams {
+  const params = new URLSearchParams();
+
+  state.agencies.forEach(agency => params.append(PARAMS.agencies, agency));
+  state.advertisers.forEach(advertiser => params.append(PARAMS.advertisers, advertiser));
+  state.campaigns.forEach(campaign => params.append(PARAMS.campaigns, campaign));
+  if (state.dateFrom) params.set(PARAMS.dateFrom, state.dateFrom);
+  if (state.dateTo) params.set(PARAMS.dateTo, state.dateTo);
+  if (state.activeTab) params.set(PARAMS.activeTab, state.activeTab);
+  if (state.showLiveOnly !== DEFAULT_VIEW_STATE.showLiveOnly) params.set(PARAMS.showLiveOnly, state.showLiveOnly ? '1' : '0');
+  if (state.showAggregatedSparkCharts !== DEFAULT_VIEW_STATE.showAggregatedSparkCharts) {
+    params.set(PARAMS.showAggregatedSparkCharts, state.showAggregatedSparkCharts ? '1' : '0');
+  }
+  if (state.spendMode !== DEFAULT_VIEW_STATE.spendMode) params.set(PARAMS.spendMode, state.spendMode);
+
+  (Object.keys(CHART_PARAMS) as (keyof DashboardChartSettings)[]).forEach(key => {
+    const setting = state.charts[key];
+    if (setting) params.set(CHART_PARAMS[key], setting);
+  });
+
+  return params;
+}
+
+/**
+ * Whether the query string carries view state (as opposed to only unrelated parameters)
+ */
+export function hasViewStateParams(params: URLSearchParams): boolean {
+  return [...Object.values(PARAMS), ...Object.values(CHART_PARAMS)].some(param => params.has(param));
+}
+
+/**
+ * The state a query string describes
+ */
+export function parseViewState(params: URLSearchParams): SavedViewState {
+  const flag = (param: string) => (params.has(param) ? params.get(param) === '1' : undefined);
+
+  const charts: Record<string, unknown> = {};
+  (Object.keys(CHART_PARAMS) as (keyof DashboardChartSettings)[]).forEach(key => {
+    charts[key] = params.get(CHART_PARAMS[key]);
+  });
+
+  return normalizeViewState({
+    agencies: params.getAll(PARAMS.agencies),
+    advertisers: params.getAll(PARAMS.advertisers),
+    campaigns: params.getAll(PARAMS.campaigns),
+    dateFrom: params.get(PARAMS.dateFrom),
+    dateTo: params.get(PARAMS.dateTo),
+    activeTab: params.get(PARAMS.activeTab),
+    showLiveOnly: flag(PARAMS.showLiveOnly),
+    showAggregatedSparkCharts: flag(PARAMS.showAggregatedSparkCharts),
+    spendMode: params.get(PARAMS.spendMode),
+    charts
+  });
+}
+
+/**
+ * Query parameters with the view state replaced - unrelated parameters are kept
+ */
+export function withViewState(params: URLSearchParams, state: SavedViewState): URLSearchParams {
+  const next = new URLSearchParams(params);
+  [VIEW_ID_PARAM, ...Object.values(PARAMS), ...Object.values(CHART_PARAMS)].forEach(param => next.delete(param));
+  serializeViewState(state).forEach((value, key) => next.append(key, value));
+  return next;
+}
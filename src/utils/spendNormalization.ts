@@ -0,0 +1,92 @@
+/**
+ * Agency spend normalization
+ *
+ * Applies the per-agency rules (effective CPM, markup or pass-through) to
+ * delivery rows. Pure so the scheduled report generator can share it.
+ */
+
+import { CampaignDataRow } from '@/types/campaign';
+import { SpendNormalizationRule } from '@/types/spend-normalization';
+
+// YYYY-MM-DD from either YYYY-MM-DD or M/D/YYYY (2-digit years are 20xx)
+const toDateKey = (date: string): string | null => {
+  const trimmed = String(date ?? '').trim();
+  if (/^\d{4}-\d{2}-\d{2}/.test(trimmed)) return trimmed.slice(0, 10);
+
+  const parts = trimmed.split('/');
+  if (parts.length !== 3) return null;
+  const [month, day, year] = parts;
+  return `${year.length === 2 ? `20${year}` : year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+};
+
+const isInEffect = (rule: SpendNormalizationRule, dateKey: string) =>
+  (!rule.effective_from || rule.effective_from <= dateKey) &&
+  (!rule.effective_to || dateKey <= rule.effective_to);
+
+/**
+ * The rule in effect for an agency on a day - the latest-starting one when several overlap
+ * @param rules - Rules for this agency only
+ */
+export function findSpendRule(rules: SpendNormalizationRule[], date: string): SpendNormalizationRule | null {
+  const dateKey = toDateKey(date);
+  if (!dateKey) return null;
+
+  let match: SpendNormalizationRule | null = null;
+  for (const rule of rules) {
+    if (isInEffect(rule, dateKey) && (!match || (rule.effective_from || '') > (match.effective_from || ''))) {
+      match = rule;
+    }
+  }
+  return match;
+}
+
+/**
+ * Spend after applying a rule
+ */
+export function normalizeSpend(rawSpend: number, impressions: number, rule: SpendNormalizationRule | null): number {
+  if (!rule || rule.value === null) return rawSpend;
+
+  switch (rule.method) {
+    case 'effective_cpm':
+      // Nothing delivered means nothing to recompute from - keep what was reported
+      return impressions > 0 ? (impressions / 1000) * rule.value : rawSpend;
+    case 'markup':
+      return rawSpend * (1 + rule.value / 100);
+    default:
+      return rawSpend;
+  }
+}
+
+/**
+ * Rows with SPEND normalized by the agency rules. Rows a rule changed keep
+ * the reported spend in RAW_SPEND; rows without a rule are returned as-is.
+ * @param getAgencyAbbreviation - Resolves a campaign name to its agency abbreviation
+ */
+export function applySpendNormalization<T extends CampaignDataRow>(
+  rows: T[],
+  rules: SpendNormalizationRule[],
+  getAgencyAbbreviation: (campaignName: string) => string
+): T[] {
+  if (rules.length === 0) return rows;
+
+  const rulesByAgency = new Map<string, SpendNormalizationRule[]>();
+  rules.forEach(rule => {
+    rulesByAgency.set(rule.agency_abbreviation, [...(rulesByAgency.get(rule.agency_abbreviation) || []), rule]);
+  });
+
+  // Many rows share a campaign - resolve each name once
+  const abbreviations = new Map<string, string>();
+  const getAbbreviation = (campaignName: string) => {
+    if (!abbreviations.has(campaignName)) abbreviations.set(campaignName, getAgencyAbbreviation(campaignName));
+    return abbreviations.get(campaignName)!;
+  };
+
+  return rows.map(row => {
+    const agencyRules = rulesByAgency.get(getAbbreviation(row['CAMPAIGN ORDER NAME'] || ''));
+    if (!agencyRules) return row;
+
+    const rawSpend = Number(row.SPEND) || 0;
+    const spend = normalizeSpend(rawSpend, Number(row.IMPRESSIONS) || 0, findSpendRule(agencyRules, row.DATE));
+    return spend === rawSpend ? row : { ...row, SPEND: spend, RAW_SPEND: rawSpend };
+  });
+}
@@ -0,0 +1,49 @@
+export interface TextDiffPart {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Word-level diff of two strings (longest common subsequence over words and
+ * whitespace), for showing description edits inline
+ */
+export function diffWords(before: string | null | undefined, after: string | null | undefined): TextDiffPart[] {
+  const a = (before || '').split(/(\s+)/).filter(Boolean);
+  const b = (after || '').split(/(\s+)/).filter(Boolean);
+
+  // lcs[i][j] = length of the common subsequence of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: TextDiffPart[] = [];
+  const push = (type: TextDiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      parts.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+
+  return parts;
+}
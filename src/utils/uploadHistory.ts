@@ -0,0 +1,82 @@
+import type { CampaignData } from '@/lib/supabase';
+import {
+  UploadBatchDiff,
+  UploadBatchPreviousRow,
+  UploadDiffMetric,
+  UploadRowDiff
+} from '@/types/upload-history';
+
+export const UPLOAD_DIFF_METRICS: UploadDiffMetric[] = ['impressions', 'clicks', 'revenue', 'spend', 'transactions'];
+
+type CampaignDataKeyFields = Pick<CampaignData, 'date' | 'campaign_order_name'>;
+
+/**
+ * campaign_data is unique on (date, campaign_order_name)
+ */
+export function getCampaignDataKey(row: CampaignDataKeyFields): string {
+  return `${row.date}|${row.campaign_order_name}`;
+}
+
+/**
+ * Date range and campaigns covered by a batch of (sanitized) rows
+ */
+export function summarizeUploadRows(rows: CampaignDataKeyFields[]): { dateStart: string; dateEnd: string; campaigns: string[] } {
+  const dates = rows.map(row => row.date).sort();
+  const campaigns = Array.from(new Set(rows.map(row => row.campaign_order_name))).sort();
+
+  return {
+    dateStart: dates[0],
+    dateEnd: dates[dates.length - 1],
+    campaigns
+  };
+}
+
+const pickMetrics = (row: CampaignData): Partial<Record<UploadDiffMetric, number>> => {
+  const metrics: Partial<Record<UploadDiffMetric, number>> = {};
+  UPLOAD_DIFF_METRICS.forEach(metric => {
+    metrics[metric] = Number(row[metric]) || 0;
+  });
+  return metrics;
+};
+
+/**
+ * Compares the rows a batch still owns against the rows it overwrote.
+ * Rows without a previous version were added by the batch.
+ */
+export function diffUploadBatch(
+  currentRows: CampaignData[],
+  previousRows: UploadBatchPreviousRow[],
+  batchRowCount: number
+): UploadBatchDiff {
+  const previousByKey = new Map(previousRows.map(row => [getCampaignDataKey(row), row.previous]));
+
+  const rows: UploadRowDiff[] = currentRows.map(current => {
+    const after = pickMetrics(current);
+    const previous = previousByKey.get(getCampaignDataKey(current));
+
+    if (!previous) {
+      return { date: current.date, campaign_order_name: current.campaign_order_name, change: 'added', before: null, after };
+    }
+
+    const before = pickMetrics(previous);
+    const changed = UPLOAD_DIFF_METRICS.some(metric => before[metric] !== after[metric]);
+
+    return {
+      date: current.date,
+      campaign_order_name: current.campaign_order_name,
+      change: changed ? 'changed' : 'unchanged',
+      before,
+      after
+    };
+  });
+
+  rows.sort((a, b) => a.campaign_order_name.localeCompare(b.campaign_order_name) || a.date.localeCompare(b.date));
+
+  return {
+    rows,
+    added: rows.filter(row => row.change === 'added').length,
+    changed: rows.filter(row => row.change === 'changed').length,
+    unchanged: rows.filter(row => row.change === 'unchanged').length,
+    superseded: Math.max(0, batchRowCount - currentRows.length)
+  };
+}
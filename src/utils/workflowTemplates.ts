@@ -0,0 +1,138 @@
+import { addDays, differenceInCalendarDays, format, isValid, parseISO, startOfDay } from 'date-fns';
+import {
+  AutoGeneratedPriority,
+  RenewalStatusTracking,
+  WORKFLOW_KIND_LABELS,
+  WorkflowKind,
+  WorkflowStep,
+  WorkflowTemplate
+} from '@/types/daily-priorities';
+
+/**
+ * Generates a stable id for a new workflow step. Ids never change once created,
+ * so renaming or reordering a step keeps its completion on existing records.
+ */
+export function createStepId(): string {
+  return `step_${Date.now()}_${Math.random().toString(36).substring(2, 7)}`;
+}
+
+/**
+ * Due date of a step, counted from the renewal/launch date.
+ * Negative offsets fall before that date (e.g. -14 = two weeks ahead).
+ * Returns null when the step has no offset or the record has no date.
+ */
+export function getStepDueDate(step: WorkflowStep, anchorDate: string | null | undefined): Date | null {
+  if (step.due_offset_days === null || step.due_offset_days === undefined || !anchorDate) return null;
+
+  const anchor = parseISO(anchorDate);
+  if (!isValid(anchor)) return null;
+
+  return addDays(anchor, step.due_offset_days);
+}
+
+export function isStepCompleted(record: RenewalStatusTracking, stepId: string): boolean {
+  return !!record.step_completion?.[stepId];
+}
+
+/**
+ * A step is overdue once its due date has passed without it being completed
+ */
+export function isStepOverdue(
+  record: RenewalStatusTracking,
+  step: WorkflowStep,
+  today: Date = new Date()
+): boolean {
+  if (isStepCompleted(record, step.id)) return false;
+  const dueDate = getStepDueDate(step, record.renewal_date);
+  return !!dueDate && dueDate < startOfDay(today);
+}
+
+/**
+ * Steps past their due date, most overdue first
+ */
+export function getOverdueSteps(
+  record: RenewalStatusTracking,
+  steps: WorkflowStep[],
+  today: Date = new Date()
+): WorkflowStep[] {
+  return steps
+    .filter(step => isStepOverdue(record, step, today))
+    .sort((a, b) => getStepDueDate(a, record.renewal_date)!.getTime() - getStepDueDate(b, record.renewal_date)!.getTime());
+}
+
+/**
+ * Whether a record is keeping to its step due dates.
+ * 'unscheduled' = no step has a due date yet (no offsets or no renewal/launch date).
+ */
+export function getScheduleStatus(
+  record: RenewalStatusTracking,
+  steps: WorkflowStep[],
+  today: Date = new Date()
+): 'breached' | 'on_schedule' | 'unscheduled' {
+  if (getOverdueSteps(record, steps, today).length > 0) return 'breached';
+  return steps.some(step => getStepDueDate(step, record.renewal_date)) ? 'on_schedule' : 'unscheduled';
+}
+
+/**
+ * SLA severity by how far the oldest overdue step has slipped:
+ * high a week or more, medium three days or more
+ */
+export function getSlaSeverity(daysOverdue: number): 'high' | 'medium' | 'low' {
+  if (daysOverdue >= 7) return 'high';
+  if (daysOverdue >= 3) return 'medium';
+  return 'low';
+}
+
+/**
+ * Open tracking records with overdue steps, shaped for the Daily Priorities
+ * auto sections. Completed records never breach.
+ */
+export function getAtRiskWorkflowAlerts(
+  kind: WorkflowKind,
+  records: RenewalStatusTracking[],
+  getTemplate: (templateId: string | null | undefined) => WorkflowTemplate | undefined,
+  today: Date = new Date()
+): AutoGeneratedPriority[] {
+  const alerts: AutoGeneratedPriority[] = [];
+
+  records.forEach(record => {
+    if (record.completed) return;
+
+    const overdueSteps = getOverdueSteps(record, getTemplate(record.workflow_template_id)?.steps || [], today);
+    if (overdueSteps.length === 0) return;
+
+    const oldestDueDate = getStepDueDate(overdueSteps[0], record.renewal_date)!;
+    const daysOverdue = differenceInCalendarDays(startOfDay(today), oldestDueDate);
+
+    alerts.push({
+      client_name: record.campaign_name,
+      description: `${WORKFLOW_KIND_LABELS[kind]}: ${overdueSteps[0].label} due ${format(oldestDueDate, 'MMM d')}` +
+        (overdueSteps.length > 1 ? ` (+${overdueSteps.length - 1} more)` : ''),
+      metric: `${daysOverdue} days`,
+      severity: getSlaSeverity(daysOverdue),
+      endDate: record.renewal_date || undefined
+    });
+  });
+
+  return alerts;
+}
+
+/**
+ * Percentage of the template's steps completed on a record.
+ * Completion stored for steps no longer in the template is ignored.
+ */
+export function getWorkflowCompletion(record: RenewalStatusTracking, steps: WorkflowStep[]): number {
+  if (steps.length === 0) return 0;
+  const completed = steps.filter(step => isStepCompleted(record, step.id)).length;
+  return Math.round((completed / steps.length) * 100);
+}
+
+/**
+ * Template a record follows: its own template, else the default for the kind
+ */
+export function resolveWorkflowTemplate(
+  templates: WorkflowTemplate[],
+  templateId: string | null | undefined
+): WorkflowTemplate | undefined {
+  return templates.find(t => t.id === templateId) || templates.find(t => t.is_default);
+}
@@ -0,0 +1,31 @@
+/**
+ * Scores every campaign and stores today's campaign_health_snapshots rows.
+ *
+ * Shares its code with the app through the "@/" import map entry in deno.json
+ * (sloppy imports let Deno resolve the extensionless paths). Triggered hourly
+ * by pg_cron - see the schedule_health_snapshots migration.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { recordHealthSnapshots } from '@/lib/healthSnapshots';
+
+Deno.serve(async (req) => {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+  // Only the cron job (which holds the service role key) may trigger runs
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey, {
+    auth: { persistSession: false }
+  });
+
+  try {
+    const recorded = await recordHealthSnapshots(supabase);
+    return Response.json({ recorded });
+  } catch (error) {
+    console.error('Error recording health snapshots:', error);
+    return Response.json({ error: error instanceof Error ? error.message : String(error) }, { status: 500 });
+  }
+});
@@ -0,0 +1,35 @@
+/**
+ * Generates every saved report whose schedule is due and drops the PDFs in
+ * the report-outbox bucket / report_outbox table.
+ *
+ * Shares its code with the app through the "@/" import map entry in deno.json
+ * (sloppy imports let Deno resolve the extensionless paths). Triggered hourly
+ * by pg_cron - see the schedule_report_runs migration.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { runDueReportDefinitions } from '@/lib/scheduledReports';
+
+Deno.serve(async (req) => {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+  // Only the cron job (which holds the service role key) may trigger runs
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey, {
+    auth: { persistSession: false }
+  });
+
+  try {
+    const entries = await runDueReportDefinitions(supabase);
+    return Response.json({
+      generated: entries.filter(entry => entry.status === 'ready').length,
+      failed: entries.filter(entry => entry.status === 'failed').length
+    });
+  } catch (error) {
+    console.error('Error running scheduled reports:', error);
+    return Response.json({ error: error instanceof Error ? error.message : String(error) }, { status: 500 });
+  }
+});
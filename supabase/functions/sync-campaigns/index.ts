@@ -0,0 +1,39 @@
+/**
+ * Parses every campaign order name in campaign_data into the campaigns table.
+ *
+ * Uploads keep the table current; this fills it for data uploaded before it
+ * existed and re-parses names after parser changes. Shares its code with the
+ * app through the "@/" import map entry in deno.json (sloppy imports let Deno
+ * resolve the extensionless paths). Triggered by pg_cron - see the
+ * backfill_campaigns migration.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { loadAgencyRegistry } from '@/contexts/agency-mapping';
+import { fetchCampaignOrderNames, syncCampaignDimensions } from '@/lib/campaignDimensions';
+
+Deno.serve(async (req) => {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+  // Only the cron job (which holds the service role key) may trigger runs
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey, {
+    auth: { persistSession: false }
+  });
+
+  try {
+    // Agency codes resolve through the registry - fall back to the built-in mapping if it can't load
+    await loadAgencyRegistry(supabase).catch(registryError => {
+      console.error('Error loading agency registry:', registryError);
+    });
+
+    const synced = await syncCampaignDimensions(supabase, await fetchCampaignOrderNames(supabase));
+    return Response.json({ synced });
+  } catch (error) {
+    console.error('Error syncing campaigns:', error);
+    return Response.json({ error: error instanceof Error ? error.message : String(error) }, { status: 500 });
+  }
+});
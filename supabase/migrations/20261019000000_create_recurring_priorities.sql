@@ -0,0 +1,46 @@
+-- Recurring daily priorities
+-- A recurring_priorities row is a template with a schedule rule. On each scheduled
+-- occurrence the app generates a daily_priorities instance linked back to it.
+
+CREATE TABLE IF NOT EXISTS recurring_priorities (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  section TEXT NOT NULL CHECK (section IN ('partner_success', 'engineering', 'launches', 'pre_launch', 'ops', 'blocked')),
+  agency_name TEXT DEFAULT NULL,
+  client_name TEXT DEFAULT NULL,
+  ticket_url TEXT DEFAULT NULL,
+  description TEXT DEFAULT NULL,
+  assignees TEXT[] NOT NULL DEFAULT '{}',
+  recurrence_rule JSONB NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE DEFAULT NULL,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  created_by TEXT DEFAULT NULL
+);
+
+CREATE INDEX IF NOT EXISTS recurring_priorities_active_idx ON recurring_priorities (active);
+
+CREATE TRIGGER update_recurring_priorities_updated_at
+    BEFORE UPDATE ON recurring_priorities
+    FOR EACH ROW
+    EXECUTE PROCEDURE update_updated_at_column();
+
+ALTER TABLE recurring_priorities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow anonymous access to recurring_priorities" ON recurring_priorities
+    FOR ALL USING (true);
+
+-- Link generated instances back to their series
+ALTER TABLE daily_priorities
+ADD COLUMN IF NOT EXISTS recurring_priority_id UUID DEFAULT NULL REFERENCES recurring_priorities(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS occurrence_date DATE DEFAULT NULL;
+
+CREATE INDEX IF NOT EXISTS daily_priorities_recurring_idx
+ON daily_priorities (recurring_priority_id, occurrence_date);
+
+-- One generated instance per series occurrence per day (prevents concurrent clients
+-- from generating the same occurrence twice)
+CREATE UNIQUE INDEX IF NOT EXISTS daily_priorities_recurring_occurrence_unique
+ON daily_priorities (recurring_priority_id, occurrence_date, active_date)
+WHERE recurring_priority_id IS NOT NULL;
@@ -0,0 +1,25 @@
+-- Configurable anomaly detection rules
+-- Each row stores threshold overrides for one scope. Detection resolves rules with
+-- precedence campaign > agency > global > built-in defaults (see src/utils/anomalyRules.ts).
+CREATE TABLE IF NOT EXISTS anomaly_detection_rules (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  scope TEXT NOT NULL CHECK (scope IN ('global', 'agency', 'campaign')),
+  scope_value TEXT NOT NULL DEFAULT '', -- '' for global, agency abbreviation, or campaign order name
+  settings JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  updated_by TEXT DEFAULT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS anomaly_detection_rules_scope_unique
+ON anomaly_detection_rules (scope, scope_value);
+
+CREATE TRIGGER update_anomaly_detection_rules_updated_at
+    BEFORE UPDATE ON anomaly_detection_rules
+    FOR EACH ROW
+    EXECUTE PROCEDURE update_updated_at_column();
+
+ALTER TABLE anomaly_detection_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow anonymous access to anomaly_detection_rules" ON anomaly_detection_rules
+    FOR ALL USING (true);
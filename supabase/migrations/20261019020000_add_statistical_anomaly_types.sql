@@ -0,0 +1,13 @@
+-- Allow the statistical anomaly types (rolling baseline deviation and level shift)
+
+ALTER TABLE campaign_anomalies DROP CONSTRAINT IF EXISTS campaign_anomalies_anomaly_type_check;
+
+ALTER TABLE campaign_anomalies ADD CONSTRAINT campaign_anomalies_anomaly_type_check
+  CHECK (anomaly_type IN (
+    'impression_change',
+    'transaction_drop',
+    'transaction_zero',
+    'suspected_bot_activity',
+    'baseline_deviation',
+    'level_shift'
+  ));
@@ -0,0 +1,25 @@
+-- Campaign health scoring profile assignments
+-- Profiles themselves are defined in src/utils/healthScoringProfiles.ts; this table only
+-- records which profile a campaign or agency uses (campaign > agency > default profile).
+CREATE TABLE IF NOT EXISTS health_profile_assignments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  scope TEXT NOT NULL CHECK (scope IN ('agency', 'campaign')),
+  scope_value TEXT NOT NULL, -- agency abbreviation or campaign order name
+  profile_id TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  updated_by TEXT DEFAULT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS health_profile_assignments_scope_unique
+ON health_profile_assignments (scope, scope_value);
+
+CREATE TRIGGER update_health_profile_assignments_updated_at
+    BEFORE UPDATE ON health_profile_assignments
+    FOR EACH ROW
+    EXECUTE PROCEDURE update_updated_at_column();
+
+ALTER TABLE health_profile_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow anonymous access to health_profile_assignments" ON health_profile_assignments
+    FOR ALL USING (true);
@@ -0,0 +1,37 @@
+-- Daily campaign health snapshots
+-- One row per campaign per day with every component score, so health can be trended
+CREATE TABLE IF NOT EXISTS campaign_health_snapshots (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  campaign_name TEXT NOT NULL,
+  snapshot_date DATE NOT NULL,
+  profile_id TEXT NOT NULL DEFAULT 'performance',
+  health_score NUMERIC NOT NULL,
+  roas_score NUMERIC NOT NULL DEFAULT 0,
+  delivery_pacing_score NUMERIC NOT NULL DEFAULT 0,
+  burn_rate_score NUMERIC NOT NULL DEFAULT 0,
+  ctr_score NUMERIC NOT NULL DEFAULT 0,
+  overspend_score NUMERIC NOT NULL DEFAULT 0,
+  roas NUMERIC NOT NULL DEFAULT 0,
+  ctr NUMERIC NOT NULL DEFAULT 0,
+  delivery_pacing NUMERIC NOT NULL DEFAULT 0,
+  burn_rate_percentage NUMERIC NOT NULL DEFAULT 0,
+  overspend NUMERIC NOT NULL DEFAULT 0,
+  completion_percentage NUMERIC NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS campaign_health_snapshots_campaign_date_unique
+ON campaign_health_snapshots (campaign_name, snapshot_date);
+
+CREATE INDEX IF NOT EXISTS campaign_health_snapshots_date_idx ON campaign_health_snapshots (snapshot_date);
+
+CREATE TRIGGER update_campaign_health_snapshots_updated_at
+    BEFORE UPDATE ON campaign_health_snapshots
+    FOR EACH ROW
+    EXECUTE PROCEDURE update_updated_at_column();
+
+ALTER TABLE campaign_health_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow anonymous access to campaign_health_snapshots" ON campaign_health_snapshots
+    FOR ALL USING (true);
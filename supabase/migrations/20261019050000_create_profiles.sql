@@ -0,0 +1,59 @@
+-- User profiles and roles for Supabase Auth
+-- One row per auth user. The app reads every profile to resolve created_by/updated_by
+-- IDs to display names; legacy_user_id maps records written before Supabase Auth
+-- (e.g. 'user-ben') onto the new account.
+CREATE TABLE IF NOT EXISTS profiles (
+  id UUID PRIMARY KEY REFERENCES auth.users (id) ON DELETE CASCADE,
+  username TEXT NOT NULL,
+  display_name TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('viewer', 'editor', 'admin')),
+  legacy_user_id TEXT UNIQUE DEFAULT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+CREATE TRIGGER update_profiles_updated_at
+    BEFORE UPDATE ON profiles
+    FOR EACH ROW
+    EXECUTE PROCEDURE update_updated_at_column();
+
+-- Role of the signed-in user (SECURITY DEFINER so policies on profiles can call it)
+CREATE OR REPLACE FUNCTION public.current_user_role()
+RETURNS TEXT AS $$
+  SELECT role FROM public.profiles WHERE id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- New auth users start as viewers; an admin promotes them
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.profiles (id, username, display_name)
+  VALUES (
+    NEW.id,
+    split_part(NEW.email, '@', 1),
+    COALESCE(NEW.raw_user_meta_data ->> 'display_name', split_part(NEW.email, '@', 1))
+  )
+  ON CONFLICT (id) DO NOTHING;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_auth_user_created
+    AFTER INSERT ON auth.users
+    FOR EACH ROW
+    EXECUTE PROCEDURE public.handle_new_user();
+
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can read profiles" ON profiles
+    FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admins can manage profiles" ON profiles
+    FOR ALL TO authenticated
+    USING (public.current_user_role() = 'admin')
+    WITH CHECK (public.current_user_role() = 'admin');
+
+-- After creating the existing users in Supabase Auth, link them to their old IDs
+-- and set roles, e.g.:
+--   UPDATE profiles SET legacy_user_id = 'user-ben', display_name = 'Ben Malone', role = 'admin'
+--   WHERE username = 'ben';
@@ -0,0 +1,47 @@
+-- Campaign data upload ledger
+-- One row per upsertCampaignData call. session_id matches campaign_data.user_session_id,
+-- so the rows a batch still owns can be found (and removed) on rollback.
+CREATE TABLE IF NOT EXISTS upload_batches (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id TEXT NOT NULL UNIQUE,
+  file_name TEXT DEFAULT NULL,
+  uploaded_by TEXT DEFAULT NULL,
+  row_count INTEGER NOT NULL DEFAULT 0,
+  inserted_count INTEGER NOT NULL DEFAULT 0,
+  updated_count INTEGER NOT NULL DEFAULT 0,
+  date_start DATE NOT NULL,
+  date_end DATE NOT NULL,
+  campaigns TEXT[] NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'rolled_back')),
+  rolled_back_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  rolled_back_by TEXT DEFAULT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS upload_batches_created_at_idx
+ON upload_batches (created_at DESC);
+
+-- campaign_data rows as they were before a batch overwrote them (restored on rollback)
+CREATE TABLE IF NOT EXISTS upload_batch_rows (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  batch_id UUID NOT NULL REFERENCES upload_batches (id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  campaign_order_name TEXT NOT NULL,
+  previous JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS upload_batch_rows_batch_id_idx
+ON upload_batch_rows (batch_id);
+
+CREATE INDEX IF NOT EXISTS campaign_data_user_session_id_idx
+ON campaign_data (user_session_id);
+
+ALTER TABLE upload_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE upload_batch_rows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow anonymous access to upload_batches" ON upload_batches
+    FOR ALL USING (true);
+
+CREATE POLICY "Allow anonymous access to upload_batch_rows" ON upload_batch_rows
+    FOR ALL USING (true);
@@ -0,0 +1,27 @@
+-- Saved CSV column mappings ("import profiles")
+-- header_signature is the file's normalized, sorted header list, so a file laid out
+-- the same way as a previous upload picks its mapping up automatically.
+CREATE TABLE IF NOT EXISTS csv_import_profiles (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  import_kind TEXT NOT NULL CHECK (import_kind IN ('delivery', 'contract-terms')),
+  header_signature TEXT NOT NULL,
+  column_mapping JSONB NOT NULL DEFAULT '{}'::jsonb, -- canonical field -> source header
+  date_format TEXT NOT NULL DEFAULT 'MM/DD/YYYY' CHECK (date_format IN ('MM/DD/YYYY', 'DD/MM/YYYY', 'YYYY-MM-DD')),
+  created_by TEXT DEFAULT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS csv_import_profiles_signature_unique
+ON csv_import_profiles (import_kind, header_signature);
+
+CREATE TRIGGER update_csv_import_profiles_updated_at
+    BEFORE UPDATE ON csv_import_profiles
+    FOR EACH ROW
+    EXECUTE PROCEDURE update_updated_at_column();
+
+ALTER TABLE csv_import_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow anonymous access to csv_import_profiles" ON csv_import_profiles
+    FOR ALL USING (true);
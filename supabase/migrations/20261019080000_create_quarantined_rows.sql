@@ -0,0 +1,30 @@
+-- Rows held back from CSV imports because they failed validation.
+-- row_data holds the row under canonical headers (DATE, CAMPAIGN ORDER NAME, ...) so it
+-- can be corrected in the app and re-imported.
+CREATE TABLE IF NOT EXISTS quarantined_rows (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  import_kind TEXT NOT NULL DEFAULT 'delivery' CHECK (import_kind IN ('delivery', 'contract-terms')),
+  file_name TEXT DEFAULT NULL,
+  row_number INTEGER DEFAULT NULL,
+  row_data JSONB NOT NULL,
+  issues JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{ code, message }]
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'reimported', 'discarded')),
+  created_by TEXT DEFAULT NULL,
+  resolved_by TEXT DEFAULT NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS quarantined_rows_status_idx
+ON quarantined_rows (status, created_at DESC);
+
+CREATE TRIGGER update_quarantined_rows_updated_at
+    BEFORE UPDATE ON quarantined_rows
+    FOR EACH ROW
+    EXECUTE PROCEDURE update_updated_at_column();
+
+ALTER TABLE quarantined_rows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow anonymous access to quarantined_rows" ON quarantined_rows
+    FOR ALL USING (true);
@@ -0,0 +1,91 @@
+-- Saved report definitions with relative date ranges, filters and an optional
+-- schedule, plus the outbox the scheduled generator writes finished PDFs to.
+CREATE TABLE IF NOT EXISTS report_definitions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  report_title TEXT NOT NULL,
+  charts JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{ id, category, type, subOptions, title }]
+  date_range TEXT NOT NULL DEFAULT 'last-7-days'
+    CHECK (date_range IN ('last-7-days', 'last-14-days', 'last-30-days', 'week-to-date', 'month-to-date', 'last-month')),
+  agencies TEXT[] NOT NULL DEFAULT '{}',
+  advertisers TEXT[] NOT NULL DEFAULT '{}',
+  schedule_frequency TEXT DEFAULT NULL CHECK (schedule_frequency IN ('daily', 'weekly', 'monthly')),
+  schedule_day_of_week INTEGER DEFAULT NULL CHECK (schedule_day_of_week BETWEEN 0 AND 6),
+  schedule_day_of_month INTEGER DEFAULT NULL CHECK (schedule_day_of_month BETWEEN 1 AND 28),
+  schedule_hour_utc INTEGER NOT NULL DEFAULT 13 CHECK (schedule_hour_utc BETWEEN 0 AND 23),
+  recipients TEXT[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  next_run_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  last_run_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  created_by TEXT DEFAULT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS report_definitions_next_run_idx
+ON report_definitions (next_run_at)
+WHERE is_active AND schedule_frequency IS NOT NULL;
+
+CREATE TRIGGER update_report_definitions_updated_at
+    BEFORE UPDATE ON report_definitions
+    FOR EACH ROW
+    EXECUTE PROCEDURE update_updated_at_column();
+
+ALTER TABLE report_definitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow anonymous access to report_definitions" ON report_definitions
+    FOR ALL USING (true);
+
+-- One generated report. file_path is inside the report-outbox bucket; whatever
+-- delivers the reports marks rows 'sent'.
+CREATE TABLE IF NOT EXISTS report_outbox (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  definition_id UUID REFERENCES report_definitions(id) ON DELETE SET NULL,
+  report_title TEXT NOT NULL,
+  file_path TEXT DEFAULT NULL,
+  date_start DATE NOT NULL,
+  date_end DATE NOT NULL,
+  row_count INTEGER NOT NULL DEFAULT 0,
+  recipients TEXT[] NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'ready' CHECK (status IN ('ready', 'failed', 'sent')),
+  error TEXT DEFAULT NULL,
+  triggered_by TEXT NOT NULL DEFAULT 'schedule' CHECK (triggered_by IN ('schedule', 'manual')),
+  sent_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS report_outbox_definition_idx
+ON report_outbox (definition_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS report_outbox_status_idx
+ON report_outbox (status, created_at DESC);
+
+ALTER TABLE report_outbox ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow anonymous access to report_outbox" ON report_outbox
+    FOR ALL USING (true);
+
+-- Private bucket for the generated PDFs; the app downloads them via signed URLs
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('report-outbox', 'report-outbox', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Allow anonymous access to report-outbox files" ON storage.objects
+    FOR ALL USING (bucket_id = 'report-outbox') WITH CHECK (bucket_id = 'report-outbox');
+
+-- Hourly trigger for the run-scheduled-reports edge function. Needs the pg_cron
+-- and pg_net extensions and the project URL / service role key in Vault, so it
+-- is left for the deploy checklist rather than run here:
+--
+-- SELECT cron.schedule(
+--   'run-scheduled-reports',
+--   '5 * * * *',
+--   $$
+--   SELECT net.http_post(
+--     url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/run-scheduled-reports',
+--     headers := jsonb_build_object(
+--       'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+--     )
+--   );
+--   $$
+-- );
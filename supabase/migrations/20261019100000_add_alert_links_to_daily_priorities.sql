@@ -0,0 +1,13 @@
+-- Link daily priorities to the campaign alert they were claimed from
+-- A claimed renewal, pacing or ROAS alert becomes a normal task that carries the
+-- alert type and campaign name. alert_resolved_at is set when the campaign drops
+-- out of that alert list (e.g. pacing recovers) while the task is still open.
+
+ALTER TABLE daily_priorities
+ADD COLUMN IF NOT EXISTS alert_type TEXT DEFAULT NULL CHECK (alert_type IN ('renewal', 'pacing', 'roas')),
+ADD COLUMN IF NOT EXISTS alert_campaign_name TEXT DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS alert_resolved_at TIMESTAMP WITH TIME ZONE DEFAULT NULL;
+
+CREATE INDEX IF NOT EXISTS daily_priorities_alert_idx
+ON daily_priorities (alert_type, alert_campaign_name)
+WHERE alert_type IS NOT NULL;
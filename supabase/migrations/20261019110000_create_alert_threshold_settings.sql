@@ -0,0 +1,25 @@
+-- Configurable thresholds for the Daily Priorities campaign alert sections
+-- Each row stores threshold overrides for one scope. Alerts resolve thresholds with
+-- precedence agency > global > built-in defaults (see src/utils/alertThresholds.ts).
+CREATE TABLE IF NOT EXISTS alert_threshold_settings (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  scope TEXT NOT NULL CHECK (scope IN ('global', 'agency')),
+  scope_value TEXT NOT NULL DEFAULT '', -- '' for global, otherwise agency abbreviation
+  settings JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  updated_by TEXT DEFAULT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS alert_threshold_settings_scope_unique
+ON alert_threshold_settings (scope, scope_value);
+
+CREATE TRIGGER update_alert_threshold_settings_updated_at
+    BEFORE UPDATE ON alert_threshold_settings
+    FOR EACH ROW
+    EXECUTE PROCEDURE update_updated_at_column();
+
+ALTER TABLE alert_threshold_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow anonymous access to alert_threshold_settings" ON alert_threshold_settings
+    FOR ALL USING (true);
@@ -0,0 +1,104 @@
+-- User-defined workflow templates for renewal and launch status tracking
+-- A template is an ordered list of steps (label, optional owner, optional due offset
+-- in days from the renewal/launch date). Tracking records store completed steps in
+-- step_completion, keyed by step id, instead of one boolean column per step.
+
+CREATE TABLE IF NOT EXISTS workflow_templates (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  kind TEXT NOT NULL CHECK (kind IN ('renewal', 'launch')),
+  name TEXT NOT NULL,
+  steps JSONB NOT NULL DEFAULT '[]', -- [{ id, label, owner, due_offset_days }]
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  updated_by TEXT DEFAULT NULL
+);
+
+-- At most one default template per kind
+CREATE UNIQUE INDEX IF NOT EXISTS workflow_templates_default_unique
+ON workflow_templates (kind) WHERE is_default;
+
+CREATE TRIGGER update_workflow_templates_updated_at
+    BEFORE UPDATE ON workflow_templates
+    FOR EACH ROW
+    EXECUTE PROCEDURE update_updated_at_column();
+
+ALTER TABLE workflow_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow anonymous access to workflow_templates" ON workflow_templates
+    FOR ALL USING (true);
+
+ALTER TABLE renewal_status_tracking
+ADD COLUMN IF NOT EXISTS workflow_template_id UUID DEFAULT NULL REFERENCES workflow_templates(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS step_completion JSONB NOT NULL DEFAULT '{}';
+
+ALTER TABLE launch_status_tracking
+ADD COLUMN IF NOT EXISTS workflow_template_id UUID DEFAULT NULL REFERENCES workflow_templates(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS step_completion JSONB NOT NULL DEFAULT '{}';
+
+-- Default templates reproduce the previous fixed checklists.
+-- Step ids are the old column names so existing progress maps straight across.
+INSERT INTO workflow_templates (kind, name, steps, is_default)
+SELECT 'renewal', 'Standard renewal', '[
+  {"id": "project_kickoff_ticket_creation", "label": "Project & Kickoff", "owner": null, "due_offset_days": null},
+  {"id": "bt_approval", "label": "BT Updated", "owner": null, "due_offset_days": null},
+  {"id": "bt_approved", "label": "BT Approved", "owner": null, "due_offset_days": null},
+  {"id": "coda_strategy", "label": "Coda Strategy", "owner": null, "due_offset_days": null},
+  {"id": "dashboard_update", "label": "Dashboard Update", "owner": null, "due_offset_days": null},
+  {"id": "dsp_update", "label": "DSP Update", "owner": null, "due_offset_days": null},
+  {"id": "pre_qa", "label": "Pre QA", "owner": null, "due_offset_days": null},
+  {"id": "post_qa", "label": "Post QA", "owner": null, "due_offset_days": null}
+]'::jsonb, true
+WHERE NOT EXISTS (SELECT 1 FROM workflow_templates WHERE kind = 'renewal' AND is_default);
+
+INSERT INTO workflow_templates (kind, name, steps, is_default)
+SELECT 'launch', 'Standard launch', '[
+  {"id": "project_kickoff_ticket_creation", "label": "Project & Kickoff", "owner": null, "due_offset_days": null},
+  {"id": "bt_approval", "label": "BT Created", "owner": null, "due_offset_days": null},
+  {"id": "bt_approved", "label": "BT Approved", "owner": null, "due_offset_days": null},
+  {"id": "coda_strategy", "label": "Coda Strategy", "owner": null, "due_offset_days": null},
+  {"id": "dashboard_update", "label": "Dashboard Launch", "owner": null, "due_offset_days": null},
+  {"id": "dsp_creative_setup", "label": "DSP Creative Setup", "owner": null, "due_offset_days": null},
+  {"id": "dsp_update", "label": "DSP Launch", "owner": null, "due_offset_days": null},
+  {"id": "pre_qa", "label": "Pre QA", "owner": null, "due_offset_days": null},
+  {"id": "post_qa", "label": "Post QA", "owner": null, "due_offset_days": null}
+]'::jsonb, true
+WHERE NOT EXISTS (SELECT 1 FROM workflow_templates WHERE kind = 'launch' AND is_default);
+
+-- Move existing records onto the default templates. A checked step is recorded as
+-- completed at the record's last update, the closest timestamp available.
+UPDATE renewal_status_tracking AS r
+SET
+  workflow_template_id = t.id,
+  step_completion = jsonb_strip_nulls(jsonb_build_object(
+    'project_kickoff_ticket_creation', CASE WHEN r.project_kickoff_ticket_creation THEN to_jsonb(r.updated_at) END,
+    'bt_approval', CASE WHEN r.bt_approval THEN to_jsonb(r.updated_at) END,
+    'bt_approved', CASE WHEN r.bt_approved THEN to_jsonb(r.updated_at) END,
+    'coda_strategy', CASE WHEN r.coda_strategy THEN to_jsonb(r.updated_at) END,
+    'dashboard_update', CASE WHEN r.dashboard_update THEN to_jsonb(r.updated_at) END,
+    'dsp_update', CASE WHEN r.dsp_update THEN to_jsonb(r.updated_at) END,
+    'pre_qa', CASE WHEN r.pre_qa THEN to_jsonb(r.updated_at) END,
+    'post_qa', CASE WHEN r.post_qa THEN to_jsonb(r.updated_at) END
+  ))
+FROM workflow_templates AS t
+WHERE t.kind = 'renewal' AND t.is_default AND r.workflow_template_id IS NULL;
+
+UPDATE launch_status_tracking AS l
+SET
+  workflow_template_id = t.id,
+  step_completion = jsonb_strip_nulls(jsonb_build_object(
+    'project_kickoff_ticket_creation', CASE WHEN l.project_kickoff_ticket_creation THEN to_jsonb(l.updated_at) END,
+    'bt_approval', CASE WHEN l.bt_approval THEN to_jsonb(l.updated_at) END,
+    'bt_approved', CASE WHEN l.bt_approved THEN to_jsonb(l.updated_at) END,
+    'coda_strategy', CASE WHEN l.coda_strategy THEN to_jsonb(l.updated_at) END,
+    'dashboard_update', CASE WHEN l.dashboard_update THEN to_jsonb(l.updated_at) END,
+    'dsp_creative_setup', CASE WHEN l.dsp_creative_setup THEN to_jsonb(l.updated_at) END,
+    'dsp_update', CASE WHEN l.dsp_update THEN to_jsonb(l.updated_at) END,
+    'pre_qa', CASE WHEN l.pre_qa THEN to_jsonb(l.updated_at) END,
+    'post_qa', CASE WHEN l.post_qa THEN to_jsonb(l.updated_at) END
+  ))
+FROM workflow_templates AS t
+WHERE t.kind = 'launch' AND t.is_default AND l.workflow_template_id IS NULL;
+
+-- The old per-step boolean columns are no longer written. They are left in place
+-- for rollback and can be dropped once the templates have settled.
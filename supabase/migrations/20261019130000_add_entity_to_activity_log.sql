@@ -0,0 +1,29 @@
+-- Generalize the activity log beyond daily priorities
+-- entity_type/entity_id identify what changed (priority, campaign, renewal/launch
+-- tracking record, announcement, resource or anomaly); field-level diffs keep
+-- using the existing changes JSONB column ({ field: { before, after } }).
+
+ALTER TABLE activity_log
+ADD COLUMN IF NOT EXISTS entity_type TEXT NOT NULL DEFAULT 'priority',
+ADD COLUMN IF NOT EXISTS entity_id TEXT DEFAULT NULL;
+
+-- Existing rows: priority entries point at their priority
+UPDATE activity_log
+SET entity_id = priority_id::text
+WHERE entity_id IS NULL AND priority_id IS NOT NULL;
+
+-- Campaign-level actions were logged against the campaign name
+UPDATE activity_log
+SET entity_type = 'campaign', entity_id = task_description
+WHERE action IN ('roas_ignored', 'roas_unignored', 'renewal_status_updated');
+
+UPDATE activity_log
+SET entity_type = 'renewal_tracking'
+WHERE action = 'renewal_tracking_moved';
+
+UPDATE activity_log
+SET entity_type = 'launch_tracking'
+WHERE action = 'launch_tracking_moved';
+
+CREATE INDEX IF NOT EXISTS idx_activity_log_entity ON activity_log (entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS idx_activity_log_user_id ON activity_log (user_id);
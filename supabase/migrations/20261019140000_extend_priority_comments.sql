@@ -0,0 +1,41 @@
+-- Task comments keyed to the task's stable identity, with threads, mentions and read tracking
+-- Carry-forward creates a new daily_priorities row per day, so comments are attached to
+-- (task_client_name, task_created_at) - the same identity carry-forward uses - instead of
+-- one day's row. priority_id is kept as the row the comment was posted from.
+
+ALTER TABLE priority_comments
+ADD COLUMN IF NOT EXISTS task_client_name TEXT DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS task_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS parent_id UUID DEFAULT NULL REFERENCES priority_comments(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS mentions TEXT[] NOT NULL DEFAULT '{}', -- user ids
+ADD COLUMN IF NOT EXISTS edited_at TIMESTAMP WITH TIME ZONE DEFAULT NULL;
+
+-- Completing a task deletes its future copies; comments must outlive the row they were posted on
+ALTER TABLE priority_comments DROP CONSTRAINT IF EXISTS priority_comments_priority_id_fkey;
+ALTER TABLE priority_comments ALTER COLUMN priority_id DROP NOT NULL;
+
+-- Existing comments: take the identity of the row they were posted on
+UPDATE priority_comments c
+SET task_client_name = p.client_name,
+    task_created_at = p.created_at
+FROM daily_priorities p
+WHERE c.priority_id = p.id
+  AND c.task_created_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_priority_comments_task
+ON priority_comments (task_created_at, task_client_name);
+
+-- When each user last read a task's comments (drives the unread indicator)
+CREATE TABLE IF NOT EXISTS priority_comment_reads (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  task_client_name TEXT DEFAULT NULL,
+  task_created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  last_read_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  CONSTRAINT priority_comment_reads_unique UNIQUE NULLS NOT DISTINCT (user_id, task_client_name, task_created_at)
+);
+
+ALTER TABLE priority_comment_reads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow anonymous access to priority_comment_reads" ON priority_comment_reads
+    FOR ALL USING (true);
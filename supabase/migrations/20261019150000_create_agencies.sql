@@ -0,0 +1,59 @@
+-- Agency registry
+-- Replaces the hard-coded AGENCY_MAPPING. Campaign order names carry the agency
+-- abbreviation (e.g. "2001367: HRB: District Cannabis-241217"); aliases are other
+-- codes that resolve to the same agency. Inactive agencies still resolve for
+-- historical campaigns but are no longer offered in pickers. Campaigns under an
+-- is_test agency are filtered out like test/demo/draft campaigns.
+
+CREATE TABLE IF NOT EXISTS agencies (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  abbreviation TEXT NOT NULL UNIQUE,
+  display_name TEXT NOT NULL,
+  aliases TEXT[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  is_test BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  updated_by TEXT DEFAULT NULL
+);
+
+CREATE TRIGGER update_agencies_updated_at
+    BEFORE UPDATE ON agencies
+    FOR EACH ROW
+    EXECUTE PROCEDURE update_updated_at_column();
+
+ALTER TABLE agencies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow anonymous access to agencies" ON agencies
+    FOR ALL USING (true);
+
+-- Seed with the previous hard-coded mapping
+INSERT INTO agencies (abbreviation, display_name, is_test) VALUES
+  ('2RS', 'Two Rivers', false),
+  ('6D', '6 Degrees Media', false),
+  ('BLO', 'Be Local One', false),
+  ('CB', 'Crystal Bol', false),
+  ('CN', 'Cannabis Now', false),
+  ('DJ', 'DispJoy', false),
+  ('FDD', 'Fat Dawgs Digital', false),
+  ('FLD', 'Fieldtest', false),
+  ('FLWR', 'The Flowery', false),
+  ('HD', 'Highday', false),
+  ('HG', 'Happy Greens', false),
+  ('HR', 'HighRewards', false),
+  ('HRB', 'Herb.co', false),
+  ('KAI', 'Kartel.AI', false),
+  ('LP', 'Lettuce Print', false),
+  ('MJ', 'MediaJel Direct', false),
+  ('NLMC', 'NLMC', false),
+  ('NP', 'Noble People', false),
+  ('OG', 'Orangellow', false),
+  ('PRP', 'Propaganda Creative', false),
+  ('SM', 'Orangellow', false),
+  ('TCC', 'Tulip City Creative', false),
+  ('TF', 'Tact Firm', false),
+  ('TRN', 'Terrayn', false),
+  ('TST', 'Test', true),
+  ('W&T', 'Water & Trees', false),
+  ('WWX', 'Wunderworx', false)
+ON CONFLICT (abbreviation) DO NOTHING;
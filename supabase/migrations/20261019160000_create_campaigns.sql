@@ -0,0 +1,38 @@
+-- Campaigns dimension table
+-- One row per campaign order name holding the fields parsed from it, so views can
+-- filter on order ID, agency, advertiser, market, channel or flight without
+-- re-parsing every name. Rows are written by the app when campaign data is
+-- uploaded (and on demand from the Agencies page) - parsing lives in
+-- src/utils/campaignNameParsing.ts, not in SQL.
+
+CREATE TABLE IF NOT EXISTS campaigns (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  campaign_order_name TEXT NOT NULL UNIQUE,
+  order_id TEXT DEFAULT NULL,
+  order_ids TEXT[] NOT NULL DEFAULT '{}', -- Renewals carry the original and new IO numbers
+  agency_abbreviation TEXT DEFAULT NULL,
+  agency_name TEXT DEFAULT NULL,
+  advertiser TEXT DEFAULT NULL,
+  market TEXT DEFAULT NULL, -- US state code
+  channel TEXT DEFAULT NULL, -- e.g. 'DIS'
+  flight_code TEXT DEFAULT NULL, -- YYMMDD
+  description TEXT DEFAULT NULL,
+  awaiting_io BOOLEAN NOT NULL DEFAULT false,
+  is_test BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaigns_order_id ON campaigns(order_id);
+CREATE INDEX IF NOT EXISTS idx_campaigns_agency ON campaigns(agency_abbreviation);
+CREATE INDEX IF NOT EXISTS idx_campaigns_advertiser ON campaigns(advertiser);
+
+CREATE TRIGGER update_campaigns_updated_at
+    BEFORE UPDATE ON campaigns
+    FOR EACH ROW
+    EXECUTE PROCEDURE update_updated_at_column();
+
+ALTER TABLE campaigns ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow anonymous access to campaigns" ON campaigns
+    FOR ALL USING (true);
@@ -0,0 +1,46 @@
+-- Agency spend normalization rules
+-- Replaces the hard-coded Orangellow $7 CPM conversion. Each rule normalizes one
+-- agency's reported spend for a date range (inclusive, NULL = open-ended):
+-- - effective_cpm: spend = impressions / 1000 * value
+-- - markup: spend = reported spend * (1 + value / 100)
+-- - pass_through: reported spend as-is
+-- When ranges overlap, the rule with the latest effective_from wins.
+
+CREATE TABLE IF NOT EXISTS spend_normalization_rules (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  agency_abbreviation TEXT NOT NULL REFERENCES agencies(abbreviation) ON UPDATE CASCADE ON DELETE CASCADE,
+  method TEXT NOT NULL CHECK (method IN ('effective_cpm', 'markup', 'pass_through')),
+  value NUMERIC DEFAULT NULL,
+  effective_from DATE DEFAULT NULL,
+  effective_to DATE DEFAULT NULL,
+  notes TEXT DEFAULT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  updated_by TEXT DEFAULT NULL,
+  CHECK (method = 'pass_through' OR value IS NOT NULL),
+  CHECK (effective_from IS NULL OR effective_to IS NULL OR effective_from <= effective_to)
+);
+
+CREATE INDEX IF NOT EXISTS idx_spend_normalization_rules_agency ON spend_normalization_rules(agency_abbreviation);
+
+CREATE TRIGGER update_spend_normalization_rules_updated_at
+    BEFORE UPDATE ON spend_normalization_rules
+    FOR EACH ROW
+    EXECUTE PROCEDURE update_updated_at_column();
+
+ALTER TABLE spend_normalization_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow anonymous access to spend_normalization_rules" ON spend_normalization_rules
+    FOR ALL USING (true);
+
+-- The previous hard-coded behavior: Orangellow (OG and SM) at a $7 CPM
+INSERT INTO spend_normalization_rules (agency_abbreviation, method, value, notes)
+SELECT abbreviation, 'effective_cpm', 7, 'Orangellow bills at a $7 CPM'
+FROM agencies
+WHERE abbreviation IN ('OG', 'SM')
+  AND NOT EXISTS (
+    SELECT 1 FROM spend_normalization_rules r WHERE r.agency_abbreviation = agencies.abbreviation
+  );
+
+COMMENT ON COLUMN campaign_data.orangellow_corrected IS 'Legacy - spend is normalized at read time by spend_normalization_rules';
+COMMENT ON COLUMN campaign_data.original_spend IS 'Legacy - spend is normalized at read time by spend_normalization_rules';
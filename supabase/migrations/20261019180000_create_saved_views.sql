@@ -0,0 +1,42 @@
+-- Saved dashboard views
+-- A view captures the global filters, date range, sidebar tab and chart settings
+-- (see SavedViewState in src/types/saved-views.ts). Personal views are only listed
+-- for their owner; shared views are listed for everyone.
+CREATE TABLE IF NOT EXISTS saved_views (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  visibility TEXT NOT NULL DEFAULT 'personal' CHECK (visibility IN ('personal', 'shared')),
+  state JSONB NOT NULL DEFAULT '{}'::jsonb,
+  owner_id TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_views_owner ON saved_views(owner_id);
+
+CREATE TRIGGER update_saved_views_updated_at
+    BEFORE UPDATE ON saved_views
+    FOR EACH ROW
+    EXECUTE PROCEDURE update_updated_at_column();
+
+ALTER TABLE saved_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow anonymous access to saved_views" ON saved_views
+    FOR ALL USING (true);
+
+-- The view each user starts from. Deleting the view clears the default.
+CREATE TABLE IF NOT EXISTS saved_view_defaults (
+  user_id TEXT PRIMARY KEY,
+  view_id UUID NOT NULL REFERENCES saved_views(id) ON DELETE CASCADE,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+CREATE TRIGGER update_saved_view_defaults_updated_at
+    BEFORE UPDATE ON saved_view_defaults
+    FOR EACH ROW
+    EXECUTE PROCEDURE update_updated_at_column();
+
+ALTER TABLE saved_view_defaults ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow anonymous access to saved_view_defaults" ON saved_view_defaults
+    FOR ALL USING (true);
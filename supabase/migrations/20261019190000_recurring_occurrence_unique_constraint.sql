@@ -0,0 +1,8 @@
+-- Recurring task generation upserts on (recurring_priority_id, occurrence_date, active_date).
+-- ON CONFLICT can't target the partial unique index, so replace it with a full one.
+-- Rows without a series keep a NULL recurring_priority_id, which never conflicts.
+
+DROP INDEX IF EXISTS daily_priorities_recurring_occurrence_unique;
+
+CREATE UNIQUE INDEX IF NOT EXISTS daily_priorities_recurring_occurrence_unique
+ON daily_priorities (recurring_priority_id, occurrence_date, active_date);
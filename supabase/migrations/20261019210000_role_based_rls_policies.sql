@@ -0,0 +1,120 @@
+-- Role-based row level security
+-- Replaces the "Allow anonymous access ... USING (true)" policies with policies tied to
+-- the signed-in user's role (public.current_user_role(), see the profiles migration):
+--   * signed-in users can read
+--   * editors (and admins) can add and change rows
+--   * deleting rows is reserved for admins, except in the editor workflows that remove
+--     single rows as part of normal editing (tasks, templates, reports, rules)
+-- Edge functions use the service role key, which bypasses RLS.
+-- Per-user tables (comments, comment read markers, saved views) get ownership-based
+-- policies of their own.
+
+-- Drops every existing policy on the table (older ones were created outside these
+-- migrations, so their names aren't known) and creates the role-based set
+CREATE OR REPLACE FUNCTION public.apply_role_policies(p_table TEXT, p_write_role TEXT, p_delete_role TEXT)
+RETURNS VOID AS $$
+DECLARE
+  existing RECORD;
+  write_roles TEXT := CASE p_write_role WHEN 'admin' THEN '(''admin'')' ELSE '(''editor'', ''admin'')' END;
+  delete_roles TEXT := CASE p_delete_role WHEN 'admin' THEN '(''admin'')' ELSE '(''editor'', ''admin'')' END;
+  writers TEXT := CASE p_write_role WHEN 'admin' THEN 'Admins' ELSE 'Editors' END;
+  deleters TEXT := CASE p_delete_role WHEN 'admin' THEN 'Admins' ELSE 'Editors' END;
+BEGIN
+  IF to_regclass('public.' || p_table) IS NULL THEN
+    RETURN;
+  END IF;
+
+  FOR existing IN SELECT policyname FROM pg_policies WHERE schemaname = 'public' AND tablename = p_table LOOP
+    EXECUTE format('DROP POLICY %I ON public.%I', existing.policyname, p_table);
+  END LOOP;
+
+  EXECUTE format('ALTER TABLE public.%I ENABLE ROW LEVEL SECURITY', p_table);
+
+  EXECUTE format(
+    'CREATE POLICY %I ON public.%I FOR SELECT TO authenticated USING (true)',
+    'Signed-in users can read ' || p_table, p_table
+  );
+  EXECUTE format(
+    'CREATE POLICY %I ON public.%I FOR INSERT TO authenticated WITH CHECK (public.current_user_role() IN %s)',
+    writers || ' can add ' || p_table, p_table, write_roles
+  );
+  EXECUTE format(
+    'CREATE POLICY %I ON public.%I FOR UPDATE TO authenticated USING (public.current_user_role() IN %s) WITH CHECK (public.current_user_role() IN %s)',
+    writers || ' can change ' || p_table, p_table, write_roles, write_roles
+  );
+  EXECUTE format(
+    'CREATE POLICY %I ON public.%I FOR DELETE TO authenticated USING (public.current_user_role() IN %s)',
+    deleters || ' can delete ' || p_table, p_table, delete_roles
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Imported data and history: only admins delete (clear database, roll back uploads)
+SELECT public.apply_role_policies('campaign_data', 'editor', 'admin');
+SELECT public.apply_role_policies('pacing_data', 'editor', 'admin');
+SELECT public.apply_role_policies('upload_batches', 'editor', 'admin');
+SELECT public.apply_role_policies('upload_batch_rows', 'editor', 'admin');
+SELECT public.apply_role_policies('quarantined_rows', 'editor', 'admin');
+SELECT public.apply_role_policies('csv_import_profiles', 'editor', 'admin');
+SELECT public.apply_role_policies('campaigns', 'editor', 'admin');
+SELECT public.apply_role_policies('campaign_health_snapshots', 'editor', 'admin');
+SELECT public.apply_role_policies('campaign_renewals', 'editor', 'admin');
+SELECT public.apply_role_policies('report_outbox', 'editor', 'admin');
+
+-- Admin-managed configuration
+SELECT public.apply_role_policies('agencies', 'admin', 'admin');
+SELECT public.apply_role_policies('spend_normalization_rules', 'admin', 'admin');
+
+-- Editor workflows that delete single rows (completing a task removes its future copies,
+-- contract terms uploads replace the table, anomaly detection replaces its results)
+SELECT public.apply_role_policies('daily_priorities', 'editor', 'editor');
+SELECT public.apply_role_policies('recurring_priorities', 'editor', 'editor');
+SELECT public.apply_role_policies('renewal_status_tracking', 'editor', 'editor');
+SELECT public.apply_role_policies('launch_status_tracking', 'editor', 'editor');
+SELECT public.apply_role_policies('contract_terms', 'editor', 'editor');
+SELECT public.apply_role_policies('campaign_anomalies', 'editor', 'editor');
+SELECT public.apply_role_policies('roas_alert_ignores', 'editor', 'editor');
+SELECT public.apply_role_policies('anomaly_detection_rules', 'editor', 'editor');
+SELECT public.apply_role_policies('alert_threshold_settings', 'editor', 'editor');
+SELECT public.apply_role_policies('health_profile_assignments', 'editor', 'editor');
+SELECT public.apply_role_policies('report_definitions', 'editor', 'editor');
+SELECT public.apply_role_policies('workflow_templates', 'editor', 'editor');
+SELECT public.apply_role_policies('announcements', 'editor', 'editor');
+SELECT public.apply_role_policies('resources', 'editor', 'editor');
+
+DROP FUNCTION public.apply_role_policies(TEXT, TEXT, TEXT);
+
+-- Every signed-in user's actions are logged; the log is append-only except for admins
+DO $$
+DECLARE
+  existing RECORD;
+BEGIN
+  FOR existing IN SELECT policyname FROM pg_policies WHERE schemaname = 'public' AND tablename = 'activity_log' LOOP
+    EXECUTE format('DROP POLICY %I ON public.activity_log', existing.policyname);
+  END LOOP;
+END $$;
+
+ALTER TABLE activity_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can read activity_log" ON activity_log
+    FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Signed-in users can log activity" ON activity_log
+    FOR INSERT TO authenticated WITH CHECK (public.current_user_role() IS NOT NULL);
+
+CREATE POLICY "Admins can delete activity_log" ON activity_log
+    FOR DELETE TO authenticated USING (public.current_user_role() = 'admin');
+
+-- Report PDFs in storage follow report_outbox
+DROP POLICY IF EXISTS "Allow anonymous access to report-outbox files" ON storage.objects;
+
+CREATE POLICY "Signed-in users can read report-outbox files" ON storage.objects
+    FOR SELECT TO authenticated USING (bucket_id = 'report-outbox');
+
+CREATE POLICY "Editors can add report-outbox files" ON storage.objects
+    FOR INSERT TO authenticated
+    WITH CHECK (bucket_id = 'report-outbox' AND public.current_user_role() IN ('editor', 'admin'));
+
+CREATE POLICY "Admins can delete report-outbox files" ON storage.objects
+    FOR DELETE TO authenticated
+    USING (bucket_id = 'report-outbox' AND public.current_user_role() = 'admin');
@@ -0,0 +1,28 @@
+-- Scheduled report runs: record whether the last run succeeded, so a failed run is
+-- retried instead of skipped, and schedule the run-scheduled-reports edge function.
+
+ALTER TABLE report_definitions
+  ADD COLUMN IF NOT EXISTS last_run_status TEXT DEFAULT NULL CHECK (last_run_status IN ('succeeded', 'failed')),
+  ADD COLUMN IF NOT EXISTS failed_attempts INTEGER NOT NULL DEFAULT 0;
+
+-- Hourly trigger, replacing the commented-out one in the report_definitions migration.
+--
+-- Requires two Vault secrets, created once per project:
+--   SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service role key>', 'service_role_key');
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'run-scheduled-reports',
+  '5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/run-scheduled-reports',
+    headers := jsonb_build_object(
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    )
+  );
+  $$
+);
@@ -0,0 +1,93 @@
+-- Task comments: ownership-based row level security and per-user comment summaries
+-- Replaces the open policies with ones that enforce what the app checks:
+--   * signed-in users can read every comment and post their own
+--   * only the author can edit a comment
+--   * the author or an admin can delete it
+-- Comment read markers belong to one user each and are only visible to that user.
+-- created_by and user_id are TEXT columns holding the auth user ID.
+
+-- Comments and read markers written before Supabase Auth carry the old user IDs
+-- (e.g. 'user-ben'). Move them onto the linked account so their authors keep
+-- edit/delete rights and their read markers stay visible under the policies below.
+UPDATE priority_comments c
+SET created_by = p.id::text
+FROM profiles p
+WHERE p.legacy_user_id IS NOT NULL AND c.created_by = p.legacy_user_id;
+
+UPDATE priority_comment_reads r
+SET user_id = p.id::text
+FROM profiles p
+WHERE p.legacy_user_id IS NOT NULL AND r.user_id = p.legacy_user_id
+  AND NOT EXISTS (
+    SELECT 1 FROM priority_comment_reads existing
+    WHERE existing.user_id = p.id::text
+      AND existing.task_client_name IS NOT DISTINCT FROM r.task_client_name
+      AND existing.task_created_at = r.task_created_at
+  );
+
+DO $$
+DECLARE
+  existing RECORD;
+BEGIN
+  FOR existing IN
+    SELECT tablename, policyname FROM pg_policies
+    WHERE schemaname = 'public' AND tablename IN ('priority_comments', 'priority_comment_reads')
+  LOOP
+    EXECUTE format('DROP POLICY %I ON public.%I', existing.policyname, existing.tablename);
+  END LOOP;
+END $$;
+
+ALTER TABLE priority_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can read priority_comments" ON priority_comments
+    FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Users can post their own comments" ON priority_comments
+    FOR INSERT TO authenticated
+    WITH CHECK (created_by = auth.uid()::text AND public.current_user_role() IS NOT NULL);
+
+CREATE POLICY "Users can edit their own comments" ON priority_comments
+    FOR UPDATE TO authenticated
+    USING (created_by = auth.uid()::text)
+    WITH CHECK (created_by = auth.uid()::text);
+
+CREATE POLICY "Users can delete their own comments, admins any" ON priority_comments
+    FOR DELETE TO authenticated
+    USING (created_by = auth.uid()::text OR public.current_user_role() = 'admin');
+
+ALTER TABLE priority_comment_reads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage their own comment read markers" ON priority_comment_reads
+    FOR ALL TO authenticated
+    USING (user_id = auth.uid()::text)
+    WITH CHECK (user_id = auth.uid()::text);
+
+-- Comment, unread and unread-mention counts per task for the signed-in user, so task
+-- lists load one row per commented task instead of every comment. Runs with the
+-- caller's rights, so the policies above apply.
+CREATE OR REPLACE FUNCTION public.get_task_comment_summaries()
+RETURNS TABLE (
+  task_client_name TEXT,
+  task_created_at TIMESTAMP WITH TIME ZONE,
+  comment_count INTEGER,
+  unread_count INTEGER,
+  unread_mention_count INTEGER
+) AS $$
+  SELECT
+    c.task_client_name,
+    c.task_created_at,
+    COUNT(*)::INTEGER,
+    COUNT(*) FILTER (WHERE unread.is_unread)::INTEGER,
+    COUNT(*) FILTER (WHERE unread.is_unread AND auth.uid()::text = ANY (c.mentions))::INTEGER
+  FROM priority_comments c
+  LEFT JOIN priority_comment_reads r
+    ON r.user_id = auth.uid()::text
+   AND r.task_client_name IS NOT DISTINCT FROM c.task_client_name
+   AND r.task_created_at = c.task_created_at
+  CROSS JOIN LATERAL (
+    SELECT c.created_by IS DISTINCT FROM auth.uid()::text
+       AND (r.last_read_at IS NULL OR c.created_at > r.last_read_at) AS is_unread
+  ) unread
+  WHERE c.task_created_at IS NOT NULL
+  GROUP BY c.task_client_name, c.task_created_at;
+$$ LANGUAGE sql STABLE SET search_path = public;
@@ -0,0 +1,37 @@
+-- Backfill for the campaigns dimension table
+-- Uploads only parse the campaigns they contain, so names uploaded before the table
+-- existed have no row. Parsing lives in TypeScript (src/utils/campaignNameParsing.ts),
+-- so the backfill runs in the sync-campaigns edge function: once now, then nightly,
+-- which also re-parses every name after parser changes.
+--
+-- Requires two Vault secrets, created once per project:
+--   SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service role key>', 'service_role_key');
+-- and the sync-campaigns function deployed. The immediate backfill is skipped when the
+-- secrets aren't there yet, and if the function wasn't deployed when this ran, the
+-- nightly job backfills instead (or run the SELECT net.http_post below by hand).
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT net.http_post(
+  url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/sync-campaigns',
+  headers := jsonb_build_object(
+    'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+  )
+)
+WHERE EXISTS (SELECT 1 FROM vault.decrypted_secrets WHERE name = 'project_url')
+  AND EXISTS (SELECT 1 FROM vault.decrypted_secrets WHERE name = 'service_role_key');
+
+SELECT cron.schedule(
+  'sync-campaigns',
+  '40 3 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/sync-campaigns',
+    headers := jsonb_build_object(
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    )
+  );
+  $$
+);
@@ -0,0 +1,45 @@
+-- Saved views: ownership-based row level security
+-- Replaces the open policies with ones that enforce what the app checks:
+--   * personal views are only visible to their owner; shared views to every signed-in user
+--   * users save views as themselves
+--   * the owner or an admin can change or delete a view
+-- Each user's default view row is only visible to and changeable by that user.
+-- owner_id and user_id are TEXT columns holding the auth user ID.
+
+DO $$
+DECLARE
+  existing RECORD;
+BEGIN
+  FOR existing IN
+    SELECT tablename, policyname FROM pg_policies
+    WHERE schemaname = 'public' AND tablename IN ('saved_views', 'saved_view_defaults')
+  LOOP
+    EXECUTE format('DROP POLICY %I ON public.%I', existing.policyname, existing.tablename);
+  END LOOP;
+END $$;
+
+ALTER TABLE saved_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read shared views and their own" ON saved_views
+    FOR SELECT TO authenticated
+    USING (visibility = 'shared' OR owner_id = auth.uid()::text);
+
+CREATE POLICY "Users can save their own views" ON saved_views
+    FOR INSERT TO authenticated
+    WITH CHECK (owner_id = auth.uid()::text AND public.current_user_role() IS NOT NULL);
+
+CREATE POLICY "Users can change their own views, admins shared ones" ON saved_views
+    FOR UPDATE TO authenticated
+    USING (owner_id = auth.uid()::text OR (visibility = 'shared' AND public.current_user_role() = 'admin'))
+    WITH CHECK (owner_id = auth.uid()::text OR public.current_user_role() = 'admin');
+
+CREATE POLICY "Users can delete their own views, admins shared ones" ON saved_views
+    FOR DELETE TO authenticated
+    USING (owner_id = auth.uid()::text OR (visibility = 'shared' AND public.current_user_role() = 'admin'));
+
+ALTER TABLE saved_view_defaults ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage their own default view" ON saved_view_defaults
+    FOR ALL TO authenticated
+    USING (user_id = auth.uid()::text)
+    WITH CHECK (user_id = auth.uid()::text);
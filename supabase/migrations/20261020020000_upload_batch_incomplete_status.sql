@@ -0,0 +1,9 @@
+-- Upload ledger: batches whose overwritten rows were not all recorded
+-- A batch is written as 'incomplete' and only becomes 'active' once every
+-- upload_batch_rows chunk is in, so a batch with a partial ledger is never
+-- rolled back (that would drop the rows it failed to record).
+
+ALTER TABLE upload_batches DROP CONSTRAINT IF EXISTS upload_batches_status_check;
+
+ALTER TABLE upload_batches ADD CONSTRAINT upload_batches_status_check
+  CHECK (status IN ('active', 'incomplete', 'rolled_back'));
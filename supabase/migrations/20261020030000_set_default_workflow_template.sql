@@ -0,0 +1,23 @@
+-- Makes a workflow template the default for its kind. The old default is demoted in
+-- the same transaction, so a failed promotion never leaves a kind without one.
+-- Runs with the caller's rights, so the workflow_templates policies apply.
+CREATE OR REPLACE FUNCTION public.set_default_workflow_template(p_template_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_kind TEXT;
+BEGIN
+  SELECT kind INTO v_kind FROM workflow_templates WHERE id = p_template_id;
+  IF v_kind IS NULL THEN
+    RAISE EXCEPTION 'Workflow template % not found', p_template_id;
+  END IF;
+
+  -- Two statements: workflow_templates_default_unique is checked row by row
+  UPDATE workflow_templates
+  SET is_default = false
+  WHERE kind = v_kind AND is_default AND id <> p_template_id;
+
+  UPDATE workflow_templates
+  SET is_default = true
+  WHERE id = p_template_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;